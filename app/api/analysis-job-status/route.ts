@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { computeBackend } from '@/lib/compute-backend';
 
 export const runtime = 'nodejs';
 
@@ -14,32 +15,17 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const runpodEndpoint = process.env.RUNPOD_ENDPOINT_ID;
-    const runpodApiKey = process.env.RUNPOD_API_KEY;
-
-    if (!runpodEndpoint || !runpodApiKey) {
+    if (!computeBackend.isConfigured()) {
       throw new Error('RunPod configuration missing');
     }
 
-    // Poll RunPod status endpoint
-    const response = await fetch(`https://api.runpod.ai/v2/${runpodEndpoint}/status/${jobId}`, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${runpodApiKey}`,
-      }
-    });
+    // Poll the job's status on the compute backend
+    const statusData = await computeBackend.status(jobId);
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`RunPod status API Error:`, {
-        status: response.status,
-        response: errorText
-      });
-      throw new Error(`RunPod status check failed: ${response.status}`);
+    if (!statusData) {
+      throw new Error('RunPod status check failed: 404');
     }
 
-    const statusData = await response.json();
-
     // Parse the status response
     const status = statusData.status; // IN_QUEUE, IN_PROGRESS, COMPLETED, FAILED, CANCELLED, TIMED_OUT
     const output = statusData.output;
@@ -105,8 +91,10 @@ export async function GET(request: NextRequest) {
     if (status === 'COMPLETED') {
       overallStatus = 'completed';
       progress = 100;
-    } else if (status === 'FAILED' || status === 'CANCELLED' || status === 'TIMED_OUT') {
+    } else if (status === 'FAILED' || status === 'TIMED_OUT') {
       overallStatus = 'failed';
+    } else if (status === 'CANCELLED') {
+      overallStatus = 'cancelled';
     } else if (status === 'IN_QUEUE') {
       overallStatus = 'queued';
       currentStage = 'Waiting in queue...';
@@ -1,17 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { S3Client, DeleteObjectCommand, ListObjectsV2Command } from '@aws-sdk/client-s3';
+import { storage } from '@/lib/storage';
+import { videoPrefix } from '@/lib/storage-keys';
 
-const r2Client = new S3Client({
-  region: 'auto',
-  endpoint: process.env.R2_ENDPOINT_URL,
-  credentials: {
-    accessKeyId: process.env.R2_ACCESS_KEY_ID!,
-    secretAccessKey: process.env.R2_SECRET_ACCESS_KEY!,
-  },
-});
-
-const BUCKET_NAME = process.env.R2_BUCKET_NAME!;
-const R2_ENVIRONMENT = process.env.R2_ENVIRONMENT || 'dev';
 
 export async function DELETE(request: NextRequest) {
   try {
@@ -27,30 +17,15 @@ export async function DELETE(request: NextRequest) {
     }
 
     // List all files in the video folder
-    const listCommand = new ListObjectsV2Command({
-      Bucket: BUCKET_NAME,
-      Prefix: `${R2_ENVIRONMENT}/${userId}/${videoId}/`,
-      MaxKeys: 100,
-    });
+    const objects = await storage.list(videoPrefix(userId, videoId), { maxKeys: 100 });
 
-    const response = await r2Client.send(listCommand);
-    
-    if (response.Contents) {
-      // Delete all analysis files (keep only video files)
-      const filesToDelete = response.Contents.filter(obj => 
-        obj.Key && 
-        !obj.Key.includes('/video.') // Keep video files, delete analysis files
-      );
+    // Delete all analysis files (keep only video files)
+    const filesToDelete = objects.filter(obj => 
+      !obj.key.includes('/video.') // Keep video files, delete analysis files
+    );
 
-      for (const file of filesToDelete) {
-        if (file.Key) {
-          const deleteCommand = new DeleteObjectCommand({
-            Bucket: BUCKET_NAME,
-            Key: file.Key,
-          });
-          await r2Client.send(deleteCommand);
-        }
-      }
+    for (const file of filesToDelete) {
+      await storage.delete(file.key);
     }
 
     return NextResponse.json({ 
@@ -1,35 +1,27 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSessionFiles } from '@/lib/r2';
-import { S3Client, GetObjectCommand } from '@aws-sdk/client-s3';
-
-const r2Client = new S3Client({
-  region: 'auto',
-  endpoint: process.env.R2_ENDPOINT_URL,
-  credentials: {
-    accessKeyId: process.env.R2_ACCESS_KEY_ID!,
-    secretAccessKey: process.env.R2_SECRET_ACCESS_KEY!,
-  },
-});
-
-const BUCKET_NAME = process.env.R2_BUCKET_NAME!;
-// const R2_ENVIRONMENT = process.env.R2_ENVIRONMENT || 'dev';
+import { requireVideoAccess } from '@/lib/video-access';
+import { getFileStreamUrl } from '@/lib/file-tokens';
+import { readObjectText } from '@/lib/storage';
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('userId');
     const videoId = searchParams.get('videoId');
     const step = searchParams.get('step');
 
-    if (!userId || !videoId || !step) {
+    if (!videoId || !step) {
       return NextResponse.json(
         { error: 'Missing required parameters' },
         { status: 400 }
       );
     }
 
+    const access = await requireVideoAccess(videoId);
+    if (access instanceof Response) return access;
+
     // Get all files for this video session
-    const files = await getSessionFiles(userId, videoId);
+    const files = await getSessionFiles(access.ownerId, videoId);
     
     if (step === 'calibration') {
       // Look for calibration summary file
@@ -38,13 +30,7 @@ export async function GET(request: NextRequest) {
       if (summaryFile) {
         try {
           // Fetch the summary data
-          const command = new GetObjectCommand({
-            Bucket: BUCKET_NAME,
-            Key: summaryFile.key,
-          });
-          
-          const response = await r2Client.send(command);
-          const summaryText = await response.Body?.transformToString();
+          const summaryText = await readObjectText(summaryFile.key);
           const summary = summaryText ? JSON.parse(summaryText) : null;
 
           // Get download URLs for calibration files
@@ -54,7 +40,7 @@ export async function GET(request: NextRequest) {
             f.fileName === 'calibration_summary.json'
           ).map(f => ({
             name: f.fileName,
-            url: `/api/file-stream?key=${encodeURIComponent(f.key)}`
+            url: getFileStreamUrl(f.key)
           }));
 
           // Look for additional calibration data files
@@ -83,7 +69,7 @@ export async function GET(request: NextRequest) {
             error: 'Failed to read calibration results',
             files: files.filter(f => f.fileType === 'analysis').map(f => ({
               name: f.fileName,
-              url: `/api/file-stream?key=${encodeURIComponent(f.key)}`
+              url: getFileStreamUrl(f.key)
             }))
           });
         }
@@ -91,7 +77,7 @@ export async function GET(request: NextRequest) {
         // No summary file found, just return file list
         const analysisFiles = files.filter(f => f.fileType === 'analysis').map(f => ({
           name: f.fileName,
-          url: `/api/file-stream?key=${encodeURIComponent(f.key)}`
+          url: getFileStreamUrl(f.key)
         }));
 
         return NextResponse.json({
@@ -105,7 +91,7 @@ export async function GET(request: NextRequest) {
     // For other steps, return basic file info
     const stepFiles = files.filter(f => f.fileType === 'analysis').map(f => ({
       name: f.fileName,
-      url: `/api/file-stream?key=${encodeURIComponent(f.key)}`
+      url: getFileStreamUrl(f.key)
     }));
 
     return NextResponse.json({
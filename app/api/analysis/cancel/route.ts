@@ -0,0 +1,184 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import {
+  getProcessingJob,
+  getProcessingJobsForVideo,
+  updateJobStatus,
+  ProcessingJob,
+} from '@/lib/processing-jobs';
+import { cancelRunPodJob } from '@/lib/runpod-health';
+import { webhookStore } from '@/lib/webhook-store';
+import { cancelQueuedJob, dispatchQueuedJobs } from '@/lib/job-queue';
+import { requireVideoAccess } from '@/lib/video-access';
+import { logError, logJobInfo, logSuccess, logWarn } from '@/lib/logger';
+
+export const runtime = 'nodejs';
+
+const FINISHED_STATUSES: ProcessingJob['status'][] = ['completed', 'failed', 'worker_died', 'cancelled', 'timed_out'];
+
+/**
+ * POST /api/analysis/cancel
+ *
+ * Cancel a queued or running analysis job
+ * Request body: { videoId: string, jobId: string }
+ *
+ * This endpoint will:
+ * 1. Cancel the job on RunPod (unless it is still waiting in our queue)
+ * 2. Mark the processing_jobs record as cancelled
+ * 3. Send a cancelled event to SSE clients following the job
+ * 4. Refund the video's usage minutes, unless it has been analyzed before or
+ *    RunPod doesn't know the job. The refund is recorded on the video and
+ *    POST /api/analysis charges it again if the video is re-analyzed
+ *
+ * Only jobs with a processing_jobs record can be cancelled; the RunPod job ID
+ * always comes from that record.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { videoId, jobId } = body;
+
+    if (!videoId || !jobId) {
+      return NextResponse.json(
+        { error: 'Missing required fields: videoId, jobId' },
+        { status: 400 }
+      );
+    }
+
+    const access = await requireVideoAccess(videoId);
+    if (access instanceof Response) return access;
+    const userId = access.ownerId;
+
+    const job = await getProcessingJob(jobId, createAdminClient());
+
+    if (!job || job.video_id !== videoId || job.user_id !== userId) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    if (FINISHED_STATUSES.includes(job.status)) {
+      return NextResponse.json(
+        { error: 'Job is no longer running', status: job.status },
+        { status: 409 }
+      );
+    }
+
+    const runpodJobId = job.runpod_job_id ?? undefined;
+    let runpodStatus: string | undefined;
+    let cancelledInQueue = false;
+
+    if (!job.dispatched_at) {
+      // Still waiting in our queue, so never sent to RunPod. Only cancel it
+      // if a dispatcher hasn't claimed it in the meantime.
+      if (!(await cancelQueuedJob(jobId, 'Cancelled by user'))) {
+        return NextResponse.json(
+          { error: 'Job is being submitted to RunPod, try again shortly' },
+          { status: 409 }
+        );
+      }
+      cancelledInQueue = true;
+    } else if (!runpodJobId) {
+      return NextResponse.json(
+        { error: 'Job is being submitted to RunPod, try again shortly' },
+        { status: 409 }
+      );
+    } else {
+      const cancelResult = await cancelRunPodJob(runpodJobId);
+
+      if (!cancelResult.cancelled) {
+        logError('Failed to cancel RunPod job', { jobId, runpodJobId, error: cancelResult.errorMessage });
+        return NextResponse.json(
+          { error: 'Failed to cancel job', details: cancelResult.errorMessage },
+          { status: 502 }
+        );
+      }
+
+      if (cancelResult.runpodStatus === 'COMPLETED') {
+        return NextResponse.json(
+          { error: 'Job is no longer running', status: 'completed' },
+          { status: 409 }
+        );
+      }
+
+      runpodStatus = cancelResult.runpodStatus;
+    }
+
+    // Usage is charged once per video at upload. Give it back if the video
+    // never got a finished analysis; refund_video_usage records the minutes
+    // on the video so the next analysis is charged for them.
+    const previousJobs = await getProcessingJobsForVideo(userId, videoId);
+    const alreadyAnalyzed = previousJobs.some(previous => previous.status === 'completed');
+
+    let billing: Record<string, unknown>;
+    if (alreadyAnalyzed) {
+      billing = { usage_refunded: false, reason: 'Video was already analyzed' };
+    } else if (runpodStatus === 'NOT_FOUND') {
+      // Nothing was stopped, so there is nothing to give back
+      billing = { usage_refunded: false, reason: 'RunPod has no such job' };
+    } else {
+      const { data: refund, error: refundError } = await createAdminClient()
+        .rpc('refund_video_usage', {
+          p_user_id: userId,
+          p_video_id: videoId,
+        });
+
+      if (refundError) {
+        logError('Failed to refund video usage', refundError);
+        billing = { usage_refunded: false, reason: 'Refund failed', error: refundError.message };
+      } else {
+        billing = { usage_refunded: true, minutes_refunded: Number(refund?.minutes_refunded ?? 0) };
+      }
+    }
+
+    await updateJobStatus({
+      jobId,
+      status: cancelledInQueue ? undefined : 'cancelled',
+      error: cancelledInQueue ? undefined : 'Cancelled by user',
+      billing: { ...(job.billing || {}), cancellation: billing },
+    }, createAdminClient());
+
+    // Let open SSE connections know, on every instance
+    try {
+      await webhookStore.addUpdate(jobId, {
+        step: job.current_step ?? undefined,
+        status: 'cancelled',
+        progress: job.progress,
+        stage: 'Analysis cancelled',
+      });
+    } catch (error) {
+      logWarn('Failed to store cancellation event', { jobId, error });
+    }
+
+    // The cancelled job's slot may let a queued one start
+    try {
+      await dispatchQueuedJobs();
+    } catch (error) {
+      logError('Failed to dispatch queued jobs', error);
+    }
+
+    logSuccess('Analysis job cancelled');
+    logJobInfo({
+      jobId,
+      runpodJobId,
+      userId,
+      videoId,
+      'RunPod Status': runpodStatus ?? 'not submitted',
+      'Usage Refunded': billing.usage_refunded ? `${billing.minutes_refunded} min` : 'no',
+    });
+
+    return NextResponse.json({
+      success: true,
+      jobId,
+      runpodJobId: runpodJobId ?? null,
+      status: 'cancelled',
+      usageRefunded: billing.usage_refunded,
+      minutesRefunded: billing.minutes_refunded ?? 0,
+    });
+
+  } catch (error) {
+    logError('Job cancellation failed', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel job', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { getProcessingJob } from '@/lib/processing-jobs';
+import { getQueueStatus } from '@/lib/job-queue';
+import { requireVideoAccess } from '@/lib/video-access';
+import { logError } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/analysis/queue?videoId=xxx&jobId=xxx
+ *
+ * Queue position of an analysis job and how many of the owner's
+ * concurrent job slots are in use
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const videoId = searchParams.get('videoId');
+    const jobId = searchParams.get('jobId');
+
+    if (!videoId || !jobId) {
+      return NextResponse.json(
+        { error: 'Missing required parameters: videoId, jobId' },
+        { status: 400 }
+      );
+    }
+
+    const access = await requireVideoAccess(videoId);
+    if (access instanceof Response) return access;
+
+    const job = await getProcessingJob(jobId, createAdminClient());
+
+    if (!job || job.video_id !== videoId || job.user_id !== access.ownerId) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(await getQueueStatus(job));
+  } catch (error) {
+    logError('Queue status check failed', error);
+    return NextResponse.json(
+      { error: 'Failed to get queue status', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,57 +1,139 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getSignedVideoUrl, getUserVideos } from '@/lib/r2';
-import { logJobInfo, logSuccess, logError, logDebug } from '@/lib/logger';
+import { createAdminClient } from '@/lib/supabase/server';
+import { logJobInfo, logSuccess, logError, logDebug, logWarn } from '@/lib/logger';
+import { requireVideoAccess } from '@/lib/video-access';
+import { getUserVideo } from '@/lib/video-library';
+import { isUploadKeyOf } from '@/lib/storage-keys';
+import { getProcessingJob, ProcessingJob } from '@/lib/processing-jobs';
+import { computeBackend } from '@/lib/compute-backend';
+import {
+  dispatchQueuedJobs,
+  enqueueAnalysisJob,
+  getActiveJobForVideo,
+  getJobByIdempotencyKey,
+  getQueueStatus,
+  withdrawQueuedJob,
+} from '@/lib/job-queue';
 
 export const runtime = 'nodejs';
 export const maxDuration = 300; // 5 minutes (Vercel Hobby plan limit)
 
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+/**
+ * POST /api/analysis
+ *
+ * Queue a unified analysis of a video
+ * Request body: { videoId: string }
+ *
+ * Submitting is idempotent: a request with an `Idempotency-Key` header the
+ * user has sent before gets that request's job back (with an
+ * `Idempotent-Replayed: true` header), and a video that already has a
+ * queued or running job gets that job instead of a new one.
+ */
 export async function POST(request: NextRequest) {
   try {
     logDebug('/api/unified-analysis called');
     const body = await request.json();
-    const { userId, videoId } = body;
+    const { videoId } = body;
+    const idempotencyKey = request.headers.get('idempotency-key')?.trim() || undefined;
 
-    logDebug('Request body', { userId, videoId });
+    logDebug('Request body', { videoId, idempotencyKey });
 
-    if (!userId || !videoId) {
-      logError('Missing userId or videoId');
+    if (idempotencyKey && idempotencyKey.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
       return NextResponse.json(
-        { error: 'Missing required fields: userId and videoId' },
+        { error: `Idempotency-Key must be at most ${MAX_IDEMPOTENCY_KEY_LENGTH} characters` },
         { status: 400 }
       );
     }
 
-    // Find the video file
-    const videos = await getUserVideos(userId);
-    logDebug(`Found ${videos.length} videos for user`, { videoId, available: videos.map(v => v.videoId) });
+    if (!videoId) {
+      logError('Missing videoId');
+      return NextResponse.json(
+        { error: 'Missing required field: videoId' },
+        { status: 400 }
+      );
+    }
 
-    const video = videos.find(v => v.videoId === videoId);
+    const access = await requireVideoAccess(videoId);
+    if (access instanceof Response) return access;
+    const userId = access.ownerId;
+
+    if (idempotencyKey) {
+      const keyedJob = await getJobByIdempotencyKey(userId, idempotencyKey);
+
+      if (keyedJob) {
+        if (keyedJob.video_id !== videoId) {
+          return NextResponse.json(
+            { error: 'Idempotency-Key was already used for a different video' },
+            { status: 422 }
+          );
+        }
+
+        if (keyedJob.status === 'failed') {
+          return NextResponse.json(
+            {
+              error: 'The analysis submitted with this Idempotency-Key failed; retry with a new key',
+              jobId: keyedJob.job_id,
+              status: keyedJob.status,
+              details: keyedJob.last_error,
+            },
+            { status: 409, headers: { 'Idempotent-Replayed': 'true' } }
+          );
+        }
+
+        logDebug('Idempotent replay', { videoId, jobId: keyedJob.job_id, idempotencyKey });
+        return existingJobResponse(keyedJob, { replayed: true });
+      }
+    }
+
+    // Find the video file
+    const video = await getUserVideo(userId, videoId, createAdminClient());
 
     if (!video) {
-      logError('Video not found', { videoId, available: videos.map(v => v.videoId) });
+      logError('Video not found', { videoId, userId });
       return NextResponse.json(
-        { error: `Video not found. Available video IDs: ${videos.map(v => v.videoId).join(', ')}` },
+        { error: 'Video not found' },
         { status: 404 }
       );
     }
 
-    // Get signed video URL for RunPod service
-    const signedVideoUrl = await getSignedVideoUrl(video.key);
-    logDebug('Generated signed video URL', { videoId });
-
-    // Call RunPod unified analysis service
-    const runpodEndpoint = process.env.RUNPOD_ENDPOINT_ID;
-    const runpodApiKey = process.env.RUNPOD_API_KEY;
+    // r2_key is user-editable; only the video's own upload is sent to the worker
+    if (!isUploadKeyOf(video.r2_key, userId, videoId)) {
+      logError('Video has an invalid storage key', { videoId, userId, key: video.r2_key });
+      return NextResponse.json(
+        { error: 'Video storage key is invalid' },
+        { status: 422 }
+      );
+    }
 
-    if (!runpodEndpoint || !runpodApiKey) {
-      throw new Error('RunPod unified analysis configuration missing. Please set RUNPOD_ENDPOINT_ID and RUNPOD_API_KEY environment variables.');
+    // A double-click or second tab gets the job that's already queued or running
+    const existingJob = await getActiveJobForVideo(userId, videoId);
+    if (existingJob) {
+      logDebug('Analysis already in progress', { videoId, jobId: existingJob.job_id });
+      return existingJobResponse(existingJob, { replayed: false });
     }
 
-    // Create internal job ID BEFORE sending to RunPod
-    const internalJobId = `unified-${videoId}-${Date.now()}`;
+    // If a cancelled analysis refunded the video's minutes, this one pays them
+    // again; video_usage_refunds is service-role only, so the rpc does the lookup
+    const { data: recharge, error: rechargeError } = await createAdminClient()
+      .rpc('recharge_video_usage', {
+        p_user_id: userId,
+        p_video_id: videoId,
+      });
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 1200000); // 20 minutes timeout
+    if (rechargeError) {
+      logError('Failed to charge refunded usage', { videoId, error: rechargeError });
+      return NextResponse.json(
+        { error: 'Could not charge usage for this analysis', details: rechargeError.message },
+        { status: 402 }
+      );
+    }
+
+    const recharged = !!recharge?.charged;
+    if (recharged) {
+      logDebug('Charged refunded usage', { videoId, minutes: recharge.minutes_charged });
+    }
 
     // Construct webhook URL for real-time updates
     const webhookUrl = process.env.NEXT_PUBLIC_APP_URL
@@ -60,78 +142,72 @@ export async function POST(request: NextRequest) {
 
     logDebug('Webhook configured', { webhookUrl });
 
-    let response;
+    // Queue the job; it goes to RunPod once the user has a free slot
+    const internalJobId = `unified-${videoId}-${Date.now()}`;
     try {
-      // Use async endpoint for better progress tracking with webhook support
-      response = await fetch(`https://api.runpod.ai/v2/${runpodEndpoint}/run`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${runpodApiKey}`,
-        },
-        body: JSON.stringify({
-          input: {
-            video_url: signedVideoUrl,
-            user_id: userId,
-            session_id: videoId,
-            webhook_url: webhookUrl,
-            job_id: internalJobId  // Pass internal job ID to Python
-          }
-        })
+      await enqueueAnalysisJob({
+        jobId: internalJobId,
+        userId,
+        videoId,
+        videoKey: video.r2_key,
+        webhookUrl,
+        input: { session_id: videoId },
+        idempotencyKey,
       });
-      clearTimeout(timeoutId);
     } catch (error) {
-      clearTimeout(timeoutId);
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw new Error('Unified analysis timed out after 20 minutes');
+      // A concurrent request with the same key inserted first
+      const keyedJob = idempotencyKey ? await getJobByIdempotencyKey(userId, idempotencyKey) : null;
+      if (!keyedJob) {
+        if (recharged) await refundRecharge(userId, videoId);
+        throw error;
       }
-      throw error;
+      return existingJobResponse(keyedJob, { replayed: true });
     }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      logError('RunPod API request failed', {
-        status: response.status,
-        statusText: response.statusText,
-        endpoint: runpodEndpoint,
-        response: errorText,
-      });
-
-      if (response.status === 404) {
-        throw new Error(`RunPod endpoint not found. Please check your RUNPOD_ENDPOINT_ID (${runpodEndpoint}) is correct and the serverless endpoint is deployed.`);
-      } else if (response.status === 401) {
-        throw new Error(`RunPod authentication failed. Please check your RUNPOD_API_KEY is correct.`);
-      } else {
-        throw new Error(`RunPod service error: ${response.status} - ${errorText || response.statusText}`);
+    // Two submissions may both have passed the check above; the older job
+    // wins and the newer one leaves the queue before it can be dispatched
+    const activeJob = await getActiveJobForVideo(userId, videoId);
+    if (activeJob && activeJob.job_id !== internalJobId) {
+      if (await withdrawQueuedJob(internalJobId)) {
+        logDebug('Withdrew duplicate submission', { videoId, jobId: internalJobId, activeJobId: activeJob.job_id });
+        return existingJobResponse(activeJob, { replayed: false });
       }
+      logWarn('Duplicate submission was dispatched before it could be withdrawn', {
+        videoId,
+        jobId: internalJobId,
+        activeJobId: activeJob.job_id,
+      });
     }
 
-    const runpodResult = await response.json();
+    await dispatchQueuedJobs();
 
-    // Async endpoint returns job ID immediately
-    if (!runpodResult.id) {
-      throw new Error(`Invalid RunPod response: ${JSON.stringify(runpodResult)}`);
+    const job = await getProcessingJob(internalJobId, createAdminClient());
+    if (!job) {
+      throw new Error(`Queued job ${internalJobId} not found`);
     }
 
-    const runpodJobId = runpodResult.id;
-    const status = runpodResult.status;
+    const queue = await getQueueStatus(job);
+
+    if (job.status === 'failed') {
+      throw new Error(job.last_error || 'Failed to submit job to RunPod');
+    }
 
-    logSuccess('Job submitted to RunPod');
-    logDebug('Python worker will create Supabase record on job start');
+    logSuccess(queue.waiting ? 'Job queued' : 'Job submitted to RunPod');
     logJobInfo({
       jobId: internalJobId,
-      runpodJobId,
+      runpodJobId: queue.runpodJobId ?? undefined,
       userId,
       videoId,
-      status,
+      status: job.status,
+      'Queue Position': queue.queuePosition ?? undefined,
     });
 
     return NextResponse.json({
       success: true,
-      jobId: internalJobId,
-      runpodJobId,
-      status: status,
-      message: 'Analysis job started. Python worker will create database record.',
+      ...queue,
+      message: queue.waiting
+        ? `Analysis queued (position ${queue.queuePosition}). It starts when one of your ${queue.maxConcurrentJobs} analysis slots is free.`
+        : 'Analysis job started.',
       webhookUrl,
     });
 
@@ -169,19 +245,55 @@ export async function POST(request: NextRequest) {
   }
 }
 
+/**
+ * Give back a recharge when no job was queued for it. The refund records the
+ * minutes as owed again, so the next submission is charged.
+ */
+async function refundRecharge(userId: string, videoId: string) {
+  const { error } = await createAdminClient()
+    .rpc('refund_video_usage', {
+      p_user_id: userId,
+      p_video_id: videoId,
+    });
+
+  if (error) {
+    logError('Failed to refund usage for an analysis that was not queued', { videoId, error });
+  }
+}
+
+/**
+ * Response for a submission that maps onto an existing job
+ */
+async function existingJobResponse(job: ProcessingJob, { replayed }: { replayed: boolean }) {
+  const queue = await getQueueStatus(job);
+  const active = job.status === 'queued' || job.status === 'running';
+
+  return NextResponse.json(
+    {
+      success: true,
+      duplicate: true,
+      ...queue,
+      message: active
+        ? 'Analysis is already queued or running for this video.'
+        : `Analysis was already submitted (${job.status}).`,
+    },
+    { headers: replayed ? { 'Idempotent-Replayed': 'true' } : undefined }
+  );
+}
+
 export async function GET() {
   // Health check endpoint
   try {
-    const runpodEndpoint = process.env.RUNPOD_ENDPOINT_ID;
-    const runpodApiKey = process.env.RUNPOD_API_KEY;
-    
-    const configured = !!(runpodEndpoint && runpodApiKey);
+    const configured = computeBackend.isConfigured();
+    const health = configured ? await computeBackend.health() : null;
 
     return NextResponse.json({
       status: 'healthy',
       service: 'unified-analysis',
+      backend: computeBackend.name,
       configured,
-      service_status: configured ? 'ready' : 'not_configured',
+      service_status: !configured ? 'not_configured' : health?.healthy ? 'ready' : 'unavailable',
+      backend_health: health,
       timestamp: new Date().toISOString()
     });
   } catch {
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { getAnalyticsSummary } from '@/lib/analytics';
+
+export const runtime = 'nodejs';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// GET - Dashboard totals and per-player trends, optionally filtered by date range and player
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+    const playerId = searchParams.get('playerId');
+
+    if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+      return NextResponse.json({ error: 'Dates must be YYYY-MM-DD' }, { status: 400 });
+    }
+
+    if (from && to && from > to) {
+      return NextResponse.json({ error: 'Start date must be before end date' }, { status: 400 });
+    }
+
+    const summary = await getAnalyticsSummary(user.id, { from, to, playerId });
+
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error('Error fetching analytics:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { ANNOTATION_SELECT, MAX_ANNOTATION_BODY, sanitizeTags, toAnnotationReply } from '@/lib/annotations';
+
+// PATCH - Edit the text, tags, timestamp or share visibility of an annotation
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ annotationId: string }> }
+) {
+  try {
+    const { annotationId } = await params;
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const updates: Record<string, string | string[] | number | boolean> = {};
+
+    if (body.body !== undefined) {
+      if (typeof body.body !== 'string' || body.body.trim().length > MAX_ANNOTATION_BODY) {
+        return NextResponse.json({ error: 'Invalid comment' }, { status: 400 });
+      }
+      updates.body = body.body.trim();
+    }
+
+    if (body.tags !== undefined) {
+      updates.tags = sanitizeTags(body.tags);
+    }
+
+    if (body.timeSeconds !== undefined) {
+      if (typeof body.timeSeconds !== 'number' || !Number.isFinite(body.timeSeconds) || body.timeSeconds < 0) {
+        return NextResponse.json({ error: 'Invalid timestamp' }, { status: 400 });
+      }
+      updates.time_seconds = Math.round(body.timeSeconds * 100) / 100;
+    }
+
+    if (body.showOnShare !== undefined) {
+      updates.show_on_share = body.showOnShare === true;
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({ error: 'No fields to update' }, { status: 400 });
+    }
+
+    // Timestamps and share visibility belong to the top-level annotation, not replies
+    const { data: existing } = await supabase
+      .from('video_annotations')
+      .select('parent_id')
+      .eq('id', annotationId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Annotation not found' }, { status: 404 });
+    }
+
+    if (existing.parent_id && (updates.time_seconds !== undefined || updates.show_on_share !== undefined || updates.tags !== undefined)) {
+      return NextResponse.json({ error: 'Replies can only change their text' }, { status: 400 });
+    }
+
+    const { data: annotation, error: updateError } = await supabase
+      .from('video_annotations')
+      .update(updates)
+      .eq('id', annotationId)
+      .eq('user_id', user.id)
+      .select(ANNOTATION_SELECT)
+      .single();
+
+    if (updateError || !annotation) {
+      // annotation_not_empty rejects clearing the last comment/tag/drawing
+      if (updateError?.code === '23514') {
+        return NextResponse.json({ error: 'An annotation needs a comment, tag or drawing' }, { status: 400 });
+      }
+      console.error('Error updating annotation:', updateError);
+      return NextResponse.json({ error: 'Failed to update annotation' }, { status: 500 });
+    }
+
+    return NextResponse.json({ annotation: toAnnotationReply(annotation) });
+  } catch (error) {
+    console.error('Error updating annotation:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE - Remove an annotation (its replies cascade)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ annotationId: string }> }
+) {
+  try {
+    const { annotationId } = await params;
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { error: deleteError } = await supabase
+      .from('video_annotations')
+      .delete()
+      .eq('id', annotationId)
+      .eq('user_id', user.id);
+
+    if (deleteError) {
+      console.error('Error deleting annotation:', deleteError);
+      return NextResponse.json({ error: 'Failed to delete annotation' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting annotation:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
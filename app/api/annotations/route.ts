@@ -0,0 +1,171 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import {
+  ANNOTATION_SELECT,
+  MAX_ANNOTATION_BODY,
+  buildAnnotationThreads,
+  sanitizeDrawing,
+  sanitizeTags,
+  toAnnotationReply,
+} from '@/lib/annotations';
+
+// GET - List a video's annotations as threads (?videoId=...)
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const videoId = searchParams.get('videoId');
+
+    if (!videoId) {
+      return NextResponse.json({ error: 'Video ID is required' }, { status: 400 });
+    }
+
+    const { data: rows, error } = await supabase
+      .from('video_annotations')
+      .select(ANNOTATION_SELECT)
+      .eq('user_id', user.id)
+      .eq('video_id', videoId);
+
+    if (error) {
+      console.error('Error fetching annotations:', error);
+      return NextResponse.json({ error: 'Failed to fetch annotations' }, { status: 500 });
+    }
+
+    return NextResponse.json({ annotations: buildAnnotationThreads(rows || []) });
+  } catch (error) {
+    console.error('Error in annotations API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Pin an annotation to { videoId, timeSeconds }, or reply to { parentId }
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const text = typeof body.body === 'string' ? body.body.trim() : '';
+
+    if (text.length > MAX_ANNOTATION_BODY) {
+      return NextResponse.json({ error: `Comments are limited to ${MAX_ANNOTATION_BODY} characters` }, { status: 400 });
+    }
+
+    // Replies: plain text on an existing top-level annotation, optionally written as a player
+    if (body.parentId) {
+      if (!text) {
+        return NextResponse.json({ error: 'Reply text is required' }, { status: 400 });
+      }
+
+      const { data: parent } = await supabase
+        .from('video_annotations')
+        .select('id, video_id, parent_id')
+        .eq('id', body.parentId)
+        .eq('user_id', user.id)
+        .single();
+
+      if (!parent) {
+        return NextResponse.json({ error: 'Annotation not found' }, { status: 404 });
+      }
+
+      if (parent.parent_id) {
+        return NextResponse.json({ error: 'Replies can only be added to top-level annotations' }, { status: 400 });
+      }
+
+      if (body.playerId) {
+        const { data: player } = await supabase
+          .from('players')
+          .select('id')
+          .eq('id', body.playerId)
+          .eq('user_id', user.id)
+          .single();
+
+        if (!player) {
+          return NextResponse.json({ error: 'Player not found' }, { status: 404 });
+        }
+      }
+
+      const { data: reply, error: insertError } = await supabase
+        .from('video_annotations')
+        .insert({
+          user_id: user.id,
+          video_id: parent.video_id,
+          parent_id: parent.id,
+          player_id: body.playerId || null,
+          body: text,
+        })
+        .select(ANNOTATION_SELECT)
+        .single();
+
+      if (insertError || !reply) {
+        console.error('Error creating reply:', insertError);
+        return NextResponse.json({ error: 'Failed to create reply' }, { status: 500 });
+      }
+
+      return NextResponse.json({ annotation: toAnnotationReply(reply) }, { status: 201 });
+    }
+
+    const { videoId, timeSeconds } = body;
+
+    if (!videoId) {
+      return NextResponse.json({ error: 'Video ID is required' }, { status: 400 });
+    }
+
+    if (typeof timeSeconds !== 'number' || !Number.isFinite(timeSeconds) || timeSeconds < 0) {
+      return NextResponse.json({ error: 'Invalid timestamp' }, { status: 400 });
+    }
+
+    const tags = sanitizeTags(body.tags);
+    const drawing = sanitizeDrawing(body.drawing);
+
+    if (!text && tags.length === 0 && !drawing) {
+      return NextResponse.json({ error: 'Add a comment, tag or drawing' }, { status: 400 });
+    }
+
+    const { data: video } = await supabase
+      .from('videos')
+      .select('video_id')
+      .eq('video_id', videoId)
+      .eq('user_id', user.id)
+      .is('deleted_at', null)
+      .single();
+
+    if (!video) {
+      return NextResponse.json({ error: 'Video not found' }, { status: 404 });
+    }
+
+    const { data: annotation, error: insertError } = await supabase
+      .from('video_annotations')
+      .insert({
+        user_id: user.id,
+        video_id: videoId,
+        time_seconds: Math.round(timeSeconds * 100) / 100,
+        body: text,
+        tags,
+        drawing,
+        show_on_share: body.showOnShare === true,
+      })
+      .select(ANNOTATION_SELECT)
+      .single();
+
+    if (insertError || !annotation) {
+      console.error('Error creating annotation:', insertError);
+      return NextResponse.json({ error: 'Failed to create annotation' }, { status: 500 });
+    }
+
+    return NextResponse.json({ annotation: { ...toAnnotationReply(annotation), replies: [] } }, { status: 201 });
+  } catch (error) {
+    console.error('Error in annotations API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
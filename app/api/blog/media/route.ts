@@ -1,19 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { S3Client, GetObjectCommand } from '@aws-sdk/client-s3';
+import { storage } from '@/lib/storage';
+import { isBlogMediaKey } from '@/lib/storage-keys';
 
 export const runtime = 'nodejs';
 
-const r2Client = new S3Client({
-  region: 'auto',
-  endpoint: process.env.R2_ENDPOINT_URL,
-  credentials: {
-    accessKeyId: process.env.R2_ACCESS_KEY_ID!,
-    secretAccessKey: process.env.R2_SECRET_ACCESS_KEY!,
-  },
-});
-
-const BUCKET_NAME = process.env.R2_BUCKET_NAME!;
-
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
@@ -24,26 +14,21 @@ export async function GET(request: NextRequest) {
     }
 
     // Validate that the key is for blog media
-    if (!key.includes('/blog/media/')) {
+    if (!isBlogMediaKey(key)) {
       return NextResponse.json({ error: 'Invalid media key' }, { status: 403 });
     }
 
-    const command = new GetObjectCommand({
-      Bucket: BUCKET_NAME,
-      Key: key,
-    });
-
-    const response = await r2Client.send(command);
+    const object = await storage.get(key);
 
-    if (!response.Body) {
+    if (!object) {
       return NextResponse.json({ error: 'Media not found' }, { status: 404 });
     }
 
     // Convert the stream to a buffer
-    const buffer = Buffer.from(await response.Body.transformToByteArray());
+    const buffer = Buffer.from(await new Response(object.body).arrayBuffer());
 
     // Determine content type
-    const contentType = response.ContentType || 'application/octet-stream';
+    const contentType = object.contentType || 'application/octet-stream';
 
     // Set appropriate headers
     const headers = new Headers();
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { HeadObjectCommand } from '@aws-sdk/client-s3';
-import { r2Client } from '@/lib/r2';
+import { storage } from '@/lib/storage';
+import { videoFileKey, type AnalysisFileName } from '@/lib/storage-keys';
 
 // Real-time monitoring endpoint - checks R2 files directly
 export async function GET(request: NextRequest) {
@@ -16,11 +16,9 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const environment = process.env.R2_ENVIRONMENT || 'dev';
-    const bucketName = process.env.R2_BUCKET_NAME!;
 
     // Check for existence of key files that indicate step completion
-    const filesToCheck = [
+    const filesToCheck: Array<{ step: string; file: AnalysisFileName }> = [
       { step: 'calibration', file: 'calibration.csv' },
       { step: 'pose', file: 'pose.json' },
       { step: 'shuttle', file: 'shuttle.json' },
@@ -31,16 +29,10 @@ export async function GET(request: NextRequest) {
     const results: Record<string, boolean> = {};
 
     for (const { step, file } of filesToCheck) {
-      const key = `${environment}/${userId}/${videoId}/${file}`;
+      const key = videoFileKey(userId, videoId, file);
 
       try {
-        const command = new HeadObjectCommand({
-          Bucket: bucketName,
-          Key: key,
-        });
-
-        await r2Client.send(command);
-        results[step] = true;
+        results[step] = (await storage.head(key)) !== null;
       } catch {
         // File doesn't exist yet
         results[step] = false;
@@ -2,11 +2,12 @@ import { NextRequest, NextResponse } from 'next/server';
 import { checkRunPodWorkerHealth } from '@/lib/runpod-health';
 import { checkAnalysisProgress } from '@/lib/r2';
 import { logError, logDebug } from '@/lib/logger';
+import { requireVideoAccess } from '@/lib/video-access';
 
 export const dynamic = 'force-dynamic';
 
 /**
- * GET /api/check-worker-health?runpodJobId=xxx&userId=xxx&videoId=xxx
+ * GET /api/check-worker-health?runpodJobId=xxx&videoId=xxx
  *
  * Real-time health check that:
  * 1. Checks R2 for output files (to determine progress)
@@ -18,16 +19,19 @@ export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
     const runpodJobId = searchParams.get('runpodJobId');
-    const userId = searchParams.get('userId');
     const videoId = searchParams.get('videoId');
 
-    if (!runpodJobId || !userId || !videoId) {
+    if (!runpodJobId || !videoId) {
       return NextResponse.json(
-        { error: 'Missing required parameters: runpodJobId, userId, videoId' },
+        { error: 'Missing required parameters: runpodJobId, videoId' },
         { status: 400 }
       );
     }
 
+    const access = await requireVideoAccess(videoId);
+    if (access instanceof Response) return access;
+    const userId = access.ownerId;
+
     logDebug('Checking worker health', { runpodJobId, userId, videoId });
 
     // Check R2 files for progress
@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { completeMultipartUpload, verifyUpload, getSignedVideoUrl } from '@/lib/r2';
+import { completeMultipartUpload, verifyUpload } from '@/lib/r2';
 import { createClient } from '@/lib/supabase/server';
+import { isUploadKeyOf } from '@/lib/storage-keys';
 import { logSuccess, logError } from '@/lib/logger';
+import { dispatchQueuedJobs, enqueueAnalysisJob } from '@/lib/job-queue';
+import { computeBackend } from '@/lib/compute-backend';
 
 export const runtime = 'nodejs';
 export const maxDuration = 60;
@@ -12,19 +15,60 @@ function estimateVideoDuration(fileSize: number): number {
   return Math.min(Math.max(estimatedMinutes, 0.5), 60);
 }
 
+/**
+ * POST /api/complete-upload
+ *
+ * Finish a direct-to-storage upload started by /api/init-upload, charge its
+ * usage and queue it for analysis.
+ * Request body: { videoId, uploadId?, parts?, thumbnail?, isMultipart? }
+ *
+ * The user comes from the session and the storage key from their own
+ * `uploading` row, never from the request.
+ */
 export async function POST(request: NextRequest) {
   try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
     const body = await request.json();
-    const { userId, videoId, r2Key, uploadId, parts, thumbnail, isMultipart } = body;
+    const { videoId, uploadId, parts, thumbnail, isMultipart } = body;
 
-    if (!userId || !videoId || !r2Key) {
+    if (!videoId) {
       return NextResponse.json(
-        { error: 'Missing required fields' },
+        { error: 'Missing required field: videoId' },
         { status: 400 }
       );
     }
 
-    const supabase = await createClient();
+    const userId = user.id;
+
+    const { data: upload, error: uploadError } = await supabase
+      .from('videos')
+      .select('r2_key')
+      .eq('video_id', videoId)
+      .eq('user_id', userId)
+      .eq('status', 'uploading')
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (uploadError) {
+      throw uploadError;
+    }
+
+    if (!upload) {
+      return NextResponse.json({ error: 'No upload in progress for this video' }, { status: 404 });
+    }
+
+    // r2_key is user-editable; only the video's own upload may be touched
+    if (!isUploadKeyOf(upload.r2_key, userId, videoId)) {
+      return NextResponse.json({ error: 'Upload has an invalid storage key' }, { status: 422 });
+    }
+
+    const r2Key = upload.r2_key;
 
     // If multipart, complete the upload
     if (isMultipart) {
@@ -53,7 +97,8 @@ export async function POST(request: NextRequest) {
       await supabase
         .from('videos')
         .update({ status: 'failed' })
-        .eq('video_id', videoId);
+        .eq('video_id', videoId)
+        .eq('user_id', userId);
 
       return NextResponse.json(
         { error: 'Upload verification failed' },
@@ -61,11 +106,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Update video record to "uploaded" status
+    // Update video record to "uploaded" status; only one completion gets past this
     const { data: videoRecord, error: updateError } = await supabase
       .from('videos')
       .update({ status: 'uploaded' })
       .eq('video_id', videoId)
+      .eq('user_id', userId)
+      .eq('status', 'uploading')
       .select()
       .single();
 
@@ -113,45 +160,30 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Trigger RunPod processing
-    try {
-      const runpodEndpoint = process.env.RUNPOD_ENDPOINT_ID;
-      const runpodApiKey = process.env.RUNPOD_API_KEY;
-
-      if (runpodEndpoint && runpodApiKey) {
-        (async () => {
-          try {
-            const signedVideoUrl = await getSignedVideoUrl(r2Key);
-            const webhookUrl = process.env.NEXT_PUBLIC_APP_URL
-              ? `${process.env.NEXT_PUBLIC_APP_URL}/api/webhook`
-              : 'http://localhost:3000/api/webhook';
-
-            const runpodResponse = await fetch(`https://api.runpod.ai/v2/${runpodEndpoint}/run`, {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${runpodApiKey}`,
-              },
-              body: JSON.stringify({
-                input: {
-                  video_url: signedVideoUrl,
-                  user_id: userId,
-                  video_id: videoId,
-                  webhook_url: webhookUrl
-                }
-              })
-            });
-
-            if (runpodResponse.ok) {
-              logSuccess('Auto-processing initiated', { videoId });
-            }
-          } catch (error) {
-            logError('Auto-processing failed', error);
-          }
-        })();
-      }
-    } catch (error) {
-      logError('Failed to trigger auto-processing', error);
+    // Queue RunPod processing; dispatch respects the user's plan limits
+    if (computeBackend.isConfigured()) {
+      (async () => {
+        try {
+          const webhookUrl = process.env.NEXT_PUBLIC_APP_URL
+            ? `${process.env.NEXT_PUBLIC_APP_URL}/api/webhook`
+            : 'http://localhost:3000/api/webhook';
+          const internalJobId = `unified-${videoId}-${Date.now()}`;
+
+          await enqueueAnalysisJob({
+            jobId: internalJobId,
+            userId,
+            videoId,
+            videoKey: r2Key,
+            webhookUrl,
+            input: { video_id: videoId },
+          });
+          await dispatchQueuedJobs();
+
+          logSuccess('Auto-processing queued', { videoId });
+        } catch (error) {
+          logError('Auto-processing failed', error);
+        }
+      })();
     }
 
     logSuccess('Upload completed', { userId, videoId, fileSize: `${(fileSize / 1024 / 1024).toFixed(2)} MB` });
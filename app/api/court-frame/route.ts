@@ -1,49 +1,36 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { S3Client, GetObjectCommand } from '@aws-sdk/client-s3';
-// import { getUserVideos } from '@/lib/r2';
+import { storage } from '@/lib/storage';
+import { videoFileKey } from '@/lib/storage-keys';
+import { requireVideoAccess } from '@/lib/video-access';
 
 export const runtime = 'nodejs';
 
-const r2Client = new S3Client({
-  region: 'auto',
-  endpoint: process.env.R2_ENDPOINT_URL,
-  credentials: {
-    accessKeyId: process.env.R2_ACCESS_KEY_ID!,
-    secretAccessKey: process.env.R2_SECRET_ACCESS_KEY!,
-  },
-});
-
-const BUCKET_NAME = process.env.R2_BUCKET_NAME!;
-
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('userId');
     const videoId = searchParams.get('videoId');
 
-    if (!userId || !videoId) {
+    if (!videoId) {
       return NextResponse.json(
-        { error: 'Missing userId or videoId parameter' },
+        { error: 'Missing videoId parameter' },
         { status: 400 }
       );
     }
 
+    const access = await requireVideoAccess(videoId);
+    if (access instanceof Response) return access;
+    const userId = access.ownerId;
+
     // Try to get court visualization first (generated by RunPod processing)
-    const visualizationKey = `dev/${userId}/${videoId}/court_visualization.png`;
+    const visualizationKey = videoFileKey(userId, videoId, 'court_visualization.png');
     try {
-      const vizCommand = new GetObjectCommand({
-        Bucket: BUCKET_NAME,
-        Key: visualizationKey,
-      });
-      
-      const vizResponse = await r2Client.send(vizCommand);
+      const vizObject = await storage.get(visualizationKey);
       
-      if (vizResponse.Body) {
-        const stream = vizResponse.Body as ReadableStream;
-        return new NextResponse(stream, {
+      if (vizObject) {
+        return new NextResponse(vizObject.body, {
           headers: {
             'Content-Type': 'image/png',
-            'Cache-Control': 'public, max-age=86400', // Cache for 1 day
+            'Cache-Control': 'private, max-age=86400', // Cache for 1 day
           },
         });
       }
@@ -52,21 +39,15 @@ export async function GET(request: NextRequest) {
     }
 
     // Try to get existing court frame
-    const frameKey = `dev/${userId}/${videoId}/court_frame.jpg`;
+    const frameKey = videoFileKey(userId, videoId, 'court_frame.jpg');
     try {
-      const frameCommand = new GetObjectCommand({
-        Bucket: BUCKET_NAME,
-        Key: frameKey,
-      });
+      const frameObject = await storage.get(frameKey);
       
-      const frameResponse = await r2Client.send(frameCommand);
-      
-      if (frameResponse.Body) {
-        const stream = frameResponse.Body as ReadableStream;
-        return new NextResponse(stream, {
+      if (frameObject) {
+        return new NextResponse(frameObject.body, {
           headers: {
             'Content-Type': 'image/jpeg',
-            'Cache-Control': 'public, max-age=86400', // Cache for 1 day
+            'Cache-Control': 'private, max-age=86400', // Cache for 1 day
           },
         });
       }
@@ -75,22 +56,16 @@ export async function GET(request: NextRequest) {
     }
 
     // Fallback to thumbnail
-    const thumbnailKey = `dev/${userId}/${videoId}/thumbnail.jpg`;
+    const thumbnailKey = videoFileKey(userId, videoId, 'thumbnail.jpg');
     
     try {
-      const thumbnailCommand = new GetObjectCommand({
-        Bucket: BUCKET_NAME,
-        Key: thumbnailKey,
-      });
-      
-      const thumbnailResponse = await r2Client.send(thumbnailCommand);
+      const thumbnailObject = await storage.get(thumbnailKey);
       
-      if (thumbnailResponse.Body) {
-        const stream = thumbnailResponse.Body as ReadableStream;
-        return new NextResponse(stream, {
+      if (thumbnailObject) {
+        return new NextResponse(thumbnailObject.body, {
           headers: {
             'Content-Type': 'image/jpeg',
-            'Cache-Control': 'public, max-age=86400', // Cache for 1 day
+            'Cache-Control': 'private, max-age=86400', // Cache for 1 day
           },
         });
       }
@@ -100,21 +75,15 @@ export async function GET(request: NextRequest) {
     }
 
     // Last resort: check for SVG placeholder from old thumbnail system
-    const svgKey = `dev/${userId}/${videoId}/thumbnail.svg`;
+    const svgKey = videoFileKey(userId, videoId, 'thumbnail.svg');
     try {
-      const svgCommand = new GetObjectCommand({
-        Bucket: BUCKET_NAME,
-        Key: svgKey,
-      });
-      
-      const svgResponse = await r2Client.send(svgCommand);
+      const svgObject = await storage.get(svgKey);
       
-      if (svgResponse.Body) {
-        const stream = svgResponse.Body as ReadableStream;
-        return new NextResponse(stream, {
+      if (svgObject) {
+        return new NextResponse(svgObject.body, {
           headers: {
             'Content-Type': 'image/svg+xml',
-            'Cache-Control': 'public, max-age=86400',
+            'Cache-Control': 'private, max-age=86400',
           },
         });
       }
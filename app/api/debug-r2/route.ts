@@ -1,14 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { S3Client, ListObjectsV2Command, HeadBucketCommand } from '@aws-sdk/client-s3';
-
-const r2Client = new S3Client({
-  region: 'auto',
-  endpoint: process.env.R2_ENDPOINT_URL,
-  credentials: {
-    accessKeyId: process.env.R2_ACCESS_KEY_ID!,
-    secretAccessKey: process.env.R2_SECRET_ACCESS_KEY!,
-  },
-});
+import { storage } from '@/lib/storage';
 
 const BUCKET_NAME = process.env.R2_BUCKET_NAME!;
 
@@ -26,6 +17,7 @@ export async function GET(request: NextRequest) {
   try {
     const debugInfo: {
       config: {
+        provider: string;
         endpoint: string | undefined;
         bucket: string;
         hasAccessKey: boolean;
@@ -34,6 +26,7 @@ export async function GET(request: NextRequest) {
       tests: Record<string, unknown>;
     } = {
       config: {
+        provider: storage.name,
         endpoint: process.env.R2_ENDPOINT_URL,
         bucket: BUCKET_NAME,
         hasAccessKey: !!process.env.R2_ACCESS_KEY_ID,
@@ -42,72 +35,39 @@ export async function GET(request: NextRequest) {
       tests: {}
     };
 
-    // Test 1: Check if bucket exists
+    // Test 1: List all objects in bucket (no prefix) - also shows whether storage is reachable
     try {
-      const headBucketCommand = new HeadBucketCommand({ Bucket: BUCKET_NAME });
-      await r2Client.send(headBucketCommand);
+      const allObjects = await storage.list('', { maxKeys: 10 });
       debugInfo.tests.bucketExists = true;
-    } catch (error: unknown) {
-      debugInfo.tests.bucketExists = false;
-      debugInfo.tests.bucketError = error instanceof Error ? error.message : 'Unknown error';
-    }
-
-    // Test 2: List all objects in bucket (no prefix)
-    try {
-      const listAllCommand = new ListObjectsV2Command({
-        Bucket: BUCKET_NAME,
-        MaxKeys: 10,
-      });
-      const allObjects = await r2Client.send(listAllCommand);
       debugInfo.tests.allObjects = {
-        count: allObjects.Contents?.length || 0,
-        objects: allObjects.Contents?.map(obj => ({
-          key: obj.Key,
-          size: obj.Size,
-          lastModified: obj.LastModified
-        })) || []
+        count: allObjects.length,
+        objects: allObjects
       };
     } catch (error: unknown) {
+      debugInfo.tests.bucketExists = false;
+      debugInfo.tests.bucketError = error instanceof Error ? error.message : 'Unknown error';
       debugInfo.tests.allObjects = { error: error instanceof Error ? error.message : 'Unknown error' };
     }
 
-    // Test 3: List objects with user prefix
+    // Test 2: List objects with user prefix
     try {
-      const listUserCommand = new ListObjectsV2Command({
-        Bucket: BUCKET_NAME,
-        Prefix: `users/${userId}/`,
-        MaxKeys: 10,
-      });
-      const userObjects = await r2Client.send(listUserCommand);
+      const userObjects = await storage.list(`users/${userId}/`, { maxKeys: 10 });
       debugInfo.tests.userObjects = {
         prefix: `users/${userId}/`,
-        count: userObjects.Contents?.length || 0,
-        objects: userObjects.Contents?.map(obj => ({
-          key: obj.Key,
-          size: obj.Size,
-          lastModified: obj.LastModified
-        })) || []
+        count: userObjects.length,
+        objects: userObjects
       };
     } catch (error: unknown) {
       debugInfo.tests.userObjects = { error: error instanceof Error ? error.message : 'Unknown error' };
     }
 
-    // Test 4: List objects with video prefix
+    // Test 3: List objects with video prefix
     try {
-      const listVideoCommand = new ListObjectsV2Command({
-        Bucket: BUCKET_NAME,
-        Prefix: `users/${userId}/videos/`,
-        MaxKeys: 10,
-      });
-      const videoObjects = await r2Client.send(listVideoCommand);
+      const videoObjects = await storage.list(`users/${userId}/videos/`, { maxKeys: 10 });
       debugInfo.tests.videoObjects = {
         prefix: `users/${userId}/videos/`,
-        count: videoObjects.Contents?.length || 0,
-        objects: videoObjects.Contents?.map(obj => ({
-          key: obj.Key,
-          size: obj.Size,
-          lastModified: obj.LastModified
-        })) || []
+        count: videoObjects.length,
+        objects: videoObjects
       };
     } catch (error: unknown) {
       debugInfo.tests.videoObjects = { error: error instanceof Error ? error.message : 'Unknown error' };
@@ -1,19 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient, createAdminClient } from '@/lib/supabase/server';
 
-// Note: r2Client, DeleteObjectCommand, ListObjectsV2Command, BUCKET_NAME, and R2_ENVIRONMENT
-// are commented out but kept for future hard-delete functionality
-// import { S3Client, DeleteObjectCommand, ListObjectsV2Command } from '@aws-sdk/client-s3';
-// const r2Client = new S3Client({
-//   region: 'auto',
-//   endpoint: process.env.R2_ENDPOINT_URL,
-//   credentials: {
-//     accessKeyId: process.env.R2_ACCESS_KEY_ID!,
-//     secretAccessKey: process.env.R2_SECRET_ACCESS_KEY!,
-//   },
-// });
-// const BUCKET_NAME = process.env.R2_BUCKET_NAME!;
-// const R2_ENVIRONMENT = process.env.R2_ENVIRONMENT || 'dev';
+// Note: storage and videoPrefix are commented out but kept for future
+// hard-delete functionality
+// import { storage } from '@/lib/storage';
+// import { videoPrefix } from '@/lib/storage-keys';
 
 export async function DELETE(request: NextRequest) {
   try {
@@ -87,24 +78,10 @@ export async function DELETE(request: NextRequest) {
     // Optionally: Hard delete from R2 (uncomment if you want to delete files immediately)
     // For now, we'll keep files in R2 for recovery/audit purposes
     /*
-    const listCommand = new ListObjectsV2Command({
-      Bucket: BUCKET_NAME,
-      Prefix: `${R2_ENVIRONMENT}/${userId}/${videoId}/`,
-      MaxKeys: 100,
-    });
+    const objects = await storage.list(videoPrefix(userId, videoId), { maxKeys: 100 });
 
-    const response = await r2Client.send(listCommand);
-
-    if (response.Contents) {
-      for (const file of response.Contents) {
-        if (file.Key) {
-          const deleteCommand = new DeleteObjectCommand({
-            Bucket: BUCKET_NAME,
-            Key: file.Key,
-          });
-          await r2Client.send(deleteCommand);
-        }
-      }
+    for (const file of objects) {
+      await storage.delete(file.key);
     }
     */
 
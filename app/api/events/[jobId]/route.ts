@@ -1,11 +1,17 @@
 import { NextRequest } from 'next/server';
 import { webhookStore, JobUpdate } from '@/lib/webhook-store';
+import { isTerminalStatus } from '@/lib/job-events';
 
 export const runtime = 'nodejs';
 
+// Reconnect delay suggested to EventSource
+const SSE_RETRY_MS = 3000;
+
 /**
  * Server-Sent Events (SSE) endpoint for real-time job updates
- * Frontend connects to this endpoint to receive live progress updates
+ * Frontend connects to this endpoint to receive live progress updates.
+ * Each update is sent with its ID, so a reconnecting client can resume with
+ * Last-Event-ID (or ?lastEventId=) and get the updates it missed.
  */
 export async function GET(
   request: NextRequest,
@@ -14,54 +20,96 @@ export async function GET(
   const params = await segmentData.params;
   const jobId = params.jobId;
 
-  console.log(`📡 SSE connection opened for job ${jobId}`);
+  // Resume point: EventSource sends Last-Event-ID when it reconnects by itself;
+  // clients opening a fresh connection pass ?lastEventId= instead
+  const resumeParam = request.headers.get('last-event-id') ?? request.nextUrl.searchParams.get('lastEventId');
+  const resumeFrom = resumeParam && /^\d+$/.test(resumeParam) ? Number(resumeParam) : null;
+
+  console.log(`📡 SSE connection opened for job ${jobId}${resumeFrom !== null ? ` (resuming after ${resumeFrom})` : ''}`);
 
   // Create a text encoder for SSE
   const encoder = new TextEncoder();
 
   // Create a readable stream for SSE
   const stream = new ReadableStream({
-    start(controller) {
-      // Send initial connection message
-      controller.enqueue(
-        encoder.encode(`data: ${JSON.stringify({ type: 'connected', jobId })}\n\n`)
-      );
+    async start(controller) {
+      let lastSentId = resumeFrom ?? 0;
+      let replaying = true;
+      const pending: JobUpdate[] = [];
 
-      // Send any existing updates immediately
-      const existingUpdates = webhookStore.getUpdates(jobId);
-      if (existingUpdates.length > 0) {
-        const latestUpdate = existingUpdates[existingUpdates.length - 1];
-        controller.enqueue(
-          encoder.encode(`data: ${JSON.stringify(latestUpdate)}\n\n`)
-        );
-      }
+      const send = (update: JobUpdate) => {
+        // Live updates can overlap the replay; each event goes out once, in order
+        if (update.id <= lastSentId) return;
+        lastSentId = update.id;
+
+        controller.enqueue(encoder.encode(`id: ${update.id}\ndata: ${JSON.stringify(update)}\n\n`));
+
+        // Close stream once the job is completed, failed or cancelled
+        if (isTerminalStatus(update.status)) {
+          console.log(`📡 SSE closing for job ${jobId}: ${update.status}`);
+          webhookStore.removeListener(jobId, listener);
+          setTimeout(() => {
+            try {
+              controller.close();
+            } catch {
+              // Stream might already be closed
+            }
+          }, 1000); // Give time for final message to send
+        }
+      };
 
       // Register listener for new updates
       const listener = (update: JobUpdate) => {
         try {
-          const message = `data: ${JSON.stringify(update)}\n\n`;
-          controller.enqueue(encoder.encode(message));
-
-          // Close stream if job is completed or failed
-          if (update.status === 'completed' || update.status === 'failed') {
-            console.log(`📡 SSE closing for job ${jobId}: ${update.status}`);
-            setTimeout(() => {
-              try {
-                controller.close();
-              } catch {
-                // Stream might already be closed
-              }
-            }, 1000); // Give time for final message to send
+          if (replaying) {
+            pending.push(update);
+          } else {
+            send(update);
           }
         } catch {
           // Ignore errors when sending SSE updates - stream might be closed
         }
       };
 
-      // Add listener to webhook store
-      webhookStore.addListener(jobId, listener);
+      let missed: JobUpdate[];
+      try {
+        // Add listener to webhook store before reading history, so nothing
+        // stored in between is missed
+        await webhookStore.addListener(jobId, listener);
+
+        console.log(`📡 SSE listener registered for job ${jobId}`);
+
+        // A resuming client gets everything it missed; a new one gets the latest update
+        missed = resumeFrom !== null
+          ? await webhookStore.getUpdates(jobId, resumeFrom)
+          : [await webhookStore.getLatestUpdate(jobId)].filter((update): update is JobUpdate => update !== null);
+      } catch (error) {
+        // No 'connected' message was sent, so the client backs off before reconnecting
+        console.error(`❌ SSE failed to load updates for job ${jobId}:`, error);
+        webhookStore.removeListener(jobId, listener);
+        try {
+          controller.enqueue(
+            encoder.encode(`data: ${JSON.stringify({ type: 'error', jobId, error: 'Failed to load job updates' })}\n\n`)
+          );
+          controller.close();
+        } catch {
+          // Stream might already be closed
+        }
+        return;
+      }
 
-      console.log(`📡 SSE listener registered for job ${jobId}`);
+      // Send connection message, with the reconnect delay for EventSource
+      controller.enqueue(
+        encoder.encode(`retry: ${SSE_RETRY_MS}\ndata: ${JSON.stringify({ type: 'connected', jobId })}\n\n`)
+      );
+
+      try {
+        missed.forEach(send);
+        replaying = false;
+        pending.sort((a, b) => a.id - b.id).forEach(send);
+      } catch {
+        // Stream might be closed
+      }
 
       // Handle client disconnect
       request.signal.addEventListener('abort', () => {
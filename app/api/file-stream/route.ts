@@ -1,69 +1,37 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { S3Client, GetObjectCommand } from '@aws-sdk/client-s3';
+import { readObjectBuffer } from '@/lib/storage';
+import { verifyFileToken } from '@/lib/file-tokens';
+import { createForbiddenResponse } from '@/lib/admin-auth';
 
 export const runtime = 'nodejs';
 
-const r2Client = new S3Client({
-  region: 'auto',
-  endpoint: process.env.R2_ENDPOINT_URL,
-  credentials: {
-    accessKeyId: process.env.R2_ACCESS_KEY_ID!,
-    secretAccessKey: process.env.R2_SECRET_ACCESS_KEY!,
-  },
-});
-
-const BUCKET_NAME = process.env.R2_BUCKET_NAME!;
-
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    let key = searchParams.get('key');
+    const token = searchParams.get('token');
 
-    // Fallback: construct key from userId/videoId/fileName if key not provided
-    if (!key) {
-      const userId = searchParams.get('userId');
-      const videoId = searchParams.get('videoId');
-      const fileName = searchParams.get('fileName');
-      
-      if (userId && videoId && fileName) {
-        const environment = process.env.R2_ENVIRONMENT || 'dev';
-        key = `${environment}/${userId}/${videoId}/${fileName}`;
-      }
-    }
-
-    if (!key) {
+    if (!token) {
       return NextResponse.json(
-        { error: 'Missing file key parameter or userId/videoId/fileName' },
+        { error: 'Missing token parameter' },
         { status: 400 }
       );
     }
 
-    const command = new GetObjectCommand({
-      Bucket: BUCKET_NAME,
-      Key: key,
-    });
+    // Only serve the key sealed in a valid file token
+    const key = verifyFileToken(token);
+    if (!key) {
+      return createForbiddenResponse('Invalid or expired file token');
+    }
 
-    const response = await r2Client.send(command);
+    const buffer = await readObjectBuffer(key);
     
-    if (!response.Body) {
+    if (!buffer) {
       return NextResponse.json(
         { error: 'File not found' },
         { status: 404 }
       );
     }
 
-    // Convert the stream to a buffer
-    const chunks: Uint8Array[] = [];
-    const reader = response.Body.transformToWebStream().getReader();
-    
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-      chunks.push(value);
-    }
-    
-    const buffer = Buffer.concat(chunks);
-
     // Determine content type based on file extension
     const contentType = getContentType(key);
     
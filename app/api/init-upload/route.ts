@@ -15,7 +15,7 @@ function estimateVideoDuration(fileSize: number): number {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { userId, fileName, fileSize, fileType } = body;
+    const { userId, fileName, fileSize, fileType, partSize } = body;
 
     // Validation
     if (!userId || !fileName || !fileSize || !fileType) {
@@ -79,8 +79,15 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Generate presigned URLs
-    const uploadInfo = await createPresignedUpload(userId, fileName, fileSize, fileType);
+    if (partSize !== undefined && (!Number.isInteger(partSize) || partSize <= 0)) {
+      return NextResponse.json(
+        { error: 'partSize must be a positive integer' },
+        { status: 400 }
+      );
+    }
+
+    // Generate presigned URLs; partSize is only a preference for multipart uploads
+    const uploadInfo = await createPresignedUpload(userId, fileName, fileSize, fileType, partSize);
 
     // Pre-create database record with "uploading" status
     const { error: videoError } = await supabase
@@ -112,6 +119,7 @@ export async function POST(request: NextRequest) {
       fileName,
       fileSize: `${(fileSize / 1024 / 1024).toFixed(2)} MB`,
       isMultipart: uploadInfo.isMultipart,
+      partSize: uploadInfo.partSize,
       totalParts: uploadInfo.totalParts,
     });
 
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MAX_PARTS, listUploadedParts, presignUploadParts } from '@/lib/r2';
+import { createClient } from '@/lib/supabase/server';
+import { isUploadKeyOf } from '@/lib/storage-keys';
+import { logDebug, logError } from '@/lib/logger';
+
+export const runtime = 'nodejs';
+export const maxDuration = 30;
+
+/**
+ * POST /api/list-parts
+ *
+ * State of an unfinished multipart upload, so the browser can resume it after
+ * a reload or a dropped connection (lib/upload-manager.ts). Returns the parts
+ * storage has confirmed and fresh presigned URLs for `partNumbers`.
+ *
+ * 404 once the upload is completed, aborted or expired - start a new one.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { videoId, uploadId, partNumbers = [] } = await request.json();
+
+    if (!videoId || !uploadId) {
+      return NextResponse.json(
+        { error: 'Missing required fields: videoId, uploadId' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      !Array.isArray(partNumbers) ||
+      partNumbers.length > MAX_PARTS ||
+      !partNumbers.every(n => Number.isInteger(n) && n >= 1 && n <= MAX_PARTS)
+    ) {
+      return NextResponse.json(
+        { error: `partNumbers must be part numbers between 1 and ${MAX_PARTS}` },
+        { status: 400 }
+      );
+    }
+
+    // The key comes from the caller's own in-progress upload, never the body
+    const { data: video, error: videoError } = await supabase
+      .from('videos')
+      .select('r2_key')
+      .eq('video_id', videoId)
+      .eq('user_id', user.id)
+      .eq('status', 'uploading')
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (videoError) {
+      throw videoError;
+    }
+
+    if (!video) {
+      return NextResponse.json({ error: 'No upload in progress for this video' }, { status: 404 });
+    }
+
+    // r2_key is user-editable; only the video's own upload may be touched
+    if (!isUploadKeyOf(video.r2_key, user.id, videoId)) {
+      return NextResponse.json({ error: 'Upload has an invalid storage key' }, { status: 422 });
+    }
+
+    const parts = await listUploadedParts(video.r2_key, uploadId);
+    if (!parts) {
+      return NextResponse.json({ error: 'Upload no longer exists' }, { status: 404 });
+    }
+
+    const { urls, expiresAt } = await presignUploadParts(video.r2_key, uploadId, partNumbers);
+
+    logDebug('Listed upload parts', { videoId, confirmed: parts.length, presigned: partNumbers.length });
+
+    return NextResponse.json({
+      success: true,
+      parts,
+      urls,
+      expiresAt,
+    });
+  } catch (error) {
+    logError('Failed to list upload parts', error);
+    return NextResponse.json(
+      { error: 'Failed to list upload parts', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,48 +1,35 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { GetObjectCommand, PutObjectCommand } from '@aws-sdk/client-s3';
-import { r2Client } from '@/lib/r2';
+import { storage, readObjectText } from '@/lib/storage';
+import { videoFileKey } from '@/lib/storage-keys';
+import { requireVideoAccess } from '@/lib/video-access';
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('userId');
     const videoId = searchParams.get('videoId');
 
-    if (!userId || !videoId) {
+    if (!videoId) {
       return NextResponse.json(
-        { error: 'Missing userId or videoId' },
+        { error: 'Missing videoId' },
         { status: 400 }
       );
     }
 
-    const key = `${process.env.R2_ENVIRONMENT || 'dev'}/${userId}/${videoId}/player_names.json`;
+    const access = await requireVideoAccess(videoId);
+    if (access instanceof Response) return access;
 
-    try {
-      const command = new GetObjectCommand({
-        Bucket: process.env.R2_BUCKET_NAME!,
-        Key: key,
-      });
+    const key = videoFileKey(access.ownerId, videoId, 'player_names.json');
 
-      const response = await r2Client.send(command);
+    const bodyContents = await readObjectText(key);
 
-      if (!response.Body) {
-        // No player names saved yet, return empty object
-        return NextResponse.json({});
-      }
-
-      const bodyContents = await response.Body.transformToString();
-      const playerNames = JSON.parse(bodyContents);
+    if (bodyContents === null) {
+      // No player names saved yet, return empty object
+      return NextResponse.json({});
+    }
 
-      return NextResponse.json(playerNames);
+    const playerNames = JSON.parse(bodyContents);
 
-    } catch (r2Error) {
-      const errorWithName = r2Error as Error & { name?: string };
-      if (errorWithName.name === 'NoSuchKey') {
-        // No player names saved yet, return empty object
-        return NextResponse.json({});
-      }
-      throw r2Error;
-    }
+    return NextResponse.json(playerNames);
 
   } catch (error) {
     console.error('Error fetching player names:', error);
@@ -55,25 +42,23 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const { userId, videoId, playerNames } = await request.json();
+    const { videoId, playerNames } = await request.json();
 
-    if (!userId || !videoId || !playerNames) {
+    if (!videoId || !playerNames) {
       return NextResponse.json(
         { error: 'Missing required fields' },
         { status: 400 }
       );
     }
 
-    const key = `${process.env.R2_ENVIRONMENT || 'dev'}/${userId}/${videoId}/player_names.json`;
+    const access = await requireVideoAccess(videoId);
+    if (access instanceof Response) return access;
 
-    const command = new PutObjectCommand({
-      Bucket: process.env.R2_BUCKET_NAME!,
-      Key: key,
-      Body: JSON.stringify(playerNames),
-      ContentType: 'application/json',
-    });
+    const key = videoFileKey(access.ownerId, videoId, 'player_names.json');
 
-    await r2Client.send(command);
+    await storage.put(key, JSON.stringify(playerNames), {
+      contentType: 'application/json',
+    });
 
     return NextResponse.json({ success: true });
 
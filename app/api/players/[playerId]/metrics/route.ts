@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { getOptionalAnalysisFileContent } from '@/lib/r2';
+import { extractPlayerMetrics, parsePositionAnalysis, summarizePlayerMetrics } from '@/lib/player-metrics';
+
+export const runtime = 'nodejs';
+
+// GET - Per-video metrics for a player profile plus a cross-video summary
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ playerId: string }> }
+) {
+  try {
+    const { playerId } = await params;
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: player, error: playerError } = await supabase
+      .from('players')
+      .select('id, name')
+      .eq('id', playerId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (playerError || !player) {
+      return NextResponse.json({ error: 'Player not found' }, { status: 404 });
+    }
+
+    const { data: links, error } = await supabase
+      .from('video_players')
+      .select('tracked_player_id, video_id, videos!inner(display_filename, uploaded_at, deleted_at)')
+      .eq('player_id', playerId)
+      .eq('user_id', user.id)
+      .is('videos.deleted_at', null);
+
+    if (error) {
+      console.error('Error fetching player links:', error);
+      return NextResponse.json({ error: 'Failed to fetch player metrics' }, { status: 500 });
+    }
+
+    const perVideo = await Promise.all((links || []).map(async link => {
+      const video = (Array.isArray(link.videos) ? link.videos[0] : link.videos) as {
+        display_filename: string;
+        uploaded_at: string;
+      };
+      const contents = await getOptionalAnalysisFileContent(user.id, link.video_id, 'position_analysis.json');
+      const metrics = contents
+        ? extractPlayerMetrics(parsePositionAnalysis(contents), link.tracked_player_id)
+        : null;
+
+      return {
+        videoId: link.video_id,
+        trackedPlayerId: link.tracked_player_id,
+        fileName: video.display_filename,
+        uploadedAt: video.uploaded_at,
+        metrics,
+      };
+    }));
+
+    perVideo.sort((a, b) => new Date(a.uploadedAt).getTime() - new Date(b.uploadedAt).getTime());
+
+    const analyzed = perVideo.flatMap(entry => entry.metrics ? [entry.metrics] : []);
+
+    return NextResponse.json({
+      player,
+      videos: perVideo,
+      summary: summarizePlayerMetrics(analyzed),
+    });
+  } catch (error) {
+    console.error('Error fetching player metrics:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
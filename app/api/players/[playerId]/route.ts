@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+
+const HANDEDNESS = ['left', 'right'];
+
+// GET - Fetch a single player profile
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ playerId: string }> }
+) {
+  try {
+    const { playerId } = await params;
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: player, error } = await supabase
+      .from('players')
+      .select('*')
+      .eq('id', playerId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (error || !player) {
+      return NextResponse.json({ error: 'Player not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ player });
+  } catch (error) {
+    console.error('Error fetching player:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PATCH - Update name, handedness or notes
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ playerId: string }> }
+) {
+  try {
+    const { playerId } = await params;
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const updates: Record<string, string | null> = {};
+
+    if (body.name !== undefined) {
+      if (typeof body.name !== 'string' || !body.name.trim() || body.name.trim().length > 100) {
+        return NextResponse.json({ error: 'Invalid player name' }, { status: 400 });
+      }
+      updates.name = body.name.trim();
+    }
+
+    if (body.handedness !== undefined) {
+      if (body.handedness !== null && !HANDEDNESS.includes(body.handedness)) {
+        return NextResponse.json({ error: 'Invalid handedness' }, { status: 400 });
+      }
+      updates.handedness = body.handedness;
+    }
+
+    if (body.notes !== undefined) {
+      updates.notes = body.notes;
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({ error: 'No fields to update' }, { status: 400 });
+    }
+
+    const { data: player, error: updateError } = await supabase
+      .from('players')
+      .update(updates)
+      .eq('id', playerId)
+      .eq('user_id', user.id)
+      .select()
+      .single();
+
+    if (updateError || !player) {
+      return NextResponse.json({ error: 'Player not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ player });
+  } catch (error) {
+    console.error('Error updating player:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE - Remove a player profile (video links cascade)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ playerId: string }> }
+) {
+  try {
+    const { playerId } = await params;
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { error: deleteError } = await supabase
+      .from('players')
+      .delete()
+      .eq('id', playerId)
+      .eq('user_id', user.id);
+
+    if (deleteError) {
+      console.error('Error deleting player:', deleteError);
+      return NextResponse.json({ error: 'Failed to delete player' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting player:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+
+// GET - Videos a player profile is linked to, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ playerId: string }> }
+) {
+  try {
+    const { playerId } = await params;
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: links, error } = await supabase
+      .from('video_players')
+      .select('tracked_player_id, video_id, videos!inner(display_filename, status, duration_seconds, uploaded_at, deleted_at)')
+      .eq('player_id', playerId)
+      .eq('user_id', user.id)
+      .is('videos.deleted_at', null);
+
+    if (error) {
+      console.error('Error fetching player videos:', error);
+      return NextResponse.json({ error: 'Failed to fetch player videos' }, { status: 500 });
+    }
+
+    const videos = (links || [])
+      .map(link => {
+        const video = (Array.isArray(link.videos) ? link.videos[0] : link.videos) as {
+          display_filename: string;
+          status: string;
+          duration_seconds: number | null;
+          uploaded_at: string;
+        };
+        return {
+          videoId: link.video_id,
+          trackedPlayerId: link.tracked_player_id,
+          fileName: video.display_filename,
+          status: video.status,
+          durationSeconds: video.duration_seconds,
+          uploadedAt: video.uploaded_at,
+        };
+      })
+      .sort((a, b) => new Date(b.uploadedAt).getTime() - new Date(a.uploadedAt).getTime());
+
+    return NextResponse.json({ videos });
+  } catch (error) {
+    console.error('Error fetching player videos:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
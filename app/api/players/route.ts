@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+
+const HANDEDNESS = ['left', 'right'];
+
+// GET - List the user's player profiles with how many videos each is linked to
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: players, error } = await supabase
+      .from('players')
+      .select('*, video_players(count)')
+      .eq('user_id', user.id)
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching players:', error);
+      return NextResponse.json({ error: 'Failed to fetch players' }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      players: (players || []).map(({ video_players, ...player }) => ({
+        ...player,
+        video_count: (video_players as { count: number }[])?.[0]?.count ?? 0,
+      })),
+    });
+  } catch (error) {
+    console.error('Error in players API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Create a player profile
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { name, handedness, notes } = await request.json();
+
+    if (typeof name !== 'string' || !name.trim() || name.trim().length > 100) {
+      return NextResponse.json({ error: 'Invalid player name' }, { status: 400 });
+    }
+
+    if (handedness != null && !HANDEDNESS.includes(handedness)) {
+      return NextResponse.json({ error: 'Invalid handedness' }, { status: 400 });
+    }
+
+    const { data: player, error: insertError } = await supabase
+      .from('players')
+      .insert({
+        user_id: user.id,
+        name: name.trim(),
+        handedness: handedness ?? null,
+        notes: notes ?? null,
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      console.error('Error creating player:', insertError);
+      return NextResponse.json({ error: 'Failed to create player' }, { status: 500 });
+    }
+
+    return NextResponse.json({ player: { ...player, video_count: 0 } }, { status: 201 });
+  } catch (error) {
+    console.error('Error in players API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
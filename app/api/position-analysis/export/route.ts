@@ -0,0 +1,187 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import {
+  EXPORT_DATASETS,
+  ExportDataset,
+  ExportTable,
+  MAX_EXPORT_VIDEOS,
+  buildMetricsTable,
+  buildPositionsTable,
+  getExportVideos,
+  streamPositionsCsv,
+  toCsv,
+} from '@/lib/analysis-export';
+import { XLSX_MAX_ROWS, buildXlsx } from '@/lib/xlsx';
+
+export const runtime = 'nodejs';
+
+const XLSX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+function exportFileName(videos: { fileName: string }[], suffix: string, extension: string): string {
+  const base = videos.length === 1
+    ? videos[0].fileName.replace(/\.[^.]+$/, '')
+    : `mintonix-export-${new Date().toISOString().slice(0, 10)}`;
+  const safeBase = base.replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '-') || 'export';
+  return `${safeBase}-${suffix}.${extension}`;
+}
+
+function tooManyRowsResponse() {
+  return NextResponse.json(
+    { error: 'Too many rows for one spreadsheet. Export fewer videos or use CSV.' },
+    { status: 400 }
+  );
+}
+
+/**
+ * Export analysis data as CSV or XLSX.
+ *
+ * ?videoId=... or ?videoIds=a,b,c selects the videos. ?dataset=metrics|positions
+ * picks what to export; CSV holds one dataset (default metrics), XLSX holds
+ * both as separate sheets unless a dataset is given.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const format = searchParams.get('format') || 'csv';
+    const dataset = searchParams.get('dataset') as ExportDataset | null;
+    const videoIds = Array.from(new Set(
+      (searchParams.get('videoIds') || searchParams.get('videoId') || '')
+        .split(',')
+        .map(id => id.trim())
+        .filter(Boolean)
+    ));
+
+    if (videoIds.length === 0) {
+      return NextResponse.json({ error: 'Missing videoId or videoIds' }, { status: 400 });
+    }
+
+    if (videoIds.length > MAX_EXPORT_VIDEOS) {
+      return NextResponse.json(
+        { error: `Export at most ${MAX_EXPORT_VIDEOS} videos at a time` },
+        { status: 400 }
+      );
+    }
+
+    if (format !== 'csv' && format !== 'xlsx') {
+      return NextResponse.json({ error: 'Format must be csv or xlsx' }, { status: 400 });
+    }
+
+    if (dataset && !EXPORT_DATASETS.includes(dataset)) {
+      return NextResponse.json({ error: 'Dataset must be metrics or positions' }, { status: 400 });
+    }
+
+    const videos = await getExportVideos(user.id, videoIds);
+
+    if (videos.length === 0) {
+      return NextResponse.json({ error: 'Video not found' }, { status: 404 });
+    }
+
+    console.log(`Exporting ${dataset || 'all'} as ${format} for ${videos.length} videos (user ${user.id})`);
+
+    if (format === 'csv') {
+      if (dataset === 'positions') {
+        const chunks = streamPositionsCsv(user.id, videos);
+        const first = await chunks.next();
+
+        if (first.done) {
+          return NextResponse.json(
+            { error: 'Position data not available. Run pose analysis first.' },
+            { status: 404 }
+          );
+        }
+
+        const encoder = new TextEncoder();
+        const stream = new ReadableStream<Uint8Array>({
+          start(controller) {
+            controller.enqueue(encoder.encode(first.value));
+          },
+          async pull(controller) {
+            try {
+              const next = await chunks.next();
+              if (next.done) {
+                controller.close();
+              } else {
+                controller.enqueue(encoder.encode(next.value));
+              }
+            } catch (error) {
+              console.error('Error streaming position export:', error);
+              controller.error(error);
+            }
+          },
+        });
+
+        return new NextResponse(stream, {
+          headers: {
+            'Content-Type': 'text/csv; charset=utf-8',
+            'Content-Disposition': `attachment; filename="${exportFileName(videos, 'positions', 'csv')}"`,
+          },
+        });
+      }
+
+      const table = await buildMetricsTable(user.id, videos);
+
+      if (table.rows.length === 0) {
+        return NextResponse.json(
+          { error: 'Position analysis not available. Run analysis pipeline first.' },
+          { status: 404 }
+        );
+      }
+
+      return new NextResponse(toCsv(table), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${exportFileName(videos, 'metrics', 'csv')}"`,
+        },
+      });
+    }
+
+    const tables: ExportTable[] = [];
+    if (!dataset || dataset === 'metrics') {
+      tables.push(await buildMetricsTable(user.id, videos));
+    }
+    if (!dataset || dataset === 'positions') {
+      // Stop building as soon as the sheet can't fit (the header takes a row)
+      const positions = await buildPositionsTable(user.id, videos, XLSX_MAX_ROWS - 1);
+      if (!positions) {
+        return tooManyRowsResponse();
+      }
+      tables.push(positions);
+    }
+
+    const sheets = tables.filter(table => table.rows.length > 0);
+
+    if (sheets.length === 0) {
+      return NextResponse.json(
+        { error: 'Analysis data not available. Run analysis pipeline first.' },
+        { status: 404 }
+      );
+    }
+
+    if (sheets.some(table => table.rows.length + 1 > XLSX_MAX_ROWS)) {
+      return tooManyRowsResponse();
+    }
+
+    const workbook = buildXlsx(sheets);
+
+    return new NextResponse(new Uint8Array(workbook), {
+      headers: {
+        'Content-Type': XLSX_CONTENT_TYPE,
+        'Content-Disposition': `attachment; filename="${exportFileName(videos, dataset || 'analysis', 'xlsx')}"`,
+      },
+    });
+
+  } catch (error) {
+    console.error('Error exporting analysis data:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
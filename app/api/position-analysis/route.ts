@@ -1,47 +1,42 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { GetObjectCommand } from '@aws-sdk/client-s3';
-import { r2Client } from '@/lib/r2';
+import { readObjectText } from '@/lib/storage';
+import { videoFileKey } from '@/lib/storage-keys';
+import { requireVideoAccess } from '@/lib/video-access';
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('userId');
     const videoId = searchParams.get('videoId');
 
-    console.log(`Position analysis request: userId=${userId}, videoId=${videoId}`);
+    console.log(`Position analysis request: videoId=${videoId}`);
 
-    if (!userId || !videoId) {
+    if (!videoId) {
       return NextResponse.json(
-        { error: 'Missing userId or videoId' },
+        { error: 'Missing videoId' },
         { status: 400 }
       );
     }
 
+    const access = await requireVideoAccess(videoId);
+    if (access instanceof Response) return access;
+    const userId = access.ownerId;
+
     // Try different possible keys for position analysis data
     const possibleKeys = [
-      `${process.env.R2_ENVIRONMENT || 'dev'}/${userId}/${videoId}/position_analysis.json`,
-      `dev/${userId}/${videoId}/position_analysis.json`,
+      videoFileKey(userId, videoId, 'position_analysis.json'),
     ];
 
     for (const analysisDataKey of possibleKeys) {
       try {
         console.log(`Trying to fetch position analysis from key: ${analysisDataKey}`);
 
-        const command = new GetObjectCommand({
-          Bucket: process.env.R2_BUCKET_NAME!,
-          Key: analysisDataKey,
-        });
-
-        const response = await r2Client.send(command);
+        const bodyContents = await readObjectText(analysisDataKey);
 
-        if (!response.Body) {
-          console.log(`No body found for key: ${analysisDataKey}`);
-          continue;
+        if (bodyContents === null) {
+          console.log(`No object found for key: ${analysisDataKey}`);
+          continue; // Try next key
         }
 
-        // Convert stream to string
-        const bodyContents = await response.Body.transformToString();
-
         // Parse and return the JSON data
         // Handle invalid JSON (e.g., Infinity values) by sanitizing
         let analysisData;
@@ -67,11 +62,7 @@ export async function GET(request: NextRequest) {
       } catch (r2Error) {
         console.log(`Error with key ${analysisDataKey}:`, r2Error);
 
-        if ((r2Error as Error & { name?: string }).name === 'NoSuchKey') {
-          continue; // Try next key
-        }
-
-        // For other errors, log and continue
+        // Log and continue
         console.error('R2 error:', r2Error);
         continue;
       }
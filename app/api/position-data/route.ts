@@ -1,48 +1,42 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { GetObjectCommand } from '@aws-sdk/client-s3';
-import { r2Client } from '@/lib/r2';
+import { readObjectText } from '@/lib/storage';
+import { videoFileKey } from '@/lib/storage-keys';
+import { requireVideoAccess } from '@/lib/video-access';
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('userId');
     const videoId = searchParams.get('videoId');
 
-    console.log(`Position data request: userId=${userId}, videoId=${videoId}`);
+    console.log(`Position data request: videoId=${videoId}`);
 
-    if (!userId || !videoId) {
+    if (!videoId) {
       return NextResponse.json(
-        { error: 'Missing userId or videoId' },
+        { error: 'Missing videoId' },
         { status: 400 }
       );
     }
 
+    const access = await requireVideoAccess(videoId);
+    if (access instanceof Response) return access;
+    const userId = access.ownerId;
+
     // Try different possible keys for position data
     const possibleKeys = [
-      `${process.env.R2_ENVIRONMENT || 'dev'}/${userId}/${videoId}/corrected_positions.json`,
-      `dev/${userId}/${videoId}/corrected_positions.json`,
-      `analysis/${userId}/${videoId}/unified_pose_position_artifacts.json`,
-      `${process.env.R2_ENVIRONMENT || 'dev'}/${userId}/${videoId}/unified_pose_position_artifacts.json`
+      videoFileKey(userId, videoId, 'corrected_positions.json'),
+      videoFileKey(userId, videoId, 'unified_pose_position_artifacts.json'),
     ];
     
     for (const positionDataKey of possibleKeys) {
       try {
         console.log(`Trying to fetch position data from key: ${positionDataKey}`);
         
-        const command = new GetObjectCommand({
-          Bucket: process.env.R2_BUCKET_NAME!,
-          Key: positionDataKey,
-        });
-
-        const response = await r2Client.send(command);
+        const bodyContents = await readObjectText(positionDataKey);
         
-        if (!response.Body) {
-          console.log(`No body found for key: ${positionDataKey}`);
-          continue;
+        if (bodyContents === null) {
+          console.log(`No object found for key: ${positionDataKey}`);
+          continue; // Try next key
         }
-
-        // Convert stream to string
-        const bodyContents = await response.Body.transformToString();
         
         // Parse and return the JSON data
         const positionData = JSON.parse(bodyContents);
@@ -53,11 +47,7 @@ export async function GET(request: NextRequest) {
       } catch (r2Error) {
         console.log(`Error with key ${positionDataKey}:`, r2Error);
         
-        if ((r2Error as Error & { name?: string }).name === 'NoSuchKey') {
-          continue; // Try next key
-        }
-        
-        // For other errors, log and continue
+        // Log and continue
         console.error('R2 error:', r2Error);
         continue;
       }
@@ -1,10 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
-import { r2Client } from '@/lib/r2';
-import { HeadObjectCommand } from '@aws-sdk/client-s3';
+import { storage } from '@/lib/storage';
+import { videoFileKey } from '@/lib/storage-keys';
+import { getVideoStreamUrl } from '@/lib/file-tokens';
 
-const BUCKET_NAME = process.env.R2_BUCKET_NAME!;
-const R2_ENVIRONMENT = process.env.R2_ENVIRONMENT || 'dev';
 
 export async function GET(request: NextRequest) {
   try {
@@ -23,32 +22,24 @@ export async function GET(request: NextRequest) {
     }
 
     const userId = userData.user.id;
-    const key = `${R2_ENVIRONMENT}/${userId}/${videoId}/analyzed_video.mp4`;
+    const key = videoFileKey(userId, videoId, 'analyzed_video.mp4');
 
     try {
       // Check if the processed video exists
-      const headCommand = new HeadObjectCommand({
-        Bucket: BUCKET_NAME,
-        Key: key,
-      });
-
-      await r2Client.send(headCommand);
+      if (!(await storage.head(key))) {
+        return NextResponse.json({
+          exists: false
+        });
+      }
 
       // Return a proxy URL through our API instead of a direct signed URL
-      const proxyUrl = `/api/video-stream?key=${encodeURIComponent(key)}`;
+      const proxyUrl = getVideoStreamUrl(key);
 
       return NextResponse.json({
         url: proxyUrl,
         exists: true
       });
     } catch (error: unknown) {
-      // If file doesn't exist, return exists: false
-      if (error && typeof error === 'object' && 'name' in error && error.name === 'NotFound') {
-        return NextResponse.json({
-          exists: false
-        });
-      }
-
       console.error('Error checking processed video:', error);
       return NextResponse.json({
         exists: false
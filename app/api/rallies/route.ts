@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOptionalAnalysisFileContent, uploadAnalysisFile } from '@/lib/r2';
+import { normalizeShuttleData, parseShuttleJson } from '@/lib/shuttle';
+import { normalizePositionData } from '@/lib/positions';
+import { RALLY_SEGMENTATION_VERSION, RallySegmentation, segmentRallies } from '@/lib/rallies';
+import { requireVideoAccess } from '@/lib/video-access';
+
+export const runtime = 'nodejs';
+
+const RALLIES_FILE = 'rallies.json';
+
+/**
+ * Run rally segmentation from shuttle.json + corrected_positions.json.
+ * Returns null if neither input exists yet. Only POST stores the result.
+ */
+async function buildRallies(userId: string, videoId: string): Promise<RallySegmentation | null> {
+  const [shuttleContent, positionContent] = await Promise.all([
+    getOptionalAnalysisFileContent(userId, videoId, 'shuttle.json'),
+    getOptionalAnalysisFileContent(userId, videoId, 'corrected_positions.json'),
+  ]);
+
+  if (!shuttleContent && !positionContent) {
+    return null;
+  }
+
+  const trajectory = shuttleContent ? normalizeShuttleData(parseShuttleJson(shuttleContent)) : null;
+  const positions = positionContent ? normalizePositionData(JSON.parse(positionContent)) : null;
+  return segmentRallies(trajectory, positions);
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const videoId = searchParams.get('videoId');
+    const refresh = searchParams.get('refresh') === 'true';
+
+    if (!videoId) {
+      return NextResponse.json(
+        { error: 'Missing videoId' },
+        { status: 400 }
+      );
+    }
+
+    const access = await requireVideoAccess(videoId);
+    if (access instanceof Response) return access;
+    const userId = access.ownerId;
+
+    if (!refresh) {
+      const stored = await getOptionalAnalysisFileContent(userId, videoId, RALLIES_FILE);
+      if (stored) {
+        const segmentation = JSON.parse(stored) as RallySegmentation;
+        // Segment again, without storing, if the stored result came from an
+        // older segmenter or was built before shuttle tracking finished
+        if (segmentation.version === RALLY_SEGMENTATION_VERSION && segmentation.sources.shuttle) {
+          return NextResponse.json(segmentation);
+        }
+      }
+    }
+
+    const segmentation = await buildRallies(userId, videoId);
+
+    if (!segmentation) {
+      return NextResponse.json(
+        { error: 'Rally data not available. Run analysis pipeline first.' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(segmentation);
+
+  } catch (error) {
+    console.error('Error fetching rallies:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { videoId } = await request.json();
+
+    if (!videoId) {
+      return NextResponse.json(
+        { error: 'Missing required field: videoId' },
+        { status: 400 }
+      );
+    }
+
+    const access = await requireVideoAccess(videoId);
+    if (access instanceof Response) return access;
+    const userId = access.ownerId;
+
+    const segmentation = await buildRallies(userId, videoId);
+
+    if (!segmentation) {
+      return NextResponse.json(
+        { error: 'Rally data not available. Run analysis pipeline first.' },
+        { status: 404 }
+      );
+    }
+
+    await uploadAnalysisFile(userId, videoId, RALLIES_FILE, JSON.stringify(segmentation), 'application/json');
+    console.log(`Segmented ${segmentation.rallies.length} rallies for ${videoId}`);
+
+    return NextResponse.json(segmentation);
+
+  } catch (error) {
+    console.error('Error segmenting rallies:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { reapStaleJobs } from '@/lib/job-reaper';
+import { logError, logSuccess } from '@/lib/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300; // 5 minutes (Vercel Hobby plan limit)
+
+/**
+ * GET /api/reap-stale-jobs
+ *
+ * Scheduled sweep for jobs whose RunPod worker died or hung (see
+ * lib/job-reaper.ts). Called by a scheduler with
+ * `Authorization: Bearer ${CRON_SECRET}`.
+ */
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    return NextResponse.json(
+      { error: 'Stale job reaper not configured' },
+      { status: 503 }
+    );
+  }
+
+  const expected = Buffer.from(`Bearer ${cronSecret}`);
+  const actual = Buffer.from(request.headers.get('authorization') || '');
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const webhookUrl = `${process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin}/api/webhook`;
+    const result = await reapStaleJobs({ webhookUrl });
+
+    const settled = result.decisions.filter(d => d.action !== 'alive' && d.action !== 'unknown');
+    logSuccess(`Reaper checked ${result.checked} stale jobs, settled ${settled.length}`);
+
+    return NextResponse.json({
+      success: true,
+      checked: result.checked,
+      settled: settled.length,
+      retried: result.decisions.filter(d => d.retry === 'submitted').length,
+      dispatched: result.dispatched,
+      prunedEvents: result.prunedEvents,
+      decisions: result.decisions,
+    });
+  } catch (error) {
+    logError('Stale job reaper failed', error);
+    return NextResponse.json(
+      { error: 'Failed to reap stale jobs', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Some schedulers can only POST
+export const POST = GET;
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { uploadAnalysisFile } from '@/lib/r2';
+import { videoFileKey, type VideoFileName } from '@/lib/storage-keys';
 
 export const runtime = 'nodejs';
 
@@ -22,7 +23,7 @@ export async function POST(request: NextRequest) {
     const extension = imageFormat === 'jpeg' ? 'jpeg' : imageFormat;
     const mimeType = `image/${extension}`;
 
-    let filename: string;
+    let filename: VideoFileName;
     if (size === 'small') {
       filename = `thumbnail-sm.${extension}`;
     } else if (size === 'large') {
@@ -35,10 +36,9 @@ export async function POST(request: NextRequest) {
     // Upload new thumbnail to R2, overwriting existing one
     await uploadAnalysisFile(userId, videoId, filename, thumbnailBuffer, mimeType);
 
-    const r2Environment = process.env.R2_ENVIRONMENT || 'dev';
     return NextResponse.json({
       success: true,
-      thumbnailKey: `${r2Environment}/${userId}/${videoId}/${filename}`,
+      thumbnailKey: videoFileKey(userId, videoId, filename),
       size,
       format: imageFormat,
     });
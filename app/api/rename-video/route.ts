@@ -1,5 +1,6 @@
 import { createClient } from '@/lib/supabase/server';
 import { NextRequest, NextResponse } from 'next/server';
+import { renameVideo } from '@/lib/video-library';
 
 export async function POST(request: NextRequest) {
   try {
@@ -23,25 +24,8 @@ export async function POST(request: NextRequest) {
 
     const userId = userData.user.id;
 
-    // Update display_filename in videos table
-    const { data: updatedVideo, error: updateError } = await supabase
-      .from('videos')
-      .update({
-        display_filename: newFileName,
-        updated_at: new Date().toISOString()
-      })
-      .eq('video_id', videoId)
-      .eq('user_id', userId)
-      .select()
-      .single();
-
-    if (updateError) {
-      console.error('Error renaming video in database:', updateError);
-      return NextResponse.json(
-        { error: 'Failed to rename video' },
-        { status: 500 }
-      );
-    }
+    // Only display_filename changes; the stored object keeps its name
+    const updatedVideo = await renameVideo(userId, videoId, newFileName, supabase);
 
     if (!updatedVideo) {
       return NextResponse.json({ error: 'Video not found' }, { status: 404 });
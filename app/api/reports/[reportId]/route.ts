@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { deleteReportFile, getSignedReportUrl } from '@/lib/r2';
+
+export const runtime = 'nodejs';
+
+// GET - Redirect to a signed URL for the report (?format=pdf|html, &view=true to open inline)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ reportId: string }> }
+) {
+  try {
+    const { reportId } = await params;
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const format = searchParams.get('format') || 'pdf';
+    const inline = searchParams.get('view') === 'true';
+
+    if (format !== 'pdf' && format !== 'html') {
+      return NextResponse.json({ error: 'Format must be pdf or html' }, { status: 400 });
+    }
+
+    const { data: report, error } = await supabase
+      .from('reports')
+      .select('title, html_key, pdf_key')
+      .eq('id', reportId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (error || !report) {
+      return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+    }
+
+    const downloadName = `${report.title.replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '-') || 'report'}.${format}`;
+    const url = await getSignedReportUrl(format === 'pdf' ? report.pdf_key : report.html_key, downloadName, inline);
+
+    return NextResponse.redirect(url);
+  } catch (error) {
+    console.error('Error downloading report:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE - Remove a report and its stored files
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ reportId: string }> }
+) {
+  try {
+    const { reportId } = await params;
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: report, error } = await supabase
+      .from('reports')
+      .delete()
+      .eq('id', reportId)
+      .eq('user_id', user.id)
+      .select('html_key, pdf_key')
+      .single();
+
+    if (error || !report) {
+      return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+    }
+
+    await Promise.all([deleteReportFile(report.html_key), deleteReportFile(report.pdf_key)]);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting report:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
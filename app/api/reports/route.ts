@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import crypto from 'crypto';
+import { createClient } from '@/lib/supabase/server';
+import { uploadReportFile } from '@/lib/r2';
+import { ReportScope, buildReportData, renderReportHtml, renderReportPdf } from '@/lib/reports';
+
+export const runtime = 'nodejs';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// GET - List the user's generated reports, newest first
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: reports, error } = await supabase
+      .from('reports')
+      .select('id, title, scope, video_id, range_start, range_end, video_count, created_at')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching reports:', error);
+      return NextResponse.json({ error: 'Failed to fetch reports' }, { status: 500 });
+    }
+
+    return NextResponse.json({ reports: reports || [] });
+  } catch (error) {
+    console.error('Error in reports API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Generate a report for { videoId } or { from, to } and store HTML + PDF in R2
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { videoId, from, to } = await request.json();
+    let scope: ReportScope;
+
+    if (videoId) {
+      scope = { type: 'video', videoId };
+    } else if (from && to) {
+      if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to) || from > to) {
+        return NextResponse.json({ error: 'Invalid date range' }, { status: 400 });
+      }
+      scope = { type: 'range', from, to };
+    } else {
+      return NextResponse.json({ error: 'Provide a videoId or a from/to date range' }, { status: 400 });
+    }
+
+    const report = await buildReportData(user.id, scope);
+
+    if (report.videos.length === 0) {
+      return NextResponse.json(
+        {
+          error: scope.type === 'video'
+            ? 'Analysis not yet complete for this video'
+            : 'No analyzed videos in this date range',
+        },
+        { status: 404 }
+      );
+    }
+
+    const reportId = crypto.randomUUID();
+    const [htmlKey, pdfKey] = await Promise.all([
+      uploadReportFile(user.id, reportId, 'report.html', renderReportHtml(report), 'text/html; charset=utf-8'),
+      uploadReportFile(user.id, reportId, 'report.pdf', renderReportPdf(report), 'application/pdf'),
+    ]);
+
+    const { data: saved, error: insertError } = await supabase
+      .from('reports')
+      .insert({
+        id: reportId,
+        user_id: user.id,
+        title: report.title,
+        scope: scope.type,
+        video_id: scope.type === 'video' ? scope.videoId : null,
+        range_start: scope.type === 'range' ? scope.from : null,
+        range_end: scope.type === 'range' ? scope.to : null,
+        video_count: report.videos.length,
+        html_key: htmlKey,
+        pdf_key: pdfKey,
+      })
+      .select('id, title, scope, video_id, range_start, range_end, video_count, created_at')
+      .single();
+
+    if (insertError) {
+      console.error('Error saving report:', insertError);
+      return NextResponse.json({ error: 'Failed to save report' }, { status: 500 });
+    }
+
+    console.log(`Generated report ${reportId} (${report.videos.length} videos) for user ${user.id}`);
+
+    return NextResponse.json({ report: saved }, { status: 201 });
+  } catch (error) {
+    console.error('Error generating report:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { getAnalysisFileContent, getSessionFiles } from '@/lib/r2';
+import { sourceVideoKey, videoFileKey } from '@/lib/storage-keys';
+import { ANNOTATION_SELECT, buildAnnotationThreads } from '@/lib/annotations';
+import { getVideoStreamUrl } from '@/lib/file-tokens';
 
 // GET - Fetch shared analysis data (no authentication required)
 export async function GET(
@@ -76,9 +79,32 @@ export async function GET(
       // Player names file might not exist, that's okay
     }
 
+    // Annotations the owner chose to show on the share page, with their replies
+    const { data: sharedAnnotations, error: annotationsError } = await supabase
+      .from('video_annotations')
+      .select(ANNOTATION_SELECT)
+      .eq('user_id', userId)
+      .eq('video_id', videoId)
+      .is('parent_id', null)
+      .eq('show_on_share', true);
+
+    if (annotationsError) {
+      console.error('Error fetching shared annotations:', annotationsError);
+    }
+
+    const sharedIds = (sharedAnnotations || []).map(annotation => annotation.id);
+    const { data: sharedReplies } = sharedIds.length > 0
+      ? await supabase
+        .from('video_annotations')
+        .select(ANNOTATION_SELECT)
+        .in('parent_id', sharedIds)
+      : { data: [] };
+
     // Get video metadata
     const videoFile = sessionFiles.find(f => f.fileName.startsWith('video.'));
-    const videoKey = videoFile?.key || `${process.env.R2_ENVIRONMENT || 'dev'}/${userId}/${videoId}/video.mp4`;
+    const videoKey = hasAnalyzedVideo
+      ? videoFileKey(userId, videoId, 'analyzed_video.mp4')
+      : videoFile?.key || sourceVideoKey(userId, videoId, 'mp4');
 
     // Increment view count (fire and forget)
     const { error: updateError } = await supabase
@@ -95,11 +121,12 @@ export async function GET(
       hasAnalyzedVideo,
       positionAnalysisData,
       playerNames,
+      annotations: buildAnnotationThreads([...(sharedAnnotations || []), ...(sharedReplies || [])]),
       videoId,
       userId,
-      videoKey: hasAnalyzedVideo
-        ? `${process.env.R2_ENVIRONMENT || 'dev'}/${userId}/${videoId}/analyzed_video.mp4`
-        : videoKey,
+      videoKey,
+      // Signed now that the share link has been checked
+      videoUrl: getVideoStreamUrl(videoKey),
       createdAt: share.created_at,
     });
   } catch (error) {
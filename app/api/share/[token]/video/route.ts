@@ -1,12 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
-import { r2Client, getSessionFiles } from '@/lib/r2';
-import { GetObjectCommand } from '@aws-sdk/client-s3';
+import { getSessionFiles } from '@/lib/r2';
+import { storage } from '@/lib/storage';
 
 export const runtime = 'nodejs';
 
-const BUCKET_NAME = process.env.R2_BUCKET_NAME!;
-
 // GET - Stream video for shared analysis (no authentication required)
 export async function GET(
   request: NextRequest,
@@ -67,35 +65,30 @@ export async function GET(
     const key = videoFile.key;
 
     // Handle range requests for video streaming
-    const range = request.headers.get('range');
+    const range = request.headers.get('range')?.match(/bytes=(\d+)-(\d*)/);
 
-    const command = new GetObjectCommand({
-      Bucket: BUCKET_NAME,
-      Key: key,
-      Range: range || undefined,
+    const object = await storage.get(key, {
+      range: range
+        ? { start: parseInt(range[1], 10), end: range[2] ? parseInt(range[2], 10) : undefined }
+        : undefined,
     });
 
-    const response = await r2Client.send(command);
-
-    if (!response.Body) {
+    if (!object) {
       return NextResponse.json({ error: 'Video not found' }, { status: 404 });
     }
 
     const headers = new Headers();
-    headers.set('Content-Type', response.ContentType || 'video/mp4');
+    headers.set('Content-Type', object.contentType || 'video/mp4');
     headers.set('Accept-Ranges', 'bytes');
 
-    if (response.ContentLength) {
-      headers.set('Content-Length', response.ContentLength.toString());
+    if (object.contentLength) {
+      headers.set('Content-Length', object.contentLength.toString());
     }
-    if (response.ContentRange) {
-      headers.set('Content-Range', response.ContentRange);
+    if (object.contentRange) {
+      headers.set('Content-Range', object.contentRange);
     }
 
-    // Convert the response body to a ReadableStream
-    const stream = response.Body.transformToWebStream();
-
-    return new NextResponse(stream, {
+    return new NextResponse(object.body, {
       status: range ? 206 : 200,
       headers,
     });
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOptionalAnalysisFileContent, uploadAnalysisFile } from '@/lib/r2';
+import { normalizeShuttleData, parseShuttleJson } from '@/lib/shuttle';
+import { normalizePositionData } from '@/lib/positions';
+import { segmentRallies } from '@/lib/rallies';
+import { SHOT_CLASSIFICATION_VERSION, ShotAnalysis, classifyShots } from '@/lib/shots';
+import { requireVideoAccess } from '@/lib/video-access';
+
+export const runtime = 'nodejs';
+
+const SHOTS_FILE = 'shots.json';
+
+/**
+ * Detect and classify shots from shuttle.json + corrected_positions.json.
+ * Returns null if shuttle tracking hasn't run. Only POST stores the result.
+ */
+async function buildShots(userId: string, videoId: string): Promise<ShotAnalysis | null> {
+  const [shuttleContent, positionContent] = await Promise.all([
+    getOptionalAnalysisFileContent(userId, videoId, 'shuttle.json'),
+    getOptionalAnalysisFileContent(userId, videoId, 'corrected_positions.json'),
+  ]);
+
+  if (!shuttleContent) {
+    return null;
+  }
+
+  const trajectory = normalizeShuttleData(parseShuttleJson(shuttleContent));
+  const positions = positionContent ? normalizePositionData(JSON.parse(positionContent)) : null;
+  const { rallies } = segmentRallies(trajectory, positions);
+  return classifyShots(trajectory, positions, rallies);
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const videoId = searchParams.get('videoId');
+    const refresh = searchParams.get('refresh') === 'true';
+
+    if (!videoId) {
+      return NextResponse.json(
+        { error: 'Missing videoId' },
+        { status: 400 }
+      );
+    }
+
+    const access = await requireVideoAccess(videoId);
+    if (access instanceof Response) return access;
+    const userId = access.ownerId;
+
+    if (!refresh) {
+      const stored = await getOptionalAnalysisFileContent(userId, videoId, SHOTS_FILE);
+      if (stored) {
+        const analysis = JSON.parse(stored) as ShotAnalysis;
+        // Classify again, without storing, if the stored result came from an
+        // older classifier or was built before position data was available
+        if (analysis.version === SHOT_CLASSIFICATION_VERSION && analysis.sources.positions) {
+          return NextResponse.json(analysis);
+        }
+      }
+    }
+
+    const analysis = await buildShots(userId, videoId);
+
+    if (!analysis) {
+      return NextResponse.json(
+        { error: 'Shot data not available. Run analysis pipeline first.' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(analysis);
+
+  } catch (error) {
+    console.error('Error fetching shots:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { videoId } = await request.json();
+
+    if (!videoId) {
+      return NextResponse.json(
+        { error: 'Missing required field: videoId' },
+        { status: 400 }
+      );
+    }
+
+    const access = await requireVideoAccess(videoId);
+    if (access instanceof Response) return access;
+    const userId = access.ownerId;
+
+    const analysis = await buildShots(userId, videoId);
+
+    if (!analysis) {
+      return NextResponse.json(
+        { error: 'Shot data not available. Run analysis pipeline first.' },
+        { status: 404 }
+      );
+    }
+
+    await uploadAnalysisFile(userId, videoId, SHOTS_FILE, JSON.stringify(analysis), 'application/json');
+    console.log(`Classified ${analysis.shots.length} shots for ${videoId}`);
+
+    return NextResponse.json(analysis);
+
+  } catch (error) {
+    console.error('Error classifying shots:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readObjectText } from '@/lib/storage';
+import { videoFileKey } from '@/lib/storage-keys';
+import { normalizeShuttleData, parseShuttleJson } from '@/lib/shuttle';
+import { requireVideoAccess } from '@/lib/video-access';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const videoId = searchParams.get('videoId');
+
+    if (!videoId) {
+      return NextResponse.json(
+        { error: 'Missing videoId' },
+        { status: 400 }
+      );
+    }
+
+    const access = await requireVideoAccess(videoId);
+    if (access instanceof Response) return access;
+    const userId = access.ownerId;
+
+    const key = videoFileKey(userId, videoId, 'shuttle.json');
+
+    const bodyContents = await readObjectText(key);
+
+    if (bodyContents === null) {
+      return NextResponse.json(
+        { error: 'Shuttle data not available. Run analysis pipeline first.' },
+        { status: 404 }
+      );
+    }
+
+    const trajectory = normalizeShuttleData(parseShuttleJson(bodyContents));
+
+    console.log(`Loaded shuttle data for ${videoId}: ${trajectory.visibleCount}/${trajectory.frameCount} frames visible`);
+
+    return NextResponse.json(trajectory);
+
+  } catch (error) {
+    console.error('Error fetching shuttle data:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
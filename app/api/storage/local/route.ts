@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { storage } from '@/lib/storage';
+import { LocalStorageProvider, verifyLocalStorageGrant, type LocalStorageGrant } from '@/lib/local-storage';
+import { createForbiddenResponse } from '@/lib/admin-auth';
+import { logError } from '@/lib/logger';
+
+export const runtime = 'nodejs';
+
+/**
+ * The presigned URL's grant, or an error response. Only exists when
+ * STORAGE_PROVIDER=local.
+ */
+function authorize(request: NextRequest, method: LocalStorageGrant['m']): LocalStorageGrant | Response {
+  if (!(storage instanceof LocalStorageProvider)) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const grant = verifyLocalStorageGrant(request.nextUrl.searchParams.get('token'));
+  if (!grant || grant.m !== method) {
+    return createForbiddenResponse('Invalid or expired storage URL');
+  }
+  return grant;
+}
+
+/** HEAD /api/storage/local - size and type of a presigned object */
+export async function HEAD(request: NextRequest) {
+  const grant = authorize(request, 'GET');
+  if (grant instanceof Response) return new NextResponse(null, { status: grant.status });
+
+  const info = await storage.head(grant.k);
+  if (!info) return new NextResponse(null, { status: 404 });
+
+  return new NextResponse(null, {
+    headers: {
+      'Content-Type': info.contentType || 'application/octet-stream',
+      'Content-Length': info.size.toString(),
+      'Accept-Ranges': 'bytes',
+    },
+  });
+}
+
+/** GET /api/storage/local - read a presigned object, honouring Range */
+export async function GET(request: NextRequest) {
+  const grant = authorize(request, 'GET');
+  if (grant instanceof Response) return grant;
+
+  try {
+    const info = await storage.head(grant.k);
+    if (!info) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    let range: { start: number; end: number } | undefined;
+    const rangeHeader = request.headers.get('range');
+    const match = rangeHeader?.match(/bytes=(\d+)-(\d*)/);
+    if (match) {
+      const start = parseInt(match[1], 10);
+      const end = match[2] ? Math.min(parseInt(match[2], 10), info.size - 1) : info.size - 1;
+      if (start >= info.size || start > end) {
+        return new NextResponse(null, { status: 416, headers: { 'Content-Range': `bytes */${info.size}` } });
+      }
+      range = { start, end };
+    }
+
+    const object = await storage.get(grant.k, { range });
+    if (!object) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': object.contentType || 'application/octet-stream',
+      'Content-Length': object.contentLength.toString(),
+      'Accept-Ranges': 'bytes',
+    };
+    if (object.contentRange) headers['Content-Range'] = object.contentRange;
+    if (grant.d) headers['Content-Disposition'] = grant.d;
+
+    return new NextResponse(object.body, { status: range ? 206 : 200, headers });
+  } catch (error) {
+    logError('Local storage read failed', error);
+    return NextResponse.json({ error: 'Failed to read object' }, { status: 500 });
+  }
+}
+
+/** PUT /api/storage/local - write a presigned object or multipart part */
+export async function PUT(request: NextRequest) {
+  const grant = authorize(request, 'PUT');
+  if (grant instanceof Response) return grant;
+
+  if (!request.body) {
+    return NextResponse.json({ error: 'Request body is required' }, { status: 400 });
+  }
+
+  try {
+    const local = storage as LocalStorageProvider;
+
+    if (grant.u && grant.p) {
+      const etag = await local.writeUploadPart(grant.k, grant.u, grant.p, request.body);
+      return new NextResponse(null, { headers: { ETag: etag } });
+    }
+
+    await local.put(grant.k, request.body, {
+      contentType: grant.t || request.headers.get('content-type') || undefined,
+      metadata: grant.md,
+    });
+    return new NextResponse(null);
+  } catch (error) {
+    logError('Local storage write failed', error);
+    return NextResponse.json({ error: 'Failed to write object' }, { status: 500 });
+  }
+}
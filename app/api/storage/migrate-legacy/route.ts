@@ -0,0 +1,51 @@
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_MIGRATION_LIMIT, migrateLegacyObjects } from '@/lib/storage-migration';
+import { logError } from '@/lib/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300; // 5 minutes (Vercel Hobby plan limit)
+
+/**
+ * POST /api/storage/migrate-legacy
+ *
+ * Moves objects in legacy key layouts into {env}/{userId}/{videoId}/ (see
+ * lib/storage-migration.ts) and reports what moved. A dry run unless the
+ * body has `"apply": true`; `limit` caps moves per call. Called by
+ * `npm run storage:migrate` with `Authorization: Bearer ${CRON_SECRET}`.
+ */
+export async function POST(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    return NextResponse.json(
+      { error: 'Storage migration not configured' },
+      { status: 503 }
+    );
+  }
+
+  const expected = Buffer.from(`Bearer ${cronSecret}`);
+  const actual = Buffer.from(request.headers.get('authorization') || '');
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const limit = body.limit ?? DEFAULT_MIGRATION_LIMIT;
+
+  if (!Number.isInteger(limit) || limit < 1) {
+    return NextResponse.json({ error: 'limit must be a positive integer' }, { status: 400 });
+  }
+
+  try {
+    const report = await migrateLegacyObjects({ dryRun: body.apply !== true, limit });
+    return NextResponse.json({ success: report.failed.length === 0, ...report });
+  } catch (error) {
+    logError('Legacy storage migration failed', error);
+    return NextResponse.json(
+      { error: 'Failed to migrate legacy storage', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_RECONCILE_LIMIT, reconcileVideoLibrary } from '@/lib/video-reconciliation';
+import { logError } from '@/lib/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300; // 5 minutes (Vercel Hobby plan limit)
+
+function authorize(request: NextRequest): Response | null {
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    return NextResponse.json(
+      { error: 'Video reconciliation not configured' },
+      { status: 503 }
+    );
+  }
+
+  const expected = Buffer.from(`Bearer ${cronSecret}`);
+  const actual = Buffer.from(request.headers.get('authorization') || '');
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  return null;
+}
+
+async function reconcile(dryRun: boolean, limit: number) {
+  try {
+    const report = await reconcileVideoLibrary({ dryRun, limit });
+    return NextResponse.json({ success: report.failed.length === 0, ...report });
+  } catch (error) {
+    logError('Video reconciliation failed', error);
+    return NextResponse.json(
+      { error: 'Failed to reconcile videos', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/storage/reconcile-videos
+ *
+ * Scheduled run: backfills videos rows for uploads that have none and flags
+ * rows whose object is gone (see lib/video-reconciliation.ts). Called by a
+ * scheduler with `Authorization: Bearer ${CRON_SECRET}`.
+ */
+export async function GET(request: NextRequest) {
+  const unauthorized = authorize(request);
+  if (unauthorized) return unauthorized;
+
+  return reconcile(false, DEFAULT_RECONCILE_LIMIT);
+}
+
+/**
+ * POST /api/storage/reconcile-videos
+ *
+ * The same, but a dry run unless the body has `"apply": true`; `limit` caps
+ * backfilled rows per call. Called by `npm run storage:reconcile`.
+ */
+export async function POST(request: NextRequest) {
+  const unauthorized = authorize(request);
+  if (unauthorized) return unauthorized;
+
+  const body = await request.json().catch(() => ({}));
+  const limit = body.limit ?? DEFAULT_RECONCILE_LIMIT;
+
+  if (!Number.isInteger(limit) || limit < 1) {
+    return NextResponse.json({ error: 'limit must be a positive integer' }, { status: 400 });
+  }
+
+  return reconcile(body.apply !== true, limit);
+}
@@ -1,6 +1,6 @@
 import { NextResponse } from 'next/server';
 import { createProcessingJob } from '@/lib/processing-jobs';
-import { createClient } from '@/lib/supabase/server';
+import { createClient, createAdminClient } from '@/lib/supabase/server';
 import { cookies } from 'next/headers';
 
 export async function GET() {
@@ -30,7 +30,7 @@ export async function GET() {
       jobType: 'unified_analysis',
       jobParams: { test: true, timestamp: new Date().toISOString() },
       webhookUrl: 'https://example.com/webhook',
-    });
+    }, createAdminClient()); // Only the service role writes processing_jobs
 
     if (!job) {
       return NextResponse.json({
@@ -1,47 +1,34 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { S3Client, GetObjectCommand } from '@aws-sdk/client-s3';
+import { storage } from '@/lib/storage';
+import { verifyFileToken } from '@/lib/file-tokens';
+import { createForbiddenResponse } from '@/lib/admin-auth';
 
 export const runtime = 'nodejs';
 
-const r2Client = new S3Client({
-  region: 'auto',
-  endpoint: process.env.R2_ENDPOINT_URL,
-  credentials: {
-    accessKeyId: process.env.R2_ACCESS_KEY_ID!,
-    secretAccessKey: process.env.R2_SECRET_ACCESS_KEY!,
-  },
-});
-
-const BUCKET_NAME = process.env.R2_BUCKET_NAME!;
-
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const key = searchParams.get('key');
+    const token = searchParams.get('token');
     const size = searchParams.get('size') || 'medium'; // small, medium, large
 
-    if (!key) {
+    if (!token) {
       return NextResponse.json(
-        { error: 'Missing key parameter' },
+        { error: 'Missing token parameter' },
         { status: 400 }
       );
     }
 
-    // Parse the key to extract userId and videoId
-    // Expected format: dev/{userId}/{videoId}/thumbnail.jpg or similar
-    const keyParts = key.split('/');
-    const videoId = keyParts.length >= 3 ? keyParts[keyParts.length - 2] : null;
-    const userId = keyParts.length >= 3 ? keyParts[keyParts.length - 3] : null;
-
-    if (!userId || !videoId) {
-      console.warn('Could not extract userId/videoId from key:', key);
-      return createDefaultThumbnail();
+    // The token grants {env}/{userId}/{videoId}/thumbnail - any of its variants may be served
+    const key = verifyFileToken(token);
+    const keyParts = key?.split('/') || [];
+    if (!key || keyParts.length < 3 || !keyParts[keyParts.length - 1].startsWith('thumbnail')) {
+      return createForbiddenResponse('Invalid or expired file token');
     }
 
-    // Build smart fallback chain based on requested size
-    const r2Environment = process.env.R2_ENVIRONMENT || 'dev';
-    const basePath = `${r2Environment}/${userId}/${videoId}`;
+    const videoId = keyParts[keyParts.length - 2];
+    const basePath = keyParts.slice(0, -1).join('/');
 
+    // Build smart fallback chain based on requested size
     const thumbnailKeys = (() => {
       switch (size) {
         case 'small':
@@ -78,19 +65,12 @@ export async function GET(request: NextRequest) {
     // Try each thumbnail key in order until one is found
     for (const thumbnailKey of thumbnailKeys) {
       try {
-        const command = new GetObjectCommand({
-          Bucket: BUCKET_NAME,
-          Key: thumbnailKey,
-        });
-
-        const response = await r2Client.send(command);
-
-        if (response.Body) {
-          const stream = response.Body as ReadableStream;
+        const object = await storage.get(thumbnailKey);
 
-          return new NextResponse(stream, {
+        if (object) {
+          return new NextResponse(object.body, {
             headers: {
-              'Content-Type': response.ContentType || 'image/jpeg',
+              'Content-Type': object.contentType || 'image/jpeg',
               'Cache-Control': 'public, max-age=604800, immutable', // 7 days cache
               'ETag': `"${videoId}-${thumbnailKey.split('/').pop()}"`,
             },
@@ -1,20 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { S3Client, GetObjectCommand } from '@aws-sdk/client-s3';
 import { uploadAnalysisFile } from '@/lib/r2';
+import { storage } from '@/lib/storage';
+import { videoFileKey } from '@/lib/storage-keys';
 
 export const runtime = 'nodejs';
 
-const r2Client = new S3Client({
-  region: 'auto',
-  endpoint: process.env.R2_ENDPOINT_URL,
-  credentials: {
-    accessKeyId: process.env.R2_ACCESS_KEY_ID!,
-    secretAccessKey: process.env.R2_SECRET_ACCESS_KEY!,
-  },
-});
-
-const BUCKET_NAME = process.env.R2_BUCKET_NAME!;
-
 export async function POST(request: NextRequest) {
   let userId: string | undefined, videoId: string | undefined, videoKey: string | undefined;
   
@@ -28,15 +18,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get the video file from R2
-    const videoCommand = new GetObjectCommand({
-      Bucket: BUCKET_NAME,
-      Key: videoKey,
-    });
-
-    const videoResponse = await r2Client.send(videoCommand);
+    // Check the video file exists
+    const video = await storage.head(videoKey);
     
-    if (!videoResponse.Body) {
+    if (!video) {
       throw new Error('Video not found');
     }
 
@@ -49,7 +34,7 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({ 
       success: true,
-      thumbnailKey: `dev/${userId}/${videoId}/thumbnail.svg`
+      thumbnailKey: videoFileKey(userId, videoId, 'thumbnail.svg')
     });
   } catch (error) {
     console.error('Error generating thumbnail:', error);
@@ -68,7 +53,7 @@ export async function POST(request: NextRequest) {
     
     return NextResponse.json({ 
       success: true,
-      thumbnailKey: `dev/${userId}/${videoId}/thumbnail.svg`
+      thumbnailKey: videoFileKey(userId, videoId, 'thumbnail.svg')
     });
   }
 }
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { uploadVideo, getSignedVideoUrl } from '@/lib/r2';
+import { uploadVideo } from '@/lib/r2';
 import { createClient } from '@/lib/supabase/server';
 import { logJobInfo, logSuccess, logError, logWarn } from '@/lib/logger';
+import { dispatchQueuedJobs, enqueueAnalysisJob } from '@/lib/job-queue';
+import { computeBackend } from '@/lib/compute-backend';
 
 export const runtime = 'nodejs';
 export const maxDuration = 300; // 5 minutes for video upload
@@ -54,9 +56,17 @@ function createDefaultThumbnail(): string {
 
 export async function POST(request: NextRequest) {
   try {
+    // The uploader comes from the session; a userId form field is ignored
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = user.id;
     const formData = await request.formData();
     const file = formData.get('file') as File;
-    const userId = formData.get('userId') as string;
     const fileName = formData.get('fileName') as string;
     const thumbnailSmall = formData.get('thumbnailSmall') as string | null;
     const thumbnailMedium = formData.get('thumbnailMedium') as string | null;
@@ -64,7 +74,7 @@ export async function POST(request: NextRequest) {
     // Legacy support for old single thumbnail format
     const thumbnail = formData.get('thumbnail') as string | null;
 
-    if (!file || !userId || !fileName) {
+    if (!file || !fileName) {
       return NextResponse.json(
         { error: 'Missing required fields' },
         { status: 400 }
@@ -72,7 +82,6 @@ export async function POST(request: NextRequest) {
     }
 
     // Check user subscription and hours remaining before upload
-    const supabase = await createClient();
     const { data: subscription, error: subError } = await supabase
       .from('subscriptions')
       .select('*')
@@ -117,8 +126,7 @@ export async function POST(request: NextRequest) {
     const result = await uploadVideo(userId, file, fileName);
 
     // Create video record in database
-    const r2Environment = process.env.R2_ENVIRONMENT || 'dev';
-    const r2Key = `${r2Environment}/${userId}/${result.videoId}/video.mp4`;
+    const r2Key = result.key;
 
     const { data: videoRecord, error: videoError } = await supabase
       .from('videos')
@@ -290,59 +298,35 @@ export async function POST(request: NextRequest) {
       minutesConsumed: minutesNeeded.toFixed(2),
     });
 
-    // Automatically trigger full video processing via RunPod
-    try {
-      const runpodEndpoint = process.env.RUNPOD_ENDPOINT_ID;
-      const runpodApiKey = process.env.RUNPOD_API_KEY;
-
-      if (runpodEndpoint && runpodApiKey) {
-        // Trigger async processing directly (no HTTP call needed)
-        (async () => {
-          try {
-            // Get signed video URL (use same key as uploaded video)
-            const signedVideoUrl = await getSignedVideoUrl(r2Key);
-
-            // Construct webhook URL
-            const webhookUrl = process.env.NEXT_PUBLIC_APP_URL
-              ? `${process.env.NEXT_PUBLIC_APP_URL}/api/webhook`
-              : 'http://localhost:3000/api/webhook';
-
-            // Submit job to RunPod
-            const runpodResponse = await fetch(`https://api.runpod.ai/v2/${runpodEndpoint}/run`, {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${runpodApiKey}`,
-              },
-              body: JSON.stringify({
-                input: {
-                  video_url: signedVideoUrl,
-                  user_id: userId,
-                  video_id: result.videoId,
-                  webhook_url: webhookUrl
-                }
-              })
-            });
-
-            if (!runpodResponse.ok) {
-              throw new Error(`RunPod API error: ${runpodResponse.status}`);
-            }
-
-            const runpodData = await runpodResponse.json();
-            const runpodJobId = runpodData.id;
-            const internalJobId = `unified-${result.videoId}-${Date.now()}`;
-
-            // Python worker will create the processing job record
-            logSuccess('Auto-processing initiated', { jobId: internalJobId, runpodJobId });
-          } catch (error) {
-            logError('Auto-processing failed', error);
-          }
-        })();
-      } else {
-        logWarn('RunPod not configured - skipping auto-processing');
-      }
-    } catch (autoProcessError) {
-      logError('Failed to trigger auto-processing', autoProcessError);
+    // Automatically queue full video processing
+    if (computeBackend.isConfigured()) {
+      (async () => {
+        try {
+          // Construct webhook URL
+          const webhookUrl = process.env.NEXT_PUBLIC_APP_URL
+            ? `${process.env.NEXT_PUBLIC_APP_URL}/api/webhook`
+            : 'http://localhost:3000/api/webhook';
+
+          const internalJobId = `unified-${result.videoId}-${Date.now()}`;
+
+          // Use same key as uploaded video; dispatch respects the user's plan limits
+          await enqueueAnalysisJob({
+            jobId: internalJobId,
+            userId,
+            videoId: result.videoId,
+            videoKey: r2Key,
+            webhookUrl,
+            input: { video_id: result.videoId },
+          });
+          await dispatchQueuedJobs();
+
+          logSuccess('Auto-processing queued', { jobId: internalJobId });
+        } catch (error) {
+          logError('Auto-processing failed', error);
+        }
+      })();
+    } else {
+      logWarn('RunPod not configured - skipping auto-processing');
     }
 
     return NextResponse.json({
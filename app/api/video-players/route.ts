@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { getOptionalAnalysisFileContent, uploadAnalysisFile } from '@/lib/r2';
+
+export const runtime = 'nodejs';
+
+// GET - Player profile links for a video's tracked players
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const videoId = new URL(request.url).searchParams.get('videoId');
+
+    if (!videoId) {
+      return NextResponse.json({ error: 'Missing videoId' }, { status: 400 });
+    }
+
+    const { data: links, error } = await supabase
+      .from('video_players')
+      .select('tracked_player_id, player_id, players(name)')
+      .eq('video_id', videoId)
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error fetching video players:', error);
+      return NextResponse.json({ error: 'Failed to fetch player links' }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      links: (links || []).map(link => {
+        const player = (Array.isArray(link.players) ? link.players[0] : link.players) as { name: string } | null;
+        return {
+          trackedPlayerId: link.tracked_player_id,
+          playerId: link.player_id,
+          playerName: player?.name ?? null,
+        };
+      }),
+    });
+  } catch (error) {
+    console.error('Error in video players API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PUT - Link or unlink tracked players, e.g. { videoId, links: { player_0: "<uuid>", player_1: null } }
+export async function PUT(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { videoId, links } = await request.json();
+
+    if (!videoId || !links || typeof links !== 'object') {
+      return NextResponse.json({ error: 'Missing videoId or links' }, { status: 400 });
+    }
+
+    const entries = Object.entries(links as Record<string, string | null>);
+
+    if (entries.some(([trackedPlayerId]) => !/^player_\d+$/.test(trackedPlayerId))) {
+      return NextResponse.json({ error: 'Invalid tracked player ID' }, { status: 400 });
+    }
+
+    if (entries.some(([, playerId]) => playerId !== null && typeof playerId !== 'string')) {
+      return NextResponse.json({ error: 'Invalid player ID' }, { status: 400 });
+    }
+
+    const profileIds = entries.flatMap(([, playerId]) => playerId ? [playerId] : []);
+    if (new Set(profileIds).size !== profileIds.length) {
+      return NextResponse.json({ error: 'A player can only be linked once per video' }, { status: 400 });
+    }
+
+    const { data: video } = await supabase
+      .from('videos')
+      .select('video_id')
+      .eq('video_id', videoId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!video) {
+      return NextResponse.json({ error: 'Video not found' }, { status: 404 });
+    }
+
+    const { data: players, error: playersError } = profileIds.length > 0
+      ? await supabase.from('players').select('id, name').eq('user_id', user.id).in('id', profileIds)
+      : { data: [], error: null };
+
+    if (playersError) {
+      console.error('Error fetching players:', playersError);
+      return NextResponse.json({ error: 'Failed to update player links' }, { status: 500 });
+    }
+
+    if ((players || []).length !== profileIds.length) {
+      return NextResponse.json({ error: 'Player not found' }, { status: 404 });
+    }
+
+    // One transaction: clears the changed tracked players, then links the new
+    // profiles, so a failed insert leaves the old links in place
+    const { error: linkError } = await supabase.rpc('set_video_player_links', {
+      p_video_id: videoId,
+      p_links: links,
+    });
+
+    if (linkError?.code === '23505') {
+      return NextResponse.json({ error: 'A player can only be linked once per video' }, { status: 409 });
+    }
+
+    if (linkError) {
+      console.error('Error updating player links:', linkError);
+      return NextResponse.json({ error: 'Failed to update player links' }, { status: 500 });
+    }
+
+    // Keep player_names.json in step so the analysis view and share page show
+    // the profile names
+    const stored = await getOptionalAnalysisFileContent(user.id, videoId, 'player_names.json');
+    const playerNames: Record<string, string> = stored ? JSON.parse(stored) : {};
+    const namesById = new Map((players || []).map(player => [player.id, player.name as string]));
+    for (const [trackedPlayerId, playerId] of entries) {
+      if (playerId) playerNames[trackedPlayerId] = namesById.get(playerId)!;
+    }
+    await uploadAnalysisFile(user.id, videoId, 'player_names.json', JSON.stringify(playerNames), 'application/json');
+
+    return NextResponse.json({ success: true, playerNames });
+  } catch (error) {
+    console.error('Error in video players API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
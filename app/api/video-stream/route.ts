@@ -1,38 +1,42 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { GetObjectCommand, HeadObjectCommand } from '@aws-sdk/client-s3';
-import { r2Client } from '@/lib/r2';
+import { storage } from '@/lib/storage';
+import { verifyFileToken } from '@/lib/file-tokens';
+import { createForbiddenResponse } from '@/lib/admin-auth';
 
 export const runtime = 'nodejs';
 
-const BUCKET_NAME = process.env.R2_BUCKET_NAME!;
-
 // HEAD request handler for pre-flight checks
 export async function HEAD(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const key = searchParams.get('key');
+    const token = searchParams.get('token');
 
-    console.log(`[VIDEO-STREAM HEAD] Request for key: ${key}`);
+    if (!token) {
+      console.error('[VIDEO-STREAM HEAD] Missing token parameter');
+      return new NextResponse(null, { status: 400 });
+    }
 
+    const key = verifyFileToken(token);
     if (!key) {
-      console.error('[VIDEO-STREAM HEAD] Missing key parameter');
-      return new NextResponse(null, { status: 400 });
+      console.error('[VIDEO-STREAM HEAD] Invalid or expired file token');
+      return new NextResponse(null, { status: 403 });
     }
 
-    const command = new HeadObjectCommand({
-      Bucket: BUCKET_NAME,
-      Key: key,
-    });
+    console.log(`[VIDEO-STREAM HEAD] Request for key: ${key}`);
 
-    console.log(`[VIDEO-STREAM HEAD] Checking file in bucket: ${BUCKET_NAME}, key: ${key}`);
-    const response = await r2Client.send(command);
-    console.log(`[VIDEO-STREAM HEAD] File exists - Size: ${response.ContentLength} bytes`);
+    console.log(`[VIDEO-STREAM HEAD] Checking file in ${storage.name} storage, key: ${key}`);
+    const info = await storage.head(key);
+    if (!info) {
+      console.error('[VIDEO-STREAM HEAD] File not found in storage');
+      return new NextResponse(null, { status: 404 });
+    }
+    console.log(`[VIDEO-STREAM HEAD] File exists - Size: ${info.size} bytes`);
 
     return new NextResponse(null, {
       status: 200,
       headers: {
-        'Content-Type': response.ContentType || 'video/mp4',
-        'Content-Length': response.ContentLength?.toString() || '0',
+        'Content-Type': info.contentType || 'video/mp4',
+        'Content-Length': info.size.toString(),
         'Accept-Ranges': 'bytes',
       },
     });
@@ -47,12 +51,6 @@ export async function HEAD(request: NextRequest) {
       });
     }
 
-    if (error && typeof error === 'object' && 'name' in error) {
-      if (error.name === 'NoSuchKey' || ('Code' in error && error.Code === 'NoSuchKey')) {
-        console.error('[VIDEO-STREAM HEAD] File not found in R2 bucket');
-        return new NextResponse(null, { status: 404 });
-      }
-    }
     return new NextResponse(null, { status: 500 });
   }
 }
@@ -60,33 +58,41 @@ export async function HEAD(request: NextRequest) {
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const key = searchParams.get('key');
+    const token = searchParams.get('token');
     const download = searchParams.get('download') === 'true';
     const filename = searchParams.get('filename');
 
-    console.log(`[VIDEO-STREAM] Request for key: ${key}`);
-
-    if (!key) {
-      console.error('[VIDEO-STREAM] Missing key parameter');
+    if (!token) {
+      console.error('[VIDEO-STREAM] Missing token parameter');
       return NextResponse.json(
-        { error: 'Missing key parameter' },
+        { error: 'Missing token parameter' },
         { status: 400 }
       );
     }
 
+    // Only stream the key sealed in a valid file token
+    const key = verifyFileToken(token);
+    if (!key) {
+      return createForbiddenResponse('Invalid or expired file token');
+    }
+
+    console.log(`[VIDEO-STREAM] Request for key: ${key}`);
+
     // Get the Range header for partial content requests (required for video streaming)
     const rangeHeader = request.headers.get('range');
 
     // First, get the file metadata to know the total size
-    const headCommand = new HeadObjectCommand({
-      Bucket: BUCKET_NAME,
-      Key: key,
-    });
-
-    console.log(`[VIDEO-STREAM] Fetching metadata from bucket: ${BUCKET_NAME}, key: ${key}`);
-    const headResponse = await r2Client.send(headCommand);
-    const fileSize = headResponse.ContentLength || 0;
-    const contentType = headResponse.ContentType || 'video/mp4';
+    console.log(`[VIDEO-STREAM] Fetching metadata from ${storage.name} storage, key: ${key}`);
+    const info = await storage.head(key);
+    if (!info) {
+      console.error('[VIDEO-STREAM] File not found in storage');
+      return NextResponse.json(
+        { error: 'Video file not found. It may still be processing.' },
+        { status: 404 }
+      );
+    }
+    const fileSize = info.size;
+    const contentType = info.contentType || 'video/mp4';
     console.log(`[VIDEO-STREAM] File found - Size: ${fileSize} bytes, Type: ${contentType}`);
 
     // Handle Range requests (required for video streaming)
@@ -115,30 +121,16 @@ export async function GET(request: NextRequest) {
 
       const chunkSize = end - start + 1;
 
-      // Get the requested range from R2
-      const getCommand = new GetObjectCommand({
-        Bucket: BUCKET_NAME,
-        Key: key,
-        Range: `bytes=${start}-${end}`,
-      });
-
-      const response = await r2Client.send(getCommand);
+      // Get the requested range from storage
+      const object = await storage.get(key, { range: { start, end } });
 
-      if (!response.Body) {
+      if (!object) {
         return NextResponse.json(
           { error: 'Video not found' },
           { status: 404 }
         );
       }
 
-      // Convert AWS SDK stream to Web Stream for browser compatibility
-      if (!response.Body) {
-        throw new Error('No response body from R2');
-      }
-
-      // Transform the AWS SDK stream to a web-compatible stream
-      const webStream = response.Body.transformToWebStream();
-
       const headers: Record<string, string> = {
         'Content-Type': contentType,
         'Content-Range': `bytes ${start}-${end}/${fileSize}`,
@@ -151,33 +143,21 @@ export async function GET(request: NextRequest) {
         'Access-Control-Expose-Headers': 'Content-Length, Content-Range, Accept-Ranges',
       };
 
-      return new NextResponse(webStream, {
+      return new NextResponse(object.body, {
         status: 206,
         headers
       });
     } else {
       // No range header - return entire file (for downloads)
-      const getCommand = new GetObjectCommand({
-        Bucket: BUCKET_NAME,
-        Key: key,
-      });
-
-      const response = await r2Client.send(getCommand);
+      const object = await storage.get(key);
 
-      if (!response.Body) {
+      if (!object) {
         return NextResponse.json(
           { error: 'Video not found' },
           { status: 404 }
         );
       }
 
-      if (!response.Body) {
-        throw new Error('No response body from R2');
-      }
-
-      // Transform the AWS SDK stream to a web-compatible stream
-      const webStream = response.Body.transformToWebStream();
-
       const headers: Record<string, string> = {
         'Content-Type': contentType,
         'Accept-Ranges': 'bytes',
@@ -195,7 +175,7 @@ export async function GET(request: NextRequest) {
         headers['Content-Disposition'] = `attachment; filename="${downloadFilename}"`;
       }
 
-      return new NextResponse(webStream, { headers });
+      return new NextResponse(object.body, { headers });
     }
   } catch (error: unknown) {
     // Log the full error for debugging
@@ -213,17 +193,6 @@ export async function GET(request: NextRequest) {
       });
     }
 
-    // Check if it's a NoSuchKey error (file not found)
-    if (error && typeof error === 'object' && 'name' in error) {
-      if (error.name === 'NoSuchKey' || ('Code' in error && error.Code === 'NoSuchKey')) {
-        console.error('[VIDEO-STREAM] File not found in R2 bucket');
-        return NextResponse.json(
-          { error: 'Video file not found. It may still be processing.' },
-          { status: 404 }
-        );
-      }
-    }
-
     // Check for credential errors
     if (error && typeof error === 'object' && 'name' in error) {
       if (error.name === 'InvalidAccessKeyId' || error.name === 'SignatureDoesNotMatch') {
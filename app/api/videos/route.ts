@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { listUserVideos } from '@/lib/video-library';
+import { getThumbnailStreamUrl, getVideoStreamUrl } from '@/lib/file-tokens';
+import { isUploadKeyOf } from '@/lib/storage-keys';
 
 export async function GET(request: NextRequest) {
   try {
@@ -13,33 +16,25 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const supabase = await createClient();
-
-    // Query videos from database (excluding soft-deleted)
-    const { data: videos, error } = await supabase
-      .from('videos')
-      .select('*')
-      .eq('user_id', userId)
-      .is('deleted_at', null)  // Only non-deleted videos
-      .order('uploaded_at', { ascending: false });
-
-    if (error) {
-      console.error('Error fetching videos from database:', error);
-      return NextResponse.json(
-        { error: 'Failed to fetch videos' },
-        { status: 500 }
-      );
-    }
+    // The videos table is the library; RLS limits it to the caller's own videos
+    const videos = await listUserVideos(userId, await createClient());
 
     // Transform database fields to match frontend expectations
-    const transformedVideos = (videos || []).map(video => ({
+    const transformedVideos = videos.map(video => ({
       key: video.r2_key,
       fileName: video.display_filename,
       size: video.file_size_bytes,
       uploadedAt: video.uploaded_at,
       userId: video.user_id,
       videoId: video.video_id,
-      status: video.status
+      status: video.status,
+      objectMissing: video.object_missing_at !== null, // Flagged by reconciliation
+      // RLS only returns the caller's own videos (or any, for admins), but
+      // r2_key is user-editable, so only a key in the video's own folder is signed
+      streamUrl: isUploadKeyOf(video.r2_key, video.user_id, video.video_id)
+        ? getVideoStreamUrl(video.r2_key)
+        : null,
+      thumbnailUrl: getThumbnailStreamUrl(video.user_id, video.video_id, 'small')
     }));
 
     return NextResponse.json({
@@ -1,15 +1,45 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { webhookStore } from '@/lib/webhook-store';
+import { isTerminalStatus } from '@/lib/job-events';
+import { dispatchQueuedJobs } from '@/lib/job-queue';
+import { updateJobStatus } from '@/lib/processing-jobs';
+import { createAdminClient } from '@/lib/supabase/server';
+import {
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  verifyWebhookSignature,
+} from '@/lib/webhook-auth';
 
 export const runtime = 'nodejs';
 
 /**
  * Webhook endpoint to receive status updates from RunPod
- * RunPod calls this endpoint with job progress updates
+ * RunPod calls this endpoint with job progress updates, signed with the
+ * job's webhook secret (see lib/webhook-auth.ts)
  */
 export async function POST(request: NextRequest) {
   try {
-    const data = await request.json();
+    // Signatures cover the exact bytes sent, so read the raw body first
+    const rawBody = await request.text();
+
+    let data;
+    try {
+      data = JSON.parse(rawBody);
+    } catch {
+      console.error('❌ Webhook body is not valid JSON');
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      );
+    }
+
+    if (!data || typeof data !== 'object') {
+      console.error('❌ Webhook body is not a JSON object');
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      );
+    }
 
     console.log('📥 Webhook received:', JSON.stringify(data, null, 2));
 
@@ -32,8 +62,23 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const verification = await verifyWebhookSignature({
+      jobId,
+      rawBody,
+      timestamp: request.headers.get(WEBHOOK_TIMESTAMP_HEADER),
+      signature: request.headers.get(WEBHOOK_SIGNATURE_HEADER),
+    });
+
+    if (!verification.valid) {
+      console.error(`❌ Webhook rejected for job ${jobId}: ${verification.reason}`);
+      return NextResponse.json(
+        { error: 'Invalid webhook signature', reason: verification.reason },
+        { status: verification.reason === 'replayed' ? 409 : 401 }
+      );
+    }
+
     // Store the update
-    webhookStore.addUpdate(jobId, {
+    await webhookStore.addUpdate(jobId, {
       step,
       status,
       progress,
@@ -42,6 +87,17 @@ export async function POST(request: NextRequest) {
       results
     });
 
+    // A finished job frees a slot for the next queued one. The worker records
+    // its final status too, but the queue shouldn't wait for that.
+    if (isTerminalStatus(status)) {
+      try {
+        await updateJobStatus({ jobId, status, error }, createAdminClient());
+        await dispatchQueuedJobs();
+      } catch (dispatchError) {
+        console.error('❌ Failed to dispatch queued jobs:', dispatchError);
+      }
+    }
+
     console.log(`✅ Webhook processed for job ${jobId}:`, {
       step,
       status,
@@ -73,7 +129,7 @@ export async function POST(request: NextRequest) {
  * GET endpoint for webhook health check
  */
 export async function GET() {
-  const activeJobs = webhookStore.getActiveJobs();
+  const activeJobs = await webhookStore.getActiveJobs();
 
   return NextResponse.json({
     status: 'healthy',
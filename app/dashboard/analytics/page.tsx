@@ -1,13 +1,119 @@
 "use client";
 
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { createClient } from "@/lib/supabase/client";
 import { DashboardSidebar } from "@/components/dashboard/DashboardSidebar";
-import { BarChart3, TrendingUp, Activity, Target } from "lucide-react";
+import { TrendChart, TrendSeries } from "@/components/dashboard/TrendChart";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { BarChart3, Activity, CheckCircle, Users, Loader2, ChevronDown } from "lucide-react";
+import type { AnalyticsSummary, PlayerTrend } from "@/lib/analytics";
+import type { PlayerMetrics } from "@/lib/player-metrics";
+
+const PLAYER_COLORS = ['#3b82f6', '#ef4444', '#22c55e', '#f59e0b', '#a855f7', '#ec4899'];
+
+const PRESETS = [
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: '1 year', days: 365 },
+  { label: 'All time', days: null },
+];
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+function buildSeries(trends: PlayerTrend[], pick: (metrics: PlayerMetrics) => number | null): TrendSeries[] {
+  return trends.map((trend, index) => ({
+    id: trend.playerId,
+    label: trend.playerName,
+    color: PLAYER_COLORS[index % PLAYER_COLORS.length],
+    points: trend.points.flatMap(point => {
+      const value = pick(point.metrics);
+      return value === null ? [] : [{ time: new Date(point.date).getTime(), value, label: point.fileName }];
+    }),
+  }));
+}
 
 export default function AnalyticsPage() {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [summary, setSummary] = useState<AnalyticsSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [fromDate, setFromDate] = useState(() => toDateInput(new Date(Date.now() - 90 * 24 * 60 * 60 * 1000)));
+  const [toDate, setToDate] = useState(() => toDateInput(new Date()));
+  const [playerFilter, setPlayerFilter] = useState<string | null>(null);
+
+  useEffect(() => {
+    const checkAuth = async () => {
+      const supabase = createClient();
+      const { data, error } = await supabase.auth.getClaims();
+
+      if (error || !data?.claims) {
+        window.location.href = "/auth/login";
+        return;
+      }
+
+      setUserId(data.claims.sub);
+    };
+
+    checkAuth();
+  }, []);
+
+  useEffect(() => {
+    if (userId) {
+      fetchAnalytics();
+    }
+  }, [userId, fromDate, toDate, playerFilter]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const fetchAnalytics = async () => {
+    setLoading(true);
+
+    try {
+      const params = new URLSearchParams();
+      if (fromDate) params.set('from', fromDate);
+      if (toDate) params.set('to', toDate);
+      if (playerFilter) params.set('playerId', playerFilter);
+
+      const response = await fetch(`/api/analytics?${params}`);
+
+      if (response.ok) {
+        setSummary(await response.json());
+      } else {
+        console.error('Failed to fetch analytics:', response.status);
+      }
+    } catch (error) {
+      console.error('Error fetching analytics:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const applyPreset = (days: number | null) => {
+    setFromDate(days === null ? '' : toDateInput(new Date(Date.now() - days * 24 * 60 * 60 * 1000)));
+    setToDate(toDateInput(new Date()));
+  };
+
+  const trends = summary?.trends ?? [];
+  const hasTrendData = trends.some(trend => trend.points.length > 0);
+  const selectedPlayer = summary?.players.find(player => player.id === playerFilter);
+
+  // Offensive and defensive share of the same player go on one chart
+  const stanceSeries = [
+    ...buildSeries(trends, m => m.offensivePercent).map(s => ({ ...s, id: `${s.id}-off`, label: `${s.label} offensive` })),
+    ...buildSeries(trends, m => m.defensivePercent).map(s => ({ ...s, id: `${s.id}-def`, label: `${s.label} defensive`, dashed: true })),
+  ];
+
+  const statCards = [
+    { label: 'Total Videos', value: summary?.totals.videoCount, icon: BarChart3 },
+    { label: 'Analyzed Minutes', value: summary?.totals.analyzedMinutes, icon: Activity },
+    { label: 'Analyzed Videos', value: summary?.totals.analyzedVideoCount, icon: CheckCircle },
+    { label: 'Player Profiles', value: summary?.totals.playerCount, icon: Users },
+  ];
+
   return (
     <div className="min-h-screen bg-[hsl(var(--tech-bg))] flex">
       <DashboardSidebar className="flex-shrink-0" />
-      
+
       <main className="flex-1 overflow-hidden bg-[hsl(var(--tech-bg))]">
         <div className="h-full overflow-y-auto">
           <div className="p-8">
@@ -18,55 +124,104 @@ export default function AnalyticsPage() {
                     <h1 className="text-3xl font-bold text-[hsl(var(--tech-text-primary))] mb-2">Analytics</h1>
                     <p className="text-[hsl(var(--tech-text-secondary))]">Performance insights and gameplay statistics</p>
                   </div>
+                  {loading && <Loader2 className="h-5 w-5 animate-spin text-[hsl(var(--tech-accent))]" />}
                 </div>
-                
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-                  <div className="bg-[hsl(var(--tech-bg-secondary))] border border-[hsl(var(--tech-border))] rounded-lg p-6">
-                    <div className="flex items-center justify-between">
-                      <div>
-                        <p className="text-[hsl(var(--tech-text-secondary))] text-sm font-medium">Total Videos</p>
-                        <p className="text-2xl font-bold text-[hsl(var(--tech-text-primary))]">--</p>
-                      </div>
-                      <BarChart3 className="h-8 w-8 text-[hsl(var(--tech-accent))]" />
-                    </div>
+
+                {/* Filters */}
+                <div className="flex flex-wrap items-center gap-3">
+                  <Input
+                    type="date"
+                    value={fromDate}
+                    max={toDate || undefined}
+                    onChange={(e) => setFromDate(e.target.value)}
+                    className="w-40 bg-[hsl(var(--tech-bg-secondary))] border-[hsl(var(--tech-border))] text-[hsl(var(--tech-text-primary))]"
+                    aria-label="From date"
+                  />
+                  <span className="text-[hsl(var(--tech-text-secondary))]">to</span>
+                  <Input
+                    type="date"
+                    value={toDate}
+                    min={fromDate || undefined}
+                    onChange={(e) => setToDate(e.target.value)}
+                    className="w-40 bg-[hsl(var(--tech-bg-secondary))] border-[hsl(var(--tech-border))] text-[hsl(var(--tech-text-primary))]"
+                    aria-label="To date"
+                  />
+                  <div className="flex gap-1">
+                    {PRESETS.map(preset => (
+                      <Button key={preset.label} variant="ghost" size="sm" className="h-8 text-xs" onClick={() => applyPreset(preset.days)}>
+                        {preset.label}
+                      </Button>
+                    ))}
                   </div>
-                  
-                  <div className="bg-[hsl(var(--tech-bg-secondary))] border border-[hsl(var(--tech-border))] rounded-lg p-6">
-                    <div className="flex items-center justify-between">
-                      <div>
-                        <p className="text-[hsl(var(--tech-text-secondary))] text-sm font-medium">Analysis Hours</p>
-                        <p className="text-2xl font-bold text-[hsl(var(--tech-text-primary))]">--</p>
+
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="outline" size="sm" className="h-8 text-xs ml-auto">
+                        {selectedPlayer ? selectedPlayer.name : 'All players'}
+                        <ChevronDown className="h-3 w-3 ml-1.5" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem
+                        onClick={() => setPlayerFilter(null)}
+                        className={playerFilter === null ? 'bg-accent' : ''}
+                      >
+                        All players
+                      </DropdownMenuItem>
+                      {summary?.players.map(player => (
+                        <DropdownMenuItem
+                          key={player.id}
+                          onClick={() => setPlayerFilter(player.id)}
+                          className={playerFilter === player.id ? 'bg-accent' : ''}
+                        >
+                          {player.name}
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+                  {statCards.map(({ label, value, icon: Icon }) => (
+                    <div key={label} className="bg-[hsl(var(--tech-bg-secondary))] border border-[hsl(var(--tech-border))] rounded-lg p-6">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <p className="text-[hsl(var(--tech-text-secondary))] text-sm font-medium">{label}</p>
+                          <p className="text-2xl font-bold text-[hsl(var(--tech-text-primary))]">{value ?? '--'}</p>
+                        </div>
+                        <Icon className="h-8 w-8 text-[hsl(var(--tech-accent))]" />
                       </div>
-                      <Activity className="h-8 w-8 text-[hsl(var(--tech-accent))]" />
                     </div>
-                  </div>
-                  
-                  <div className="bg-[hsl(var(--tech-bg-secondary))] border border-[hsl(var(--tech-border))] rounded-lg p-6">
-                    <div className="flex items-center justify-between">
-                      <div>
-                        <p className="text-[hsl(var(--tech-text-secondary))] text-sm font-medium">Improvement</p>
-                        <p className="text-2xl font-bold text-[hsl(var(--tech-text-primary))]">--</p>
+                  ))}
+                </div>
+
+                <div className="flex flex-col gap-4">
+                  <h2 className="text-xl font-semibold text-[hsl(var(--tech-text-primary))]">Player Trends</h2>
+
+                  {summary && !hasTrendData ? (
+                    <div className="bg-[hsl(var(--tech-bg-secondary))] border border-[hsl(var(--tech-border))] rounded-lg p-6">
+                      <div className="flex flex-col items-center justify-center h-48 text-center text-[hsl(var(--tech-text-secondary))]">
+                        <Users className="h-10 w-10 mb-3" />
+                        {summary.players.length === 0 ? (
+                          <p>
+                            Link players to profiles from a video&apos;s analysis view to follow them across matches.
+                          </p>
+                        ) : (
+                          <p>No analyzed videos with linked players in this date range.</p>
+                        )}
+                        <Link href="/dashboard" className="mt-3 text-[hsl(var(--tech-accent))] hover:underline text-sm">
+                          Go to your videos
+                        </Link>
                       </div>
-                      <TrendingUp className="h-8 w-8 text-[hsl(var(--tech-accent))]" />
                     </div>
-                  </div>
-                  
-                  <div className="bg-[hsl(var(--tech-bg-secondary))] border border-[hsl(var(--tech-border))] rounded-lg p-6">
-                    <div className="flex items-center justify-between">
-                      <div>
-                        <p className="text-[hsl(var(--tech-text-secondary))] text-sm font-medium">Accuracy</p>
-                        <p className="text-2xl font-bold text-[hsl(var(--tech-text-primary))]">--</p>
-                      </div>
-                      <Target className="h-8 w-8 text-[hsl(var(--tech-accent))]" />
+                  ) : (
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                      <TrendChart title="Total Distance" unit="m" series={buildSeries(trends, m => m.distanceM)} />
+                      <TrendChart title="Average Speed" unit="m/s" series={buildSeries(trends, m => m.averageSpeedMs)} />
+                      <TrendChart title="Recovery Speed" unit="m/s" series={buildSeries(trends, m => m.averageRecoverySpeedMs)} />
+                      <TrendChart title="Offensive / Defensive" unit="%" series={stanceSeries} maxValue={100} />
                     </div>
-                  </div>
-                </div>
-                
-                <div className="bg-[hsl(var(--tech-bg-secondary))] border border-[hsl(var(--tech-border))] rounded-lg p-6">
-                  <h2 className="text-xl font-semibold text-[hsl(var(--tech-text-primary))] mb-4">Performance Analytics</h2>
-                  <div className="flex items-center justify-center h-64 text-[hsl(var(--tech-text-secondary))]">
-                    Analytics dashboard coming soon...
-                  </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -75,4 +230,4 @@ export default function AnalyticsPage() {
       </main>
     </div>
   );
-}
\ No newline at end of file
+}
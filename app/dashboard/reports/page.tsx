@@ -1,13 +1,185 @@
 "use client";
 
+import { useEffect, useState } from "react";
+import { createClient } from "@/lib/supabase/client";
 import { DashboardSidebar } from "@/components/dashboard/DashboardSidebar";
-import { FileText, Download, Calendar, TrendingUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { FileText, Download, Calendar, Loader2, ChevronDown, Trash2, ExternalLink, Table } from "lucide-react";
+import toast, { Toaster } from "react-hot-toast";
+
+interface ReportSummary {
+  id: string;
+  title: string;
+  scope: 'video' | 'range';
+  video_id: string | null;
+  range_start: string | null;
+  range_end: string | null;
+  video_count: number;
+  created_at: string;
+}
+
+interface VideoOption {
+  videoId: string;
+  fileName: string;
+  status: string;
+}
+
+type ExportDataset = 'metrics' | 'positions' | 'all';
+
+const EXPORT_DATASETS: { value: ExportDataset; label: string }[] = [
+  { value: 'metrics', label: 'Player metrics' },
+  { value: 'positions', label: 'Frame positions' },
+  { value: 'all', label: 'Both' },
+];
+
+// Matches MAX_EXPORT_VIDEOS in lib/analysis-export.ts
+const MAX_EXPORT_VIDEOS = 25;
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
 
 export default function ReportsPage() {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [reports, setReports] = useState<ReportSummary[]>([]);
+  const [videos, setVideos] = useState<VideoOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [generating, setGenerating] = useState<'video' | 'range' | null>(null);
+  const [selectedVideoId, setSelectedVideoId] = useState<string | null>(null);
+  const [fromDate, setFromDate] = useState(() => toDateInput(new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)));
+  const [toDate, setToDate] = useState(() => toDateInput(new Date()));
+  const [exportVideoIds, setExportVideoIds] = useState<string[]>([]);
+  const [exportDataset, setExportDataset] = useState<ExportDataset>('metrics');
+
+  useEffect(() => {
+    const checkAuth = async () => {
+      const supabase = createClient();
+      const { data, error } = await supabase.auth.getClaims();
+
+      if (error || !data?.claims) {
+        window.location.href = "/auth/login";
+        return;
+      }
+
+      setUserId(data.claims.sub);
+    };
+
+    checkAuth();
+  }, []);
+
+  useEffect(() => {
+    if (userId) {
+      fetchReports();
+      fetchVideos();
+    }
+  }, [userId]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const fetchReports = async () => {
+    try {
+      const response = await fetch('/api/reports');
+
+      if (response.ok) {
+        const data = await response.json();
+        setReports(data.reports);
+      }
+    } catch (error) {
+      console.error('Error fetching reports:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchVideos = async () => {
+    try {
+      const response = await fetch(`/api/videos?userId=${userId}`);
+
+      if (response.ok) {
+        const data = await response.json();
+        const analyzed = (data.videos as VideoOption[]).filter(video => video.status === 'completed');
+        setVideos(analyzed);
+        setSelectedVideoId(prev => prev ?? analyzed[0]?.videoId ?? null);
+      }
+    } catch (error) {
+      console.error('Error fetching videos:', error);
+    }
+  };
+
+  const generateReport = async (scope: 'video' | 'range') => {
+    setGenerating(scope);
+
+    try {
+      const response = await fetch('/api/reports', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(scope === 'video' ? { videoId: selectedVideoId } : { from: fromDate, to: toDate }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to generate report');
+      }
+
+      setReports(prev => [data.report, ...prev]);
+      toast.success('Report generated');
+    } catch (error) {
+      console.error('Error generating report:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to generate report');
+    } finally {
+      setGenerating(null);
+    }
+  };
+
+  const deleteReport = async (reportId: string) => {
+    if (!confirm('Delete this report?')) return;
+
+    try {
+      const response = await fetch(`/api/reports/${reportId}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        throw new Error('Failed to delete report');
+      }
+
+      setReports(prev => prev.filter(report => report.id !== reportId));
+      toast.success('Report deleted');
+    } catch (error) {
+      console.error('Error deleting report:', error);
+      toast.error('Failed to delete report');
+    }
+  };
+
+  const toggleExportVideo = (videoId: string, checked: boolean) => {
+    setExportVideoIds(prev => checked ? [...prev, videoId] : prev.filter(id => id !== videoId));
+  };
+
+  const exportUrl = (format: 'csv' | 'xlsx') => {
+    const params = new URLSearchParams({ videoIds: exportVideoIds.join(','), format });
+    if (exportDataset !== 'all') params.set('dataset', exportDataset);
+    return `/api/position-analysis/export?${params.toString()}`;
+  };
+
+  const selectedVideo = videos.find(video => video.videoId === selectedVideoId);
+  const canExport = exportVideoIds.length > 0 && exportVideoIds.length <= MAX_EXPORT_VIDEOS;
+
   return (
     <div className="min-h-screen bg-[hsl(var(--tech-bg))] flex">
+      <Toaster
+        position="top-right"
+        toastOptions={{
+          duration: 4000,
+          style: {
+            background: 'hsl(var(--tech-bg-secondary))',
+            color: 'hsl(var(--tech-text-primary))',
+            border: '1px solid hsl(var(--tech-border))',
+          },
+        }}
+      />
       <DashboardSidebar className="flex-shrink-0" />
-      
+
       <main className="flex-1 overflow-hidden bg-[hsl(var(--tech-bg))]">
         <div className="h-full overflow-y-auto">
           <div className="p-8">
@@ -18,70 +190,251 @@ export default function ReportsPage() {
                     <h1 className="text-3xl font-bold text-[hsl(var(--tech-text-primary))] mb-2">Analysis Reports</h1>
                     <p className="text-[hsl(var(--tech-text-secondary))]">View and download detailed analysis reports</p>
                   </div>
-                  <button className="flex items-center gap-2 px-4 py-2 bg-[hsl(var(--tech-accent))] text-white rounded-lg hover:bg-[hsl(var(--tech-accent-hover))] transition-all duration-200">
-                    <Download className="h-4 w-4" />
-                    Export All
-                  </button>
                 </div>
-                
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                  <div className="bg-[hsl(var(--tech-bg-secondary))] border border-[hsl(var(--tech-border))] rounded-lg p-6">
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div className="bg-[hsl(var(--tech-bg-secondary))] border border-[hsl(var(--tech-border))] rounded-lg p-6 flex flex-col">
                     <div className="flex items-center justify-between mb-4">
                       <FileText className="h-8 w-8 text-[hsl(var(--tech-accent))]" />
                       <span className="text-xs text-[hsl(var(--tech-text-secondary))] bg-[hsl(var(--tech-accent-muted))] px-2 py-1 rounded">
-                        Weekly
+                        Single match
                       </span>
                     </div>
-                    <h3 className="text-lg font-semibold text-[hsl(var(--tech-text-primary))] mb-2">Performance Summary</h3>
+                    <h3 className="text-lg font-semibold text-[hsl(var(--tech-text-primary))] mb-2">Match Report</h3>
                     <p className="text-[hsl(var(--tech-text-secondary))] text-sm mb-4">
-                      Weekly overview of your gameplay metrics and improvements.
+                      Movement, positioning and rally dynamics for every player in one analyzed video.
                     </p>
-                    <button className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-[hsl(var(--tech-bg-tertiary))] border border-[hsl(var(--tech-border))] rounded text-[hsl(var(--tech-text-primary))] hover:bg-[hsl(var(--tech-accent-muted))] hover:border-[hsl(var(--tech-accent))] transition-all duration-200">
-                      <Download className="h-4 w-4" />
-                      Download
-                    </button>
-                  </div>
-                  
-                  <div className="bg-[hsl(var(--tech-bg-secondary))] border border-[hsl(var(--tech-border))] rounded-lg p-6">
-                    <div className="flex items-center justify-between mb-4">
-                      <TrendingUp className="h-8 w-8 text-[hsl(var(--tech-accent))]" />
-                      <span className="text-xs text-[hsl(var(--tech-text-secondary))] bg-[hsl(var(--tech-accent-muted))] px-2 py-1 rounded">
-                        Monthly
-                      </span>
+                    <div className="mt-auto flex flex-col gap-3">
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="outline" className="w-full justify-between" disabled={videos.length === 0}>
+                            <span className="truncate">{selectedVideo ? selectedVideo.fileName : 'No analyzed videos'}</span>
+                            <ChevronDown className="h-4 w-4 ml-2 flex-shrink-0" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent className="max-h-72 overflow-y-auto">
+                          {videos.map(video => (
+                            <DropdownMenuItem
+                              key={video.videoId}
+                              onClick={() => setSelectedVideoId(video.videoId)}
+                              className={video.videoId === selectedVideoId ? 'bg-accent' : ''}
+                            >
+                              {video.fileName}
+                            </DropdownMenuItem>
+                          ))}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                      <Button
+                        onClick={() => generateReport('video')}
+                        disabled={!selectedVideoId || generating !== null}
+                        className="w-full bg-[hsl(var(--tech-accent))] hover:bg-[hsl(var(--tech-accent-hover))] text-white"
+                      >
+                        {generating === 'video' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileText className="h-4 w-4 mr-2" />}
+                        Generate
+                      </Button>
                     </div>
-                    <h3 className="text-lg font-semibold text-[hsl(var(--tech-text-primary))] mb-2">Progress Report</h3>
-                    <p className="text-[hsl(var(--tech-text-secondary))] text-sm mb-4">
-                      Monthly analysis of skill development and technique improvements.
-                    </p>
-                    <button className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-[hsl(var(--tech-bg-tertiary))] border border-[hsl(var(--tech-border))] rounded text-[hsl(var(--tech-text-primary))] hover:bg-[hsl(var(--tech-accent-muted))] hover:border-[hsl(var(--tech-accent))] transition-all duration-200">
-                      <Download className="h-4 w-4" />
-                      Download
-                    </button>
                   </div>
-                  
-                  <div className="bg-[hsl(var(--tech-bg-secondary))] border border-[hsl(var(--tech-border))] rounded-lg p-6">
+
+                  <div className="bg-[hsl(var(--tech-bg-secondary))] border border-[hsl(var(--tech-border))] rounded-lg p-6 flex flex-col">
                     <div className="flex items-center justify-between mb-4">
                       <Calendar className="h-8 w-8 text-[hsl(var(--tech-accent))]" />
                       <span className="text-xs text-[hsl(var(--tech-text-secondary))] bg-[hsl(var(--tech-accent-muted))] px-2 py-1 rounded">
                         Custom
                       </span>
                     </div>
-                    <h3 className="text-lg font-semibold text-[hsl(var(--tech-text-primary))] mb-2">Custom Report</h3>
+                    <h3 className="text-lg font-semibold text-[hsl(var(--tech-text-primary))] mb-2">Progress Report</h3>
                     <p className="text-[hsl(var(--tech-text-secondary))] text-sm mb-4">
-                      Generate reports for specific date ranges and metrics.
+                      Every analyzed video in a date range, with a summary for each linked player profile.
                     </p>
-                    <button className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-[hsl(var(--tech-bg-tertiary))] border border-[hsl(var(--tech-border))] rounded text-[hsl(var(--tech-text-primary))] hover:bg-[hsl(var(--tech-accent-muted))] hover:border-[hsl(var(--tech-accent))] transition-all duration-200">
-                      <Download className="h-4 w-4" />
-                      Generate
-                    </button>
+                    <div className="mt-auto flex flex-col gap-3">
+                      <div className="flex items-center gap-2">
+                        <Input
+                          type="date"
+                          value={fromDate}
+                          max={toDate}
+                          onChange={(e) => setFromDate(e.target.value)}
+                          className="bg-[hsl(var(--tech-bg-tertiary))] border-[hsl(var(--tech-border))] text-[hsl(var(--tech-text-primary))]"
+                          aria-label="From date"
+                        />
+                        <span className="text-[hsl(var(--tech-text-secondary))] text-sm">to</span>
+                        <Input
+                          type="date"
+                          value={toDate}
+                          min={fromDate}
+                          onChange={(e) => setToDate(e.target.value)}
+                          className="bg-[hsl(var(--tech-bg-tertiary))] border-[hsl(var(--tech-border))] text-[hsl(var(--tech-text-primary))]"
+                          aria-label="To date"
+                        />
+                      </div>
+                      <Button
+                        onClick={() => generateReport('range')}
+                        disabled={!fromDate || !toDate || generating !== null}
+                        className="w-full bg-[hsl(var(--tech-accent))] hover:bg-[hsl(var(--tech-accent-hover))] text-white"
+                      >
+                        {generating === 'range' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Calendar className="h-4 w-4 mr-2" />}
+                        Generate
+                      </Button>
+                    </div>
                   </div>
                 </div>
-                
+
                 <div className="bg-[hsl(var(--tech-bg-secondary))] border border-[hsl(var(--tech-border))] rounded-lg p-6">
-                  <h2 className="text-xl font-semibold text-[hsl(var(--tech-text-primary))] mb-4">Recent Reports</h2>
-                  <div className="flex items-center justify-center h-32 text-[hsl(var(--tech-text-secondary))]">
-                    No reports generated yet. Upload and analyze videos to generate reports.
+                  <div className="flex items-start justify-between gap-4 mb-4">
+                    <div>
+                      <h2 className="text-xl font-semibold text-[hsl(var(--tech-text-primary))] flex items-center gap-2">
+                        <Table className="h-5 w-5 text-[hsl(var(--tech-accent))]" />
+                        Data Export
+                      </h2>
+                      <p className="text-[hsl(var(--tech-text-secondary))] text-sm mt-1">
+                        Download player metrics or frame-by-frame court positions as CSV or Excel for the selected videos.
+                      </p>
+                    </div>
+                    {videos.length > 0 && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 text-xs flex-shrink-0"
+                        onClick={() => setExportVideoIds(
+                          exportVideoIds.length > 0 ? [] : videos.slice(0, MAX_EXPORT_VIDEOS).map(video => video.videoId)
+                        )}
+                      >
+                        {exportVideoIds.length > 0 ? 'Clear selection' : videos.length > MAX_EXPORT_VIDEOS ? `Select first ${MAX_EXPORT_VIDEOS}` : 'Select all'}
+                      </Button>
+                    )}
                   </div>
+
+                  {videos.length === 0 ? (
+                    <div className="flex items-center justify-center h-20 text-[hsl(var(--tech-text-secondary))] text-sm">
+                      No analyzed videos to export yet.
+                    </div>
+                  ) : (
+                    <>
+                      <div className="max-h-56 overflow-y-auto border border-[hsl(var(--tech-border))] rounded-md divide-y divide-[hsl(var(--tech-border))] mb-4">
+                        {videos.map(video => (
+                          <label
+                            key={video.videoId}
+                            className="flex items-center gap-3 px-3 py-2 cursor-pointer hover:bg-[hsl(var(--tech-bg-tertiary))]"
+                          >
+                            <Checkbox
+                              checked={exportVideoIds.includes(video.videoId)}
+                              onCheckedChange={(checked) => toggleExportVideo(video.videoId, checked === true)}
+                            />
+                            <span className="text-sm text-[hsl(var(--tech-text-primary))] truncate">{video.fileName}</span>
+                          </label>
+                        ))}
+                      </div>
+
+                      <div className="flex flex-wrap items-center justify-between gap-3">
+                        <div className="flex items-center gap-1">
+                          {EXPORT_DATASETS.map(option => (
+                            <Button
+                              key={option.value}
+                              variant={exportDataset === option.value ? 'secondary' : 'ghost'}
+                              size="sm"
+                              className="h-8 text-xs"
+                              onClick={() => setExportDataset(option.value)}
+                            >
+                              {option.label}
+                            </Button>
+                          ))}
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <span className="text-xs text-[hsl(var(--tech-text-secondary))]">
+                            {exportVideoIds.length > MAX_EXPORT_VIDEOS
+                              ? `Select at most ${MAX_EXPORT_VIDEOS} videos`
+                              : `${exportVideoIds.length} selected`}
+                          </span>
+                          {canExport && exportDataset !== 'all' ? (
+                            <Button asChild variant="outline" size="sm" className="h-8 text-xs">
+                              <a href={exportUrl('csv')}>
+                                <Download className="h-3 w-3 mr-1.5" />
+                                CSV
+                              </a>
+                            </Button>
+                          ) : (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="h-8 text-xs"
+                              disabled
+                              title={exportDataset === 'all' ? 'CSV holds one dataset at a time' : undefined}
+                            >
+                              <Download className="h-3 w-3 mr-1.5" />
+                              CSV
+                            </Button>
+                          )}
+                          {canExport ? (
+                            <Button asChild size="sm" className="h-8 text-xs bg-[hsl(var(--tech-accent))] hover:bg-[hsl(var(--tech-accent-hover))] text-white">
+                              <a href={exportUrl('xlsx')}>
+                                <Download className="h-3 w-3 mr-1.5" />
+                                Excel
+                              </a>
+                            </Button>
+                          ) : (
+                            <Button size="sm" className="h-8 text-xs bg-[hsl(var(--tech-accent))] text-white" disabled>
+                              <Download className="h-3 w-3 mr-1.5" />
+                              Excel
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    </>
+                  )}
+                </div>
+
+                <div className="bg-[hsl(var(--tech-bg-secondary))] border border-[hsl(var(--tech-border))] rounded-lg p-6">
+                  <h2 className="text-xl font-semibold text-[hsl(var(--tech-text-primary))] mb-4">Recent Reports</h2>
+                  {loading ? (
+                    <div className="flex items-center justify-center h-32">
+                      <Loader2 className="h-6 w-6 animate-spin text-[hsl(var(--tech-accent))]" />
+                    </div>
+                  ) : reports.length === 0 ? (
+                    <div className="flex items-center justify-center h-32 text-[hsl(var(--tech-text-secondary))]">
+                      No reports generated yet. Upload and analyze videos to generate reports.
+                    </div>
+                  ) : (
+                    <div className="divide-y divide-[hsl(var(--tech-border))]">
+                      {reports.map(report => (
+                        <div key={report.id} className="flex items-center justify-between gap-4 py-3">
+                          <div className="min-w-0">
+                            <p className="font-medium text-[hsl(var(--tech-text-primary))] truncate">{report.title}</p>
+                            <p className="text-xs text-[hsl(var(--tech-text-secondary))]">
+                              {report.video_count} {report.video_count === 1 ? 'video' : 'videos'} · Generated {formatDate(report.created_at)}
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-2 flex-shrink-0">
+                            <Button asChild variant="ghost" size="sm" className="h-8 text-xs">
+                              <a href={`/api/reports/${report.id}?format=html&view=true`} target="_blank" rel="noopener noreferrer">
+                                <ExternalLink className="h-3 w-3 mr-1.5" />
+                                View
+                              </a>
+                            </Button>
+                            <Button asChild variant="outline" size="sm" className="h-8 text-xs">
+                              <a href={`/api/reports/${report.id}?format=pdf`}>
+                                <Download className="h-3 w-3 mr-1.5" />
+                                PDF
+                              </a>
+                            </Button>
+                            <Button asChild variant="outline" size="sm" className="h-8 text-xs">
+                              <a href={`/api/reports/${report.id}?format=html`}>
+                                <Download className="h-3 w-3 mr-1.5" />
+                                HTML
+                              </a>
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-8 w-8 p-0 text-[hsl(var(--tech-text-secondary))] hover:text-red-500"
+                              onClick={() => deleteReport(report.id)}
+                              title="Delete report"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -90,4 +443,4 @@ export default function ReportsPage() {
       </main>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -7,10 +7,30 @@ import { VideoPlayer } from "@/components/dashboard/VideoPlayer";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
-import { ArrowLeft, Clock, Activity, Target, ChevronRight, Edit2, Loader2, Share2, Check, Link2 } from "lucide-react";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { ArrowLeft, Clock, Activity, Target, ChevronRight, Edit2, Loader2, Share2, Check, Link2, Download } from "lucide-react";
 import Link from "next/link";
+import dynamic from "next/dynamic";
 import toast from "react-hot-toast";
 import { WorkerHealthMonitor } from "@/components/dashboard/WorkerHealthMonitor";
+import { ShuttleTrajectory } from "@/lib/shuttle";
+import { Rally } from "@/lib/rallies";
+import { Shot } from "@/lib/shots";
+import { PositionTrack, normalizePositionData } from "@/lib/positions";
+import { PlayerProfileLink, PlayerProfileOption } from "@/components/dashboard/PlayerProfileLink";
+import { VideoAnnotations } from "@/components/dashboard/VideoAnnotations";
+import { ANNOTATION_COLORS, AnnotationThread, getAnnotationLabel, getTimedDrawings } from "@/lib/annotations";
+import { AnnotationDrawing } from "@/lib/supabase/types";
+
+// Konva needs the browser canvas, so the court views are client-only
+const CourtHeatmap = dynamic(
+  () => import("@/components/dashboard/CourtHeatmap").then(mod => mod.CourtHeatmap),
+  { ssr: false }
+);
+const CourtMiniMap = dynamic(
+  () => import("@/components/dashboard/CourtMiniMap").then(mod => mod.CourtMiniMap),
+  { ssr: false }
+);
 
 interface Video {
   key: string;
@@ -19,6 +39,7 @@ interface Video {
   uploadedAt: string;
   userId: string;
   videoId: string;
+  streamUrl?: string;
 }
 
 export default function VideoDetailPage() {
@@ -42,6 +63,16 @@ export default function VideoDetailPage() {
   const [isSharing, setIsSharing] = useState(false);
   const [justCopied, setJustCopied] = useState(false);
   const [currentRunpodJobId, setCurrentRunpodJobId] = useState<string | null>(null);
+  const [shuttleData, setShuttleData] = useState<ShuttleTrajectory | null>(null);
+  const [rallies, setRallies] = useState<Rally[]>([]);
+  const [shots, setShots] = useState<Shot[]>([]);
+  const [positionTrack, setPositionTrack] = useState<PositionTrack | null>(null);
+  const [videoElement, setVideoElement] = useState<HTMLVideoElement | null>(null);
+  const [playerProfiles, setPlayerProfiles] = useState<PlayerProfileOption[]>([]);
+  const [playerLinks, setPlayerLinks] = useState<Record<string, string>>({});
+  const [annotations, setAnnotations] = useState<AnnotationThread[]>([]);
+  const [drawingDraft, setDrawingDraft] = useState<AnnotationDrawing | null>(null);
+  const [drawingColor, setDrawingColor] = useState(ANNOTATION_COLORS[0]);
 
   useEffect(() => {
     const checkAuth = async () => {
@@ -63,9 +94,15 @@ export default function VideoDetailPage() {
     if (userId) {
       fetchVideoDetails();
       fetchShuttleData();
+      fetchRallies();
+      fetchShots();
+      fetchPositionData();
       fetchPositionAnalysisData();
       checkAnalysisStatus();
       fetchPlayerNames();
+      fetchPlayerProfiles();
+      fetchPlayerLinks();
+      fetchAnnotations();
       checkShareStatus();
       fetchRunpodJobId();
     }
@@ -225,6 +262,9 @@ export default function VideoDetailPage() {
         // If completed, refresh all data
         if (statusData.state === 'completed' && analysisStatus !== 'completed') {
           fetchShuttleData();
+          fetchRallies(true);
+          fetchShots(true);
+          fetchPositionData();
           fetchPositionAnalysisData();
           toast.success('Analysis completed!');
         }
@@ -238,23 +278,92 @@ export default function VideoDetailPage() {
     if (!userId || !videoId) return;
 
     try {
-      // setLoadingShuttleData(true);
-      const response = await fetch(`/api/shuttle-data?userId=${userId}&videoId=${videoId}`);
+      const response = await fetch(`/api/shuttle-data?videoId=${videoId}`);
 
       if (response.ok) {
-        const data = await response.json();
-        // setShuttleData(data);
-        console.log('Shuttle data loaded:', data);
+        const data: ShuttleTrajectory = await response.json();
+        setShuttleData(data);
+        console.log(`Shuttle data loaded: ${data.visibleCount}/${data.frameCount} frames visible`);
       } else {
         // Shuttle data not available - this is okay, just means analysis hasn't been run
         console.log('Shuttle data not available yet');
-        // setShuttleData(null);
+        setShuttleData(null);
       }
     } catch {
       console.log('Error fetching shuttle data');
-      // setShuttleData(null);
-    } finally {
-      // setLoadingShuttleData(false);
+      setShuttleData(null);
+    }
+  };
+
+  const fetchRallies = async (refresh = false) => {
+    if (!userId || !videoId) return;
+
+    try {
+      // A fresh analysis is segmented and stored; otherwise read the stored result
+      const response = refresh
+        ? await fetch('/api/rallies', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ videoId }),
+          })
+        : await fetch(`/api/rallies?videoId=${videoId}`);
+
+      if (response.ok) {
+        const data = await response.json();
+        setRallies(data.rallies || []);
+      } else {
+        // Rallies need shuttle/position data, which only exists after analysis
+        setRallies([]);
+      }
+    } catch (error) {
+      console.error('Error fetching rallies:', error);
+      setRallies([]);
+    }
+  };
+
+  const fetchShots = async (refresh = false) => {
+    if (!userId || !videoId) return;
+
+    try {
+      // A fresh analysis is classified and stored; otherwise read the stored result
+      const response = refresh
+        ? await fetch('/api/shots', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ videoId }),
+          })
+        : await fetch(`/api/shots?videoId=${videoId}`);
+
+      if (response.ok) {
+        const data = await response.json();
+        setShots(data.shots || []);
+      } else {
+        // Shots need shuttle data, which only exists after analysis
+        setShots([]);
+      }
+    } catch (error) {
+      console.error('Error fetching shots:', error);
+      setShots([]);
+    }
+  };
+
+  const fetchPositionData = async () => {
+    if (!userId || !videoId) return;
+
+    try {
+      const response = await fetch(`/api/position-data?videoId=${videoId}`);
+
+      if (response.ok) {
+        const data = await response.json();
+        const track = normalizePositionData(data);
+        setPositionTrack(track.frameCount > 0 ? track : null);
+      } else {
+        // Position data not available yet
+        setPositionTrack(null);
+      }
+    } catch (error) {
+      console.error('Error fetching position data:', error);
+      setPositionTrack(null);
     }
   };
 
@@ -263,7 +372,7 @@ export default function VideoDetailPage() {
 
     try {
       setLoadingPositionAnalysis(true);
-      const response = await fetch(`/api/position-analysis?userId=${userId}&videoId=${videoId}`);
+      const response = await fetch(`/api/position-analysis?videoId=${videoId}`);
 
       if (response.ok) {
         const data = await response.json();
@@ -285,7 +394,7 @@ export default function VideoDetailPage() {
     if (!userId || !videoId) return;
 
     try {
-      const response = await fetch(`/api/player-names?userId=${userId}&videoId=${videoId}`);
+      const response = await fetch(`/api/player-names?videoId=${videoId}`);
 
       if (response.ok) {
         const data = await response.json();
@@ -305,7 +414,6 @@ export default function VideoDetailPage() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          userId,
           videoId,
           playerNames: updatedNames,
         }),
@@ -319,18 +427,172 @@ export default function VideoDetailPage() {
 
   const handleAnalysisPlayerNameUpdate = (playerId: string) => {
     if (editAnalysisName.trim()) {
+      if (playerLinks[playerId]) {
+        handleRenamePlayerProfile(playerLinks[playerId], editAnalysisName.trim());
+      }
       handleUpdatePlayerName(playerId, editAnalysisName.trim());
     }
     setEditingAnalysisPlayer(null);
     setEditAnalysisName('');
   };
 
+  const fetchPlayerProfiles = async () => {
+    try {
+      const response = await fetch('/api/players');
+
+      if (response.ok) {
+        const data = await response.json();
+        setPlayerProfiles(data.players);
+      }
+    } catch (error) {
+      console.error('Error fetching player profiles:', error);
+    }
+  };
+
+  const fetchAnnotations = async () => {
+    if (!videoId) return;
+
+    try {
+      const response = await fetch(`/api/annotations?videoId=${videoId}`);
+
+      if (response.ok) {
+        const data = await response.json();
+        setAnnotations(data.annotations);
+      }
+    } catch (error) {
+      console.error('Error fetching annotations:', error);
+    }
+  };
+
+  const fetchPlayerLinks = async () => {
+    if (!videoId) return;
+
+    try {
+      const response = await fetch(`/api/video-players?videoId=${videoId}`);
+
+      if (response.ok) {
+        const data = await response.json();
+        const links: Record<string, string> = {};
+        for (const link of data.links as { trackedPlayerId: string; playerId: string }[]) {
+          links[link.trackedPlayerId] = link.playerId;
+        }
+        setPlayerLinks(links);
+      }
+    } catch (error) {
+      console.error('Error fetching player links:', error);
+    }
+  };
+
+  const handleLinkPlayer = async (trackedPlayerId: string, profileId: string | null) => {
+    try {
+      const response = await fetch('/api/video-players', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          videoId,
+          links: { [trackedPlayerId]: profileId },
+        }),
+      });
 
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to link player');
+      }
 
-  // Convert shuttle data to shot markers for timeline - REMOVED rally markers per user request
-  const generateShuttleMarkers = () => {
-    // Rally markers have been removed
-    return [];
+      const data = await response.json();
+      setPlayerNames(data.playerNames);
+      setPlayerLinks(prev => {
+        const next = { ...prev };
+        if (profileId) {
+          next[trackedPlayerId] = profileId;
+        } else {
+          delete next[trackedPlayerId];
+        }
+        return next;
+      });
+      // Refresh video counts
+      fetchPlayerProfiles();
+      toast.success(profileId ? 'Player linked to profile' : 'Player unlinked');
+    } catch (error) {
+      console.error('Error linking player:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to link player');
+    }
+  };
+
+  const handleCreatePlayerProfile = async (trackedPlayerId: string, name: string) => {
+    try {
+      const response = await fetch('/api/players', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to create player');
+      }
+
+      const { player } = await response.json();
+      setPlayerProfiles(prev => [...prev, player]);
+      await handleLinkPlayer(trackedPlayerId, player.id);
+    } catch (error) {
+      console.error('Error creating player profile:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create player');
+    }
+  };
+
+  const handleRenamePlayerProfile = async (profileId: string, name: string) => {
+    setPlayerProfiles(prev => prev.map(profile => profile.id === profileId ? { ...profile, name } : profile));
+
+    try {
+      await fetch(`/api/players/${profileId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      });
+    } catch (error) {
+      console.error('Error renaming player profile:', error);
+    }
+  };
+
+  const getPlayerName = (playerId: string) => {
+    const linkedProfile = playerLinks[playerId] && playerProfiles.find(profile => profile.id === playerLinks[playerId]);
+    if (linkedProfile) return linkedProfile.name;
+    if (playerNames[playerId]) return playerNames[playerId];
+    // Convert "player_0" to "Player 0", "player_1" to "Player 1", etc.
+    const match = playerId.match(/player_(\d+)/i);
+    return match ? `Player ${match[1]}` : playerId;
+  };
+
+  // Convert segmented rallies, classified shots and coach annotations to timeline markers
+  const generateTimelineMarkers = () => {
+    const rallyMarkers = rallies.map(rally => ({
+      time: rally.startTime,
+      endTime: rally.endTime,
+      label: `Rally ${rally.index} (${rally.duration.toFixed(1)}s)`,
+      type: 'rally' as const,
+    }));
+
+    const shotMarkers = shots.map(shot => {
+      const shotName = shot.type.charAt(0).toUpperCase() + shot.type.slice(1);
+      const playerName = shot.playerId ? getPlayerName(shot.playerId) : undefined;
+      return {
+        time: shot.time,
+        label: playerName ? `${shotName} – ${playerName}` : shotName,
+        type: 'shot' as const,
+        category: shot.type,
+        playerId: shot.playerId ?? undefined,
+        playerName,
+      };
+    });
+
+    const annotationMarkers = annotations.map(annotation => ({
+      time: annotation.time_seconds ?? 0,
+      label: getAnnotationLabel(annotation),
+      type: 'point' as const,
+    }));
+
+    return [...rallyMarkers, ...shotMarkers, ...annotationMarkers];
   };
 
   // Helper to determine which step is currently active based on status (currently unused)
@@ -514,8 +776,43 @@ export default function VideoDetailPage() {
                 )}
               </div>
 
-              {/* Share Button */}
+              {/* Export + Share Buttons */}
               <div className="flex items-center gap-2">
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={analysisStatus !== 'completed'}
+                      className="flex items-center gap-2"
+                      title={analysisStatus !== 'completed' ? 'Analysis must be complete to export' : 'Export analysis data'}
+                    >
+                      <Download className="h-4 w-4" />
+                      Export
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuLabel>Player metrics</DropdownMenuLabel>
+                    <DropdownMenuItem asChild>
+                      <a href={`/api/position-analysis/export?videoId=${videoId}&dataset=metrics&format=csv`}>CSV</a>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem asChild>
+                      <a href={`/api/position-analysis/export?videoId=${videoId}&dataset=metrics&format=xlsx`}>Excel (.xlsx)</a>
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuLabel>Frame positions</DropdownMenuLabel>
+                    <DropdownMenuItem asChild>
+                      <a href={`/api/position-analysis/export?videoId=${videoId}&dataset=positions&format=csv`}>CSV</a>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem asChild>
+                      <a href={`/api/position-analysis/export?videoId=${videoId}&dataset=positions&format=xlsx`}>Excel (.xlsx)</a>
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem asChild>
+                      <a href={`/api/position-analysis/export?videoId=${videoId}&format=xlsx`}>Everything (.xlsx)</a>
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
                 {shareUrl ? (
                   <Button
                     variant="outline"
@@ -577,21 +874,52 @@ export default function VideoDetailPage() {
         <div className="bg-[hsl(var(--tech-bg-secondary))] border-b border-[hsl(var(--tech-border))]">
           <div className="max-w-7xl mx-auto px-8 py-6">
             <div className="grid grid-cols-12 gap-6">
-              {/* Video Player - Full Width */}
-              <div className="col-span-12">
+              {/* Video Player */}
+              <div className="col-span-12 lg:col-span-8">
                 <VideoPlayer
                   video={video}
                   videoId={videoId}
                   showProcessed={true}
                   onDurationChange={setVideoDuration}
-                  onVideoElementReady={() => {}}
-                  shotMarkers={generateShuttleMarkers()}
+                  onVideoElementReady={setVideoElement}
+                  shotMarkers={generateTimelineMarkers()}
+                  shuttleTrajectory={shuttleData}
+                  annotationDrawings={getTimedDrawings(annotations)}
+                  drawingDraft={drawingDraft}
+                  drawingColor={drawingColor}
+                  onDrawingDraftChange={setDrawingDraft}
                   onTimeUpdate={() => {
                     // Video time tracking removed for now
                   }}
                 />
               </div>
 
+              <div className="col-span-12 lg:col-span-4 flex flex-col gap-4 lg:pt-9">
+                {/* Court Mini-Map - top-down replay synced to the video element */}
+                {positionTrack && (
+                  <div className="flex justify-center">
+                    <CourtMiniMap
+                      track={positionTrack}
+                      videoElement={videoElement}
+                      getPlayerName={getPlayerName}
+                    />
+                  </div>
+                )}
+
+                {/* Coach Annotations - timestamped comments, tags and drawings with replies */}
+                <VideoAnnotations
+                  videoId={videoId}
+                  annotations={annotations}
+                  videoElement={videoElement}
+                  onAnnotationsChange={setAnnotations}
+                  playerProfiles={playerProfiles}
+                  drawingDraft={drawingDraft}
+                  drawingColor={drawingColor}
+                  onDrawingDraftChange={setDrawingDraft}
+                  onDrawingColorChange={setDrawingColor}
+                />
+              </div>
+
             </div>
           </div>
         </div>
@@ -696,12 +1024,6 @@ export default function VideoDetailPage() {
                   {/* Player Stats - Side by Side Comparison */}
                   {positionAnalysisData.players ? (() => {
                     const playerEntries = Object.entries(positionAnalysisData.players as Record<string, unknown>);
-                    const getPlayerName = (playerId: string) => {
-                      if (playerNames[playerId]) return playerNames[playerId];
-                      // Convert "player_0" to "Player 0", "player_1" to "Player 1", etc.
-                      const match = playerId.match(/player_(\d+)/i);
-                      return match ? `Player ${match[1]}` : playerId;
-                    };
                     const getPlayerLabel = (playerId: string) => {
                       // Convert "player_0" to "P0", "player_1" to "P1", etc.
                       const match = playerId.match(/player_(\d+)/i);
@@ -741,7 +1063,7 @@ export default function VideoDetailPage() {
                                       setEditAnalysisName(getPlayerName(playerId));
                                     }}
                                     className="cursor-pointer hover:text-[hsl(var(--tech-accent))] transition-colors duration-200 w-full text-center relative"
-                                    title="Click to rename"
+                                    title={playerLinks[playerId] ? "Click to rename profile" : "Click to rename"}
                                   >
                                     <h4 className="text-lg font-semibold text-[hsl(var(--tech-text-primary))] text-center w-full">
                                       {getPlayerName(playerId)}
@@ -752,6 +1074,17 @@ export default function VideoDetailPage() {
                                     </p>
                                   </div>
                                 )}
+                                <PlayerProfileLink
+                                  trackedPlayerId={playerId}
+                                  profiles={playerProfiles}
+                                  linkedProfileId={playerLinks[playerId] ?? null}
+                                  unavailableProfileIds={Object.entries(playerLinks)
+                                    .filter(([trackedPlayerId]) => trackedPlayerId !== playerId)
+                                    .map(([, profileId]) => profileId)}
+                                  suggestedName={getPlayerName(playerId)}
+                                  onLink={handleLinkPlayer}
+                                  onCreate={handleCreatePlayerProfile}
+                                />
                               </div>
                             </div>
 
@@ -1071,6 +1404,16 @@ export default function VideoDetailPage() {
                       </div>
                     );
                   })() : null}
+
+                  {/* Court Heatmaps - position density from corrected_positions.json */}
+                  {positionTrack && (
+                    <CourtHeatmap
+                      key={positionTrack.frameCount}
+                      track={positionTrack}
+                      videoId={videoId}
+                      getPlayerName={getPlayerName}
+                    />
+                  )}
                 </div>
               )}
             </div>
@@ -7,6 +7,9 @@ import { Badge } from "@/components/ui/badge";
 import { Clock, Activity, Target, Play, Pause, SkipBack, SkipForward, Volume2, VolumeX, Maximize, Loader2 } from "lucide-react";
 import Link from "next/link";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { AnnotationDrawingOverlay } from "@/components/dashboard/AnnotationDrawingOverlay";
+import { VideoAnnotations } from "@/components/dashboard/VideoAnnotations";
+import { AnnotationThread, getActiveDrawings, getAnnotationLabel, getTimedDrawings } from "@/lib/annotations";
 
 export default function SharedAnalysisPage() {
   const params = useParams();
@@ -16,6 +19,7 @@ export default function SharedAnalysisPage() {
   const [analysisData, setAnalysisData] = useState<Record<string, unknown> | null>(null);
   const [playerNames, setPlayerNames] = useState<Record<string, string>>({});
   const [videoUrl, setVideoUrl] = useState<string>('');
+  const [annotations, setAnnotations] = useState<AnnotationThread[]>([]);
 
   // Video player state
   const videoRef = useRef<HTMLVideoElement>(null);
@@ -56,7 +60,8 @@ export default function SharedAnalysisPage() {
       const data = await response.json();
       setAnalysisData(data.positionAnalysisData);
       setPlayerNames(data.playerNames || {});
-      setVideoUrl(`/api/share/${token}/video`);
+      setAnnotations(data.annotations || []);
+      setVideoUrl(data.videoUrl || `/api/share/${token}/video`);
     } catch (err) {
       console.error('Error fetching shared analysis:', err);
       setError('Failed to load shared analysis.');
@@ -265,6 +270,12 @@ export default function SharedAnalysisPage() {
                       onPause={() => setIsPlaying(false)}
                     />
 
+                    {/* Coach annotation drawings */}
+                    <AnnotationDrawingOverlay
+                      videoElement={duration > 0 ? videoRef.current : null}
+                      drawings={getActiveDrawings(getTimedDrawings(annotations), currentTime).map(({ drawing }) => drawing)}
+                    />
+
                     {/* Center Play Button */}
                     {!isPlaying && (
                       <div className="absolute inset-0 flex items-center justify-center">
@@ -307,6 +318,21 @@ export default function SharedAnalysisPage() {
                             className="absolute top-0 left-0 h-full bg-[hsl(var(--tech-accent))] rounded-full"
                             style={{ width: `${duration > 0 ? (currentTime / duration) * 100 : 0}%` }}
                           />
+                          {/* Coach annotation markers */}
+                          {duration > 0 && annotations.map(annotation => (
+                            <div
+                              key={annotation.id}
+                              className="absolute top-0 w-1 h-full bg-green-400 hover:w-2 transition-all"
+                              style={{ left: `${((annotation.time_seconds ?? 0) / duration) * 100}%` }}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                if (videoRef.current) {
+                                  videoRef.current.currentTime = annotation.time_seconds ?? 0;
+                                }
+                              }}
+                              title={`${getAnnotationLabel(annotation)} (${formatTime(annotation.time_seconds ?? 0)})`}
+                            />
+                          ))}
                         </div>
                       </div>
 
@@ -393,6 +419,15 @@ export default function SharedAnalysisPage() {
 
         {/* Analysis Content */}
         <div className="max-w-7xl mx-auto px-8 py-8">
+          {annotations.length > 0 && (
+            <div className="mb-6">
+              <VideoAnnotations
+                annotations={annotations}
+                videoElement={duration > 0 ? videoRef.current : null}
+                readOnly
+              />
+            </div>
+          )}
           {analysisData?.players ? (() => {
             const playerEntries = Object.entries(analysisData.players as Record<string, unknown>);
             const getPlayerName = (playerId: string) => {
@@ -19,8 +19,10 @@ import {
   ChevronRight,
   Settings,
   RefreshCw,
-  AlertTriangle
+  AlertTriangle,
+  XCircle
 } from "lucide-react";
+import { submitAnalysis } from "@/lib/analysis-progress";
 
 interface AnalysisPipelineProps {
   videoId: string;
@@ -58,6 +60,22 @@ interface AnalysisStep {
   maxRetries?: number;
 }
 
+interface ActiveJob {
+  stepId: string;
+  jobId: string;
+  runpodJobId?: string; // Unset while the job waits in the queue
+}
+
+// Response of GET /api/analysis/queue
+interface QueueStatus {
+  jobId: string;
+  waiting: boolean;
+  queuePosition: number | null;
+  activeJobs: number;
+  maxConcurrentJobs: number;
+  runpodJobId: string | null;
+}
+
 interface ResultsData {
   error?: string;
   message?: string;
@@ -169,6 +187,11 @@ export function AnalysisPipeline({ videoId, userId, videoDurationSeconds, video,
   const [showResults, setShowResults] = useState<string | null>(null);
   const [resultsData, setResultsData] = useState<ResultsData | null>(null);
   const [loadingResults, setLoadingResults] = useState(false);
+  // Jobs submitted from this pipeline that can still be cancelled
+  const [activeJobs, setActiveJobs] = useState<ActiveJob[]>([]);
+  const [isCancelling, setIsCancelling] = useState(false);
+  // Set while a submitted job waits for one of the user's concurrent job slots
+  const [queueStatus, setQueueStatus] = useState<QueueStatus | null>(null);
   // Removed visualizationKey state - will be needed when CourtVisualization component is implemented
   // const [visualizationKey, setVisualizationKey] = useState(0);
   const stepsRef = useRef(steps);
@@ -190,6 +213,32 @@ export function AnalysisPipeline({ videoId, userId, videoDurationSeconds, video,
     stepsRef.current = steps;
   }, [steps]);
 
+  // Poll the queue position until the job is sent to RunPod
+  useEffect(() => {
+    if (!queueStatus?.waiting) return;
+
+    const queuedJobId = queueStatus.jobId;
+    const interval = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/analysis/queue?videoId=${videoId}&jobId=${queuedJobId}`);
+        if (!response.ok) return;
+
+        const status: QueueStatus = await response.json();
+        setQueueStatus(status.waiting ? status : null);
+
+        if (status.runpodJobId) {
+          setActiveJobs(prev => prev.map(job =>
+              job.jobId === queuedJobId ? { ...job, runpodJobId: status.runpodJobId ?? undefined } : job
+          ));
+        }
+      } catch (error) {
+        console.error('Error checking queue position:', error);
+      }
+    }, 5000);
+
+    return () => clearInterval(interval);
+  }, [queueStatus?.waiting, queueStatus?.jobId, videoId]);
+
   const getStatusIcon = (status: StepStatus) => {
     switch (status) {
       case 'completed':
@@ -224,6 +273,8 @@ export function AnalysisPipeline({ videoId, userId, videoDurationSeconds, video,
 
   const runStep = async (stepId: string) => {
     const startTime = Date.now();
+    // One key per run of a step, so resent requests map onto the same job
+    const idempotencyKey = crypto.randomUUID();
 
     setSteps(prev => prev.map(step =>
         step.id === stepId
@@ -335,21 +386,18 @@ export function AnalysisPipeline({ videoId, userId, videoDurationSeconds, video,
         }, 500);
       }
 
-      // Use the async analysis endpoint for all steps
-      const response = await fetch('/api/analysis', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ userId, videoId })
-      });
-
-      clearInterval(progressInterval);
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
-        throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+      // Use the async analysis endpoint for all steps; it answers with the
+      // job's queue status (as GET /api/analysis/queue does)
+      let result: ResultsData & QueueStatus;
+      try {
+        result = await submitAnalysis(videoId, idempotencyKey);
+      } finally {
+        clearInterval(progressInterval);
+      }
+      if (result.jobId) {
+        setActiveJobs(prev => [...prev, { stepId, jobId: result.jobId, runpodJobId: result.runpodJobId ?? undefined }]);
+        setQueueStatus(result.waiting ? result : null);
       }
-
-      const result = await response.json();
       const endTime = Date.now();
       const duration = Math.round((endTime - startTime) / 1000);
 
@@ -469,7 +517,7 @@ export function AnalysisPipeline({ videoId, userId, videoDurationSeconds, video,
     try {
       if (stepId === 'calibration') {
         // Fetch calibration summary
-        const response = await fetch(`/api/analysis-results?userId=${userId}&videoId=${videoId}&step=${stepId}`);
+        const response = await fetch(`/api/analysis-results?videoId=${videoId}&step=${stepId}`);
         if (response.ok) {
           const data = await response.json();
           setResultsData(data);
@@ -496,6 +544,51 @@ export function AnalysisPipeline({ videoId, userId, videoDurationSeconds, video,
     }
   };
 
+  const cancelAnalysis = async () => {
+    setIsCancelling(true);
+
+    const cancelledSteps: string[] = [];
+    const remainingJobs: ActiveJob[] = [];
+
+    for (const job of activeJobs) {
+      try {
+        const response = await fetch('/api/analysis/cancel', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ videoId, jobId: job.jobId })
+        });
+
+        if (response.ok) {
+          cancelledSteps.push(job.stepId);
+        } else if (response.status !== 409) {
+          // 409 means the job already finished - nothing left to cancel
+          const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+          throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+        }
+      } catch (error) {
+        console.error('Error cancelling analysis:', error);
+        remainingJobs.push(job);
+      }
+    }
+
+    setActiveJobs(remainingJobs);
+    if (remainingJobs.length === 0) {
+      setQueueStatus(null);
+    }
+    setSteps(prev => prev.map(step =>
+        cancelledSteps.includes(step.id)
+            ? {
+              ...step,
+              status: 'failed' as StepStatus,
+              currentStage: 'Cancelled',
+              errorMessage: 'Analysis cancelled',
+              endTime: Date.now()
+            }
+            : step
+    ));
+    setIsCancelling(false);
+  };
+
   const resetPipeline = async () => {
     try {
       // Delete all analysis files
@@ -517,6 +610,8 @@ export function AnalysisPipeline({ videoId, userId, videoDurationSeconds, video,
         retryCount: 0
       })));
       setIsRunning(false);
+      setActiveJobs([]);
+      setQueueStatus(null);
       setShowResults(null);
       setResultsData(null);
 
@@ -538,6 +633,18 @@ export function AnalysisPipeline({ videoId, userId, videoDurationSeconds, video,
           <CardTitle className="flex items-center justify-between">
             <span>Analysis Pipeline</span>
             <div className="flex gap-2">
+              {activeJobs.length > 0 && (
+                  <Button
+                      onClick={cancelAnalysis}
+                      variant="outline"
+                      size="sm"
+                      className="text-red-600 border-red-200 hover:bg-red-50"
+                      disabled={isCancelling}
+                  >
+                    <XCircle className="h-4 w-4 mr-2" />
+                    {isCancelling ? 'Cancelling...' : 'Cancel'}
+                  </Button>
+              )}
               <Button
                   onClick={resetPipeline}
                   variant="outline"
@@ -566,6 +673,15 @@ export function AnalysisPipeline({ videoId, userId, videoDurationSeconds, video,
               <span>{completedSteps}/{totalSteps} steps completed</span>
             </div>
             <Progress value={(completedSteps / totalSteps) * 100} className="h-2" />
+            {queueStatus?.waiting && (
+                <div className="flex items-center gap-2 text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded px-3 py-2">
+                  <Clock className="h-4 w-4" />
+                  <span>
+                    Queued{queueStatus.queuePosition ? ` — position ${queueStatus.queuePosition}` : ''}
+                    {' '}({queueStatus.activeJobs} of {queueStatus.maxConcurrentJobs} analysis slots in use)
+                  </span>
+                </div>
+            )}
           </div>
 
           {/* Steps */}
@@ -0,0 +1,126 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { AnnotationDrawing, AnnotationStroke } from "@/lib/supabase/types";
+
+interface AnnotationDrawingOverlayProps {
+  videoElement: HTMLVideoElement | null;
+  drawings: AnnotationDrawing[];
+  // When set, the overlay captures the pointer and draws new strokes in this color
+  drawColor?: string | null;
+  onStrokeComplete?: (stroke: AnnotationStroke) => void;
+}
+
+const DEFAULT_STROKE_WIDTH = 0.004; // fraction of the video width
+
+/**
+ * Draws annotation strokes on top of the video, and captures new ones.
+ *
+ * Strokes are stored in normalized 0-1 video coordinates. Like
+ * ShuttleTrajectoryOverlay, the SVG uses the video's pixel size as its
+ * viewBox with `xMidYMid meet` so it matches the player's `object-contain`
+ * letterboxing, and pointer positions are mapped back through the SVG's
+ * screen transform.
+ */
+export function AnnotationDrawingOverlay({
+  videoElement,
+  drawings,
+  drawColor,
+  onStrokeComplete,
+}: AnnotationDrawingOverlayProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [activeStroke, setActiveStroke] = useState<AnnotationStroke | null>(null);
+
+  const width = videoElement?.videoWidth || 0;
+  const height = videoElement?.videoHeight || 0;
+  const editable = !!drawColor;
+
+  if (!width || !height || (!editable && drawings.length === 0)) return null;
+
+  const toVideoPoint = (event: React.PointerEvent): [number, number] | null => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (!svg || !matrix) return null;
+
+    const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix.inverse());
+    return [
+      Math.min(1, Math.max(0, point.x / width)),
+      Math.min(1, Math.max(0, point.y / height)),
+    ];
+  };
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    if (!drawColor) return;
+    event.stopPropagation();
+    const point = toVideoPoint(event);
+    if (!point) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setActiveStroke({ color: drawColor, width: DEFAULT_STROKE_WIDTH, points: [point] });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (!activeStroke) return;
+    const point = toVideoPoint(event);
+    if (!point) return;
+    setActiveStroke({ ...activeStroke, points: [...activeStroke.points, point] });
+  };
+
+  const handlePointerUp = (event: React.PointerEvent) => {
+    if (!activeStroke) return;
+    event.stopPropagation();
+    onStrokeComplete?.(activeStroke);
+    setActiveStroke(null);
+  };
+
+  const renderStroke = (stroke: AnnotationStroke, key: string) => {
+    const strokeWidth = stroke.width * width;
+    // A single tap becomes a dot
+    if (stroke.points.length === 1) {
+      const [x, y] = stroke.points[0];
+      return <circle key={key} cx={x * width} cy={y * height} r={strokeWidth} fill={stroke.color} />;
+    }
+    return (
+      <polyline
+        key={key}
+        points={stroke.points.map(([x, y]) => `${x * width},${y * height}`).join(' ')}
+        fill="none"
+        stroke={stroke.color}
+        strokeWidth={strokeWidth}
+        strokeLinecap="round"
+        strokeLinejoin="round"
+      />
+    );
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      className={`absolute inset-0 w-full h-full ${editable ? 'cursor-crosshair touch-none' : 'pointer-events-none'}`}
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="xMidYMid meet"
+      onClick={editable ? (event) => event.stopPropagation() : undefined}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => setActiveStroke(null)}
+    >
+      {drawings.flatMap((drawing, drawingIndex) =>
+        drawing.strokes.map((stroke, strokeIndex) => renderStroke(stroke, `${drawingIndex}-${strokeIndex}`))
+      )}
+      {activeStroke && renderStroke(activeStroke, 'active')}
+      {editable && (
+        <rect
+          x={0}
+          y={0}
+          width={width}
+          height={height}
+          fill="none"
+          stroke={drawColor}
+          strokeWidth={Math.max(2, width * 0.003)}
+          strokeDasharray={`${width * 0.01} ${width * 0.01}`}
+          opacity={0.6}
+        />
+      )}
+    </svg>
+  );
+}
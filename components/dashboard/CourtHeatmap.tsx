@@ -0,0 +1,198 @@
+"use client";
+
+import { useMemo, useRef, useState } from "react";
+import { Stage, Layer, Image as KonvaImage } from "react-konva";
+import type Konva from "konva";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { Download } from "lucide-react";
+import { PositionTrack, buildDensityGrid } from "@/lib/positions";
+import { CourtLines, CourtSurface, getCourtStageSize } from "@/components/dashboard/CourtLines";
+
+interface CourtHeatmapProps {
+  track: PositionTrack;
+  videoId: string;
+  getPlayerName?: (playerId: string) => string;
+}
+
+// Rendering scale and run-off shown around the court lines
+const COURT = { pixelsPerMetre: 28, margin: 1 };
+const { width: STAGE_WIDTH, height: STAGE_HEIGHT } = getCourtStageSize(COURT);
+
+// Density -> colour ramp: blue (low) through green and yellow to red (high)
+const COLOR_STOPS: [number, [number, number, number]][] = [
+  [0, [59, 130, 246]],
+  [0.35, [34, 197, 94]],
+  [0.65, [250, 204, 21]],
+  [1, [239, 68, 68]],
+];
+
+function colorFor(value: number): [number, number, number] {
+  for (let i = 1; i < COLOR_STOPS.length; i++) {
+    const [stop, color] = COLOR_STOPS[i];
+    if (value <= stop) {
+      const [previousStop, previousColor] = COLOR_STOPS[i - 1];
+      const t = (value - previousStop) / (stop - previousStop);
+      return [0, 1, 2].map(c => Math.round(previousColor[c] + (color[c] - previousColor[c]) * t)) as [number, number, number];
+    }
+  }
+  return COLOR_STOPS[COLOR_STOPS.length - 1][1];
+}
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+interface PlayerHeatmapProps {
+  track: PositionTrack;
+  playerId: string;
+  playerName: string;
+  videoId: string;
+  startTime: number;
+  endTime: number;
+}
+
+function PlayerHeatmap({ track, playerId, playerName, videoId, startTime, endTime }: PlayerHeatmapProps) {
+  const stageRef = useRef<Konva.Stage>(null);
+
+  const grid = useMemo(
+    () => buildDensityGrid(track, playerId, startTime, endTime, 0.2, COURT.margin),
+    [track, playerId, startTime, endTime]
+  );
+
+  // Paint the grid into a small offscreen canvas; Konva scales it up smoothly
+  const heatmapImage = useMemo(() => {
+    if (grid.samples === 0) return null;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = grid.cols;
+    canvas.height = grid.rows;
+    const context = canvas.getContext('2d');
+    if (!context) return null;
+
+    const imageData = context.createImageData(grid.cols, grid.rows);
+    for (let i = 0; i < grid.values.length; i++) {
+      const value = grid.values[i];
+      if (value < 0.03) continue;
+      const [r, g, b] = colorFor(value);
+      imageData.data[i * 4] = r;
+      imageData.data[i * 4 + 1] = g;
+      imageData.data[i * 4 + 2] = b;
+      imageData.data[i * 4 + 3] = Math.round(Math.min(1, value * 1.5) * 210);
+    }
+    context.putImageData(imageData, 0, 0);
+    return canvas;
+  }, [grid]);
+
+  const exportPng = () => {
+    if (!stageRef.current) return;
+
+    const dataUrl = stageRef.current.toDataURL({ pixelRatio: 3 });
+    const link = document.createElement('a');
+    link.href = dataUrl;
+    link.download = `${videoId}-${playerId}-heatmap.png`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  return (
+    <div className="bg-[hsl(var(--tech-bg-tertiary))] rounded-lg p-4 flex flex-col items-center gap-3">
+      <div className="flex items-center justify-between w-full">
+        <h5 className="text-sm font-semibold text-[hsl(var(--tech-text-primary))] uppercase tracking-wider">
+          {playerName}
+        </h5>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 text-xs"
+          onClick={exportPng}
+          disabled={grid.samples === 0}
+        >
+          <Download className="h-3 w-3 mr-1.5" />
+          PNG
+        </Button>
+      </div>
+
+      <Stage ref={stageRef} width={STAGE_WIDTH} height={STAGE_HEIGHT}>
+        <Layer>
+          <CourtSurface {...COURT} />
+          {heatmapImage && (
+            <KonvaImage image={heatmapImage} x={0} y={0} width={STAGE_WIDTH} height={STAGE_HEIGHT} listening={false} />
+          )}
+          <CourtLines {...COURT} />
+        </Layer>
+      </Stage>
+
+      <p className="text-xs text-[hsl(var(--tech-text-secondary))]">
+        {grid.samples > 0
+          ? `${grid.samples.toLocaleString()} tracked frames · camera side at bottom`
+          : 'No tracked positions in this time range'}
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Per-player position density heatmaps on a to-scale badminton court,
+ * built from corrected_positions.json.
+ */
+export function CourtHeatmap({ track, videoId, getPlayerName }: CourtHeatmapProps) {
+  const maxTime = Math.ceil(track.frames[track.frames.length - 1]?.time ?? 0);
+  const [timeRange, setTimeRange] = useState<[number, number]>([0, maxTime]);
+
+  if (track.playerIds.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-6 flex-wrap">
+        <h4 className="text-lg font-semibold text-[hsl(var(--tech-text-primary))]">
+          Court Heatmaps
+        </h4>
+        <div className="flex items-center gap-3 flex-1 min-w-[280px] max-w-md">
+          <span className="text-xs font-mono text-[hsl(var(--tech-text-secondary))] w-10 text-right">
+            {formatTime(timeRange[0])}
+          </span>
+          <Slider
+            value={timeRange}
+            min={0}
+            max={maxTime}
+            step={1}
+            minStepsBetweenThumbs={1}
+            onValueChange={(value) => setTimeRange([value[0], value[1]])}
+          />
+          <span className="text-xs font-mono text-[hsl(var(--tech-text-secondary))] w-10">
+            {formatTime(timeRange[1])}
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => setTimeRange([0, maxTime])}
+            disabled={timeRange[0] === 0 && timeRange[1] === maxTime}
+          >
+            Reset
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
+        {track.playerIds.map(playerId => (
+          <PlayerHeatmap
+            key={playerId}
+            track={track}
+            playerId={playerId}
+            playerName={getPlayerName ? getPlayerName(playerId) : playerId}
+            videoId={videoId}
+            startTime={timeRange[0]}
+            endTime={timeRange[1]}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
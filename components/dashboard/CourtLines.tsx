@@ -0,0 +1,86 @@
+"use client";
+
+import { Rect, Line } from "react-konva";
+import { COURT_LENGTH_M, COURT_WIDTH_M, NET_Y_M } from "@/lib/positions";
+
+// Standard badminton court markings (metres)
+const SINGLES_SIDELINE_INSET_M = 0.46;
+const SHORT_SERVICE_LINE_M = 1.98; // from the net
+const DOUBLES_LONG_SERVICE_INSET_M = 0.76; // from the back boundary
+
+interface CourtProps {
+  pixelsPerMetre: number;
+  margin: number; // metres of run-off drawn around the court
+}
+
+/**
+ * Stage size for a vertical court (camera side at the bottom) at the given scale
+ */
+export function getCourtStageSize({ pixelsPerMetre, margin }: CourtProps) {
+  return {
+    width: (COURT_WIDTH_M + margin * 2) * pixelsPerMetre,
+    height: (COURT_LENGTH_M + margin * 2) * pixelsPerMetre,
+  };
+}
+
+/**
+ * Convert court metres to stage pixels
+ */
+export function courtToStage(metres: number, { pixelsPerMetre, margin }: CourtProps): number {
+  return (metres + margin) * pixelsPerMetre;
+}
+
+/**
+ * Run-off area and playing surface, drawn underneath everything else
+ */
+export function CourtSurface(props: CourtProps) {
+  const { width, height } = getCourtStageSize(props);
+
+  return (
+    <>
+      <Rect x={0} y={0} width={width} height={height} fill="#111827" listening={false} />
+      <Rect
+        x={courtToStage(0, props)}
+        y={courtToStage(0, props)}
+        width={COURT_WIDTH_M * props.pixelsPerMetre}
+        height={COURT_LENGTH_M * props.pixelsPerMetre}
+        fill="#14532d"
+        listening={false}
+      />
+    </>
+  );
+}
+
+/**
+ * To-scale court markings and net
+ */
+export function CourtLines(props: CourtProps) {
+  const toStage = (metres: number) => courtToStage(metres, props);
+  const left = toStage(0);
+  const right = toStage(COURT_WIDTH_M);
+  const top = toStage(0);
+  const bottom = toStage(COURT_LENGTH_M);
+  const centreX = toStage(COURT_WIDTH_M / 2);
+  const lineProps = { stroke: "rgba(255, 255, 255, 0.85)", strokeWidth: 1.5, listening: false };
+
+  return (
+    <>
+      {/* Doubles boundary */}
+      <Rect x={left} y={top} width={right - left} height={bottom - top} {...lineProps} />
+      {/* Singles sidelines */}
+      <Line points={[toStage(SINGLES_SIDELINE_INSET_M), top, toStage(SINGLES_SIDELINE_INSET_M), bottom]} {...lineProps} />
+      <Line points={[toStage(COURT_WIDTH_M - SINGLES_SIDELINE_INSET_M), top, toStage(COURT_WIDTH_M - SINGLES_SIDELINE_INSET_M), bottom]} {...lineProps} />
+      {/* Doubles long service lines */}
+      <Line points={[left, toStage(DOUBLES_LONG_SERVICE_INSET_M), right, toStage(DOUBLES_LONG_SERVICE_INSET_M)]} {...lineProps} />
+      <Line points={[left, toStage(COURT_LENGTH_M - DOUBLES_LONG_SERVICE_INSET_M), right, toStage(COURT_LENGTH_M - DOUBLES_LONG_SERVICE_INSET_M)]} {...lineProps} />
+      {/* Short service lines */}
+      <Line points={[left, toStage(NET_Y_M - SHORT_SERVICE_LINE_M), right, toStage(NET_Y_M - SHORT_SERVICE_LINE_M)]} {...lineProps} />
+      <Line points={[left, toStage(NET_Y_M + SHORT_SERVICE_LINE_M), right, toStage(NET_Y_M + SHORT_SERVICE_LINE_M)]} {...lineProps} />
+      {/* Centre lines */}
+      <Line points={[centreX, top, centreX, toStage(NET_Y_M - SHORT_SERVICE_LINE_M)]} {...lineProps} />
+      <Line points={[centreX, toStage(NET_Y_M + SHORT_SERVICE_LINE_M), centreX, bottom]} {...lineProps} />
+      {/* Net */}
+      <Line points={[toStage(-0.3), toStage(NET_Y_M), toStage(COURT_WIDTH_M + 0.3), toStage(NET_Y_M)]} stroke="white" strokeWidth={3} dash={[6, 3]} listening={false} />
+    </>
+  );
+}
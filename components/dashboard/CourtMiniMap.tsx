@@ -0,0 +1,204 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Stage, Layer, Line, Circle, Text } from "react-konva";
+import { PositionTrack, getPositionFrameAt, getPositionWindow } from "@/lib/positions";
+import { CourtLines, CourtSurface, courtToStage, getCourtStageSize } from "@/components/dashboard/CourtLines";
+
+interface CourtMiniMapProps {
+  track: PositionTrack;
+  videoElement: HTMLVideoElement | null;
+  getPlayerName?: (playerId: string) => string;
+  trailSeconds?: number;
+}
+
+const COURT = { pixelsPerMetre: 24, margin: 1 };
+const { width: STAGE_WIDTH, height: STAGE_HEIGHT } = getCourtStageSize(COURT);
+
+const PLAYER_COLORS = ['#3b82f6', '#ef4444', '#22c55e', '#f59e0b', '#a855f7', '#ec4899'];
+
+// Trails are drawn in chunks so each chunk can fade with age
+const TRAIL_CHUNKS = 8;
+// A gap in tracking longer than this breaks the trail
+const MAX_TRAIL_GAP_SECONDS = 0.3;
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Top-down court replay of player positions, locked to the video element.
+ *
+ * Time is read straight from the video element (every animation frame while
+ * playing, and on seek/pause events otherwise), so playback rate changes and
+ * scrubbing need no extra handling.
+ */
+export function CourtMiniMap({ track, videoElement, getPlayerName, trailSeconds = 2 }: CourtMiniMapProps) {
+  const [time, setTime] = useState(0);
+  const [playbackRate, setPlaybackRate] = useState(1);
+
+  useEffect(() => {
+    if (!videoElement) return;
+
+    let frameId: number | null = null;
+    const update = () => setTime(videoElement.currentTime);
+    const loop = () => {
+      update();
+      frameId = requestAnimationFrame(loop);
+    };
+    const start = () => {
+      if (frameId === null) frameId = requestAnimationFrame(loop);
+    };
+    const stop = () => {
+      if (frameId !== null) cancelAnimationFrame(frameId);
+      frameId = null;
+      update();
+    };
+    const handleRateChange = () => setPlaybackRate(videoElement.playbackRate);
+
+    videoElement.addEventListener('play', start);
+    videoElement.addEventListener('pause', stop);
+    videoElement.addEventListener('ended', stop);
+    videoElement.addEventListener('seeked', update);
+    videoElement.addEventListener('timeupdate', update);
+    videoElement.addEventListener('ratechange', handleRateChange);
+
+    handleRateChange();
+    if (videoElement.paused) {
+      update();
+    } else {
+      start();
+    }
+
+    return () => {
+      if (frameId !== null) cancelAnimationFrame(frameId);
+      videoElement.removeEventListener('play', start);
+      videoElement.removeEventListener('pause', stop);
+      videoElement.removeEventListener('ended', stop);
+      videoElement.removeEventListener('seeked', update);
+      videoElement.removeEventListener('timeupdate', update);
+      videoElement.removeEventListener('ratechange', handleRateChange);
+    };
+  }, [videoElement]);
+
+  const toStage = (metres: number) => courtToStage(metres, COURT);
+  const currentFrame = getPositionFrameAt(track, time, 0.25);
+  const trailFrames = getPositionWindow(track, time - trailSeconds, time);
+
+  // Build each player's trail as runs of continuous tracking
+  const trails = track.playerIds.map(playerId => {
+    const runs: { time: number; x: number; y: number }[][] = [];
+    let run: { time: number; x: number; y: number }[] = [];
+
+    for (const frame of trailFrames) {
+      const player = frame.players.find(p => p.playerId === playerId);
+      if (!player) continue;
+      const previous = run[run.length - 1];
+      if (previous && frame.time - previous.time > MAX_TRAIL_GAP_SECONDS) {
+        runs.push(run);
+        run = [];
+      }
+      run.push({ time: frame.time, x: toStage(player.x), y: toStage(player.y) });
+    }
+    if (run.length > 0) runs.push(run);
+
+    return runs;
+  });
+
+  const chunkSeconds = trailSeconds / TRAIL_CHUNKS;
+
+  return (
+    <div className="bg-[hsl(var(--tech-bg-tertiary))] rounded-xl border border-[hsl(var(--tech-border))]/50 p-3 flex flex-col items-center gap-3">
+      <div className="flex items-center justify-between w-full px-1">
+        <h3 className="text-sm font-medium text-[hsl(var(--tech-text-secondary))] tracking-wide uppercase">
+          Court View
+        </h3>
+        <span className="text-xs font-mono text-[hsl(var(--tech-text-secondary))]">
+          {formatTime(time)}{playbackRate !== 1 ? ` · ${playbackRate}x` : ''}
+        </span>
+      </div>
+
+      <Stage width={STAGE_WIDTH} height={STAGE_HEIGHT}>
+        <Layer listening={false}>
+          <CourtSurface {...COURT} />
+          <CourtLines {...COURT} />
+        </Layer>
+        <Layer listening={false}>
+          {trails.map((runs, playerIndex) => {
+            const color = PLAYER_COLORS[playerIndex % PLAYER_COLORS.length];
+            return runs.flatMap((run, runIndex) =>
+              Array.from({ length: TRAIL_CHUNKS }, (_, chunk) => {
+                // Oldest chunk first. Each chunk also takes the last point before
+                // it so consecutive chunks join up into one continuous line
+                const chunkStart = time - trailSeconds + chunk * chunkSeconds;
+                const chunkEnd = chunkStart + chunkSeconds;
+                const points = run.filter((point, i) =>
+                  (point.time >= chunkStart && point.time <= chunkEnd) ||
+                  (point.time < chunkStart && run[i + 1]?.time >= chunkStart)
+                );
+                if (points.length < 2) return null;
+
+                return (
+                  <Line
+                    key={`${playerIndex}-${runIndex}-${chunk}`}
+                    points={points.flatMap(point => [point.x, point.y])}
+                    stroke={color}
+                    strokeWidth={3}
+                    lineCap="round"
+                    lineJoin="round"
+                    opacity={((chunk + 1) / TRAIL_CHUNKS) * 0.8}
+                  />
+                );
+              })
+            );
+          })}
+
+          {currentFrame?.players.map(player => {
+            const playerIndex = track.playerIds.indexOf(player.playerId);
+            return (
+              <Circle
+                key={player.playerId}
+                x={toStage(player.x)}
+                y={toStage(player.y)}
+                radius={8}
+                fill={PLAYER_COLORS[playerIndex % PLAYER_COLORS.length]}
+                stroke="white"
+                strokeWidth={2}
+              />
+            );
+          })}
+          {currentFrame?.players.map(player => {
+            const match = player.playerId.match(/player_(\d+)/i);
+            return (
+              <Text
+                key={`${player.playerId}-label`}
+                x={toStage(player.x) - 10}
+                y={toStage(player.y) - 22}
+                width={20}
+                align="center"
+                text={match ? `P${match[1]}` : player.playerId}
+                fontSize={10}
+                fontStyle="bold"
+                fill="white"
+              />
+            );
+          })}
+        </Layer>
+      </Stage>
+
+      <div className="flex flex-wrap justify-center gap-x-4 gap-y-1 text-xs text-[hsl(var(--tech-text-secondary))]">
+        {track.playerIds.map((playerId, index) => (
+          <span key={playerId} className="flex items-center gap-1.5">
+            <span
+              className="inline-block w-2.5 h-2.5 rounded-full"
+              style={{ backgroundColor: PLAYER_COLORS[index % PLAYER_COLORS.length] }}
+            />
+            {getPlayerName ? getPlayerName(playerId) : playerId}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Link2, Link2Off, UserPlus } from "lucide-react";
+
+export interface PlayerProfileOption {
+  id: string;
+  name: string;
+  video_count: number;
+}
+
+interface PlayerProfileLinkProps {
+  trackedPlayerId: string;
+  profiles: PlayerProfileOption[];
+  linkedProfileId: string | null;
+  // Profiles already linked to another tracked player in this video
+  unavailableProfileIds: string[];
+  suggestedName: string;
+  onLink: (trackedPlayerId: string, profileId: string | null) => void;
+  onCreate: (trackedPlayerId: string, name: string) => void;
+}
+
+/**
+ * Links one tracked player in a video to a persistent player profile, so the
+ * same athlete can be followed across videos.
+ */
+export function PlayerProfileLink({
+  trackedPlayerId,
+  profiles,
+  linkedProfileId,
+  unavailableProfileIds,
+  suggestedName,
+  onLink,
+  onCreate,
+}: PlayerProfileLinkProps) {
+  const linkedProfile = profiles.find(profile => profile.id === linkedProfileId);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 text-xs text-[hsl(var(--tech-text-secondary))] hover:text-[hsl(var(--tech-accent))]"
+          title="Link this player to a profile"
+        >
+          <Link2 className="h-3 w-3 mr-1.5" />
+          {linkedProfile ? `Profile: ${linkedProfile.name}` : 'Link to profile'}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent>
+        {profiles.length > 0 && <DropdownMenuLabel>Player profiles</DropdownMenuLabel>}
+        {profiles.map(profile => (
+          <DropdownMenuItem
+            key={profile.id}
+            onClick={() => onLink(trackedPlayerId, profile.id)}
+            disabled={unavailableProfileIds.includes(profile.id)}
+            className={profile.id === linkedProfileId ? 'bg-accent' : ''}
+          >
+            {profile.name}
+            <span className="ml-auto pl-4 text-xs text-muted-foreground">
+              {profile.video_count} {profile.video_count === 1 ? 'video' : 'videos'}
+            </span>
+          </DropdownMenuItem>
+        ))}
+        {profiles.length > 0 && <DropdownMenuSeparator />}
+        <DropdownMenuItem onClick={() => onCreate(trackedPlayerId, suggestedName)}>
+          <UserPlus className="h-3 w-3 mr-2" />
+          New profile &quot;{suggestedName}&quot;
+        </DropdownMenuItem>
+        {linkedProfile && (
+          <DropdownMenuItem onClick={() => onLink(trackedPlayerId, null)}>
+            <Link2Off className="h-3 w-3 mr-2" />
+            Unlink
+          </DropdownMenuItem>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
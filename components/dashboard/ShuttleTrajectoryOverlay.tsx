@@ -0,0 +1,103 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { getShuttleWindow, ShuttleTrajectory } from "@/lib/shuttle";
+
+interface ShuttleTrajectoryOverlayProps {
+  trajectory: ShuttleTrajectory;
+  videoElement: HTMLVideoElement | null;
+  currentTime: number;
+  trailSeconds?: number;
+}
+
+// Frames missing between two detections before the trail is broken into separate segments
+const MAX_FRAME_GAP = 5;
+
+/**
+ * Draws the shuttle's recent trail on top of the video.
+ *
+ * The SVG uses the source video's pixel space as its viewBox with
+ * `xMidYMid meet`, which mirrors the player's `object-contain` letterboxing
+ * so tracked coordinates land on the right spot at any container size.
+ */
+export function ShuttleTrajectoryOverlay({
+  trajectory,
+  videoElement,
+  currentTime,
+  trailSeconds = 1.5,
+}: ShuttleTrajectoryOverlayProps) {
+  const [time, setTime] = useState(currentTime);
+
+  // timeupdate only fires ~4 times a second; follow the video with rAF while it plays
+  useEffect(() => {
+    setTime(currentTime);
+    if (!videoElement || videoElement.paused) return;
+
+    let frameId: number;
+    const tick = () => {
+      setTime(videoElement.currentTime);
+      frameId = requestAnimationFrame(tick);
+    };
+    frameId = requestAnimationFrame(tick);
+
+    return () => cancelAnimationFrame(frameId);
+  }, [videoElement, currentTime]);
+
+  const videoWidth = videoElement?.videoWidth || 0;
+  const videoHeight = videoElement?.videoHeight || 0;
+  const isNormalized = trajectory.coordinateSpace === 'normalized';
+  const width = isNormalized ? videoWidth : trajectory.width || videoWidth;
+  const height = isNormalized ? videoHeight : trajectory.height || videoHeight;
+
+  if (!width || !height) return null;
+
+  const scaleX = isNormalized ? width : 1;
+  const scaleY = isNormalized ? height : 1;
+  const trail = getShuttleWindow(trajectory, time - trailSeconds, time);
+
+  if (trail.length === 0) return null;
+
+  const head = trail[trail.length - 1];
+  const headIsCurrent = time - head.time <= 3 / trajectory.fps;
+
+  return (
+    <svg
+      className="absolute inset-0 w-full h-full pointer-events-none"
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="xMidYMid meet"
+    >
+      {trail.slice(1).map((point, index) => {
+        const previous = trail[index];
+        if (point.frame - previous.frame > MAX_FRAME_GAP) return null;
+
+        // Older segments fade out towards the tail of the trail
+        const age = (time - point.time) / trailSeconds;
+        const opacity = Math.max(0.1, 1 - age);
+
+        return (
+          <line
+            key={point.frame}
+            x1={(previous.x as number) * scaleX}
+            y1={(previous.y as number) * scaleY}
+            x2={(point.x as number) * scaleX}
+            y2={(point.y as number) * scaleY}
+            stroke="rgb(250, 204, 21)"
+            strokeWidth={Math.max(2, width / 400)}
+            strokeLinecap="round"
+            strokeOpacity={opacity}
+          />
+        );
+      })}
+      {headIsCurrent && (
+        <circle
+          cx={(head.x as number) * scaleX}
+          cy={(head.y as number) * scaleY}
+          r={Math.max(4, width / 200)}
+          fill="rgb(250, 204, 21)"
+          stroke="white"
+          strokeWidth={Math.max(1, width / 800)}
+        />
+      )}
+    </svg>
+  );
+}
@@ -0,0 +1,121 @@
+"use client";
+
+export interface TrendSeries {
+  id: string;
+  label: string;
+  color: string;
+  dashed?: boolean;
+  points: { time: number; value: number; label: string }[];
+}
+
+interface TrendChartProps {
+  title: string;
+  unit: string;
+  series: TrendSeries[];
+  maxValue?: number;
+}
+
+const WIDTH = 600;
+const HEIGHT = 240;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 44 };
+const Y_TICKS = 4;
+
+const formatDate = (time: number) =>
+  new Date(time).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+const formatValue = (value: number) =>
+  value >= 100 ? Math.round(value).toString() : value.toFixed(1);
+
+/**
+ * Lightweight SVG line chart for metrics over time (one point per video).
+ * Hovering a point shows the video and value.
+ */
+export function TrendChart({ title, unit, series, maxValue }: TrendChartProps) {
+  const allPoints = series.flatMap(s => s.points);
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+
+  const minTime = allPoints.reduce((min, p) => Math.min(min, p.time), Infinity);
+  const maxTime = allPoints.reduce((max, p) => Math.max(max, p.time), -Infinity);
+  const yMax = maxValue ?? (allPoints.reduce((max, p) => Math.max(max, p.value), 0) * 1.1 || 1);
+  const timeSpan = maxTime - minTime;
+
+  // A single date is drawn in the middle rather than on the axis
+  const toX = (time: number) => PADDING.left + (timeSpan > 0 ? ((time - minTime) / timeSpan) * plotWidth : plotWidth / 2);
+  const toY = (value: number) => PADDING.top + plotHeight - (value / yMax) * plotHeight;
+
+  const xTicks = timeSpan > 0
+    ? Array.from({ length: 5 }, (_, i) => minTime + (timeSpan * i) / 4)
+    : allPoints.length > 0 ? [minTime] : [];
+
+  return (
+    <div className="bg-[hsl(var(--tech-bg-secondary))] border border-[hsl(var(--tech-border))] rounded-lg p-4">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-semibold text-[hsl(var(--tech-text-primary))] uppercase tracking-wider">
+          {title}
+        </h3>
+        <span className="text-xs text-[hsl(var(--tech-text-secondary))]">{unit}</span>
+      </div>
+
+      {allPoints.length === 0 ? (
+        <div className="flex items-center justify-center h-48 text-sm text-[hsl(var(--tech-text-secondary))]">
+          No data in this range
+        </div>
+      ) : (
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+          {Array.from({ length: Y_TICKS + 1 }, (_, i) => {
+            const value = (yMax * i) / Y_TICKS;
+            const y = toY(value);
+            return (
+              <g key={i}>
+                <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y} y2={y} stroke="currentColor" className="text-[hsl(var(--tech-border))]" strokeWidth={1} />
+                <text x={PADDING.left - 6} y={y + 4} textAnchor="end" fontSize={11} fill="currentColor" className="text-[hsl(var(--tech-text-secondary))]">
+                  {formatValue(value)}
+                </text>
+              </g>
+            );
+          })}
+
+          {xTicks.map(time => (
+            <text key={time} x={toX(time)} y={HEIGHT - 8} textAnchor="middle" fontSize={11} fill="currentColor" className="text-[hsl(var(--tech-text-secondary))]">
+              {formatDate(time)}
+            </text>
+          ))}
+
+          {series.map(s => (
+            <g key={s.id}>
+              {s.points.length > 1 && (
+                <polyline
+                  points={s.points.map(p => `${toX(p.time)},${toY(p.value)}`).join(' ')}
+                  fill="none"
+                  stroke={s.color}
+                  strokeWidth={2}
+                  strokeDasharray={s.dashed ? '6 4' : undefined}
+                  strokeLinejoin="round"
+                />
+              )}
+              {s.points.map((p, i) => (
+                <circle key={i} cx={toX(p.time)} cy={toY(p.value)} r={4} fill={s.color} stroke="white" strokeWidth={1}>
+                  <title>{`${s.label} · ${p.label}: ${formatValue(p.value)} ${unit}`}</title>
+                </circle>
+              ))}
+            </g>
+          ))}
+        </svg>
+      )}
+
+      {series.length > 0 && allPoints.length > 0 && (
+        <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-xs text-[hsl(var(--tech-text-secondary))]">
+          {series.map(s => (
+            <span key={s.id} className="flex items-center gap-1.5">
+              <svg width="16" height="4" aria-hidden="true">
+                <line x1="0" x2="16" y1="2" y2="2" stroke={s.color} strokeWidth={2} strokeDasharray={s.dashed ? '4 2' : undefined} />
+              </svg>
+              {s.label}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
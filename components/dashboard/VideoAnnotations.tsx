@@ -0,0 +1,465 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { MessageSquare, Pencil, Trash2, Eye, EyeOff, Undo2, Reply, Loader2, ChevronDown } from "lucide-react";
+import toast from "react-hot-toast";
+import { AnnotationDrawing } from "@/lib/supabase/types";
+import {
+  ANNOTATION_COLORS,
+  AnnotationReply,
+  AnnotationThread,
+  DRAWING_DISPLAY_SECONDS,
+  MAX_ANNOTATION_BODY,
+} from "@/lib/annotations";
+
+interface VideoAnnotationsProps {
+  videoId?: string;
+  annotations: AnnotationThread[];
+  videoElement: HTMLVideoElement | null;
+  // Share page: list only, no composer, replies or edits
+  readOnly?: boolean;
+  onAnnotationsChange?: (annotations: AnnotationThread[]) => void;
+  // Profiles a reply can be written as, besides the coach
+  playerProfiles?: { id: string; name: string }[];
+  drawingDraft?: AnnotationDrawing | null;
+  drawingColor?: string;
+  onDrawingDraftChange?: (drawing: AnnotationDrawing | null) => void;
+  onDrawingColorChange?: (color: string) => void;
+}
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+const sortByTime = (threads: AnnotationThread[]) =>
+  [...threads].sort((a, b) => (a.time_seconds ?? 0) - (b.time_seconds ?? 0) || a.created_at.localeCompare(b.created_at));
+
+/**
+ * Coach annotations for a video: pin a comment, tags and/or a drawing to the
+ * current timestamp, reply in threads (as the coach or as a player profile),
+ * and choose which annotations appear on the share page. The drawing draft
+ * lives in the parent so VideoPlayer can capture strokes over the video.
+ */
+export function VideoAnnotations({
+  videoId,
+  annotations,
+  videoElement,
+  readOnly = false,
+  onAnnotationsChange,
+  playerProfiles = [],
+  drawingDraft,
+  drawingColor = ANNOTATION_COLORS[0],
+  onDrawingDraftChange,
+  onDrawingColorChange,
+}: VideoAnnotationsProps) {
+  const [body, setBody] = useState('');
+  const [tagInput, setTagInput] = useState('');
+  const [showOnShare, setShowOnShare] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState('');
+  const [replyAs, setReplyAs] = useState<string | null>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+
+  // Follow the video directly so the parent page doesn't re-render on every timeupdate
+  useEffect(() => {
+    if (!videoElement) return;
+
+    const update = () => setCurrentTime(videoElement.currentTime);
+    update();
+    videoElement.addEventListener('timeupdate', update);
+    videoElement.addEventListener('seeked', update);
+
+    return () => {
+      videoElement.removeEventListener('timeupdate', update);
+      videoElement.removeEventListener('seeked', update);
+    };
+  }, [videoElement]);
+
+  const seekTo = (time: number) => {
+    if (!videoElement) return;
+    videoElement.currentTime = time;
+    setCurrentTime(time);
+  };
+
+  const tags = tagInput.split(',').map(tag => tag.trim()).filter(Boolean);
+  const canSave = !saving && (body.trim().length > 0 || tags.length > 0 || (drawingDraft?.strokes.length ?? 0) > 0);
+
+  const handleCreate = async () => {
+    if (!videoId || !canSave) return;
+    setSaving(true);
+
+    try {
+      const response = await fetch('/api/annotations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          videoId,
+          timeSeconds: currentTime,
+          body,
+          tags,
+          drawing: drawingDraft?.strokes.length ? drawingDraft : null,
+          showOnShare,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to add annotation');
+      }
+
+      onAnnotationsChange?.(sortByTime([...annotations, data.annotation]));
+      setBody('');
+      setTagInput('');
+      onDrawingDraftChange?.(null);
+    } catch (error) {
+      console.error('Error creating annotation:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to add annotation');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReply = async (parentId: string) => {
+    if (!replyText.trim()) return;
+    setSaving(true);
+
+    try {
+      const response = await fetch('/api/annotations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ parentId, body: replyText, playerId: replyAs }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to add reply');
+      }
+
+      onAnnotationsChange?.(annotations.map(thread =>
+        thread.id === parentId ? { ...thread, replies: [...thread.replies, data.annotation as AnnotationReply] } : thread
+      ));
+      setReplyText('');
+      setReplyingTo(null);
+    } catch (error) {
+      console.error('Error creating reply:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to add reply');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleShare = async (thread: AnnotationThread) => {
+    try {
+      const response = await fetch(`/api/annotations/${thread.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ showOnShare: !thread.show_on_share }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to update annotation');
+      }
+
+      onAnnotationsChange?.(annotations.map(item =>
+        item.id === thread.id ? { ...item, show_on_share: !thread.show_on_share } : item
+      ));
+    } catch (error) {
+      console.error('Error updating annotation:', error);
+      toast.error('Failed to update annotation');
+    }
+  };
+
+  const handleDelete = async (annotationId: string, parentId: string | null) => {
+    if (!confirm(parentId ? 'Delete this reply?' : 'Delete this annotation and its replies?')) return;
+
+    try {
+      const response = await fetch(`/api/annotations/${annotationId}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        throw new Error('Failed to delete annotation');
+      }
+
+      onAnnotationsChange?.(parentId
+        ? annotations.map(thread =>
+          thread.id === parentId ? { ...thread, replies: thread.replies.filter(reply => reply.id !== annotationId) } : thread
+        )
+        : annotations.filter(thread => thread.id !== annotationId));
+    } catch (error) {
+      console.error('Error deleting annotation:', error);
+      toast.error('Failed to delete annotation');
+    }
+  };
+
+  const replyAsName = playerProfiles.find(profile => profile.id === replyAs)?.name ?? 'Coach';
+
+  return (
+    <div className="bg-[hsl(var(--tech-bg-tertiary))] rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-[hsl(var(--tech-text-primary))] flex items-center gap-2">
+          <MessageSquare className="h-4 w-4 text-[hsl(var(--tech-accent))]" />
+          {readOnly ? 'Coach Notes' : 'Annotations'}
+        </h3>
+        <span className="text-xs text-[hsl(var(--tech-text-secondary))]">{annotations.length}</span>
+      </div>
+
+      {/* Composer */}
+      {!readOnly && (
+        <div className="space-y-2 border-b border-[hsl(var(--tech-border))] pb-4">
+          <p className="text-xs text-[hsl(var(--tech-text-secondary))]">
+            Pinned at <span className="font-mono text-[hsl(var(--tech-text-primary))]">{formatTime(currentTime)}</span>
+          </p>
+          <textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            maxLength={MAX_ANNOTATION_BODY}
+            rows={2}
+            placeholder="Add a comment..."
+            className="w-full resize-none rounded-md border border-[hsl(var(--tech-border))] bg-[hsl(var(--tech-bg))] px-3 py-2 text-sm text-[hsl(var(--tech-text-primary))] placeholder:text-[hsl(var(--tech-text-secondary))] focus:outline-none focus:ring-1 focus:ring-[hsl(var(--tech-accent))]"
+          />
+          <Input
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            placeholder="Tags, comma separated (e.g. footwork, serve)"
+            className="h-8 text-sm bg-[hsl(var(--tech-bg))] border-[hsl(var(--tech-border))] text-[hsl(var(--tech-text-primary))]"
+          />
+
+          {drawingDraft ? (
+            <div className="flex items-center gap-2 flex-wrap">
+              {ANNOTATION_COLORS.map(color => (
+                <button
+                  key={color}
+                  type="button"
+                  onClick={() => onDrawingColorChange?.(color)}
+                  className={`h-5 w-5 rounded-full border-2 ${color === drawingColor ? 'border-[hsl(var(--tech-accent))]' : 'border-transparent'}`}
+                  style={{ backgroundColor: color }}
+                  title={`Draw in ${color}`}
+                />
+              ))}
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-xs"
+                disabled={drawingDraft.strokes.length === 0}
+                onClick={() => onDrawingDraftChange?.({ strokes: drawingDraft.strokes.slice(0, -1) })}
+              >
+                <Undo2 className="h-3 w-3 mr-1" />
+                Undo
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-xs"
+                onClick={() => onDrawingDraftChange?.(null)}
+              >
+                Discard drawing
+              </Button>
+              <span className="text-xs text-[hsl(var(--tech-text-secondary))]">Draw on the video frame</span>
+            </div>
+          ) : (
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => onDrawingDraftChange?.({ strokes: [] })}
+            >
+              <Pencil className="h-3 w-3 mr-1.5" />
+              Draw on frame
+            </Button>
+          )}
+
+          <div className="flex items-center justify-between gap-2">
+            <label className="flex items-center gap-2 text-xs text-[hsl(var(--tech-text-secondary))] cursor-pointer">
+              <Checkbox checked={showOnShare} onCheckedChange={(checked) => setShowOnShare(checked === true)} />
+              Show on share page
+            </label>
+            <Button
+              size="sm"
+              className="h-8 text-xs bg-[hsl(var(--tech-accent))] hover:bg-[hsl(var(--tech-accent-hover))] text-white"
+              disabled={!canSave}
+              onClick={handleCreate}
+            >
+              {saving && <Loader2 className="h-3 w-3 mr-1.5 animate-spin" />}
+              Add annotation
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Threads */}
+      {annotations.length === 0 ? (
+        <p className="text-xs text-[hsl(var(--tech-text-secondary))]">
+          {readOnly ? 'No coach notes on this video.' : 'No annotations yet. Pause on a moment and add a comment, tags or a drawing.'}
+        </p>
+      ) : (
+        <div className="space-y-3 max-h-[32rem] overflow-y-auto pr-1">
+          {annotations.map(thread => {
+            const time = thread.time_seconds ?? 0;
+            const isActive = currentTime >= time - 0.1 && currentTime <= time + DRAWING_DISPLAY_SECONDS;
+
+            return (
+              <div
+                key={thread.id}
+                className={`rounded-md border p-3 space-y-2 ${
+                  isActive ? 'border-green-400/60 bg-green-400/5' : 'border-[hsl(var(--tech-border))]'
+                }`}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <button
+                    type="button"
+                    onClick={() => seekTo(time)}
+                    className="font-mono text-xs text-green-400 hover:underline flex-shrink-0"
+                    title="Jump to this moment"
+                  >
+                    {formatTime(time)}
+                  </button>
+                  {!readOnly && (
+                    <div className="flex items-center gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0"
+                        onClick={() => handleToggleShare(thread)}
+                        title={thread.show_on_share ? 'Shown on share page (click to hide)' : 'Hidden from share page (click to show)'}
+                      >
+                        {thread.show_on_share ? <Eye className="h-3 w-3" /> : <EyeOff className="h-3 w-3 opacity-50" />}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0 hover:text-red-500"
+                        onClick={() => handleDelete(thread.id, null)}
+                        title="Delete annotation"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+
+                {thread.body && (
+                  <p className="text-sm text-[hsl(var(--tech-text-primary))] whitespace-pre-wrap break-words">{thread.body}</p>
+                )}
+                {(thread.tags.length > 0 || thread.drawing) && (
+                  <div className="flex items-center gap-1 flex-wrap">
+                    {thread.tags.map(tag => (
+                      <Badge key={tag} variant="outline" className="text-[10px] px-1.5 py-0">#{tag}</Badge>
+                    ))}
+                    {thread.drawing && (
+                      <span className="flex items-center gap-1 text-[10px] text-[hsl(var(--tech-text-secondary))]">
+                        <Pencil className="h-3 w-3" />
+                        Drawing
+                      </span>
+                    )}
+                  </div>
+                )}
+
+                {/* Replies */}
+                {thread.replies.length > 0 && (
+                  <div className="space-y-2 border-l-2 border-[hsl(var(--tech-border))] pl-3 ml-1">
+                    {thread.replies.map(reply => (
+                      <div key={reply.id} className="group/reply">
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="text-xs font-medium text-[hsl(var(--tech-text-primary))]">
+                            {reply.author_name ?? 'Coach'}
+                            <span className="ml-2 font-normal text-[hsl(var(--tech-text-secondary))]">
+                              {new Date(reply.created_at).toLocaleDateString()}
+                            </span>
+                          </span>
+                          {!readOnly && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-5 w-5 p-0 opacity-0 group-hover/reply:opacity-100 hover:text-red-500"
+                              onClick={() => handleDelete(reply.id, thread.id)}
+                              title="Delete reply"
+                            >
+                              <Trash2 className="h-3 w-3" />
+                            </Button>
+                          )}
+                        </div>
+                        <p className="text-xs text-[hsl(var(--tech-text-secondary))] whitespace-pre-wrap break-words">{reply.body}</p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {!readOnly && (replyingTo === thread.id ? (
+                  <div className="flex items-center gap-2">
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="outline" size="sm" className="h-8 px-2 text-xs flex-shrink-0" title="Reply as">
+                          {replyAsName}
+                          <ChevronDown className="h-3 w-3 ml-1" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent>
+                        <DropdownMenuItem onClick={() => setReplyAs(null)} className={replyAs === null ? 'bg-accent' : ''}>
+                          Coach
+                        </DropdownMenuItem>
+                        {playerProfiles.map(profile => (
+                          <DropdownMenuItem
+                            key={profile.id}
+                            onClick={() => setReplyAs(profile.id)}
+                            className={replyAs === profile.id ? 'bg-accent' : ''}
+                          >
+                            {profile.name}
+                          </DropdownMenuItem>
+                        ))}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                    <Input
+                      autoFocus
+                      value={replyText}
+                      onChange={(e) => setReplyText(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleReply(thread.id);
+                        if (e.key === 'Escape') setReplyingTo(null);
+                      }}
+                      maxLength={MAX_ANNOTATION_BODY}
+                      placeholder="Write a reply..."
+                      className="h-8 text-xs bg-[hsl(var(--tech-bg))] border-[hsl(var(--tech-border))] text-[hsl(var(--tech-text-primary))]"
+                    />
+                    <Button
+                      size="sm"
+                      className="h-8 text-xs bg-[hsl(var(--tech-accent))] hover:bg-[hsl(var(--tech-accent-hover))] text-white"
+                      disabled={saving || !replyText.trim()}
+                      onClick={() => handleReply(thread.id)}
+                    >
+                      Send
+                    </Button>
+                  </div>
+                ) : (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2 text-xs text-[hsl(var(--tech-text-secondary))]"
+                    onClick={() => {
+                      setReplyingTo(thread.id);
+                      setReplyText('');
+                    }}
+                  >
+                    <Reply className="h-3 w-3 mr-1" />
+                    Reply
+                  </Button>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
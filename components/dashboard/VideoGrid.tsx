@@ -16,6 +16,7 @@ interface Video {
   uploadedAt: string;
   userId: string;
   videoId: string;
+  thumbnailUrl: string; // Signed by /api/videos
   analysisStatus?: string;
   analysisState?: 'pending' | 'processing' | 'completed' | 'failed';
   analysisProgress?: number;
@@ -265,7 +266,7 @@ export function VideoGrid({ userId, refreshTrigger, onVideoDeleted }: VideoGridP
               <CardContent className="p-4">
                 <div className="relative h-32 bg-muted rounded mb-4 overflow-hidden group">
                   <Image
-                    src={`/api/thumbnail-stream?key=dev/${userId}/${video.videoId}/thumbnail&size=small`}
+                    src={video.thumbnailUrl}
                     alt={video.fileName}
                     fill
                     className="object-cover"
@@ -22,6 +22,7 @@
  * - ↑/↓: Volume control
  * - M: Mute toggle
  * - F: Fullscreen
+ * - N/P: Next/previous rally
  * 
  * 📍 Shot Markers System:
  * - Visual timeline markers for key analysis points
@@ -29,6 +30,19 @@
  * - Click-to-jump navigation
  * - Hover tooltips with marker details
  * - Integrates with analysis results from AI processing
+ * - Rally markers with an endTime render as segments; jump between rallies
+ *   and optionally skip the dead time between them during playback
+ * - Shot markers can be filtered by shot type and player from the header bar
+ * - Coach annotations are passed in as 'point' markers
+ * 
+ * ✏️ Annotation Drawings:
+ * - Drawings pinned to a timestamp show over the video for a few seconds
+ * - Pass a drawingDraft to capture new strokes (pauses playback)
+ * 
+ * 🏸 Shuttle Trajectory Overlay:
+ * - Draws the shuttle's recent trail over the video from shuttle.json
+ * - Follows playback frame-by-frame, including seeks and speed changes
+ * - Toggle on/off from the header bar
  * 
  * 🎨 Professional UI:
  * - Controls positioned below video (no overlay interference)
@@ -70,9 +84,13 @@
 
 import { useState, useRef, useEffect, useCallback } from "react";
 import { Button } from "@/components/ui/button";
-import { Download, Loader2, Play, Pause, SkipBack, SkipForward, Volume2, VolumeX, Maximize } from "lucide-react";
-import { getVideoUrl } from "@/lib/r2";
+import { Download, Loader2, Play, Pause, SkipBack, SkipForward, Volume2, VolumeX, Maximize, Spline, ChevronsRight } from "lucide-react";
+import { ShuttleTrajectory } from "@/lib/shuttle";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { ShuttleTrajectoryOverlay } from "@/components/dashboard/ShuttleTrajectoryOverlay";
+import { AnnotationDrawingOverlay } from "@/components/dashboard/AnnotationDrawingOverlay";
+import { AnnotationDrawing } from "@/lib/supabase/types";
+import { TimedDrawing, getActiveDrawings } from "@/lib/annotations";
 
 interface Video {
   key: string;
@@ -81,6 +99,7 @@ interface Video {
   uploadedAt: string;
   userId: string;
   videoId: string;
+  streamUrl?: string; // Signed stream URL from /api/videos
 }
 
 /**
@@ -92,12 +111,20 @@ interface Video {
  * @property {'shot' | 'rally' | 'point'} [type] - Marker type affecting color:
  *   - 'shot': Red markers for individual shots (serves, smashes, drops, etc.)
  *   - 'rally': Yellow markers for rally segments or exchanges
- *   - 'point': Green markers for scoring moments or game points
+ *   - 'point': Green markers for scoring moments, game points and coach annotations
+ * @property {number} [endTime] - End of the marked segment in seconds (rally markers)
+ * @property {string} [category] - Shot type for filtering (serve, smash, drop, etc.)
+ * @property {string} [playerId] - Player who hit the shot, for filtering
+ * @property {string} [playerName] - Display name for playerId in the filter menu
  */
 interface ShotMarker {
   time: number;
   label: string;
   type?: 'shot' | 'rally' | 'point';
+  endTime?: number;
+  category?: string;
+  playerId?: string;
+  playerName?: string;
 }
 
 /**
@@ -109,6 +136,11 @@ interface ShotMarker {
  * @property {function} [onVideoElementReady] - Callback with video HTML element reference
  * @property {ShotMarker[]} [shotMarkers] - Array of timeline markers for analysis points
  * @property {function} [onTimeUpdate] - Callback fired on video time updates for sync
+ * @property {ShuttleTrajectory} [shuttleTrajectory] - Normalized shuttle.json data for the trail overlay
+ * @property {TimedDrawing[]} [annotationDrawings] - Annotation drawings, each shown briefly from its timestamp
+ * @property {AnnotationDrawing} [drawingDraft] - Drawing being created; when set, the overlay captures strokes
+ * @property {string} [drawingColor] - Color for new strokes while drawing
+ * @property {function} [onDrawingDraftChange] - Called with the draft after each new stroke
  */
 interface VideoPlayerProps {
   video: Video;
@@ -119,9 +151,14 @@ interface VideoPlayerProps {
   shotMarkers?: ShotMarker[];
   onTimeUpdate?: (currentTime: number) => void;
   onProcessedVideoNotFound?: () => void;
+  shuttleTrajectory?: ShuttleTrajectory | null;
+  annotationDrawings?: TimedDrawing[];
+  drawingDraft?: AnnotationDrawing | null;
+  drawingColor?: string;
+  onDrawingDraftChange?: (drawing: AnnotationDrawing) => void;
 }
 
-export function VideoPlayer({ video, videoId, showProcessed = true, onDurationChange, onVideoElementReady, shotMarkers = [], onTimeUpdate, onProcessedVideoNotFound }: VideoPlayerProps) {
+export function VideoPlayer({ video, videoId, showProcessed = true, onDurationChange, onVideoElementReady, shotMarkers = [], onTimeUpdate, onProcessedVideoNotFound, shuttleTrajectory, annotationDrawings = [], drawingDraft, drawingColor, onDrawingDraftChange }: VideoPlayerProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [videoUrl, setVideoUrl] = useState<string>('');
@@ -142,11 +179,49 @@ export function VideoPlayer({ video, videoId, showProcessed = true, onDurationCh
   const [isDraggingTimeline, setIsDraggingTimeline] = useState(false);
   const [dragVolumePosition, setDragVolumePosition] = useState<number | null>(null);
   const [dragTimelinePosition, setDragTimelinePosition] = useState<number | null>(null);
+  const [videoElement, setVideoElement] = useState<HTMLVideoElement | null>(null);
+  const [showShuttleTrail, setShowShuttleTrail] = useState(true);
+  const [skipDeadTime, setSkipDeadTime] = useState(false);
+  const [shotTypeFilter, setShotTypeFilter] = useState<string | null>(null);
+  const [shotPlayerFilter, setShotPlayerFilter] = useState<string | null>(null);
+
+  // Shot filter options, built from whatever the markers carry
+  const shotCategories = Array.from(new Set(
+    shotMarkers.filter(marker => marker.type === 'shot' && marker.category).map(marker => marker.category as string)
+  ));
+  const shotPlayers = Array.from(new Map(
+    shotMarkers
+      .filter(marker => marker.type === 'shot' && marker.playerId)
+      .map(marker => [marker.playerId as string, marker.playerName || marker.playerId as string])
+  ).entries()).sort(([a], [b]) => a.localeCompare(b));
+
+  // Filters only apply to shot markers; rallies and points always show
+  const visibleMarkers = shotMarkers.filter(marker =>
+    marker.type !== 'shot' || (
+      (!shotTypeFilter || marker.category === shotTypeFilter) &&
+      (!shotPlayerFilter || marker.playerId === shotPlayerFilter)
+    )
+  );
+  const visibleShotCount = visibleMarkers.filter(marker => marker.type === 'shot').length;
+
+  // Rally segments, in playback order
+  const rallyMarkers = shotMarkers
+    .filter(marker => marker.type === 'rally' && marker.endTime !== undefined)
+    .sort((a, b) => a.time - b.time);
+  const currentRallyIndex = rallyMarkers.findIndex(
+    marker => currentTime >= marker.time && currentTime < (marker.endTime as number)
+  );
 
   useEffect(() => {
     loadVideo();
   }, [video, showProcessed]); // eslint-disable-line react-hooks/exhaustive-deps
 
+  // Drawing happens on a still frame
+  const isDrawing = !!drawingDraft;
+  useEffect(() => {
+    if (isDrawing) videoRef.current?.pause();
+  }, [isDrawing]);
+
   const loadVideo = async (attemptNumber = 0) => {
     setLoading(true);
     setLoadError(null);
@@ -162,7 +237,7 @@ export function VideoPlayer({ video, videoId, showProcessed = true, onDurationCh
             url = data.url;
           } else {
             // Fall back to original if processed doesn't exist
-            url = await getVideoUrl(video.key);
+            url = video.streamUrl;
             // Notify parent that processed video doesn't exist
             if (onProcessedVideoNotFound) {
               onProcessedVideoNotFound();
@@ -170,7 +245,7 @@ export function VideoPlayer({ video, videoId, showProcessed = true, onDurationCh
           }
         } else {
           // Failed to check for processed video, using original
-          url = await getVideoUrl(video.key);
+          url = video.streamUrl;
           // Notify parent that processed video doesn't exist
           if (onProcessedVideoNotFound) {
             onProcessedVideoNotFound();
@@ -178,7 +253,11 @@ export function VideoPlayer({ video, videoId, showProcessed = true, onDurationCh
         }
       } else {
         // Load original video
-        url = await getVideoUrl(video.key);
+        url = video.streamUrl;
+      }
+
+      if (!url) {
+        throw new Error('Video stream URL unavailable');
       }
 
       // Pre-flight check: verify the video URL is accessible
@@ -195,6 +274,8 @@ export function VideoPlayer({ video, videoId, showProcessed = true, onDurationCh
 
         const errorText = checkResponse.status === 404
           ? 'Video file not found in storage. It may still be uploading.'
+          : checkResponse.status === 403
+          ? 'Video link has expired. Please reload the page.'
           : `Video endpoint returned ${checkResponse.status}`;
         throw new Error(errorText);
       }
@@ -225,6 +306,7 @@ export function VideoPlayer({ video, videoId, showProcessed = true, onDurationCh
     if (videoRef.current) {
       const dur = videoRef.current.duration;
       setDuration(dur);
+      setVideoElement(videoRef.current);
       onDurationChange?.(dur);
       onVideoElementReady?.(videoRef.current);
     }
@@ -233,6 +315,19 @@ export function VideoPlayer({ video, videoId, showProcessed = true, onDurationCh
   const handleTimeUpdate = () => {
     if (videoRef.current) {
       const time = videoRef.current.currentTime;
+
+      // Skip dead time: jump from the gap between rallies to the next rally start
+      if (skipDeadTime && !videoRef.current.paused && rallyMarkers.length > 0) {
+        const inRally = rallyMarkers.some(marker => time >= marker.time && time < (marker.endTime as number));
+        const nextRally = rallyMarkers.find(marker => marker.time > time);
+        if (!inRally && nextRally) {
+          videoRef.current.currentTime = nextRally.time;
+          setCurrentTime(nextRally.time);
+          onTimeUpdate?.(nextRally.time);
+          return;
+        }
+      }
+
       setCurrentTime(time);
       onTimeUpdate?.(time);
     }
@@ -302,6 +397,23 @@ export function VideoPlayer({ video, videoId, showProcessed = true, onDurationCh
     seekTo(currentTime + seconds);
   }, [currentTime, seekTo]);
 
+  const jumpToRally = useCallback((forward: boolean) => {
+    if (rallyMarkers.length === 0) return;
+
+    let target: ShotMarker | undefined;
+    if (forward) {
+      target = rallyMarkers.find(marker => marker.time > currentTime + 0.1);
+    } else {
+      // Like a media player's "previous track": restart the current rally
+      // unless we're already near its start
+      target = [...rallyMarkers].reverse().find(marker => marker.time < currentTime - 1);
+    }
+
+    if (target) {
+      seekTo(target.time);
+    }
+  }, [rallyMarkers, currentTime, seekTo]);
+
   const frameStep = useCallback((forward: boolean = true) => {
     if (videoRef.current) {
       const frameRate = 30; // Assume 30fps, could be detected from video
@@ -390,6 +502,17 @@ export function VideoPlayer({ video, videoId, showProcessed = true, onDurationCh
   }, [isFullscreen]);
 
 
+  const getMarkerStyle = (marker: ShotMarker): React.CSSProperties => {
+    if (duration <= 0) return { left: '0%' };
+    const style: React.CSSProperties = { left: `${(marker.time / duration) * 100}%` };
+    // Segment markers (rallies) span their full duration
+    if (marker.endTime !== undefined) {
+      style.width = `${((marker.endTime - marker.time) / duration) * 100}%`;
+      style.opacity = 0.6;
+    }
+    return style;
+  };
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = Math.floor(seconds % 60);
@@ -452,12 +575,18 @@ export function VideoPlayer({ video, videoId, showProcessed = true, onDurationCh
         case 'l':
           seekRelative(10);
           break;
+        case 'n':
+          jumpToRally(true);
+          break;
+        case 'p':
+          jumpToRally(false);
+          break;
       }
     };
 
     document.addEventListener('keydown', handleKeyPress);
     return () => document.removeEventListener('keydown', handleKeyPress);
-  }, [togglePlay, volume, frameStep, seekRelative, toggleFullscreen, toggleMute, handleVolumeChange]);
+  }, [togglePlay, volume, frameStep, seekRelative, toggleFullscreen, toggleMute, handleVolumeChange, jumpToRally]);
 
   // Fullscreen change listener
   useEffect(() => {
@@ -583,6 +712,76 @@ export function VideoPlayer({ video, videoId, showProcessed = true, onDurationCh
           Analyzed Video
         </h3>
         <div className="flex gap-2">
+          {/* Shot Filters */}
+          {shotCategories.length > 0 && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="sm" className="h-7 text-xs capitalize" title="Filter shots by type">
+                  {shotTypeFilter ? `${shotTypeFilter}s` : 'All shots'} ({visibleShotCount})
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent>
+                <DropdownMenuItem
+                  onClick={() => setShotTypeFilter(null)}
+                  className={shotTypeFilter === null ? 'bg-accent' : ''}
+                >
+                  All shots
+                </DropdownMenuItem>
+                {shotCategories.map((category) => (
+                  <DropdownMenuItem
+                    key={category}
+                    onClick={() => setShotTypeFilter(category)}
+                    className={`capitalize ${shotTypeFilter === category ? 'bg-accent' : ''}`}
+                  >
+                    {category}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+
+          {shotPlayers.length > 0 && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="sm" className="h-7 text-xs" title="Filter shots by player">
+                  {shotPlayerFilter
+                    ? shotPlayers.find(([playerId]) => playerId === shotPlayerFilter)?.[1] || shotPlayerFilter
+                    : 'All players'}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent>
+                <DropdownMenuItem
+                  onClick={() => setShotPlayerFilter(null)}
+                  className={shotPlayerFilter === null ? 'bg-accent' : ''}
+                >
+                  All players
+                </DropdownMenuItem>
+                {shotPlayers.map(([playerId, playerName]) => (
+                  <DropdownMenuItem
+                    key={playerId}
+                    onClick={() => setShotPlayerFilter(playerId)}
+                    className={shotPlayerFilter === playerId ? 'bg-accent' : ''}
+                  >
+                    {playerName}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+
+          {shuttleTrajectory && shuttleTrajectory.visibleCount > 0 && (
+            <Button
+              onClick={() => setShowShuttleTrail(!showShuttleTrail)}
+              variant={showShuttleTrail ? "secondary" : "ghost"}
+              size="sm"
+              className="h-7 text-xs"
+              title="Toggle shuttle trajectory overlay"
+            >
+              <Spline className="h-3 w-3 mr-1.5" />
+              Shuttle Trail
+            </Button>
+          )}
+
           {/* Keyboard Shortcuts Help */}
           <div className="group relative">
             <Button
@@ -604,6 +803,7 @@ export function VideoPlayer({ video, videoId, showProcessed = true, onDurationCh
                   <span><kbd className="bg-muted px-1 rounded text-xs">↑/↓</kbd> Volume</span>
                   <span><kbd className="bg-muted px-1 rounded text-xs">M</kbd> Mute</span>
                   <span><kbd className="bg-muted px-1 rounded text-xs">F</kbd> Fullscreen</span>
+                  <span><kbd className="bg-muted px-1 rounded text-xs">N/P</kbd> Next/prev rally</span>
                 </div>
               </div>
               {/* Arrow pointing down */}
@@ -692,6 +892,27 @@ export function VideoPlayer({ video, videoId, showProcessed = true, onDurationCh
                   }
                 }}
               />
+
+              {/* Shuttle Trajectory Overlay */}
+              {shuttleTrajectory && showShuttleTrail && (
+                <ShuttleTrajectoryOverlay
+                  trajectory={shuttleTrajectory}
+                  videoElement={videoElement}
+                  currentTime={currentTime}
+                />
+              )}
+
+              {/* Annotation Drawings (and the draft being drawn) */}
+              <AnnotationDrawingOverlay
+                videoElement={videoElement}
+                drawings={drawingDraft
+                  ? [drawingDraft]
+                  : getActiveDrawings(annotationDrawings, currentTime).map(({ drawing }) => drawing)}
+                drawColor={drawingDraft ? drawingColor || '#ef4444' : null}
+                onStrokeComplete={(stroke) => {
+                  if (drawingDraft) onDrawingDraftChange?.({ strokes: [...drawingDraft.strokes, stroke] });
+                }}
+              />
               
               {/* Shot Markers System
                   * Renders visual markers on the video timeline for key analysis points
@@ -717,17 +938,16 @@ export function VideoPlayer({ video, videoId, showProcessed = true, onDurationCh
                   *   { time: 89, label: "Point Won", type: "point" }
                   * ]}
                   */}
-              {shotMarkers.length > 0 && (
+              {visibleMarkers.length > 0 && (
                 <div className="absolute top-0 left-0 right-0 h-2 bg-[hsl(var(--tech-border))]">
-                  {shotMarkers.map((marker, index) => {
-                    const position = (marker.time / duration) * 100;
+                  {visibleMarkers.map((marker, index) => {
                     const markerColor = marker.type === 'shot' ? 'bg-red-400' : 
                                       marker.type === 'rally' ? 'bg-yellow-400' : 'bg-green-400';
                     return (
                       <div
                         key={index}
                         className={`absolute top-0 w-1 h-full ${markerColor} cursor-pointer hover:w-2 transition-all shadow-sm`}
-                        style={{ left: `${position}%` }}
+                        style={getMarkerStyle(marker)}
                         onClick={(e) => {
                           e.stopPropagation();
                           seekTo(marker.time);
@@ -740,7 +960,7 @@ export function VideoPlayer({ video, videoId, showProcessed = true, onDurationCh
               )}
 
               {/* Center Play Button Overlay */}
-              {!isPlaying && (
+              {!isPlaying && !isDrawing && (
                 <div className="absolute inset-0 flex items-center justify-center">
                   <Button
                     size="lg"
@@ -781,15 +1001,14 @@ export function VideoPlayer({ video, videoId, showProcessed = true, onDurationCh
                           }}
                         />
                         {/* Shot markers in fullscreen */}
-                        {shotMarkers.map((marker, index) => {
-                          const position = duration > 0 ? (marker.time / duration) * 100 : 0;
+                        {visibleMarkers.map((marker, index) => {
                           const markerColor = marker.type === 'shot' ? 'bg-red-400' : 
                                             marker.type === 'rally' ? 'bg-yellow-400' : 'bg-green-400';
                           return (
                             <div
                               key={index}
                               className={`absolute top-0 w-1 h-full ${markerColor} cursor-pointer hover:w-2 transition-all shadow-sm z-10`}
-                              style={{ left: `${position}%` }}
+                              style={getMarkerStyle(marker)}
                               onClick={(e) => {
                                 e.stopPropagation();
                                 seekTo(marker.time);
@@ -997,15 +1216,14 @@ export function VideoPlayer({ video, videoId, showProcessed = true, onDurationCh
                 }}
               />
               {/* Shot markers on timeline */}
-              {shotMarkers.map((marker, index) => {
-                const position = duration > 0 ? (marker.time / duration) * 100 : 0;
+              {visibleMarkers.map((marker, index) => {
                 const markerColor = marker.type === 'shot' ? 'bg-red-400' :
                                   marker.type === 'rally' ? 'bg-yellow-400' : 'bg-green-400';
                 return (
                   <div
                     key={index}
                     className={`absolute top-0 w-1 h-full ${markerColor} cursor-pointer hover:w-2 transition-all shadow-sm z-10`}
-                    style={{ left: `${position}%` }}
+                    style={getMarkerStyle(marker)}
                     onClick={(e) => {
                       e.stopPropagation();
                       seekTo(marker.time);
@@ -1061,6 +1279,42 @@ export function VideoPlayer({ video, videoId, showProcessed = true, onDurationCh
                 <SkipForward className="h-3.5 w-3.5" />
               </Button>
 
+              {/* Rally Navigation */}
+              {rallyMarkers.length > 0 && (
+                <div className="flex items-center gap-0.5 ml-1 border border-[hsl(var(--tech-border))]/50 rounded-md bg-[hsl(var(--tech-bg))]/50">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 rounded-none text-xs"
+                    onClick={() => jumpToRally(false)}
+                    title="Previous rally (P)"
+                  >
+                    ←
+                  </Button>
+                  <span className="text-[10px] px-1.5 text-[hsl(var(--tech-text-secondary))] font-medium">
+                    Rally {currentRallyIndex >= 0 ? `${currentRallyIndex + 1}/${rallyMarkers.length}` : `–/${rallyMarkers.length}`}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 rounded-none text-xs"
+                    onClick={() => jumpToRally(true)}
+                    title="Next rally (N)"
+                  >
+                    →
+                  </Button>
+                  <Button
+                    variant={skipDeadTime ? "secondary" : "ghost"}
+                    size="sm"
+                    className="h-7 px-2 rounded-none text-xs"
+                    onClick={() => setSkipDeadTime(!skipDeadTime)}
+                    title="Skip dead time between rallies"
+                  >
+                    <ChevronsRight className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              )}
+
               {/* Frame Step Controls */}
               <div className="flex items-center gap-0.5 ml-1 border border-[hsl(var(--tech-border))]/50 rounded-md bg-[hsl(var(--tech-bg))]/50">
                 <Button
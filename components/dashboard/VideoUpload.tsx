@@ -1,13 +1,14 @@
 "use client";
 
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, useCallback } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Upload, FileVideo, Loader2, X } from "lucide-react";
 import toast from "react-hot-toast";
 import { generateThumbnailFromFile } from "@/lib/thumbnail";
-import { VideoUploadManager, UploadProgress } from "@/lib/upload-manager";
+import { VideoUploadManager, UploadProgress, discardSavedUpload } from "@/lib/upload-manager";
+import { listUploads, SavedUpload } from "@/lib/upload-store";
 
 interface VideoUploadProps {
   userId: string;
@@ -24,8 +25,33 @@ export function VideoUpload({ userId, onVideoUploaded, userSubscription }: Video
   const [dragActive, setDragActive] = useState(false);
   const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
   const [currentFileName, setCurrentFileName] = useState<string>("");
+  const [savedUploads, setSavedUploads] = useState<SavedUpload[]>([]);
   const uploadManagerRef = useRef<VideoUploadManager | null>(null);
 
+  // Unfinished uploads from an earlier visit, resumed by picking the same file
+  const refreshSavedUploads = useCallback(async () => {
+    setSavedUploads(await listUploads(userId));
+  }, [userId]);
+
+  useEffect(() => {
+    refreshSavedUploads();
+  }, [refreshSavedUploads]);
+
+  const handleDiscardSavedUpload = async (upload: SavedUpload) => {
+    try {
+      await discardSavedUpload(upload);
+      toast.success(`Discarded unfinished upload of ${upload.fileName}`);
+    } catch (error) {
+      console.error('Failed to discard upload:', error);
+      toast.error('Failed to discard upload');
+    } finally {
+      refreshSavedUploads();
+    }
+  };
+
+  const savedPercentage = (upload: SavedUpload): number =>
+    Math.min(100, Math.round((upload.parts.length * upload.partSize / upload.fileSize) * 100));
+
   const formatBytes = (bytes: number): string => {
     if (bytes === 0) return '0 B';
     const k = 1024;
@@ -103,14 +129,20 @@ export function VideoUpload({ userId, onVideoUploaded, userSubscription }: Video
       await uploadManager.initialize();
 
       // Start upload with progress tracking
-      toast.loading(`Uploading ${file.name}...`, { id: uploadToast });
+      const resumedBytes = uploadManager.getResumedBytes();
+      toast.loading(
+        resumedBytes > 0
+          ? `Resuming ${file.name} from ${Math.round((resumedBytes / file.size) * 100)}%...`
+          : `Uploading ${file.name}...`,
+        { id: uploadToast }
+      );
 
       await uploadManager.upload({
         onProgress: (progress) => {
           setUploadProgress(progress);
         },
         onError: (error) => {
-          console.error('Upload error:', error);
+          console.warn('Retrying upload part:', error.message);
         },
       });
 
@@ -144,12 +176,17 @@ export function VideoUpload({ userId, onVideoUploaded, userSubscription }: Video
         }
       }
 
+      if (uploadManagerRef.current?.isResumable()) {
+        errorMessage = `${errorMessage} Select the same file again to resume where it stopped.`;
+      }
+
       toast.error(errorMessage, { id: uploadToast, duration: 5000 });
     } finally {
       setIsUploading(false);
       setUploadProgress(null);
       setCurrentFileName("");
       uploadManagerRef.current = null;
+      refreshSavedUploads();
     }
   };
 
@@ -202,6 +239,31 @@ export function VideoUpload({ userId, onVideoUploaded, userSubscription }: Video
         </CardDescription>
       </CardHeader>
       <CardContent>
+        {!isUploading && savedUploads.length > 0 && (
+          <div className="mb-4 space-y-2">
+            {savedUploads.map(upload => (
+              <div
+                key={upload.id}
+                className="flex items-center justify-between gap-4 rounded-lg border bg-muted/50 p-3 text-sm"
+              >
+                <div className="min-w-0">
+                  <p className="truncate font-medium">{upload.fileName}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Unfinished upload, {savedPercentage(upload)}% of {formatBytes(upload.fileSize)} sent. Select the same file to resume.
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDiscardSavedUpload(upload)}
+                >
+                  <X className="h-4 w-4 mr-2" />
+                  Discard
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
         <div
           className={`border-2 border-dashed rounded-lg p-8 text-center transition-colors ${
             dragActive 
@@ -234,7 +296,8 @@ export function VideoUpload({ userId, onVideoUploaded, userSubscription }: Video
 
                   {uploadProgress.totalParts && (
                     <div className="text-xs text-muted-foreground text-center">
-                      Part {uploadProgress.currentPart} of {uploadProgress.totalParts}
+                      {uploadProgress.completedParts} of {uploadProgress.totalParts} parts
+                      {!!uploadProgress.activeParts && ` · ${uploadProgress.activeParts} uploading`}
                     </div>
                   )}
                 </div>
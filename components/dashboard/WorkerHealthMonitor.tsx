@@ -49,7 +49,6 @@ export function WorkerHealthMonitor({
     try {
       const params = new URLSearchParams({
         runpodJobId,
-        userId,
         videoId,
       });
 
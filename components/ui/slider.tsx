@@ -8,21 +8,31 @@ import { cn } from "@/lib/utils";
 const Slider = React.forwardRef<
   React.ElementRef<typeof SliderPrimitive.Root>,
   React.ComponentPropsWithoutRef<typeof SliderPrimitive.Root>
->(({ className, ...props }, ref) => (
-  <SliderPrimitive.Root
-    ref={ref}
-    className={cn(
-      "relative flex w-full touch-none select-none items-center",
-      className
-    )}
-    {...props}
-  >
-    <SliderPrimitive.Track className="relative h-2 w-full grow overflow-hidden rounded-full bg-white/20 border border-white/10">
-      <SliderPrimitive.Range className="absolute h-full bg-[hsl(var(--tech-accent))] shadow-sm" />
-    </SliderPrimitive.Track>
-    <SliderPrimitive.Thumb className="block h-5 w-5 rounded-full border-2 border-[hsl(var(--tech-accent))] bg-white shadow-lg transition-all focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-[hsl(var(--tech-accent))] focus-visible:ring-offset-2 disabled:pointer-events-none disabled:opacity-50 hover:scale-110" />
-  </SliderPrimitive.Root>
-));
+>(({ className, ...props }, ref) => {
+  // One thumb per value, so passing [start, end] gives a range slider
+  const thumbCount = (props.value ?? props.defaultValue ?? [0]).length;
+
+  return (
+    <SliderPrimitive.Root
+      ref={ref}
+      className={cn(
+        "relative flex w-full touch-none select-none items-center",
+        className
+      )}
+      {...props}
+    >
+      <SliderPrimitive.Track className="relative h-2 w-full grow overflow-hidden rounded-full bg-white/20 border border-white/10">
+        <SliderPrimitive.Range className="absolute h-full bg-[hsl(var(--tech-accent))] shadow-sm" />
+      </SliderPrimitive.Track>
+      {Array.from({ length: thumbCount }, (_, index) => (
+        <SliderPrimitive.Thumb
+          key={index}
+          className="block h-5 w-5 rounded-full border-2 border-[hsl(var(--tech-accent))] bg-white shadow-lg transition-all focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-[hsl(var(--tech-accent))] focus-visible:ring-offset-2 disabled:pointer-events-none disabled:opacity-50 hover:scale-110"
+        />
+      ))}
+    </SliderPrimitive.Root>
+  );
+});
 Slider.displayName = SliderPrimitive.Root.displayName;
 
-export { Slider };
\ No newline at end of file
+export { Slider };
@@ -217,8 +217,8 @@ export function createUnauthorizedResponse() {
   });
 }
 
-export function createForbiddenResponse() {
-  return new Response(JSON.stringify({ error: 'Forbidden - Admin access required' }), {
+export function createForbiddenResponse(message = 'Forbidden - Admin access required') {
+  return new Response(JSON.stringify({ error: message }), {
     status: 403,
     headers: { 'Content-Type': 'application/json' }
   });
@@ -0,0 +1,256 @@
+import { createClient } from '@/lib/supabase/server';
+import { getOptionalAnalysisFileContent } from '@/lib/r2';
+import { parsePositionAnalysis } from '@/lib/player-metrics';
+import { normalizePositionData } from '@/lib/positions';
+import { defaultPlayerName, getLinkedProfileNames } from '@/lib/reports';
+import { XlsxCell } from '@/lib/xlsx';
+
+/**
+ * Tabular exports of analysis data for spreadsheets.
+ *
+ * Two datasets are available: `metrics` flattens each player's nested
+ * section of position_analysis.json into one row per player per video, and
+ * `positions` lists every court position in corrected_positions.json as one
+ * row per player per frame.
+ */
+
+export type ExportDataset = 'metrics' | 'positions';
+
+export const EXPORT_DATASETS: ExportDataset[] = ['metrics', 'positions'];
+
+// Same cap as range reports; position exports for a batch get large quickly
+export const MAX_EXPORT_VIDEOS = 25;
+
+export interface ExportVideo {
+  videoId: string;
+  fileName: string;
+  playerName: (trackedPlayerId: string) => string;
+}
+
+export interface ExportTable {
+  name: string;
+  columns: string[];
+  rows: XlsxCell[][];
+}
+
+const METRIC_ID_COLUMNS = ['video_id', 'file_name', 'tracked_player_id', 'player_name'];
+const POSITION_COLUMNS = ['video_id', 'file_name', 'frame', 'time_s', 'tracked_player_id', 'player_name', 'court_x_m', 'court_y_m'];
+
+/**
+ * Look up the requested videos (skipping any the user doesn't own or has
+ * deleted) along with a player name lookup for each: linked profile, then
+ * player_names.json, then "Player N"
+ */
+export async function getExportVideos(userId: string, videoIds: string[]): Promise<ExportVideo[]> {
+  const supabase = await createClient();
+  const { data: rows, error } = await supabase
+    .from('videos')
+    .select('video_id, display_filename')
+    .eq('user_id', userId)
+    .in('video_id', videoIds)
+    .is('deleted_at', null);
+  if (error) throw error;
+
+  const linkedNames = await getLinkedProfileNames(userId, (rows || []).map(row => row.video_id));
+
+  const videos = await Promise.all((rows || []).map(async (row): Promise<ExportVideo> => {
+    const namesContent = await getOptionalAnalysisFileContent(userId, row.video_id, 'player_names.json');
+    let playerNames: Record<string, string> = {};
+    if (namesContent) {
+      try {
+        playerNames = JSON.parse(namesContent);
+      } catch (error) {
+        // A corrupt names file just falls back to profile or default names
+        console.warn(`Skipping unreadable player_names.json for ${row.video_id}:`, error);
+      }
+    }
+    const profileNames = linkedNames.get(row.video_id) ?? new Map<string, string>();
+
+    return {
+      videoId: row.video_id,
+      fileName: row.display_filename,
+      playerName: (trackedPlayerId) =>
+        profileNames.get(trackedPlayerId) || playerNames[trackedPlayerId] || defaultPlayerName(trackedPlayerId),
+    };
+  }));
+
+  // Keep the order the videos were requested in
+  return videos.sort((a, b) => videoIds.indexOf(a.videoId) - videoIds.indexOf(b.videoId));
+}
+
+/**
+ * Flatten nested objects into dot-separated columns. Lists of numbers or
+ * strings are joined with "; "; lists of objects (per-frame series) are
+ * left out since they don't fit in a single cell.
+ */
+function flattenMetrics(value: unknown, prefix: string, out: Map<string, XlsxCell>): void {
+  if (value === null || value === undefined) {
+    if (prefix) out.set(prefix, null);
+    return;
+  }
+  if (Array.isArray(value)) {
+    if (value.every(item => item === null || typeof item !== 'object')) {
+      out.set(prefix, value.map(item => item ?? '').join('; '));
+    }
+    return;
+  }
+  if (typeof value === 'object') {
+    for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+      flattenMetrics(child, prefix ? `${prefix}.${key}` : key, out);
+    }
+    return;
+  }
+  if (typeof value === 'boolean') {
+    out.set(prefix, value ? 'true' : 'false');
+  } else {
+    out.set(prefix, value as string | number);
+  }
+}
+
+/**
+ * One row per player per video with every metric in position_analysis.json.
+ * Columns are the union across all videos, in first-seen order. Videos
+ * without position_analysis.json are skipped.
+ */
+export async function buildMetricsTable(userId: string, videos: ExportVideo[]): Promise<ExportTable> {
+  const contents = await Promise.all(videos.map(video =>
+    getOptionalAnalysisFileContent(userId, video.videoId, 'position_analysis.json')
+  ));
+
+  const columns: string[] = [];
+  const seen = new Set<string>();
+  const records: { video: ExportVideo; trackedPlayerId: string; values: Map<string, XlsxCell> }[] = [];
+
+  videos.forEach((video, index) => {
+    const content = contents[index];
+    if (!content) return;
+
+    const analysis = parsePositionAnalysis(content);
+    const players = (analysis.players || {}) as Record<string, unknown>;
+
+    for (const [trackedPlayerId, data] of Object.entries(players)) {
+      const values = new Map<string, XlsxCell>();
+      flattenMetrics(data, '', values);
+      for (const column of values.keys()) {
+        if (!seen.has(column)) {
+          seen.add(column);
+          columns.push(column);
+        }
+      }
+      records.push({ video, trackedPlayerId, values });
+    }
+  });
+
+  return {
+    name: 'Player Metrics',
+    columns: [...METRIC_ID_COLUMNS, ...columns],
+    rows: records.map(({ video, trackedPlayerId, values }) => [
+      video.videoId,
+      video.fileName,
+      trackedPlayerId,
+      video.playerName(trackedPlayerId),
+      ...columns.map(column => values.get(column) ?? null),
+    ]),
+  };
+}
+
+/**
+ * Frame-level court positions for one video, or null if
+ * corrected_positions.json doesn't exist yet. Stops once there are more than
+ * `maxRows` rows, so a caller with a cap can tell it was exceeded.
+ */
+export async function buildPositionRows(
+  userId: string,
+  video: ExportVideo,
+  maxRows = Infinity
+): Promise<XlsxCell[][] | null> {
+  const content = await getOptionalAnalysisFileContent(userId, video.videoId, 'corrected_positions.json');
+  if (!content) return null;
+
+  const track = normalizePositionData(JSON.parse(content));
+  const rows: XlsxCell[][] = [];
+
+  for (const frame of track.frames) {
+    for (const player of frame.players) {
+      rows.push([
+        video.videoId,
+        video.fileName,
+        frame.frame,
+        Math.round(frame.time * 1000) / 1000,
+        player.playerId,
+        video.playerName(player.playerId),
+        Math.round(player.x * 1000) / 1000,
+        Math.round(player.y * 1000) / 1000,
+      ]);
+      if (rows.length > maxRows) return rows;
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Frame-level court positions for every video, in one table, or null as soon
+ * as it would have more than `maxRows` rows
+ */
+export async function buildPositionsTable(
+  userId: string,
+  videos: ExportVideo[],
+  maxRows = Infinity
+): Promise<ExportTable | null> {
+  const rows: XlsxCell[][] = [];
+
+  // One video at a time so only one corrected_positions.json is parsed at once
+  for (const video of videos) {
+    const videoRows = await buildPositionRows(userId, video, maxRows - rows.length);
+    if (!videoRows) continue;
+    if (rows.length + videoRows.length > maxRows) return null;
+    // Not push(...videoRows): a long video has more rows than a call takes arguments
+    for (const row of videoRows) rows.push(row);
+  }
+
+  return { name: 'Positions', columns: POSITION_COLUMNS, rows };
+}
+
+function csvValue(value: XlsxCell): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : '';
+
+  // Stop spreadsheet apps treating names like "=cmd" as formulas
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format rows as CSV lines (CRLF-terminated, RFC 4180 quoting)
+ */
+export function toCsvRows(rows: XlsxCell[][]): string {
+  return rows.map(row => row.map(csvValue).join(',') + '\r\n').join('');
+}
+
+/**
+ * A whole table as CSV, header first
+ */
+export function toCsv(table: ExportTable): string {
+  return toCsvRows([table.columns, ...table.rows]);
+}
+
+/**
+ * Stream the positions CSV one video at a time, so a batch export never
+ * holds more than one video's positions in memory. The header is sent with
+ * the first video that has position data; nothing is yielded if none do.
+ */
+export async function* streamPositionsCsv(userId: string, videos: ExportVideo[]): AsyncGenerator<string> {
+  let headerSent = false;
+
+  for (const video of videos) {
+    const rows = await buildPositionRows(userId, video);
+    if (!rows) continue;
+
+    if (!headerSent) {
+      headerSent = true;
+      yield toCsvRows([POSITION_COLUMNS]);
+    }
+    yield toCsvRows(rows);
+  }
+}
@@ -1,12 +1,14 @@
 /**
  * Analysis Progress Tracking with SSE and Polling Fallback
- * Connects to Server-Sent Events for real-time progress updates from RunPod webhooks
- * Falls back to polling if SSE connection fails
+ * Connects to Server-Sent Events for real-time progress updates from RunPod webhooks,
+ * reconnecting (and resuming from the last event) when the connection drops
+ * Falls back to polling if SSE can't be re-established
  */
 
 export interface ProgressUpdate {
+  id?: number; // SSE event ID (not set by polling)
   step?: string;
-  status: 'queued' | 'running' | 'completed' | 'failed';
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
   progress?: number;
   stage?: string;
   error?: string;
@@ -15,6 +17,10 @@ export interface ProgressUpdate {
 
 export type ProgressCallback = (update: ProgressUpdate) => void;
 
+// Tries per submission; network errors and 5xx responses are sent again
+const SUBMIT_ATTEMPTS = 3;
+const SUBMIT_RETRY_DELAY_MS = 1000;
+
 /**
  * Start analysis job and track progress via SSE with polling fallback
  */
@@ -40,7 +46,7 @@ export async function trackAnalysisProgress(
       await trackViaSSE(jobId, onProgress, timeout);
       return; // SSE succeeded
     } catch (error) {
-      console.warn(`⚠️ SSE failed, falling back to polling:`, error);
+      console.warn(`⚠️ SSE unavailable, falling back to polling:`, error);
     }
   }
 
@@ -49,8 +55,19 @@ export async function trackAnalysisProgress(
   await trackViaPolling(jobId, onProgress, pollingInterval, timeout);
 }
 
+// SSE reconnect backoff: 1s, 2s, 4s ... capped at 30s
+const SSE_RECONNECT_BASE_MS = 1000;
+const SSE_RECONNECT_MAX_MS = 30000;
+// Consecutive failed connections before handing over to polling
+const SSE_MAX_RECONNECTS = 8;
+
 /**
- * Track progress via Server-Sent Events
+ * Track progress via Server-Sent Events.
+ *
+ * Dropped connections are reopened with exponential backoff, passing the last
+ * event ID so the server replays anything missed. Only rejects (so the caller
+ * falls back to polling) if the stream can't be reopened SSE_MAX_RECONNECTS
+ * times in a row, or on timeout.
  */
 async function trackViaSSE(
   jobId: string,
@@ -58,43 +75,87 @@ async function trackViaSSE(
   timeout: number
 ): Promise<void> {
   return new Promise((resolve, reject) => {
-    const eventSource = new EventSource(`/api/events/${jobId}`);
+    let eventSource: EventSource | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let lastEventId: string | null = null;
+    let failures = 0;
+    let finished = false;
+
+    const finish = (error?: unknown) => {
+      finished = true;
+      clearTimeout(timeoutId);
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      eventSource?.close();
+      if (error) {
+        reject(error);
+      } else {
+        resolve();
+      }
+    };
 
     // Set timeout
     const timeoutId = setTimeout(() => {
-      eventSource.close();
-      reject(new Error('SSE connection timed out'));
+      finish(new Error('SSE connection timed out'));
     }, timeout);
 
-    eventSource.onmessage = (event) => {
-      try {
-        const data = JSON.parse(event.data);
+    const connect = () => {
+      const url = lastEventId
+        ? `/api/events/${jobId}?lastEventId=${encodeURIComponent(lastEventId)}`
+        : `/api/events/${jobId}`;
+      eventSource = new EventSource(url);
 
-        // Ignore connection messages
-        if (data.type === 'connected') {
-          console.log(`📡 SSE connected for job ${jobId}`);
-          return;
+      eventSource.onmessage = (event) => {
+        try {
+          const data = JSON.parse(event.data);
+
+          // Ignore connection messages
+          if (data.type === 'connected') {
+            console.log(`📡 SSE connected for job ${jobId}`);
+            failures = 0;
+            return;
+          }
+
+          // The server couldn't load the job's updates; it closes the stream
+          // and onerror reconnects with backoff
+          if (data.type === 'error') {
+            console.warn(`⚠️ SSE error for job ${jobId}: ${data.error}`);
+            return;
+          }
+
+          if (event.lastEventId) {
+            lastEventId = event.lastEventId;
+          }
+
+          // Call progress callback
+          onProgress(data);
+
+          // Close on completion, failure or cancellation
+          if (data.status === 'completed' || data.status === 'failed' || data.status === 'cancelled') {
+            finish();
+          }
+        } catch (error) {
+          console.error('Error parsing SSE message:', error);
         }
+      };
 
-        // Call progress callback
-        onProgress(data);
+      eventSource.onerror = () => {
+        // Reconnect ourselves rather than leave it to EventSource, to control the backoff
+        eventSource?.close();
+        if (finished) return;
 
-        // Close on completion or failure
-        if (data.status === 'completed' || data.status === 'failed') {
-          clearTimeout(timeoutId);
-          eventSource.close();
-          resolve();
+        failures++;
+        if (failures > SSE_MAX_RECONNECTS) {
+          finish(new Error(`SSE connection lost after ${SSE_MAX_RECONNECTS} reconnect attempts`));
+          return;
         }
-      } catch (error) {
-        console.error('Error parsing SSE message:', error);
-      }
-    };
 
-    eventSource.onerror = (error) => {
-      clearTimeout(timeoutId);
-      eventSource.close();
-      reject(error);
+        const delay = Math.min(SSE_RECONNECT_BASE_MS * Math.pow(2, failures - 1), SSE_RECONNECT_MAX_MS);
+        console.warn(`⚠️ SSE connection lost for job ${jobId}, reconnecting in ${delay}ms (${failures}/${SSE_MAX_RECONNECTS})`);
+        reconnectTimer = setTimeout(connect, delay);
+      };
     };
+
+    connect();
   });
 }
 
@@ -135,8 +196,8 @@ async function trackViaPolling(
         results: data.output
       });
 
-      // Stop polling on completion or failure
-      if (data.status === 'completed' || data.status === 'failed') {
+      // Stop polling on completion, failure or cancellation
+      if (data.status === 'completed' || data.status === 'failed' || data.status === 'cancelled') {
         return;
       }
 
@@ -150,6 +211,44 @@ async function trackViaPolling(
   }
 }
 
+/**
+ * Queue an analysis with POST /api/analysis. Create `idempotencyKey` once per
+ * user action: every attempt here, and any retry of the same action by the
+ * caller, sends it again so the server hands back the one job it queued.
+ */
+export async function submitAnalysis<T = Record<string, unknown>>(
+  videoId: string,
+  idempotencyKey: string
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    let response: Response;
+    try {
+      response = await fetch('/api/analysis', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Idempotency-Key': idempotencyKey },
+        body: JSON.stringify({ videoId })
+      });
+    } catch (error) {
+      // The request may have reached the server; the key makes resending safe
+      if (attempt >= SUBMIT_ATTEMPTS) throw error;
+      await new Promise(resolve => setTimeout(resolve, SUBMIT_RETRY_DELAY_MS * attempt));
+      continue;
+    }
+
+    if (response.status >= 500 && attempt < SUBMIT_ATTEMPTS) {
+      await new Promise(resolve => setTimeout(resolve, SUBMIT_RETRY_DELAY_MS * attempt));
+      continue;
+    }
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+      throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+}
+
 /**
  * Start unified analysis and track progress
  */
@@ -160,21 +259,14 @@ export async function startUnifiedAnalysis(
   options?: {
     useSSE?: boolean;
     pollingInterval?: number;
+    idempotencyKey?: string; // Pass the same key when retrying the same action
   }
 ): Promise<Record<string, unknown>> {
   // Start the job
-  const response = await fetch('/api/analysis', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ userId, videoId })
-  });
-
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
-    throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
-  }
-
-  const result = await response.json();
+  const result = await submitAnalysis<{ jobId?: string } & Record<string, unknown>>(
+    videoId,
+    options?.idempotencyKey ?? crypto.randomUUID()
+  );
   const jobId = result.jobId;
 
   if (!jobId) {
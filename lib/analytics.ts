@@ -0,0 +1,139 @@
+import { createClient } from '@/lib/supabase/server';
+import { getOptionalAnalysisFileContent } from '@/lib/r2';
+import { PlayerMetrics, extractPlayerMetrics, parsePositionAnalysis } from '@/lib/player-metrics';
+
+export interface AnalyticsFilters {
+  from?: string | null;      // ISO date, inclusive
+  to?: string | null;        // ISO date, inclusive (whole day)
+  playerId?: string | null;  // players.id
+}
+
+export interface AnalyticsTotals {
+  videoCount: number;
+  analyzedVideoCount: number;
+  analyzedMinutes: number;
+  footageMinutes: number;
+  playerCount: number;
+}
+
+export interface PlayerTrendPoint {
+  videoId: string;
+  fileName: string;
+  date: string;
+  metrics: PlayerMetrics;
+}
+
+export interface PlayerTrend {
+  playerId: string;
+  playerName: string;
+  points: PlayerTrendPoint[];
+}
+
+export interface AnalyticsSummary {
+  totals: AnalyticsTotals;
+  players: { id: string; name: string }[];
+  trends: PlayerTrend[];
+}
+
+// `to` is a calendar date, so include everything up to the end of that day
+function endOfDay(date: string): string {
+  const end = new Date(date);
+  end.setUTCHours(23, 59, 59, 999);
+  return end.toISOString();
+}
+
+/**
+ * Totals and per-player trends for a user's videos.
+ *
+ * Totals come from the videos and usage_records tables. Trends follow player
+ * profiles across videos (via video_players) and read each video's
+ * position_analysis.json, so only linked players show up.
+ */
+export async function getAnalyticsSummary(userId: string, filters: AnalyticsFilters = {}): Promise<AnalyticsSummary> {
+  const supabase = await createClient();
+  const from = filters.from ? new Date(filters.from).toISOString() : null;
+  const to = filters.to ? endOfDay(filters.to) : null;
+
+  let videosQuery = supabase
+    .from('videos')
+    .select('video_id, display_filename, status, duration_seconds, uploaded_at')
+    .eq('user_id', userId)
+    .is('deleted_at', null);
+  if (from) videosQuery = videosQuery.gte('uploaded_at', from);
+  if (to) videosQuery = videosQuery.lte('uploaded_at', to);
+
+  let usageQuery = supabase
+    .from('usage_records')
+    .select('minutes_consumed')
+    .eq('user_id', userId);
+  if (from) usageQuery = usageQuery.gte('created_at', from);
+  if (to) usageQuery = usageQuery.lte('created_at', to);
+
+  const [videosResult, usageResult, playersResult] = await Promise.all([
+    videosQuery,
+    usageQuery,
+    supabase.from('players').select('id, name').eq('user_id', userId).order('name', { ascending: true }),
+  ]);
+
+  if (videosResult.error) throw videosResult.error;
+  if (usageResult.error) throw usageResult.error;
+  if (playersResult.error) throw playersResult.error;
+
+  const videos = videosResult.data || [];
+  const players = playersResult.data || [];
+
+  const totals: AnalyticsTotals = {
+    videoCount: videos.length,
+    analyzedVideoCount: videos.filter(video => video.status === 'completed').length,
+    analyzedMinutes: Math.round((usageResult.data || []).reduce((sum, record) => sum + Number(record.minutes_consumed), 0) * 10) / 10,
+    footageMinutes: Math.round(videos.reduce((sum, video) => sum + Number(video.duration_seconds ?? 0), 0) / 6) / 10,
+    playerCount: players.length,
+  };
+
+  const videosById = new Map(videos.map(video => [video.video_id, video]));
+  const trendPlayers = filters.playerId ? players.filter(player => player.id === filters.playerId) : players;
+
+  if (videosById.size === 0 || trendPlayers.length === 0) {
+    return { totals, players, trends: [] };
+  }
+
+  const { data: links, error: linksError } = await supabase
+    .from('video_players')
+    .select('video_id, tracked_player_id, player_id')
+    .eq('user_id', userId)
+    .in('player_id', trendPlayers.map(player => player.id))
+    .in('video_id', [...videosById.keys()]);
+
+  if (linksError) throw linksError;
+
+  // Read each analyzed video's position_analysis.json once, however many
+  // linked players it has
+  const analysedVideoIds = [...new Set((links || []).map(link => link.video_id))]
+    .filter(videoId => videosById.get(videoId)?.status === 'completed');
+  const analyses = new Map(await Promise.all(analysedVideoIds.map(async videoId => {
+    const contents = await getOptionalAnalysisFileContent(userId, videoId, 'position_analysis.json');
+    return [videoId, contents ? parsePositionAnalysis(contents) : null] as const;
+  })));
+
+  const trends = trendPlayers.map(player => {
+    const points = (links || [])
+      .filter(link => link.player_id === player.id)
+      .flatMap(link => {
+        const analysis = analyses.get(link.video_id);
+        const metrics = analysis ? extractPlayerMetrics(analysis, link.tracked_player_id) : null;
+        if (!metrics) return [];
+        const video = videosById.get(link.video_id)!;
+        return [{
+          videoId: link.video_id,
+          fileName: video.display_filename,
+          date: video.uploaded_at,
+          metrics,
+        }];
+      })
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+    return { playerId: player.id, playerName: player.name, points };
+  });
+
+  return { totals, players, trends };
+}
@@ -0,0 +1,152 @@
+import { AnnotationDrawing, AnnotationStroke, VideoAnnotation } from '@/lib/supabase/types';
+
+/**
+ * Coach annotations pinned to video timestamps.
+ *
+ * Top-level annotations carry a time and any mix of comment text, tags and a
+ * drawing; replies are rows with parent_id set and are only one level deep.
+ * Drawings are stored in normalized (0-1) video coordinates so they line up
+ * at any player size. These helpers are shared by the API routes, the video
+ * page and the share page.
+ */
+
+export const MAX_ANNOTATION_BODY = 2000;
+export const MAX_ANNOTATION_TAGS = 10;
+export const MAX_TAG_LENGTH = 30;
+const MAX_STROKES = 50;
+const MAX_STROKE_POINTS = 1000;
+
+// How long a drawing stays on screen after its timestamp
+export const DRAWING_DISPLAY_SECONDS = 3;
+
+export const ANNOTATION_COLORS = ['#ef4444', '#facc15', '#22c55e', '#3b82f6', '#ffffff'];
+
+// Columns returned by the annotation APIs; the joined player is the reply's author
+export const ANNOTATION_SELECT = '*, players(name)';
+
+export interface AnnotationReply extends VideoAnnotation {
+  author_name: string | null; // Player profile name, or null for the coach
+}
+
+export interface AnnotationThread extends AnnotationReply {
+  replies: AnnotationReply[];
+}
+
+export interface TimedDrawing {
+  id: string;
+  time: number;
+  drawing: AnnotationDrawing;
+}
+
+/**
+ * Trim, de-duplicate and cap a list of tags. Leading #s are dropped.
+ */
+export function sanitizeTags(raw: unknown): string[] {
+  if (!Array.isArray(raw)) return [];
+
+  const tags: string[] = [];
+  for (const value of raw) {
+    if (typeof value !== 'string') continue;
+    const tag = value.trim().replace(/^#+/, '').slice(0, MAX_TAG_LENGTH);
+    if (tag && !tags.some(existing => existing.toLowerCase() === tag.toLowerCase())) {
+      tags.push(tag);
+    }
+  }
+  return tags.slice(0, MAX_ANNOTATION_TAGS);
+}
+
+/**
+ * Validate a drawing from the client, clamping points into the video frame.
+ * Returns null if there's nothing drawable left.
+ */
+export function sanitizeDrawing(raw: unknown): AnnotationDrawing | null {
+  if (!raw || typeof raw !== 'object' || !Array.isArray((raw as AnnotationDrawing).strokes)) {
+    return null;
+  }
+
+  const clamp = (value: number) => Math.round(Math.min(1, Math.max(0, value)) * 10000) / 10000;
+  const strokes: AnnotationStroke[] = [];
+
+  for (const stroke of (raw as AnnotationDrawing).strokes.slice(0, MAX_STROKES)) {
+    if (!stroke || !Array.isArray(stroke.points)) continue;
+
+    const points = stroke.points
+      .slice(0, MAX_STROKE_POINTS)
+      .filter(point => Array.isArray(point) && Number.isFinite(point[0]) && Number.isFinite(point[1]))
+      .map(([x, y]) => [clamp(x), clamp(y)] as [number, number]);
+    if (points.length === 0) continue;
+
+    strokes.push({
+      color: typeof stroke.color === 'string' && /^#[0-9a-f]{6}$/i.test(stroke.color) ? stroke.color : ANNOTATION_COLORS[0],
+      width: Number.isFinite(stroke.width) ? Math.min(0.05, Math.max(0.001, stroke.width)) : 0.004,
+      points,
+    });
+  }
+
+  return strokes.length > 0 ? { strokes } : null;
+}
+
+type AnnotationRow = VideoAnnotation & { players?: unknown };
+
+/**
+ * Flatten the joined player profile of a row selected with ANNOTATION_SELECT
+ * into author_name
+ */
+export function toAnnotationReply(row: AnnotationRow): AnnotationReply {
+  const { players, ...annotation } = row;
+  const player = (Array.isArray(players) ? players[0] : players) as { name: string } | null | undefined;
+  return {
+    ...annotation,
+    time_seconds: annotation.time_seconds !== null ? Number(annotation.time_seconds) : null,
+    author_name: player?.name ?? null,
+  };
+}
+
+/**
+ * Group flat annotation rows (selected with ANNOTATION_SELECT) into threads,
+ * ordered by video time with replies oldest first
+ */
+export function buildAnnotationThreads(rows: AnnotationRow[]): AnnotationThread[] {
+  const threads = new Map<string, AnnotationThread>();
+  for (const row of rows) {
+    if (!row.parent_id) {
+      threads.set(row.id, { ...toAnnotationReply(row), replies: [] });
+    }
+  }
+  for (const row of rows) {
+    if (row.parent_id) {
+      threads.get(row.parent_id)?.replies.push(toAnnotationReply(row));
+    }
+  }
+
+  const list = Array.from(threads.values());
+  list.forEach(thread => thread.replies.sort((a, b) => a.created_at.localeCompare(b.created_at)));
+  return list.sort((a, b) => (a.time_seconds ?? 0) - (b.time_seconds ?? 0) || a.created_at.localeCompare(b.created_at));
+}
+
+/**
+ * Short label for an annotation's timeline marker
+ */
+export function getAnnotationLabel(annotation: Pick<VideoAnnotation, 'body' | 'tags' | 'drawing'>): string {
+  const text = annotation.body.split('\n')[0].trim();
+  if (text) return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+  if (annotation.tags.length > 0) return annotation.tags.map(tag => `#${tag}`).join(' ');
+  return 'Drawing';
+}
+
+/**
+ * Drawings to show at `time`: each stays up for DRAWING_DISPLAY_SECONDS
+ * after its timestamp
+ */
+export function getActiveDrawings(drawings: TimedDrawing[], time: number): TimedDrawing[] {
+  return drawings.filter(({ time: start }) => time >= start - 0.1 && time <= start + DRAWING_DISPLAY_SECONDS);
+}
+
+/**
+ * Drawings for a list of annotation threads, for the video overlay
+ */
+export function getTimedDrawings(threads: AnnotationThread[]): TimedDrawing[] {
+  return threads.flatMap(thread => thread.drawing && thread.time_seconds !== null
+    ? [{ id: thread.id, time: thread.time_seconds, drawing: thread.drawing }]
+    : []);
+}
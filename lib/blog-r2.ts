@@ -1,54 +1,33 @@
-import { S3Client, GetObjectCommand, PutObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
+import { storage, readObjectText } from './storage';
+import { blogContentKey, blogMediaKey } from './storage-keys';
 
-// Cloudflare R2 configuration
-const r2Client = new S3Client({
-  region: 'auto',
-  endpoint: process.env.R2_ENDPOINT_URL,
-  credentials: {
-    accessKeyId: process.env.R2_ACCESS_KEY_ID!,
-    secretAccessKey: process.env.R2_SECRET_ACCESS_KEY!,
-  },
-  forcePathStyle: true, // Use path-style URLs instead of virtual-hosted-style
-});
-
-const BUCKET_NAME = process.env.R2_BUCKET_NAME!;
-const R2_ENVIRONMENT = process.env.R2_ENVIRONMENT || 'dev';
 const R2_PUBLIC_URL = process.env.R2_PUBLIC_URL || '';
 
 // Blog content storage functions
 export async function uploadBlogContent(slug: string, content: string): Promise<string> {
-  const key = `${R2_ENVIRONMENT}/blog/content/${slug}.md`;
+  const key = blogContentKey(slug);
   
-  const command = new PutObjectCommand({
-    Bucket: BUCKET_NAME,
-    Key: key,
-    Body: content,
-    ContentType: 'text/markdown',
-    Metadata: {
+  await storage.put(key, content, {
+    contentType: 'text/markdown',
+    metadata: {
       type: 'blog-content',
       slug,
       uploadTimestamp: Date.now().toString(),
     },
   });
 
-  await r2Client.send(command);
   return key;
 }
 
 export async function getBlogContent(contentKey: string): Promise<string> {
   try {
-    const command = new GetObjectCommand({
-      Bucket: BUCKET_NAME,
-      Key: contentKey,
-    });
+    const content = await readObjectText(contentKey);
 
-    const response = await r2Client.send(command);
-    
-    if (!response.Body) {
+    if (content === null) {
       throw new Error('No content found');
     }
 
-    return await response.Body.transformToString();
+    return content;
   } catch (error) {
     console.error('Error getting blog content:', error);
     throw new Error('Failed to retrieve blog content');
@@ -57,12 +36,7 @@ export async function getBlogContent(contentKey: string): Promise<string> {
 
 export async function deleteBlogContent(contentKey: string): Promise<void> {
   try {
-    const command = new DeleteObjectCommand({
-      Bucket: BUCKET_NAME,
-      Key: contentKey,
-    });
-
-    await r2Client.send(command);
+    await storage.delete(contentKey);
   } catch (error) {
     console.error('Error deleting blog content:', error);
     // Don't throw error for deletion failures
@@ -75,21 +49,16 @@ export async function uploadBlogMedia(file: File): Promise<string> {
   const random = Math.random().toString(36).substring(2, 8);
   const fileExtension = file.name.split('.').pop();
   const fileName = `${timestamp}-${random}.${fileExtension}`;
-  const key = `${R2_ENVIRONMENT}/blog/media/${fileName}`;
+  const key = blogMediaKey(fileName);
   
-  const command = new PutObjectCommand({
-    Bucket: BUCKET_NAME,
-    Key: key,
-    Body: new Uint8Array(await file.arrayBuffer()),
-    ContentType: file.type,
-    Metadata: {
+  await storage.put(key, new Uint8Array(await file.arrayBuffer()), {
+    contentType: file.type,
+    metadata: {
       type: 'blog-media',
       originalName: file.name,
       uploadTimestamp: timestamp.toString(),
     },
   });
-
-  await r2Client.send(command);
   
   // Return public URL if available, otherwise return API endpoint
   if (R2_PUBLIC_URL) {
@@ -0,0 +1,74 @@
+import { RunPodComputeBackend } from './runpod-backend';
+import { MockComputeBackend } from './mock-compute-backend';
+
+/**
+ * Compute backend - where GPU analysis jobs run
+ *
+ * Two implementations of ComputeBackend:
+ * - RunPodComputeBackend: the RunPod serverless endpoint
+ * - MockComputeBackend: runs in-process, replaying recorded webhook sequences
+ *   and writing fixture artifacts, so the pipeline works without a GPU
+ *
+ * COMPUTE_BACKEND=runpod|mock picks one; it defaults to runpod. Job states use
+ * RunPod's names, which the rest of the app already speaks.
+ */
+
+export type ComputeJobState = 'IN_QUEUE' | 'IN_PROGRESS' | 'COMPLETED' | 'FAILED' | 'CANCELLED' | 'TIMED_OUT';
+
+/**
+ * Input for an analysis job, passed to the worker as-is
+ */
+export interface ComputeJobInput {
+  job_id: string; // Our processing_jobs ID, echoed back in webhooks
+  user_id: string;
+  video_url: string;
+  webhook_url: string | null;
+  webhook_secret: string; // The worker signs webhooks with this (lib/webhook-auth.ts)
+  session_id?: string; // Video ID, for jobs from /api/analysis and retries
+  video_id?: string; // Video ID, for jobs started on upload
+  [key: string]: unknown;
+}
+
+export interface ComputeJobStatus {
+  id: string;
+  status: ComputeJobState;
+  output?: Record<string, unknown>;
+  error?: string;
+  executionTime?: number;
+  delayTime?: number;
+  logs?: string; // Worker output so far, when the backend provides it
+}
+
+export interface ComputeHealth {
+  healthy: boolean;
+  workers?: { idle: number; running: number };
+  jobs?: { inQueue: number; inProgress: number; completed: number; failed: number };
+  error?: string;
+}
+
+export interface ComputeBackend {
+  /** Backend name, for logs and health checks */
+  readonly name: string;
+
+  /** Whether the backend has the configuration it needs */
+  isConfigured(): boolean;
+
+  /** Start a job; resolves with the backend's job ID */
+  submit(input: ComputeJobInput): Promise<{ id: string }>;
+
+  /** Current state of a job, or null if the backend doesn't know it */
+  status(computeJobId: string): Promise<ComputeJobStatus | null>;
+
+  /** Stop a job. Resolves with its state afterwards, or null if the backend doesn't know it */
+  cancel(computeJobId: string): Promise<ComputeJobState | null>;
+
+  /** Whether the backend can take work right now */
+  health(): Promise<ComputeHealth>;
+}
+
+function createComputeBackend(): ComputeBackend {
+  return process.env.COMPUTE_BACKEND === 'mock' ? new MockComputeBackend() : new RunPodComputeBackend();
+}
+
+// Singleton instance
+export const computeBackend: ComputeBackend = createComputeBackend();
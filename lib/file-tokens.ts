@@ -0,0 +1,112 @@
+import crypto from 'crypto';
+import { thumbnailKeyStem } from './storage-keys';
+
+/**
+ * Short-lived, HMAC-signed tokens for the file proxy routes.
+ *
+ * /api/file-stream, /api/video-stream and /api/thumbnail-stream only serve
+ * the R2 key sealed inside a valid token, so a URL can't be edited to reach
+ * another user's files. Tokens are only handed out by routes that have
+ * already checked ownership (or a share link).
+ *
+ * Expiry is rounded up to the next TTL boundary, so the same key gets the same
+ * URL for a while and browsers can cache thumbnails.
+ */
+
+export const FILE_TOKEN_TTL_SECONDS = 60 * 60;      // Downloads and thumbnails
+export const VIDEO_TOKEN_TTL_SECONDS = 6 * 60 * 60; // Long enough to watch and seek a match
+
+export type ThumbnailSize = 'small' | 'medium' | 'large';
+
+interface FileTokenPayload {
+  k: string; // R2 key
+  e: number; // Expiry, unix seconds
+}
+
+function getSecret(): string {
+  const secret = process.env.FILE_TOKEN_SECRET;
+  if (!secret) {
+    throw new Error('Missing FILE_TOKEN_SECRET environment variable');
+  }
+  return secret;
+}
+
+function sign(data: string): string {
+  return crypto.createHmac('sha256', getSecret()).update(data).digest('base64url');
+}
+
+/**
+ * Sign a payload with an expiry (`e`, unix seconds). Also used for the local
+ * storage provider's presigned URLs.
+ */
+export function sealToken<T extends { e: number }>(payload: T): string {
+  const data = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${data}.${sign(data)}`;
+}
+
+/**
+ * The payload of a sealed token, or null if it is malformed, tampered with
+ * or expired
+ */
+export function openToken<T extends { e: number }>(token: string | null): T | null {
+  if (!token) return null;
+
+  const [data, signature] = token.split('.');
+  if (!data || !signature) return null;
+
+  const expected = Buffer.from(sign(data));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(data, 'base64url').toString()) as T;
+    if (typeof payload.e !== 'number' || payload.e < Date.now() / 1000) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Create a token granting read access to a single R2 key
+ */
+export function createFileToken(key: string, ttlSeconds = FILE_TOKEN_TTL_SECONDS): string {
+  const now = Math.floor(Date.now() / 1000);
+  return sealToken<FileTokenPayload>({
+    k: key,
+    e: (Math.floor(now / ttlSeconds) + 2) * ttlSeconds, // valid for between 1 and 2 TTLs
+  });
+}
+
+/**
+ * Verify a token and return the R2 key it grants, or null if it is
+ * malformed, tampered with or expired
+ */
+export function verifyFileToken(token: string | null): string | null {
+  const payload = openToken<FileTokenPayload>(token);
+  return payload && typeof payload.k === 'string' ? payload.k : null;
+}
+
+/**
+ * Download URL for an analysis file
+ */
+export function getFileStreamUrl(key: string): string {
+  return `/api/file-stream?token=${createFileToken(key)}`;
+}
+
+/**
+ * Range-capable streaming URL for a video
+ */
+export function getVideoStreamUrl(key: string): string {
+  return `/api/video-stream?token=${createFileToken(key, VIDEO_TOKEN_TTL_SECONDS)}`;
+}
+
+/**
+ * Thumbnail URL for a video. The token covers the video's thumbnail variants;
+ * thumbnail-stream picks the best one for `size`.
+ */
+export function getThumbnailStreamUrl(userId: string, videoId: string, size: ThumbnailSize = 'medium'): string {
+  return `/api/thumbnail-stream?token=${createFileToken(thumbnailKeyStem(userId, videoId))}&size=${size}`;
+}
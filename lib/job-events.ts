@@ -0,0 +1,94 @@
+/**
+ * Job events - types shared by the JobEventStore implementations in
+ * lib/webhook-store.ts and lib/supabase-job-event-store.ts
+ */
+
+export interface JobUpdate {
+  id: number; // Increases with each update for a job; sent as the SSE event ID
+  step?: string;
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+  progress?: number;
+  stage?: string;
+  error?: string;
+  timestamp: number;
+  results?: Record<string, unknown>;
+}
+
+export type SSEListener = (data: JobUpdate) => void;
+
+export interface JobEventStore {
+  /** Store a job update from a webhook and notify listeners on every instance */
+  addUpdate(jobId: string, update: Omit<JobUpdate, 'id' | 'timestamp'>): Promise<JobUpdate>;
+
+  /** Updates for a job, oldest first - only those after `afterId` if given */
+  getUpdates(jobId: string, afterId?: number): Promise<JobUpdate[]>;
+
+  /** The latest update for a job */
+  getLatestUpdate(jobId: string): Promise<JobUpdate | null>;
+
+  /** Register an SSE listener; resolves once it will receive new updates */
+  addListener(jobId: string, listener: SSEListener): Promise<void>;
+
+  /** Remove an SSE listener */
+  removeListener(jobId: string, listener: SSEListener): void;
+
+  /** Count of listeners for a job on this instance */
+  getListenerCount(jobId: string): number;
+
+  /** Delete updates stored before `before`; resolves with how many were removed */
+  pruneUpdates(before: Date): Promise<number>;
+
+  /** Jobs with recent updates */
+  getActiveJobs(): Promise<string[]>;
+}
+
+export function isTerminalStatus(status: JobUpdate['status']): boolean {
+  return status === 'completed' || status === 'failed' || status === 'cancelled';
+}
+
+/**
+ * Local listener bookkeeping shared by both implementations
+ */
+export class ListenerRegistry {
+  private listeners: Map<string, Set<SSEListener>> = new Map();
+
+  /** Returns true if this is the job's first listener */
+  add(jobId: string, listener: SSEListener): boolean {
+    const isFirst = !this.listeners.has(jobId);
+    if (isFirst) {
+      this.listeners.set(jobId, new Set());
+    }
+    this.listeners.get(jobId)!.add(listener);
+    return isFirst;
+  }
+
+  /** Returns true if the job has no listeners left */
+  remove(jobId: string, listener: SSEListener): boolean {
+    const listeners = this.listeners.get(jobId);
+    if (!listeners) return false;
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      this.listeners.delete(jobId);
+      return true;
+    }
+    return false;
+  }
+
+  notify(jobId: string, update: JobUpdate): void {
+    this.listeners.get(jobId)?.forEach(listener => {
+      try {
+        listener(update);
+      } catch (error) {
+        console.error(`Error notifying listener for job ${jobId}:`, error);
+      }
+    });
+  }
+
+  clear(jobId: string): void {
+    this.listeners.delete(jobId);
+  }
+
+  count(jobId: string): number {
+    return this.listeners.get(jobId)?.size || 0;
+  }
+}
@@ -0,0 +1,455 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from '@/lib/supabase/server';
+import { STRIPE_PLANS, PlanType } from '@/lib/stripe';
+import { JobStatus, ProcessingJob, createProcessingJob, updateJobStatus } from '@/lib/processing-jobs';
+import { getSignedVideoUrl } from '@/lib/r2';
+import { isUploadKeyOf } from '@/lib/storage-keys';
+import { refreshVideoStatus } from '@/lib/video-library';
+import { computeBackend } from '@/lib/compute-backend';
+import { createWebhookSecret } from '@/lib/webhook-auth';
+import { webhookStore } from '@/lib/webhook-store';
+import { logError, logSuccess } from '@/lib/logger';
+
+/**
+ * Analysis job queue
+ *
+ * Every RunPod submission goes through processing_jobs: jobs are inserted as
+ * `queued` with no dispatched_at, and dispatchQueuedJobs sends waiting jobs
+ * to RunPod while their owner is under the plan's maxConcurrentJobs
+ * (STRIPE_PLANS) - higher queuePriority first, then oldest first.
+ * RUNPOD_MAX_CONCURRENT_JOBS optionally caps active jobs across all users.
+ *
+ * Nothing runs in the background, so dispatch is called wherever a slot may
+ * have opened: on submit, cancel, a final webhook and each stale-job reaper
+ * sweep.
+ */
+
+// Dispatched jobs in these statuses hold one of their owner's slots
+const ACTIVE_STATUSES: JobStatus[] = ['queued', 'running'];
+// Waiting jobs read per batch, and batches read per dispatch
+const DISPATCH_BATCH_SIZE = 50;
+const MAX_DISPATCH_PAGES = 20;
+
+type Plan = (typeof STRIPE_PLANS)[PlanType];
+
+export interface QueueStatus {
+  jobId: string;
+  status: JobStatus;
+  waiting: boolean; // Still in our queue, not yet sent to RunPod
+  queuePosition: number | null; // 1-based among the owner's waiting jobs
+  activeJobs: number;
+  maxConcurrentJobs: number;
+  runpodJobId: string | null;
+}
+
+/**
+ * Add an analysis job to the queue. Call dispatchQueuedJobs afterwards to
+ * send it to RunPod if the user has a free slot.
+ *
+ * `input` is merged into the RunPod input at dispatch, alongside the video
+ * URL (signed then, so it can't expire while the job waits), webhook URL,
+ * webhook secret and job ID.
+ */
+export async function enqueueAnalysisJob({
+  jobId,
+  userId,
+  videoId,
+  videoKey,
+  webhookUrl,
+  input = {},
+  parentJobId,
+  retryCount,
+  idempotencyKey,
+}: {
+  jobId: string;
+  userId: string;
+  videoId: string;
+  videoKey: string;
+  webhookUrl: string;
+  input?: Record<string, unknown>;
+  parentJobId?: string;
+  retryCount?: number;
+  idempotencyKey?: string;
+}): Promise<ProcessingJob> {
+  const supabase = createAdminClient();
+  const plans = await getUserPlans(supabase, [userId]);
+
+  const job = await createProcessingJob({
+    jobId,
+    userId,
+    videoId,
+    jobType: 'unified_analysis',
+    jobParams: { video_key: videoKey, input },
+    webhookUrl,
+    parentJobId,
+    retryCount,
+    priority: planFor(plans, userId).queuePriority,
+    idempotencyKey,
+  }, supabase);
+
+  if (!job) {
+    throw new Error(`Failed to queue job ${jobId}`);
+  }
+
+  return job;
+}
+
+/**
+ * Send waiting jobs to RunPod, as far as plan limits allow.
+ * Returns the jobs that were dispatched.
+ *
+ * Waiting jobs are read a batch at a time. Owners at their limit, and jobs
+ * another dispatcher claimed first, are left out of the next batch, so jobs
+ * behind a capped user's backlog still get a slot.
+ */
+export async function dispatchQueuedJobs(): Promise<ProcessingJob[]> {
+  const supabase = createAdminClient();
+
+  const { data: active, error: activeError } = await supabase
+    .from('processing_jobs')
+    .select('user_id')
+    .in('status', ACTIVE_STATUSES)
+    .not('dispatched_at', 'is', null);
+
+  if (activeError) {
+    throw new Error(`Failed to load active jobs: ${activeError.message}`);
+  }
+
+  const activeCounts = new Map<string, number>();
+  for (const row of active || []) {
+    activeCounts.set(row.user_id, (activeCounts.get(row.user_id) ?? 0) + 1);
+  }
+
+  let totalActive = active?.length ?? 0;
+  const globalLimit = getGlobalLimit();
+  const plans = new Map<string, PlanType>();
+  const cappedUsers = new Set<string>();
+  const skippedJobs = new Set<string>();
+  const dispatched: ProcessingJob[] = [];
+
+  const isCapped = (userId: string) =>
+    (activeCounts.get(userId) ?? 0) >= planFor(plans, userId).maxConcurrentJobs;
+
+  for (let page = 0; page < MAX_DISPATCH_PAGES; page++) {
+    if (globalLimit !== null && totalActive >= globalLimit) break;
+
+    let query = supabase
+      .from('processing_jobs')
+      .select('*')
+      .eq('status', 'queued')
+      .is('dispatched_at', null);
+    if (cappedUsers.size > 0) {
+      query = query.not('user_id', 'in', `(${Array.from(cappedUsers).join(',')})`);
+    }
+    if (skippedJobs.size > 0) {
+      query = query.not('id', 'in', `(${Array.from(skippedJobs).join(',')})`);
+    }
+
+    const { data: waiting, error } = await query
+      .order('priority', { ascending: false })
+      .order('created_at', { ascending: true })
+      .limit(DISPATCH_BATCH_SIZE);
+
+    if (error) {
+      throw new Error(`Failed to load queued jobs: ${error.message}`);
+    }
+
+    if (!waiting || waiting.length === 0) break;
+
+    const newUsers = Array.from(new Set(waiting.map(job => job.user_id))).filter(userId => !plans.has(userId));
+    if (newUsers.length > 0) {
+      for (const [userId, plan] of await getUserPlans(supabase, newUsers)) {
+        plans.set(userId, plan);
+      }
+      // Users without an active subscription are on FREE
+      for (const userId of newUsers) {
+        if (!plans.has(userId)) plans.set(userId, 'FREE');
+      }
+    }
+
+    for (const job of waiting as ProcessingJob[]) {
+      if (globalLimit !== null && totalActive >= globalLimit) break;
+
+      if (isCapped(job.user_id)) {
+        cappedUsers.add(job.user_id);
+        continue;
+      }
+
+      const limit = planFor(plans, job.user_id).maxConcurrentJobs;
+      if (!(await claimJob(supabase, job, limit))) {
+        // Claimed elsewhere, or the owner filled up meanwhile
+        skippedJobs.add(job.id);
+        continue;
+      }
+
+      activeCounts.set(job.user_id, (activeCounts.get(job.user_id) ?? 0) + 1);
+      totalActive++;
+
+      const submitted = await submitJob(supabase, job);
+      if (submitted) dispatched.push(submitted);
+    }
+
+    // Every waiting job was looked at
+    if (waiting.length < DISPATCH_BATCH_SIZE) break;
+  }
+
+  return dispatched;
+}
+
+/**
+ * Where a job stands in its owner's queue
+ */
+export async function getQueueStatus(job: ProcessingJob): Promise<QueueStatus> {
+  const supabase = createAdminClient();
+  const waiting = job.status === 'queued' && !job.dispatched_at;
+
+  const [activeJobs, plans] = await Promise.all([
+    countActiveJobs(supabase, job.user_id),
+    getUserPlans(supabase, [job.user_id]),
+  ]);
+
+  let queuePosition: number | null = null;
+  if (waiting) {
+    const { count, error } = await supabase
+      .from('processing_jobs')
+      .select('job_id', { count: 'exact', head: true })
+      .eq('user_id', job.user_id)
+      .eq('status', 'queued')
+      .is('dispatched_at', null)
+      .lt('created_at', job.created_at);
+
+    if (error) {
+      throw new Error(`Failed to load queue position for ${job.job_id}: ${error.message}`);
+    }
+    queuePosition = (count ?? 0) + 1;
+  }
+
+  return {
+    jobId: job.job_id,
+    status: job.status,
+    waiting,
+    queuePosition,
+    activeJobs,
+    maxConcurrentJobs: planFor(plans, job.user_id).maxConcurrentJobs,
+    runpodJobId: job.runpod_job_id,
+  };
+}
+
+/**
+ * The queued or running analysis of a video, if there is one. The oldest
+ * wins when concurrent submissions both got in.
+ */
+export async function getActiveJobForVideo(userId: string, videoId: string): Promise<ProcessingJob | null> {
+  const { data, error } = await createAdminClient()
+    .from('processing_jobs')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('video_id', videoId)
+    .in('status', ACTIVE_STATUSES)
+    .order('created_at', { ascending: true })
+    .order('job_id', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load active job for ${videoId}: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * The job a user created with an Idempotency-Key, whatever its status
+ */
+export async function getJobByIdempotencyKey(userId: string, idempotencyKey: string): Promise<ProcessingJob | null> {
+  const { data, error } = await createAdminClient()
+    .from('processing_jobs')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('idempotency_key', idempotencyKey)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load job for idempotency key: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Remove a job that is still waiting in the queue. Returns false if it has
+ * already been dispatched.
+ */
+export async function withdrawQueuedJob(jobId: string): Promise<boolean> {
+  const supabase = createAdminClient();
+  const { data, error } = await supabase
+    .from('processing_jobs')
+    .delete()
+    .eq('job_id', jobId)
+    .is('dispatched_at', null)
+    .select('job_id, video_id');
+
+  if (error) {
+    throw new Error(`Failed to withdraw job ${jobId}: ${error.message}`);
+  }
+
+  if (!data || data.length === 0) {
+    return false;
+  }
+
+  await refreshVideoStatus(data[0].video_id, supabase);
+  return true;
+}
+
+/**
+ * Cancel a job that is still waiting in the queue, keeping its record.
+ * Returns null if it has already been dispatched.
+ */
+export async function cancelQueuedJob(jobId: string, reason: string): Promise<ProcessingJob | null> {
+  const supabase = createAdminClient();
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('processing_jobs')
+    .update({ status: 'cancelled', last_error: reason, completed_at: now, last_checked_at: now })
+    .eq('job_id', jobId)
+    .eq('status', 'queued')
+    .is('dispatched_at', null)
+    .select();
+
+  if (error) {
+    throw new Error(`Failed to cancel queued job ${jobId}: ${error.message}`);
+  }
+
+  if (!data || data.length === 0) {
+    return null;
+  }
+
+  await refreshVideoStatus(data[0].video_id, supabase);
+  return data[0];
+}
+
+/**
+ * Mark a job as dispatched, unless another dispatcher got there first or the
+ * user's slots filled up in the meantime
+ */
+async function claimJob(supabase: SupabaseClient, job: ProcessingJob, limit: number): Promise<boolean> {
+  const now = new Date().toISOString();
+
+  // last_checked_at starts the reaper's clock at dispatch, not at queueing
+  const { data: claimed, error } = await supabase
+    .from('processing_jobs')
+    .update({ dispatched_at: now, last_checked_at: now })
+    .eq('job_id', job.job_id)
+    .eq('status', 'queued')
+    .is('dispatched_at', null)
+    .select('job_id');
+
+  if (error || !claimed || claimed.length === 0) {
+    return false;
+  }
+
+  // Concurrent dispatchers may each have claimed a different job for this
+  // user. If that took them over the limit, back off; the next dispatch
+  // picks the job up again.
+  if ((await countActiveJobs(supabase, job.user_id)) > limit) {
+    await supabase
+      .from('processing_jobs')
+      .update({ dispatched_at: null })
+      .eq('job_id', job.job_id);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Submit a claimed job to the compute backend (RunPod unless
+ * COMPUTE_BACKEND=mock); on failure the job is marked failed
+ */
+async function submitJob(supabase: SupabaseClient, job: ProcessingJob): Promise<ProcessingJob | null> {
+  const params = job.job_params as { video_key?: string; input?: Record<string, unknown> };
+
+  try {
+    if (!computeBackend.isConfigured()) {
+      throw new Error('RunPod configuration missing. Please set RUNPOD_ENDPOINT_ID and RUNPOD_API_KEY environment variables.');
+    }
+
+    if (!params.video_key) {
+      throw new Error('Queued job has no video key');
+    }
+
+    // Only ever sign the job owner's own video for the worker
+    if (!isUploadKeyOf(params.video_key, job.user_id, job.video_id)) {
+      throw new Error('Queued job\'s video key is not its video\'s upload');
+    }
+
+    const signedVideoUrl = await getSignedVideoUrl(params.video_key);
+
+    const runpodResult = await computeBackend.submit({
+      video_url: signedVideoUrl,
+      user_id: job.user_id,
+      ...params.input,
+      webhook_url: job.webhook_url,
+      webhook_secret: createWebhookSecret(job.job_id), // Python signs webhooks with this
+      job_id: job.job_id, // Pass internal job ID to Python
+    });
+
+    logSuccess('Job dispatched to RunPod', { jobId: job.job_id, runpodJobId: runpodResult.id });
+    return updateJobStatus({ jobId: job.job_id, runpodJobId: runpodResult.id }, supabase);
+  } catch (error) {
+    logError(`Failed to dispatch job ${job.job_id}`, error);
+    const message = error instanceof Error ? error.message : 'Failed to submit job to RunPod';
+
+    await updateJobStatus({ jobId: job.job_id, status: 'failed', error: message }, supabase);
+    await webhookStore.addUpdate(job.job_id, { status: 'failed', error: message }).catch(storeError => {
+      logError(`Failed to store dispatch failure for ${job.job_id}`, storeError);
+    });
+    return null;
+  }
+}
+
+async function countActiveJobs(supabase: SupabaseClient, userId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from('processing_jobs')
+    .select('job_id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .in('status', ACTIVE_STATUSES)
+    .not('dispatched_at', 'is', null);
+
+  if (error) {
+    throw new Error(`Failed to count active jobs for ${userId}: ${error.message}`);
+  }
+
+  return count ?? 0;
+}
+
+/**
+ * Plans of users with a live subscription; everyone else is on FREE
+ */
+async function getUserPlans(supabase: SupabaseClient, userIds: string[]): Promise<Map<string, PlanType>> {
+  const { data, error } = await supabase
+    .from('subscriptions')
+    .select('user_id, plan_type, status')
+    .in('user_id', userIds);
+
+  if (error) {
+    throw new Error(`Failed to load subscriptions: ${error.message}`);
+  }
+
+  const plans = new Map<string, PlanType>();
+  for (const row of data || []) {
+    if ((row.status === 'active' || row.status === 'trialing') && row.plan_type in STRIPE_PLANS) {
+      plans.set(row.user_id, row.plan_type as PlanType);
+    }
+  }
+  return plans;
+}
+
+function planFor(plans: Map<string, PlanType>, userId: string): Plan {
+  return STRIPE_PLANS[plans.get(userId) ?? 'FREE'];
+}
+
+function getGlobalLimit(): number | null {
+  const limit = Number(process.env.RUNPOD_MAX_CONCURRENT_JOBS);
+  return Number.isInteger(limit) && limit > 0 ? limit : null;
+}
@@ -0,0 +1,279 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from '@/lib/supabase/server';
+import {
+  JobStatus,
+  ProcessingJob,
+  canRetryJob,
+  getStaleProcessingJobs,
+  updateJobStatus,
+} from '@/lib/processing-jobs';
+import { cancelRunPodJob, checkRunPodWorkerHealth } from '@/lib/runpod-health';
+import { submitJobRetry } from '@/lib/job-retry';
+import { dispatchQueuedJobs } from '@/lib/job-queue';
+import { webhookStore } from '@/lib/webhook-store';
+import { logError, logWarn } from '@/lib/logger';
+
+/**
+ * Stale-job reaper
+ *
+ * Runs on a schedule (GET /api/reap-stale-jobs) rather than waiting for a
+ * browser with WorkerHealthMonitor open. Queued and running jobs that haven't
+ * been checked for STALE_AFTER_MS are looked up on RunPod; jobs whose worker
+ * is gone become worker_died or timed_out and are resubmitted when
+ * canRetryJob allows. Each decision is appended to the job's retry_info.
+ * Each sweep ends with a queue dispatch, in case a slot opened without one,
+ * and deletes job events too old to belong to a job that is still running.
+ */
+
+export const STALE_AFTER_MS = 10 * 60 * 1000;
+// Jobs still running after this long are cancelled on RunPod and timed out
+export const MAX_JOB_RUNTIME_MS = 3 * 60 * 60 * 1000;
+// A dispatched job without a RunPod job ID may still be mid-submit this long
+// after dispatched_at (the longest maxDuration of a route that dispatches)
+export const SUBMIT_GRACE_MS = 5 * 60 * 1000;
+// Jobs handled per sweep, to stay inside the route's maxDuration
+export const REAP_BATCH_SIZE = 25;
+// Job events older than this are deleted; well past MAX_JOB_RUNTIME_MS, so
+// only finished jobs lose theirs
+export const JOB_EVENT_RETENTION_MS = 24 * 60 * 60 * 1000;
+// Decisions kept per job in retry_info.reaper_decisions
+const MAX_RECORDED_DECISIONS = 20;
+
+export type ReaperAction = 'alive' | 'completed' | 'cancelled' | 'worker_died' | 'timed_out' | 'unknown';
+
+export interface ReaperDecision {
+  at: string;
+  action: ReaperAction;
+  runpodStatus: string; // RunPod status, NOT_FOUND, SUBMITTING while dispatch is in flight, or NO_RUNPOD_JOB if it never got a RunPod job ID
+  reason: string;
+  retry?: 'submitted' | 'not_allowed' | 'video_missing' | 'failed';
+  retryJobId?: string;
+  retryError?: string;
+}
+
+export interface ReapResult {
+  checked: number;
+  decisions: Array<{ jobId: string } & ReaperDecision>;
+  dispatched: number; // Queued jobs sent to RunPod after the sweep
+  prunedEvents: number; // Job events deleted by retention
+}
+
+// Status each action moves the job to; alive and unknown leave it as is
+const STATUS_FOR_ACTION: Partial<Record<ReaperAction, JobStatus>> = {
+  completed: 'completed',
+  cancelled: 'cancelled',
+  worker_died: 'worker_died',
+  timed_out: 'timed_out',
+};
+
+/**
+ * Check every stale job once and settle the ones whose worker is gone
+ */
+export async function reapStaleJobs({
+  webhookUrl,
+  now = new Date(),
+}: {
+  webhookUrl: string;
+  now?: Date;
+}): Promise<ReapResult> {
+  const supabase = createAdminClient();
+  const staleJobs = await getStaleProcessingJobs(
+    new Date(now.getTime() - STALE_AFTER_MS),
+    REAP_BATCH_SIZE,
+    supabase
+  );
+
+  const decisions: ReapResult['decisions'] = [];
+
+  for (const job of staleJobs) {
+    try {
+      const decision = await reapJob(job, { webhookUrl, now, supabase });
+      decisions.push({ jobId: job.job_id, ...decision });
+    } catch (error) {
+      // One bad job shouldn't stop the sweep
+      logError(`Reaper failed for job ${job.job_id}`, error);
+    }
+  }
+
+  const dispatched = await dispatchQueuedJobs();
+  const prunedEvents = await pruneJobEvents(now);
+
+  return { checked: staleJobs.length, decisions, dispatched: dispatched.length, prunedEvents };
+}
+
+/**
+ * Drop events of long-finished jobs, so job_events doesn't grow forever
+ */
+async function pruneJobEvents(now: Date): Promise<number> {
+  try {
+    return await webhookStore.pruneUpdates(new Date(now.getTime() - JOB_EVENT_RETENTION_MS));
+  } catch (error) {
+    // Retention can wait for the next sweep
+    logWarn('Failed to prune job events', error);
+    return 0;
+  }
+}
+
+async function reapJob(
+  job: ProcessingJob,
+  { webhookUrl, now, supabase }: { webhookUrl: string; now: Date; supabase: SupabaseClient }
+): Promise<ReaperDecision> {
+  const decision = await inspectJob(job, now);
+  const status = STATUS_FOR_ACTION[decision.action];
+
+  // Also bumps last_checked_at, so live jobs aren't checked again until they go stale
+  await updateJobStatus({
+    jobId: job.job_id,
+    status,
+    progress: decision.action === 'completed' ? 100 : undefined,
+    error: status && status !== 'completed' ? decision.reason : undefined,
+    retryInfo: withDecision(job, decision),
+  }, supabase);
+
+  if (decision.action === 'worker_died' || decision.action === 'timed_out') {
+    await retryJob(job, decision, { webhookUrl, supabase });
+
+    // Record how the retry went
+    await updateJobStatus({ jobId: job.job_id, retryInfo: withDecision(job, decision) }, supabase);
+  }
+
+  if (status) {
+    await notifyListeners(job, decision);
+  }
+
+  return decision;
+}
+
+/**
+ * Work out what happened to a job's worker
+ */
+async function inspectJob(job: ProcessingJob, now: Date): Promise<ReaperDecision> {
+  const at = now.toISOString();
+
+  if (!job.runpod_job_id) {
+    const sinceDispatchMs = job.dispatched_at
+      ? now.getTime() - new Date(job.dispatched_at).getTime()
+      : Infinity;
+
+    if (sinceDispatchMs < SUBMIT_GRACE_MS) {
+      return {
+        at,
+        action: 'alive',
+        runpodStatus: 'SUBMITTING',
+        reason: 'Job is still being submitted to RunPod',
+      };
+    }
+
+    return {
+      at,
+      action: 'worker_died',
+      runpodStatus: 'NO_RUNPOD_JOB',
+      reason: 'Job was dispatched but never got a RunPod job ID',
+    };
+  }
+
+  const health = await checkRunPodWorkerHealth(job.runpod_job_id);
+  const runpodStatus = health.runpodStatus;
+
+  if (health.isAlive) {
+    const runtimeMs = now.getTime() - new Date(job.started_at || job.created_at).getTime();
+
+    if (runtimeMs > MAX_JOB_RUNTIME_MS) {
+      const cancelResult = await cancelRunPodJob(job.runpod_job_id);
+      if (!cancelResult.cancelled) {
+        logWarn(`Reaper could not cancel overrunning job ${job.job_id}`, cancelResult);
+      }
+
+      return {
+        at,
+        action: 'timed_out',
+        runpodStatus,
+        reason: `Still ${runpodStatus} after ${Math.round(runtimeMs / 60000)} minutes`,
+      };
+    }
+
+    return { at, action: 'alive', runpodStatus, reason: `Worker is still processing (${runpodStatus})` };
+  }
+
+  if (health.completedSuccessfully) {
+    return { at, action: 'completed', runpodStatus, reason: 'RunPod reports the job completed' };
+  }
+
+  if (runpodStatus === 'CANCELLED') {
+    return { at, action: 'cancelled', runpodStatus, reason: 'Job was cancelled on RunPod' };
+  }
+
+  if (runpodStatus === 'TIMED_OUT') {
+    return { at, action: 'timed_out', runpodStatus, reason: health.errorMessage || 'Job timed out' };
+  }
+
+  if (health.workerDied) {
+    return { at, action: 'worker_died', runpodStatus, reason: health.errorMessage || 'Worker died' };
+  }
+
+  // RunPod unreachable or misconfigured - try again next sweep
+  return { at, action: 'unknown', runpodStatus, reason: health.errorMessage || 'Unknown worker state' };
+}
+
+/**
+ * Resubmit through the same flow as POST /api/retry-analysis, noting the
+ * outcome on `decision`
+ */
+async function retryJob(
+  job: ProcessingJob,
+  decision: ReaperDecision,
+  { webhookUrl, supabase }: { webhookUrl: string; supabase: SupabaseClient }
+): Promise<void> {
+  if (!(await canRetryJob(job.job_id, supabase))) {
+    decision.retry = 'not_allowed';
+    return;
+  }
+
+  try {
+    const retry = await submitJobRetry(job, { webhookUrl, client: supabase });
+
+    if (!retry) {
+      decision.retry = 'video_missing';
+      return;
+    }
+
+    decision.retry = 'submitted';
+    decision.retryJobId = retry.newJobId;
+    console.log(`🔁 Reaper retried job ${job.job_id} as ${retry.newJobId} (attempt ${retry.retryAttempt}/${job.max_retries})`);
+  } catch (error) {
+    decision.retry = 'failed';
+    decision.retryError = error instanceof Error ? error.message : 'Unknown error';
+  }
+}
+
+/**
+ * Tell SSE clients following the job how it ended
+ */
+async function notifyListeners(job: ProcessingJob, decision: ReaperDecision): Promise<void> {
+  try {
+    if (decision.action === 'completed') {
+      await webhookStore.addUpdate(job.job_id, { status: 'completed', progress: 100 });
+    } else if (decision.action === 'cancelled') {
+      await webhookStore.addUpdate(job.job_id, { status: 'cancelled', stage: 'Analysis cancelled' });
+    } else {
+      const retryNote = decision.retryJobId ? ` - retrying as ${decision.retryJobId}` : '';
+      await webhookStore.addUpdate(job.job_id, {
+        step: job.current_step ?? undefined,
+        status: 'failed',
+        error: `${decision.reason}${retryNote}`,
+      });
+    }
+  } catch (error) {
+    logWarn(`Failed to store reaper event for job ${job.job_id}`, error);
+  }
+}
+
+function withDecision(job: ProcessingJob, decision: ReaperDecision): Record<string, unknown> {
+  const retryInfo = job.retry_info || {};
+  const previous = Array.isArray(retryInfo.reaper_decisions) ? retryInfo.reaper_decisions : [];
+
+  return {
+    ...retryInfo,
+    reaper_decisions: [...previous, decision].slice(-MAX_RECORDED_DECISIONS),
+  };
+}
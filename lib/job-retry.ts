@@ -0,0 +1,87 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from '@/lib/supabase/server';
+import { ProcessingJob, getProcessingJob, updateJobStatus } from '@/lib/processing-jobs';
+import { getUserVideo } from '@/lib/video-library';
+import { isUploadKeyOf } from '@/lib/storage-keys';
+import { dispatchQueuedJobs, enqueueAnalysisJob } from '@/lib/job-queue';
+
+/**
+ * Resubmitting failed jobs to RunPod
+ *
+ * Shared by POST /api/retry-analysis and the stale-job reaper
+ * (lib/job-reaper.ts). Callers check canRetryJob first.
+ */
+
+export interface JobRetrySubmission {
+  newJobId: string;
+  runpodJobId: string | null; // Null while the retry waits in the queue
+  retryAttempt: number;
+}
+
+/**
+ * Queue a retry of `originalJob` and mark the original as superseded.
+ *
+ * Returns null if the video no longer exists.
+ */
+export async function submitJobRetry(
+  originalJob: ProcessingJob,
+  {
+    webhookUrl,
+    client,
+  }: {
+    webhookUrl: string;
+    client?: SupabaseClient;
+  }
+): Promise<JobRetrySubmission | null> {
+  const jobId = originalJob.job_id;
+  const userId = originalJob.user_id;
+  const videoId = originalJob.video_id;
+  const retryAttempt = originalJob.retry_count + 1;
+
+  // Find the video file
+  const video = await getUserVideo(userId, videoId, createAdminClient());
+
+  if (!video) {
+    return null;
+  }
+
+  // r2_key is user-editable; only the video's own upload is sent to the worker
+  if (!isUploadKeyOf(video.r2_key, userId, videoId)) {
+    throw new Error(`Video ${videoId} has an invalid storage key`);
+  }
+
+  // Generate new job ID for the retry
+  const newJobId = `${videoId}-retry-${retryAttempt}-${Date.now()}`;
+
+  // Goes through the queue like any other job, so plan limits still apply
+  await enqueueAnalysisJob({
+    jobId: newJobId,
+    userId,
+    videoId,
+    videoKey: video.r2_key,
+    webhookUrl,
+    input: {
+      session_id: videoId,
+      retry_attempt: retryAttempt,
+      parent_job_id: jobId, // Link to original job
+    },
+    parentJobId: jobId,
+    retryCount: retryAttempt,
+  });
+
+  await dispatchQueuedJobs();
+
+  const newJob = await getProcessingJob(newJobId, createAdminClient());
+  const runpodJobId = newJob?.runpod_job_id ?? null;
+
+  console.log('✅ Retry job queued:', { newJobId, runpodJobId });
+
+  // Mark original job as superseded
+  await updateJobStatus({
+    jobId,
+    status: 'cancelled',
+    error: `Superseded by retry job: ${newJobId}`,
+  }, client ?? createAdminClient());
+
+  return { newJobId, runpodJobId, retryAttempt };
+}
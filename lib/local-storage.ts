@@ -0,0 +1,358 @@
+import crypto from 'crypto';
+import path from 'path';
+import { createReadStream, createWriteStream } from 'fs';
+import { mkdir, readFile, readdir, rename, rm, stat, writeFile } from 'fs/promises';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import type {
+  StorageBody,
+  StorageListEntry,
+  StorageObject,
+  StorageObjectInfo,
+  StoragePart,
+  StoragePresignOptions,
+  StorageUploadedPart,
+  StoragePutOptions,
+  StorageProvider,
+} from './storage';
+import { openToken, sealToken } from './file-tokens';
+
+const PRESIGN_EXPIRY_SECONDS = 3600; // 1 hour
+
+/**
+ * What a presigned local storage URL allows, sealed into its token
+ */
+export interface LocalStorageGrant {
+  k: string; // Object key
+  m: 'GET' | 'PUT';
+  u?: string; // Multipart upload ID, for part uploads
+  p?: number; // Part number, for part uploads
+  t?: string; // Content type to store, for PUT
+  md?: Record<string, string>; // Metadata to store, for PUT
+  d?: string; // Content-Disposition to respond with, for GET
+  e: number; // Expiry, unix seconds
+}
+
+interface StoredMeta {
+  contentType?: string;
+  metadata: Record<string, string>;
+}
+
+interface MultipartState extends StoredMeta {
+  key: string;
+}
+
+/**
+ * The grant in a presigned local storage URL's token, or null if it is
+ * invalid or expired
+ */
+export function verifyLocalStorageGrant(token: string | null): LocalStorageGrant | null {
+  const grant = openToken<LocalStorageGrant>(token);
+  if (!grant || typeof grant.k !== 'string' || (grant.m !== 'GET' && grant.m !== 'PUT')) return null;
+  return grant;
+}
+
+function toNodeStream(body: StorageBody): Readable {
+  if (typeof body === 'string' || body instanceof Uint8Array) {
+    return Readable.from([Buffer.from(body)]);
+  }
+  return Readable.fromWeb(body as NodeReadableStream<Uint8Array>);
+}
+
+function isMissing(error: unknown): boolean {
+  return !!error && typeof error === 'object' && (error as NodeJS.ErrnoException).code === 'ENOENT';
+}
+
+/**
+ * Objects in a directory on disk (STORAGE_PROVIDER=local)
+ *
+ * Layout under STORAGE_LOCAL_DIR (default .storage):
+ * - objects/<key>             object bodies
+ * - meta/<key>.json           content type and metadata
+ * - multipart/<uploadId>/     in-progress multipart uploads
+ * - tmp/                      writes in flight, renamed into place when done
+ *
+ * Presigned URLs point at /api/storage/local with a token sealed by
+ * FILE_TOKEN_SECRET, standing in for R2's signed URLs.
+ */
+export class LocalStorageProvider implements StorageProvider {
+  readonly name = 'local';
+  private root = path.resolve(process.env.STORAGE_LOCAL_DIR || '.storage');
+
+  async get(key: string, options: { range?: { start: number; end?: number } } = {}): Promise<StorageObject | null> {
+    const info = await this.head(key);
+    if (!info) return null;
+
+    const { range } = options;
+    const start = range?.start ?? 0;
+    const end = Math.min(range?.end ?? info.size - 1, info.size - 1);
+    const contentLength = Math.max(0, end - start + 1);
+
+    // An empty stream for empty objects and ranges past the end
+    const stream = contentLength > 0
+      ? createReadStream(this.objectPath(key), { start, end })
+      : Readable.from([]);
+
+    return {
+      ...info,
+      body: Readable.toWeb(stream) as unknown as ReadableStream<Uint8Array>,
+      contentLength,
+      contentRange: range ? `bytes ${start}-${end}/${info.size}` : undefined,
+    };
+  }
+
+  async put(key: string, body: StorageBody, options: StoragePutOptions = {}): Promise<void> {
+    await this.writeFileAtomic(this.objectPath(key), toNodeStream(body));
+    await this.writeMeta(key, { contentType: options.contentType, metadata: options.metadata ?? {} });
+  }
+
+  async head(key: string): Promise<StorageObjectInfo | null> {
+    let stats;
+    try {
+      stats = await stat(this.objectPath(key));
+    } catch (error) {
+      if (isMissing(error)) return null;
+      throw error;
+    }
+    if (!stats.isFile()) return null;
+
+    const meta = await this.readMeta(key);
+    return {
+      key,
+      size: stats.size,
+      lastModified: stats.mtime,
+      contentType: meta.contentType,
+      metadata: meta.metadata,
+    };
+  }
+
+  async list(prefix: string, options: { maxKeys?: number } = {}): Promise<StorageListEntry[]> {
+    const objectsDir = path.join(this.root, 'objects');
+    let files: string[];
+    try {
+      files = await readdir(objectsDir, { recursive: true });
+    } catch (error) {
+      if (isMissing(error)) return [];
+      throw error;
+    }
+
+    const keys = files
+      .map(file => file.split(path.sep).join('/'))
+      .filter(key => key.startsWith(prefix))
+      .sort();
+
+    const entries: StorageListEntry[] = [];
+    for (const key of keys) {
+      if (entries.length >= (options.maxKeys ?? Infinity)) break;
+      const stats = await stat(path.join(objectsDir, key));
+      if (!stats.isFile()) continue;
+      entries.push({ key, size: stats.size, lastModified: stats.mtime });
+    }
+    return entries;
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.objectPath(key), { force: true });
+    await rm(this.metaPath(key), { force: true });
+  }
+
+  async presign(key: string, options: StoragePresignOptions = {}): Promise<string> {
+    this.objectPath(key); // Reject bad keys now rather than when the URL is used
+
+    return this.signedUrl({
+      k: key,
+      m: options.method ?? 'GET',
+      t: options.contentType,
+      md: options.metadata,
+      d: options.contentDisposition,
+      e: Math.floor(Date.now() / 1000) + (options.expiresIn ?? PRESIGN_EXPIRY_SECONDS),
+    });
+  }
+
+  async createMultipartUpload(key: string, options: StoragePutOptions = {}): Promise<string> {
+    this.objectPath(key);
+
+    const uploadId = crypto.randomUUID();
+    const state: MultipartState = { key, contentType: options.contentType, metadata: options.metadata ?? {} };
+    await mkdir(this.uploadDir(uploadId), { recursive: true });
+    await writeFile(path.join(this.uploadDir(uploadId), 'upload.json'), JSON.stringify(state));
+    return uploadId;
+  }
+
+  async presignUploadPart(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    expiresIn: number = PRESIGN_EXPIRY_SECONDS
+  ): Promise<string> {
+    await this.readUpload(key, uploadId);
+
+    return this.signedUrl({
+      k: key,
+      m: 'PUT',
+      u: uploadId,
+      p: partNumber,
+      e: Math.floor(Date.now() / 1000) + expiresIn,
+    });
+  }
+
+  /**
+   * Store one part of a multipart upload; resolves with its ETag. Called by
+   * /api/storage/local for presigned part URLs.
+   */
+  async writeUploadPart(key: string, uploadId: string, partNumber: number, body: StorageBody): Promise<string> {
+    await this.readUpload(key, uploadId);
+
+    const partPath = path.join(this.uploadDir(uploadId), `${partNumber}.part`);
+    const hash = crypto.createHash('md5');
+    const source = toNodeStream(body);
+    await this.writeFileAtomic(partPath, Readable.from((async function* () {
+      for await (const chunk of source) {
+        hash.update(chunk);
+        yield chunk;
+      }
+    })()));
+
+    const etag = `"${hash.digest('hex')}"`;
+    await writeFile(`${partPath}.etag`, etag);
+    return etag;
+  }
+
+  async listParts(key: string, uploadId: string): Promise<StorageUploadedPart[] | null> {
+    const uploadDir = this.uploadDir(uploadId);
+    const exists = await stat(path.join(uploadDir, 'upload.json')).then(
+      () => true,
+      error => {
+        if (isMissing(error)) return false;
+        throw error;
+      }
+    );
+    if (!exists) return null;
+
+    await this.readUpload(key, uploadId); // Checks the upload is for this key
+    const parts: StorageUploadedPart[] = [];
+
+    for (const name of await readdir(uploadDir)) {
+      const match = name.match(/^(\d+)\.part\.etag$/);
+      if (!match) continue;
+
+      const partPath = path.join(uploadDir, `${match[1]}.part`);
+      const [etag, info] = await Promise.all([readFile(`${partPath}.etag`, 'utf-8'), stat(partPath)]);
+      parts.push({ partNumber: Number(match[1]), etag, size: info.size });
+    }
+
+    return parts.sort((a, b) => a.partNumber - b.partNumber);
+  }
+
+  async completeMultipartUpload(key: string, uploadId: string, parts: StoragePart[]): Promise<void> {
+    const state = await this.readUpload(key, uploadId);
+    const ordered = [...parts].sort((a, b) => a.partNumber - b.partNumber);
+
+    for (const part of ordered) {
+      const partPath = path.join(this.uploadDir(uploadId), `${part.partNumber}.part`);
+      const etag = await readFile(`${partPath}.etag`, 'utf-8').catch(() => null);
+      if (etag === null || etag.replace(/"/g, '') !== part.etag.replace(/"/g, '')) {
+        throw new Error(`Part ${part.partNumber} of upload ${uploadId} is missing or its ETag doesn't match`);
+      }
+    }
+
+    const uploadDir = this.uploadDir(uploadId);
+    const joined = Readable.from((async function* () {
+      for (const part of ordered) {
+        yield* createReadStream(path.join(uploadDir, `${part.partNumber}.part`));
+      }
+    })());
+
+    await this.writeFileAtomic(this.objectPath(key), joined);
+    await this.writeMeta(key, { contentType: state.contentType, metadata: state.metadata });
+    await rm(uploadDir, { recursive: true, force: true });
+  }
+
+  async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    await this.readUpload(key, uploadId);
+    await rm(this.uploadDir(uploadId), { recursive: true, force: true });
+  }
+
+  private signedUrl(grant: LocalStorageGrant): string {
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+    return `${baseUrl}/api/storage/local?token=${encodeURIComponent(sealToken(grant))}`;
+  }
+
+  /**
+   * Path of an object's body. Keys that would escape the objects directory
+   * are rejected.
+   */
+  private objectPath(key: string): string {
+    const objectsDir = path.join(this.root, 'objects');
+    const resolved = path.resolve(objectsDir, key);
+    if (!key || !resolved.startsWith(objectsDir + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return resolved;
+  }
+
+  private metaPath(key: string): string {
+    this.objectPath(key);
+    return path.join(this.root, 'meta', `${key}.json`);
+  }
+
+  private uploadDir(uploadId: string): string {
+    if (!/^[0-9a-f-]+$/i.test(uploadId)) {
+      throw new Error(`Invalid upload ID: ${uploadId}`);
+    }
+    return path.join(this.root, 'multipart', uploadId);
+  }
+
+  private async readUpload(key: string, uploadId: string): Promise<MultipartState> {
+    let state: MultipartState;
+    try {
+      state = JSON.parse(await readFile(path.join(this.uploadDir(uploadId), 'upload.json'), 'utf-8'));
+    } catch (error) {
+      if (isMissing(error)) throw new Error(`No such multipart upload: ${uploadId}`);
+      throw error;
+    }
+    if (state.key !== key) {
+      throw new Error(`Multipart upload ${uploadId} is not for ${key}`);
+    }
+    return state;
+  }
+
+  private async readMeta(key: string): Promise<StoredMeta> {
+    try {
+      return JSON.parse(await readFile(this.metaPath(key), 'utf-8'));
+    } catch (error) {
+      if (isMissing(error)) return { metadata: {} };
+      throw error;
+    }
+  }
+
+  private async writeMeta(key: string, meta: StoredMeta): Promise<void> {
+    // Metadata keys come back lowercase, as they do from R2
+    const metadata = Object.fromEntries(
+      Object.entries(meta.metadata).map(([name, value]) => [name.toLowerCase(), value])
+    );
+    const metaPath = this.metaPath(key);
+    await mkdir(path.dirname(metaPath), { recursive: true });
+    await writeFile(metaPath, JSON.stringify({ contentType: meta.contentType, metadata }));
+  }
+
+  /**
+   * Write to a temporary file and rename it into place, so readers never see
+   * a partial file
+   */
+  private async writeFileAtomic(filePath: string, source: Readable): Promise<void> {
+    const tmpDir = path.join(this.root, 'tmp');
+    const tmpPath = path.join(tmpDir, crypto.randomUUID());
+    await mkdir(tmpDir, { recursive: true });
+    await mkdir(path.dirname(filePath), { recursive: true });
+
+    try {
+      await pipeline(source, createWriteStream(tmpPath));
+      await rename(tmpPath, filePath);
+    } catch (error) {
+      await rm(tmpPath, { force: true });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,244 @@
+import crypto from 'crypto';
+import type {
+  ComputeBackend,
+  ComputeHealth,
+  ComputeJobInput,
+  ComputeJobState,
+  ComputeJobStatus,
+} from './compute-backend';
+import { uploadAnalysisFile } from './r2';
+import { WEBHOOK_SIGNATURE_HEADER, WEBHOOK_TIMESTAMP_HEADER } from './webhook-auth';
+import { logError, logSuccess, logWarn } from './logger';
+import successScenario from './mock-compute-fixtures/success.json';
+import workerFailureScenario from './mock-compute-fixtures/worker-failure.json';
+import positionAnalysis from './mock-compute-fixtures/position_analysis.json';
+import correctedPositions from './mock-compute-fixtures/corrected_positions.json';
+import pose from './mock-compute-fixtures/pose.json';
+import shuttle from './mock-compute-fixtures/shuttle.json';
+
+/**
+ * In-process stand-in for the GPU worker (COMPUTE_BACKEND=mock)
+ *
+ * Each job replays a webhook sequence recorded from the real worker
+ * (lib/mock-compute-fixtures), signed with the job's webhook secret like the
+ * worker signs them. Before the final `completed` event it writes fixture
+ * artifacts to the video's folder in R2, with the uploaded video itself as
+ * analyzed_video.mp4, so results pages, reports and exports have data.
+ *
+ * MOCK_COMPUTE_SCENARIO=success|worker_failure picks the sequence. Jobs live
+ * in this process's memory, so after a restart they're unknown (status null),
+ * as expired RunPod jobs are.
+ */
+
+interface RecordedEvent {
+  delayMs: number; // Since the previous event
+  writeArtifacts?: boolean; // Write fixture artifacts before sending this one
+  body: {
+    step?: string;
+    status: 'running' | 'completed' | 'failed';
+    progress?: number;
+    stage?: string;
+    error?: string;
+    results?: Record<string, unknown>;
+  };
+}
+
+interface RecordedScenario {
+  description: string;
+  events: RecordedEvent[];
+}
+
+interface MockJob {
+  id: string;
+  input: ComputeJobInput;
+  status: ComputeJobState;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  output?: Record<string, unknown>;
+  error?: string;
+}
+
+const SCENARIOS: Record<string, RecordedScenario> = {
+  success: successScenario as RecordedScenario,
+  worker_failure: workerFailureScenario as RecordedScenario,
+};
+
+const CALIBRATION_CSV = [
+  'point,image_x,image_y,court_x,court_y',
+  'far_left,402,176,0,0',
+  'far_right,878,176,6.1,0',
+  'near_right,1104,662,6.1,13.4',
+  'near_left,176,662,0,13.4',
+].join('\n');
+
+const FINISHED_STATES: ComputeJobState[] = ['COMPLETED', 'FAILED', 'CANCELLED', 'TIMED_OUT'];
+
+export class MockComputeBackend implements ComputeBackend {
+  readonly name = 'mock';
+  private jobs: Map<string, MockJob> = new Map();
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async submit(input: ComputeJobInput): Promise<{ id: string }> {
+    const scenarioName = process.env.MOCK_COMPUTE_SCENARIO || 'success';
+    const scenario = SCENARIOS[scenarioName];
+
+    if (!scenario) {
+      throw new Error(`Unknown MOCK_COMPUTE_SCENARIO: ${scenarioName}`);
+    }
+
+    const job: MockJob = {
+      id: `mock-${crypto.randomUUID()}`,
+      input,
+      status: 'IN_QUEUE',
+      createdAt: Date.now(),
+    };
+    this.jobs.set(job.id, job);
+
+    // Runs after the response, like a worker picking the job up
+    this.replay(job, scenario).catch(async error => {
+      logError(`Mock compute job ${job.id} crashed`, error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.finish(job, 'FAILED', { error: message });
+      await this.sendWebhook(job, { status: 'failed', error: message });
+    });
+
+    return { id: job.id };
+  }
+
+  async status(computeJobId: string): Promise<ComputeJobStatus | null> {
+    const job = this.jobs.get(computeJobId);
+    if (!job) return null;
+
+    return {
+      id: job.id,
+      status: job.status,
+      output: job.output,
+      error: job.error,
+      delayTime: job.startedAt ? job.startedAt - job.createdAt : undefined,
+      executionTime: job.startedAt && job.finishedAt ? job.finishedAt - job.startedAt : undefined,
+    };
+  }
+
+  async cancel(computeJobId: string): Promise<ComputeJobState | null> {
+    const job = this.jobs.get(computeJobId);
+    if (!job) return null;
+
+    if (!FINISHED_STATES.includes(job.status)) {
+      this.finish(job, 'CANCELLED');
+    }
+    return job.status;
+  }
+
+  async health(): Promise<ComputeHealth> {
+    const jobs = Array.from(this.jobs.values());
+    const count = (status: ComputeJobState) => jobs.filter(job => job.status === status).length;
+
+    return {
+      healthy: true,
+      workers: { idle: count('IN_PROGRESS') > 0 ? 0 : 1, running: count('IN_PROGRESS') },
+      jobs: {
+        inQueue: count('IN_QUEUE'),
+        inProgress: count('IN_PROGRESS'),
+        completed: count('COMPLETED'),
+        failed: count('FAILED'),
+      },
+    };
+  }
+
+  private async replay(job: MockJob, scenario: RecordedScenario): Promise<void> {
+    for (const event of scenario.events) {
+      await new Promise(resolve => setTimeout(resolve, event.delayMs));
+
+      // Cancelled while waiting
+      if (job.status !== 'IN_QUEUE' && job.status !== 'IN_PROGRESS') return;
+
+      if (job.status === 'IN_QUEUE') {
+        job.status = 'IN_PROGRESS';
+        job.startedAt = Date.now();
+      }
+
+      if (event.writeArtifacts) {
+        await this.writeArtifacts(job);
+      }
+
+      await this.sendWebhook(job, event.body);
+
+      if (event.body.status === 'completed') {
+        this.finish(job, 'COMPLETED', { output: event.body.results ?? {} });
+      } else if (event.body.status === 'failed') {
+        this.finish(job, 'FAILED', { error: event.body.error });
+      }
+    }
+  }
+
+  private finish(job: MockJob, status: ComputeJobState, { output, error }: { output?: Record<string, unknown>; error?: string } = {}): void {
+    job.status = status;
+    job.finishedAt = Date.now();
+    job.output = output;
+    job.error = error;
+  }
+
+  private async writeArtifacts(job: MockJob): Promise<void> {
+    const userId = job.input.user_id;
+    const videoId = job.input.session_id || job.input.video_id;
+
+    if (!videoId) {
+      throw new Error('Mock compute job has no session_id or video_id');
+    }
+
+    const json = (data: unknown) => JSON.stringify(data, null, 2);
+
+    await uploadAnalysisFile(userId, videoId, 'calibration.csv', CALIBRATION_CSV, 'text/csv');
+    await uploadAnalysisFile(userId, videoId, 'pose.json', json(pose), 'application/json');
+    await uploadAnalysisFile(userId, videoId, 'shuttle.json', json(shuttle), 'application/json');
+    await uploadAnalysisFile(userId, videoId, 'corrected_positions.json', json(correctedPositions), 'application/json');
+    await uploadAnalysisFile(userId, videoId, 'position_analysis.json', json(positionAnalysis), 'application/json');
+
+    // The source video stands in for the rendered one
+    const response = await fetch(job.input.video_url);
+    if (!response.ok) {
+      throw new Error(`Failed to download source video: ${response.status}`);
+    }
+    const video = Buffer.from(await response.arrayBuffer());
+    await uploadAnalysisFile(userId, videoId, 'analyzed_video.mp4', video, 'video/mp4');
+
+    logSuccess('Mock compute artifacts written', { jobId: job.input.job_id, videoId });
+  }
+
+  /**
+   * POST an event to the job's webhook, signed as the worker would
+   */
+  private async sendWebhook(job: MockJob, body: RecordedEvent['body']): Promise<void> {
+    if (!job.input.webhook_url) return;
+
+    const rawBody = JSON.stringify({ jobId: job.input.job_id, ...body });
+    const timestamp = Math.floor(Date.now() / 1000);
+    const digest = crypto
+      .createHmac('sha256', job.input.webhook_secret)
+      .update(`${timestamp}.${rawBody}`)
+      .digest('hex');
+
+    try {
+      const response = await fetch(job.input.webhook_url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+          [WEBHOOK_SIGNATURE_HEADER]: `sha256=${digest}`,
+        },
+        body: rawBody,
+      });
+
+      if (!response.ok) {
+        logWarn(`Mock compute webhook rejected: ${response.status}`, { jobId: job.input.job_id });
+      }
+    } catch (error) {
+      // The real worker carries on when a webhook can't be delivered
+      logWarn('Mock compute webhook failed', { jobId: job.input.job_id, error });
+    }
+  }
+}
@@ -0,0 +1,326 @@
+import { deflateSync, inflateSync } from 'zlib';
+
+/**
+ * Minimal PDF writer for server-side reports.
+ *
+ * Supports the standard Helvetica fonts, lines, rectangles and JPEG/PNG
+ * images, which is all the match reports need, without pulling a headless
+ * browser or a PDF library into the server bundle. Coordinates are in points
+ * with the origin at the top-left of the page.
+ */
+
+export const PAGE_WIDTH = 595.28;  // A4
+export const PAGE_HEIGHT = 841.89;
+
+export interface PdfImage {
+  width: number;
+  height: number;
+  colorSpace: 'DeviceGray' | 'DeviceRGB' | 'DeviceCMYK';
+  filter: 'DCTDecode' | 'FlateDecode';
+  data: Buffer;
+  alpha?: Buffer; // deflated 8-bit alpha channel
+}
+
+interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: string;
+}
+
+interface ShapeOptions {
+  fill?: string;
+  stroke?: string;
+  lineWidth?: number;
+}
+
+function hexToRgb(hex: string): string {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255]
+    .map(channel => (channel / 255).toFixed(3))
+    .join(' ');
+}
+
+// Standard fonts use WinAnsiEncoding, so anything outside Latin-1 becomes "?"
+function encodeText(text: string): string {
+  return text
+    .replace(/[^\x20-\xff]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+}
+
+const num = (value: number) => (Math.round(value * 100) / 100).toString();
+
+/**
+ * Approximate Helvetica text width. Good enough for wrapping and right
+ * alignment without embedding font metrics.
+ */
+export function measureText(text: string, size: number, bold = false): number {
+  let units = 0;
+  for (const char of text) {
+    if (char === ' ') units += 0.28;
+    else if ('il.,:;|!\''.includes(char)) units += 0.26;
+    else if ('mwMW'.includes(char)) units += 0.85;
+    else if (char >= 'A' && char <= 'Z') units += 0.68;
+    else units += 0.55;
+  }
+  return units * size * (bold ? 1.06 : 1);
+}
+
+/**
+ * Split text into lines that fit within maxWidth
+ */
+export function wrapText(text: string, maxWidth: number, size: number, bold = false): string[] {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && measureText(candidate, size, bold) > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+
+  return lines;
+}
+
+function readJpeg(data: Buffer): PdfImage | null {
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) return null;
+    const marker = data[offset + 1];
+    const length = data.readUInt16BE(offset + 2);
+    // SOF0-SOF15, excluding DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+      const components = data[offset + 9];
+      return {
+        height: data.readUInt16BE(offset + 5),
+        width: data.readUInt16BE(offset + 7),
+        colorSpace: components === 1 ? 'DeviceGray' : components === 4 ? 'DeviceCMYK' : 'DeviceRGB',
+        filter: 'DCTDecode',
+        data,
+      };
+    }
+    offset += 2 + length;
+  }
+  return null;
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+}
+
+// 8-bit, non-interlaced PNGs only; that covers the court renders we produce
+function readPng(data: Buffer): PdfImage | null {
+  let offset = 8;
+  let width = 0;
+  let height = 0;
+  let colorType = 0;
+  let palette: Buffer | null = null;
+  const idat: Buffer[] = [];
+
+  while (offset + 8 <= data.length) {
+    const length = data.readUInt32BE(offset);
+    const type = data.toString('ascii', offset + 4, offset + 8);
+    const chunk = data.subarray(offset + 8, offset + 8 + length);
+
+    if (type === 'IHDR') {
+      width = chunk.readUInt32BE(0);
+      height = chunk.readUInt32BE(4);
+      colorType = chunk[9];
+      if (chunk[8] !== 8 || chunk[12] !== 0) return null;
+    } else if (type === 'PLTE') {
+      palette = chunk;
+    } else if (type === 'IDAT') {
+      idat.push(chunk);
+    } else if (type === 'IEND') {
+      break;
+    }
+    offset += 12 + length;
+  }
+
+  const channels = ({ 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 } as Record<number, number>)[colorType];
+  if (!channels || !width || !height || (colorType === 3 && !palette)) return null;
+
+  const raw = inflateSync(Buffer.concat(idat));
+  const stride = width * channels;
+  const pixels = Buffer.alloc(stride * height);
+
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const row = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    const out = y * stride;
+    for (let x = 0; x < stride; x++) {
+      const left = x >= channels ? pixels[out + x - channels] : 0;
+      const up = y > 0 ? pixels[out - stride + x] : 0;
+      const upLeft = y > 0 && x >= channels ? pixels[out - stride + x - channels] : 0;
+      const predictor = filter === 1 ? left
+        : filter === 2 ? up
+        : filter === 3 ? (left + up) >> 1
+        : filter === 4 ? paeth(left, up, upLeft)
+        : 0;
+      pixels[out + x] = (row[x] + predictor) & 255;
+    }
+  }
+
+  const colorChannels = colorType === 0 || colorType === 4 ? 1 : 3;
+  const color = Buffer.alloc(width * height * colorChannels);
+  const alpha = colorType === 4 || colorType === 6 ? Buffer.alloc(width * height) : null;
+
+  for (let i = 0; i < width * height; i++) {
+    if (colorType === 3) {
+      palette!.copy(color, i * 3, pixels[i] * 3, pixels[i] * 3 + 3);
+    } else {
+      pixels.copy(color, i * colorChannels, i * channels, i * channels + colorChannels);
+      if (alpha) alpha[i] = pixels[i * channels + channels - 1];
+    }
+  }
+
+  return {
+    width,
+    height,
+    colorSpace: colorChannels === 1 ? 'DeviceGray' : 'DeviceRGB',
+    filter: 'FlateDecode',
+    data: deflateSync(color),
+    alpha: alpha ? deflateSync(alpha) : undefined,
+  };
+}
+
+/**
+ * Prepare a JPEG or PNG for embedding. Returns null for formats we can't embed.
+ */
+export function loadPdfImage(data: Buffer): PdfImage | null {
+  try {
+    if (data[0] === 0xff && data[1] === 0xd8) return readJpeg(data);
+    if (data.toString('ascii', 1, 4) === 'PNG') return readPng(data);
+  } catch {
+    // Corrupt image - leave it out of the report
+  }
+  return null;
+}
+
+export class PdfDocument {
+  private pages: string[][] = [];
+  private images: PdfImage[] = [];
+
+  constructor() {
+    this.addPage();
+  }
+
+  addPage() {
+    this.pages.push([]);
+  }
+
+  private get ops(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  text(x: number, y: number, text: string, { size = 10, bold = false, color = '#111827' }: TextOptions = {}) {
+    this.ops.push(
+      `BT /${bold ? 'F2' : 'F1'} ${num(size)} Tf ${hexToRgb(color)} rg ${num(x)} ${num(PAGE_HEIGHT - y)} Td (${encodeText(text)}) Tj ET`
+    );
+  }
+
+  rect(x: number, y: number, width: number, height: number, { fill, stroke, lineWidth = 1 }: ShapeOptions) {
+    const paint = fill && stroke ? 'B' : fill ? 'f' : 'S';
+    this.ops.push([
+      fill ? `${hexToRgb(fill)} rg` : '',
+      stroke ? `${hexToRgb(stroke)} RG ${num(lineWidth)} w` : '',
+      `${num(x)} ${num(PAGE_HEIGHT - y - height)} ${num(width)} ${num(height)} re ${paint}`,
+    ].filter(Boolean).join(' '));
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, { stroke = '#d1d5db', lineWidth = 1 }: ShapeOptions = {}) {
+    this.ops.push(
+      `${hexToRgb(stroke)} RG ${num(lineWidth)} w ${num(x1)} ${num(PAGE_HEIGHT - y1)} m ${num(x2)} ${num(PAGE_HEIGHT - y2)} l S`
+    );
+  }
+
+  image(image: PdfImage, x: number, y: number, width: number, height: number) {
+    let index = this.images.indexOf(image);
+    if (index === -1) {
+      index = this.images.length;
+      this.images.push(image);
+    }
+    this.ops.push(`q ${num(width)} 0 0 ${num(height)} ${num(x)} ${num(PAGE_HEIGHT - y - height)} cm /Im${index} Do Q`);
+  }
+
+  toBuffer(): Buffer {
+    const objects: Buffer[] = [];
+    const addObject = (body: string, stream?: Buffer) => {
+      const parts: Uint8Array[] = [Buffer.from(body, 'latin1')];
+      if (stream) {
+        parts.push(Buffer.from('\nstream\n'), stream, Buffer.from('\nendstream'));
+      }
+      objects.push(Buffer.concat(parts));
+      return objects.length;
+    };
+
+    // Object ids are assigned in order: catalog, page tree, fonts, images, pages
+    const catalogId = addObject('<< /Type /Catalog /Pages 2 0 R >>');
+    const pagesId = catalogId + 1;
+    objects.push(Buffer.alloc(0)); // page tree, filled in once page ids are known
+    const regularFontId = addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    const boldFontId = addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+    const imageIds = this.images.map(image => {
+      const maskId = image.alpha
+        ? addObject(`<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceGray /BitsPerComponent 8 /Filter /FlateDecode /Length ${image.alpha.length} >>`, image.alpha)
+        : null;
+      return addObject(
+        `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /${image.colorSpace} /BitsPerComponent 8 /Filter /${image.filter}${maskId ? ` /SMask ${maskId} 0 R` : ''} /Length ${image.data.length} >>`,
+        image.data
+      );
+    });
+
+    const xObjects = imageIds.map((id, index) => `/Im${index} ${id} 0 R`).join(' ');
+    const resources = `<< /Font << /F1 ${regularFontId} 0 R /F2 ${boldFontId} 0 R >>${xObjects ? ` /XObject << ${xObjects} >>` : ''} >>`;
+
+    const pageIds = this.pages.map(ops => {
+      const content = deflateSync(Buffer.from(ops.join('\n'), 'latin1'));
+      const contentId = addObject(`<< /Length ${content.length} /Filter /FlateDecode >>`, content);
+      return addObject(
+        `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources ${resources} /Contents ${contentId} 0 R >>`
+      );
+    });
+
+    objects[pagesId - 1] = Buffer.from(
+      `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`,
+      'latin1'
+    );
+
+    const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+    let length = chunks[0].length;
+    const offsets: number[] = [];
+
+    objects.forEach((object, index) => {
+      offsets.push(length);
+      const chunk = Buffer.concat([Buffer.from(`${index + 1} 0 obj\n`), object, Buffer.from('\nendobj\n')]);
+      chunks.push(chunk);
+      length += chunk.length;
+    });
+
+    const xref = [
+      'xref',
+      `0 ${objects.length + 1}`,
+      '0000000000 65535 f ',
+      ...offsets.map(offset => `${offset.toString().padStart(10, '0')} 00000 n `),
+      'trailer',
+      `<< /Size ${objects.length + 1} /Root ${catalogId} 0 R >>`,
+      'startxref',
+      length.toString(),
+      '%%EOF',
+    ].join('\n');
+    chunks.push(Buffer.from(xref + '\n', 'latin1'));
+
+    return Buffer.concat(chunks);
+  }
+}
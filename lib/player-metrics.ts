@@ -0,0 +1,106 @@
+/**
+ * Per-player metrics pulled out of position_analysis.json.
+ *
+ * position_analysis.json is keyed by tracked player id (`player_0`, ...) and
+ * every section is optional depending on what the worker could compute, so
+ * missing values come back as null rather than 0.
+ */
+
+export interface PlayerMetrics {
+  distanceM: number | null;
+  averageSpeedMs: number | null;
+  timeTrackedSeconds: number | null;
+  averageRecoverySpeedMs: number | null;
+  offensivePercent: number | null;
+  neutralPercent: number | null;
+  defensivePercent: number | null;
+}
+
+export interface PlayerMetricsSummary {
+  videoCount: number;
+  totalDistanceM: number;
+  totalTimeTrackedSeconds: number;
+  averageSpeedMs: number | null;
+  averageRecoverySpeedMs: number | null;
+  offensivePercent: number | null;
+  defensivePercent: number | null;
+}
+
+/**
+ * Parse position_analysis.json, tolerating the Infinity/NaN values the worker
+ * sometimes writes
+ */
+export function parsePositionAnalysis(contents: string): Record<string, unknown> {
+  try {
+    return JSON.parse(contents);
+  } catch {
+    const sanitized = contents
+      .replace(/:\s*-?Infinity/g, ': null')
+      .replace(/:\s*NaN/g, ': null');
+    return JSON.parse(sanitized);
+  }
+}
+
+function toNumber(value: unknown): number | null {
+  const number = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : null;
+}
+
+function getSection(source: unknown, ...path: string[]): Record<string, unknown> | undefined {
+  let current = source;
+  for (const key of path) {
+    if (!current || typeof current !== 'object') return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current && typeof current === 'object' ? current as Record<string, unknown> : undefined;
+}
+
+/**
+ * Metrics for one tracked player, or null if the player isn't in the analysis
+ */
+export function extractPlayerMetrics(analysis: Record<string, unknown>, trackedPlayerId: string): PlayerMetrics | null {
+  const player = getSection(analysis, 'players', trackedPlayerId);
+  if (!player) return null;
+
+  const recovery = getSection(player, 'movement_efficiency', 'recovery_speed');
+  const stance = getSection(player, 'positioning_strategy', 'offensive_defensive');
+
+  return {
+    distanceM: toNumber(player.total_distance_m),
+    averageSpeedMs: toNumber(player.average_speed_m_s),
+    timeTrackedSeconds: toNumber(player.time_tracked_seconds),
+    averageRecoverySpeedMs: toNumber(recovery?.average_recovery_speed_m_s),
+    offensivePercent: toNumber(stance?.offensive_percent),
+    neutralPercent: toNumber(stance?.neutral_percent),
+    defensivePercent: toNumber(stance?.defensive_percent),
+  };
+}
+
+/**
+ * Combine per-video metrics. Rates and percentages are weighted by time
+ * tracked so a short clip doesn't count as much as a full match.
+ */
+export function summarizePlayerMetrics(metrics: PlayerMetrics[]): PlayerMetricsSummary {
+  const weightedAverage = (pick: (m: PlayerMetrics) => number | null) => {
+    let total = 0;
+    let weight = 0;
+    for (const m of metrics) {
+      const value = pick(m);
+      if (value === null) continue;
+      const w = m.timeTrackedSeconds ?? 1;
+      total += value * w;
+      weight += w;
+    }
+    return weight > 0 ? Math.round((total / weight) * 100) / 100 : null;
+  };
+
+  return {
+    videoCount: metrics.length,
+    totalDistanceM: Math.round(metrics.reduce((sum, m) => sum + (m.distanceM ?? 0), 0) * 100) / 100,
+    totalTimeTrackedSeconds: Math.round(metrics.reduce((sum, m) => sum + (m.timeTrackedSeconds ?? 0), 0) * 10) / 10,
+    averageSpeedMs: weightedAverage(m => m.averageSpeedMs),
+    averageRecoverySpeedMs: weightedAverage(m => m.averageRecoverySpeedMs),
+    offensivePercent: weightedAverage(m => m.offensivePercent),
+    defensivePercent: weightedAverage(m => m.defensivePercent),
+  };
+}
@@ -0,0 +1,308 @@
+/**
+ * Player position data utilities
+ *
+ * corrected_positions.json holds per-frame court positions (in metres) for
+ * each tracked player. Like shuttle.json its layout has varied between worker
+ * versions, so these helpers normalize it into frame-ordered player positions
+ * keyed by the same `player_N` ids used in position_analysis.json.
+ */
+
+export const DEFAULT_POSITION_FPS = 30;
+
+// Court coordinates are in metres with the origin at the far-left corner as
+// seen from the camera: x runs across the court, y runs towards the camera.
+export const COURT_WIDTH_M = 6.1;
+export const COURT_LENGTH_M = 13.4;
+export const NET_Y_M = COURT_LENGTH_M / 2;
+
+export interface PlayerPosition {
+  playerId: string; // e.g. 'player_0'
+  x: number;
+  y: number;
+}
+
+export interface PositionFrame {
+  frame: number;
+  time: number; // seconds from start of video
+  players: PlayerPosition[];
+}
+
+export interface PositionTrack {
+  fps: number;
+  frameCount: number;
+  playerIds: string[];
+  frames: PositionFrame[];
+}
+
+type RawRecord = Record<string, unknown>;
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function pick(record: RawRecord, keys: string[]): unknown {
+  for (const key of keys) {
+    if (key in record) return record[key];
+  }
+  return undefined;
+}
+
+function parseFrameKey(key: string): number | null {
+  const match = key.match(/(\d+)$/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+function normalizePlayerId(value: unknown, fallback: string): string {
+  const id = typeof value === 'number' || typeof value === 'string' ? String(value) : fallback;
+  return /^\d+$/.test(id) ? `player_${id}` : id;
+}
+
+function toCoordinates(record: RawRecord): { x: number; y: number } | null {
+  // Prefer court-space coordinates over image-space ones when both are present
+  const nested = pick(record, ['court_position', 'position', 'center_position', 'court_coords']);
+
+  if (Array.isArray(nested) && nested.length >= 2) {
+    const x = toNumber(nested[0]);
+    const y = toNumber(nested[1]);
+    return x !== null && y !== null ? { x, y } : null;
+  }
+  if (nested && typeof nested === 'object') {
+    const x = toNumber(pick(nested as RawRecord, ['x', 'X']));
+    const y = toNumber(pick(nested as RawRecord, ['y', 'Y']));
+    return x !== null && y !== null ? { x, y } : null;
+  }
+
+  const x = toNumber(pick(record, ['court_x', 'x', 'X']));
+  const y = toNumber(pick(record, ['court_y', 'y', 'Y']));
+  return x !== null && y !== null ? { x, y } : null;
+}
+
+function toPlayers(raw: unknown): PlayerPosition[] {
+  const players: PlayerPosition[] = [];
+
+  const add = (entry: unknown, fallbackId: string) => {
+    if (!entry || typeof entry !== 'object') return;
+    const record = entry as RawRecord;
+    const coordinates = toCoordinates(record);
+    if (!coordinates) return;
+    players.push({
+      playerId: normalizePlayerId(pick(record, ['player_id', 'playerId', 'track_id', 'id']), fallbackId),
+      ...coordinates,
+    });
+  };
+
+  if (Array.isArray(raw)) {
+    raw.forEach((entry, index) => add(entry, `player_${index}`));
+  } else if (raw && typeof raw === 'object') {
+    Object.entries(raw as RawRecord).forEach(([key, entry]) => add(entry, normalizePlayerId(key, key)));
+  }
+
+  return players;
+}
+
+function toFrame(raw: unknown, fallbackFrame: number, fps: number): PositionFrame | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+
+  const record = raw as RawRecord;
+  const frame = toNumber(pick(record, ['frame_index', 'frame', 'frame_number', 'Frame'])) ?? fallbackFrame;
+  const timestamp = toNumber(pick(record, ['timestamp', 'time', 'time_s']));
+  const players = toPlayers(pick(record, ['players', 'player_positions', 'positions']));
+
+  return {
+    frame,
+    time: timestamp ?? frame / fps,
+    players,
+  };
+}
+
+/**
+ * Normalize any known corrected_positions.json layout into a PositionTrack
+ */
+export function normalizePositionData(raw: unknown): PositionTrack {
+  let root: unknown = raw;
+  let meta: RawRecord = {};
+
+  if (root && typeof root === 'object' && !Array.isArray(root)) {
+    meta = root as RawRecord;
+    const inner = pick(meta, ['frame_data', 'frames', 'positions', 'data']);
+    if (inner !== undefined) {
+      root = inner;
+    }
+  }
+
+  const videoInfo = (pick(meta, ['video_info', 'metadata']) || {}) as RawRecord;
+  const fps = toNumber(pick(meta, ['fps', 'frame_rate'])) ||
+    toNumber(pick(videoInfo, ['fps', 'frame_rate'])) ||
+    DEFAULT_POSITION_FPS;
+
+  const frames: PositionFrame[] = [];
+
+  if (Array.isArray(root)) {
+    root.forEach((entry, index) => {
+      const frame = toFrame(entry, index, fps);
+      if (frame) frames.push(frame);
+    });
+  } else if (root && typeof root === 'object') {
+    Object.entries(root as RawRecord).forEach(([key, entry], index) => {
+      const frame = toFrame(entry, parseFrameKey(key) ?? index, fps);
+      if (frame) frames.push(frame);
+    });
+  }
+
+  frames.sort((a, b) => a.frame - b.frame);
+
+  const playerIds = new Set<string>();
+  frames.forEach(frame => frame.players.forEach(player => playerIds.add(player.playerId)));
+
+  return {
+    fps,
+    frameCount: frames.length,
+    playerIds: Array.from(playerIds).sort(),
+    frames,
+  };
+}
+
+/**
+ * Get the frame closest to `time`, or null if none is within `maxDistance` seconds
+ */
+export function getPositionFrameAt(
+  track: PositionTrack,
+  time: number,
+  maxDistance: number = 0.5
+): PositionFrame | null {
+  const { frames } = track;
+  if (frames.length === 0) return null;
+
+  let low = 0;
+  let high = frames.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (frames[mid].time < time) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  // low is the first frame at or after `time`; the previous one may be closer
+  let closest = frames[low];
+  if (low > 0 && Math.abs(frames[low - 1].time - time) < Math.abs(closest.time - time)) {
+    closest = frames[low - 1];
+  }
+
+  return Math.abs(closest.time - time) <= maxDistance ? closest : null;
+}
+
+export interface DensityGrid {
+  cols: number;
+  rows: number;
+  cellSize: number; // metres
+  margin: number; // metres of run-off included around the court
+  values: Float32Array; // row-major, normalized so the peak cell is 1
+  samples: number;
+}
+
+/**
+ * Bin a player's positions into a smoothed density grid covering the court
+ * plus `margin` metres of run-off on every side.
+ */
+export function buildDensityGrid(
+  track: PositionTrack,
+  playerId: string,
+  startTime: number,
+  endTime: number,
+  cellSize: number = 0.2,
+  margin: number = 1
+): DensityGrid {
+  const cols = Math.ceil((COURT_WIDTH_M + margin * 2) / cellSize);
+  const rows = Math.ceil((COURT_LENGTH_M + margin * 2) / cellSize);
+  const counts = new Float32Array(cols * rows);
+  let samples = 0;
+
+  for (const frame of track.frames) {
+    if (frame.time < startTime || frame.time > endTime) continue;
+    for (const player of frame.players) {
+      if (player.playerId !== playerId) continue;
+      const col = Math.floor((player.x + margin) / cellSize);
+      const row = Math.floor((player.y + margin) / cellSize);
+      if (col < 0 || col >= cols || row < 0 || row >= rows) continue;
+      counts[row * cols + col]++;
+      samples++;
+    }
+  }
+
+  // Separable gaussian blur (sigma ~0.4m) so the map reads as density, not pixels
+  const sigma = 0.4 / cellSize;
+  const radius = Math.ceil(sigma * 2.5);
+  const kernel: number[] = [];
+  for (let i = -radius; i <= radius; i++) {
+    kernel.push(Math.exp(-(i * i) / (2 * sigma * sigma)));
+  }
+
+  const horizontal = new Float32Array(cols * rows);
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      let sum = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const c = col + k;
+        if (c >= 0 && c < cols) sum += counts[row * cols + c] * kernel[k + radius];
+      }
+      horizontal[row * cols + col] = sum;
+    }
+  }
+
+  const values = new Float32Array(cols * rows);
+  let peak = 0;
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      let sum = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const r = row + k;
+        if (r >= 0 && r < rows) sum += horizontal[r * cols + col] * kernel[k + radius];
+      }
+      values[row * cols + col] = sum;
+      peak = Math.max(peak, sum);
+    }
+  }
+
+  if (peak > 0) {
+    for (let i = 0; i < values.length; i++) values[i] /= peak;
+  }
+
+  return { cols, rows, cellSize, margin, values, samples };
+}
+
+/**
+ * Get the frames within [startTime, endTime] (inclusive), in order
+ */
+export function getPositionWindow(
+  track: PositionTrack,
+  startTime: number,
+  endTime: number
+): PositionFrame[] {
+  const { frames } = track;
+  let low = 0;
+  let high = frames.length;
+
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (frames[mid].time < startTime) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  const window: PositionFrame[] = [];
+  for (let i = low; i < frames.length && frames[i].time <= endTime; i++) {
+    window.push(frames[i]);
+  }
+  return window;
+}
@@ -1,5 +1,7 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { createClient } from '@/lib/supabase/server';
 import { cookies } from 'next/headers';
+import { refreshVideoStatus } from '@/lib/video-library';
 
 export type JobStatus =
   | 'queued'
@@ -35,6 +37,21 @@ export interface ProcessingJob {
   last_checked_at: string | null;
   webhook_url: string | null;
   webhook_received: boolean;
+  priority: number; // Queue priority from the user's plan
+  dispatched_at: string | null; // When the queue sent it to RunPod; null while waiting
+  idempotency_key: string | null; // Idempotency-Key of the request that created it
+  billing: Record<string, unknown> | null;
+  retry_info: Record<string, unknown> | null;
+}
+
+/**
+ * The caller's session client by default. Background jobs with no session
+ * (e.g. the stale-job reaper) pass the service-role client instead.
+ */
+async function resolveClient(client?: SupabaseClient): Promise<SupabaseClient> {
+  if (client) return client;
+  await cookies(); // Ensure cookies are available
+  return createClient();
 }
 
 /**
@@ -49,6 +66,9 @@ export async function createProcessingJob({
   jobParams,
   webhookUrl,
   parentJobId,
+  retryCount,
+  priority,
+  idempotencyKey,
 }: {
   jobId: string;
   runpodJobId?: string;
@@ -58,9 +78,11 @@ export async function createProcessingJob({
   jobParams: Record<string, unknown>;
   webhookUrl?: string;
   parentJobId?: string;
-}): Promise<ProcessingJob | null> {
-  await cookies(); // Ensure cookies are available
-  const supabase = await createClient();
+  retryCount?: number;
+  priority?: number;
+  idempotencyKey?: string;
+}, client?: SupabaseClient): Promise<ProcessingJob | null> {
+  const supabase = await resolveClient(client);
 
   const { data, error } = await supabase
     .from('processing_jobs')
@@ -74,6 +96,9 @@ export async function createProcessingJob({
       status: 'queued',
       webhook_url: webhookUrl || null,
       parent_job_id: parentJobId || null,
+      retry_count: retryCount ?? 0,
+      priority: priority ?? 0,
+      idempotency_key: idempotencyKey || null,
     })
     .select()
     .single();
@@ -88,11 +113,13 @@ export async function createProcessingJob({
   }
 
   console.log('✅ Processing job created successfully:', jobId);
+  await refreshVideoStatus(videoId, supabase);
   return data;
 }
 
 /**
- * Update processing job status
+ * Update processing job status. A status change also updates the video's
+ * status (lib/video-library.ts).
  */
 export async function updateJobStatus({
   jobId,
@@ -102,6 +129,8 @@ export async function updateJobStatus({
   progress,
   error,
   errorDetails,
+  billing,
+  retryInfo,
 }: {
   jobId: string;
   status?: JobStatus;
@@ -110,9 +139,10 @@ export async function updateJobStatus({
   progress?: number;
   error?: string;
   errorDetails?: Record<string, unknown>;
-}): Promise<ProcessingJob | null> {
-  await cookies(); // Ensure cookies are available
-  const supabase = await createClient();
+  billing?: Record<string, unknown>;
+  retryInfo?: Record<string, unknown>;
+}, client?: SupabaseClient): Promise<ProcessingJob | null> {
+  const supabase = await resolveClient(client);
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const updates: Record<string, any> = {
@@ -134,6 +164,8 @@ export async function updateJobStatus({
   if (progress !== undefined) updates.progress = progress;
   if (error !== undefined) updates.last_error = error;
   if (errorDetails !== undefined) updates.error_details = errorDetails;
+  if (billing !== undefined) updates.billing = billing;
+  if (retryInfo !== undefined) updates.retry_info = retryInfo;
 
   const { data, error: updateError } = await supabase
     .from('processing_jobs')
@@ -147,15 +179,19 @@ export async function updateJobStatus({
     return null;
   }
 
+  // Keep videos.status in step with its jobs
+  if (status) {
+    await refreshVideoStatus(data.video_id, supabase);
+  }
+
   return data;
 }
 
 /**
  * Get processing job by job_id
  */
-export async function getProcessingJob(jobId: string): Promise<ProcessingJob | null> {
-  await cookies(); // Ensure cookies are available
-  const supabase = await createClient();
+export async function getProcessingJob(jobId: string, client?: SupabaseClient): Promise<ProcessingJob | null> {
+  const supabase = await resolveClient(client);
 
   const { data, error } = await supabase
     .from('processing_jobs')
@@ -207,6 +243,37 @@ export async function getLatestProcessingJob(
   return jobs.length > 0 ? jobs[0] : null;
 }
 
+/**
+ * Get queued or running jobs that haven't been checked since `before`,
+ * oldest first. Jobs still waiting in our own queue are left to the
+ * dispatcher, and a job never checked is measured from its dispatch, not
+ * from how long it waited in the queue.
+ */
+export async function getStaleProcessingJobs(
+  before: Date,
+  limit: number,
+  client?: SupabaseClient
+): Promise<ProcessingJob[]> {
+  const supabase = await resolveClient(client);
+  const cutoff = before.toISOString();
+
+  const { data, error } = await supabase
+    .from('processing_jobs')
+    .select('*')
+    .in('status', ['queued', 'running'])
+    .not('dispatched_at', 'is', null)
+    .or(`last_checked_at.lt.${cutoff},and(last_checked_at.is.null,dispatched_at.lt.${cutoff})`)
+    .order('created_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error fetching stale processing jobs:', error);
+    return [];
+  }
+
+  return data || [];
+}
+
 /**
  * Increment retry count
  */
@@ -235,8 +302,8 @@ export async function incrementRetryCount(jobId: string): Promise<ProcessingJob
 /**
  * Check if job can be retried
  */
-export async function canRetryJob(jobId: string): Promise<boolean> {
-  const job = await getProcessingJob(jobId);
+export async function canRetryJob(jobId: string, client?: SupabaseClient): Promise<boolean> {
+  const job = await getProcessingJob(jobId, client);
   if (!job) return false;
 
   return (
@@ -0,0 +1,243 @@
+import {
+  S3Client,
+  GetObjectCommand,
+  ListObjectsV2Command,
+  HeadObjectCommand,
+  PutObjectCommand,
+  DeleteObjectCommand,
+  CreateMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+  UploadPartCommand,
+  ListPartsCommand,
+  ListObjectsV2CommandOutput,
+  ListPartsCommandOutput,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { Upload } from '@aws-sdk/lib-storage';
+import type {
+  StorageBody,
+  StorageListEntry,
+  StorageObject,
+  StorageObjectInfo,
+  StoragePart,
+  StoragePresignOptions,
+  StorageUploadedPart,
+  StoragePutOptions,
+  StorageProvider,
+} from './storage';
+
+const PRESIGN_EXPIRY_SECONDS = 3600; // 1 hour
+
+function isNotFound(error: unknown): boolean {
+  if (!error || typeof error !== 'object') return false;
+  const { name, Code, $metadata } = error as { name?: string; Code?: string; $metadata?: { httpStatusCode?: number } };
+  return (
+    name === 'NoSuchKey' ||
+    name === 'NotFound' ||
+    name === 'NoSuchUpload' ||
+    Code === 'NoSuchKey' ||
+    $metadata?.httpStatusCode === 404
+  );
+}
+
+/**
+ * Objects in the R2 bucket R2_BUCKET_NAME
+ */
+export class R2StorageProvider implements StorageProvider {
+  readonly name = 'r2';
+  private bucket = process.env.R2_BUCKET_NAME!;
+
+  // Cloudflare R2 configuration
+  private client = new S3Client({
+    region: 'auto',
+    endpoint: process.env.R2_ENDPOINT_URL,
+    credentials: {
+      accessKeyId: process.env.R2_ACCESS_KEY_ID!,
+      secretAccessKey: process.env.R2_SECRET_ACCESS_KEY!,
+    },
+    forcePathStyle: true, // Use path-style URLs instead of virtual-hosted-style
+  });
+
+  async get(key: string, options: { range?: { start: number; end?: number } } = {}): Promise<StorageObject | null> {
+    const range = options.range ? `bytes=${options.range.start}-${options.range.end ?? ''}` : undefined;
+
+    try {
+      const response = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key, Range: range }));
+
+      if (!response.Body) return null;
+
+      const contentLength = response.ContentLength ?? 0;
+      // For range reads the total size is after the slash in Content-Range
+      const totalSize = response.ContentRange ? Number(response.ContentRange.split('/')[1]) : contentLength;
+
+      return {
+        key,
+        size: Number.isFinite(totalSize) ? totalSize : contentLength,
+        lastModified: response.LastModified ?? new Date(),
+        contentType: response.ContentType,
+        metadata: response.Metadata ?? {},
+        body: response.Body.transformToWebStream(),
+        contentLength,
+        contentRange: response.ContentRange,
+      };
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async put(key: string, body: StorageBody, options: StoragePutOptions = {}): Promise<void> {
+    // Upload handles streams of unknown length by switching to multipart
+    const upload = new Upload({
+      client: this.client,
+      params: {
+        Bucket: this.bucket,
+        Key: key,
+        Body: body,
+        ContentType: options.contentType,
+        Metadata: options.metadata,
+      },
+    });
+
+    await upload.done();
+  }
+
+  async head(key: string): Promise<StorageObjectInfo | null> {
+    try {
+      const response = await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: key }));
+      return {
+        key,
+        size: response.ContentLength ?? 0,
+        lastModified: response.LastModified ?? new Date(),
+        contentType: response.ContentType,
+        metadata: response.Metadata ?? {},
+      };
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async list(prefix: string, options: { maxKeys?: number } = {}): Promise<StorageListEntry[]> {
+    const maxKeys = options.maxKeys ?? Infinity;
+    const entries: StorageListEntry[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const response: ListObjectsV2CommandOutput = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.bucket,
+        Prefix: prefix,
+        ContinuationToken: continuationToken,
+        MaxKeys: Math.min(1000, maxKeys - entries.length),
+      }));
+
+      for (const object of response.Contents ?? []) {
+        if (!object.Key) continue;
+        entries.push({ key: object.Key, size: object.Size ?? 0, lastModified: object.LastModified ?? new Date() });
+      }
+
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken && entries.length < maxKeys);
+
+    return entries;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+
+  async presign(key: string, options: StoragePresignOptions = {}): Promise<string> {
+    const expiresIn = options.expiresIn ?? PRESIGN_EXPIRY_SECONDS;
+
+    const command = options.method === 'PUT'
+      ? new PutObjectCommand({
+          Bucket: this.bucket,
+          Key: key,
+          ContentType: options.contentType,
+          Metadata: options.metadata,
+        })
+      : new GetObjectCommand({
+          Bucket: this.bucket,
+          Key: key,
+          ResponseContentDisposition: options.contentDisposition,
+        });
+
+    return getSignedUrl(this.client, command, { expiresIn });
+  }
+
+  async createMultipartUpload(key: string, options: StoragePutOptions = {}): Promise<string> {
+    const response = await this.client.send(new CreateMultipartUploadCommand({
+      Bucket: this.bucket,
+      Key: key,
+      ContentType: options.contentType,
+      Metadata: options.metadata,
+    }));
+
+    if (!response.UploadId) {
+      throw new Error(`R2 did not return an upload ID for ${key}`);
+    }
+    return response.UploadId;
+  }
+
+  async presignUploadPart(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    expiresIn: number = PRESIGN_EXPIRY_SECONDS
+  ): Promise<string> {
+    const command = new UploadPartCommand({
+      Bucket: this.bucket,
+      Key: key,
+      UploadId: uploadId,
+      PartNumber: partNumber,
+    });
+
+    return getSignedUrl(this.client, command, { expiresIn });
+  }
+
+  async listParts(key: string, uploadId: string): Promise<StorageUploadedPart[] | null> {
+    const parts: StorageUploadedPart[] = [];
+    let partNumberMarker: string | undefined;
+
+    try {
+      do {
+        const response: ListPartsCommandOutput = await this.client.send(new ListPartsCommand({
+          Bucket: this.bucket,
+          Key: key,
+          UploadId: uploadId,
+          PartNumberMarker: partNumberMarker,
+        }));
+
+        for (const part of response.Parts ?? []) {
+          if (!part.PartNumber || !part.ETag) continue;
+          parts.push({ partNumber: part.PartNumber, etag: part.ETag, size: part.Size ?? 0 });
+        }
+
+        partNumberMarker = response.IsTruncated ? response.NextPartNumberMarker : undefined;
+      } while (partNumberMarker);
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+
+    return parts;
+  }
+
+  async completeMultipartUpload(key: string, uploadId: string, parts: StoragePart[]): Promise<void> {
+    await this.client.send(new CompleteMultipartUploadCommand({
+      Bucket: this.bucket,
+      Key: key,
+      UploadId: uploadId,
+      MultipartUpload: {
+        Parts: [...parts]
+          .sort((a, b) => a.partNumber - b.partNumber)
+          .map(part => ({ PartNumber: part.partNumber, ETag: part.etag })),
+      },
+    }));
+  }
+
+  async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    await this.client.send(new AbortMultipartUploadCommand({ Bucket: this.bucket, Key: key, UploadId: uploadId }));
+  }
+}
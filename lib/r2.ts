@@ -1,32 +1,15 @@
+import { storage, readObjectBuffer, readObjectText } from './storage';
 import {
-  S3Client,
-  GetObjectCommand,
-  ListObjectsV2Command,
-  HeadObjectCommand,
-  PutObjectCommand,
-  CreateMultipartUploadCommand,
-  CompleteMultipartUploadCommand,
-  AbortMultipartUploadCommand,
-  UploadPartCommand
-} from '@aws-sdk/client-s3';
-import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
-import { Upload } from '@aws-sdk/lib-storage';
+  reportFileKey,
+  sourceVideoKey,
+  videoFileKey,
+  videoPrefix,
+  type AnalysisFileName,
+  type ReportFileName,
+  type VideoFileName,
+} from './storage-keys';
 import { logDebug, logSuccess, logError, logWarn } from './logger';
 
-// Cloudflare R2 configuration
-export const r2Client = new S3Client({
-  region: 'auto',
-  endpoint: process.env.R2_ENDPOINT_URL,
-  credentials: {
-    accessKeyId: process.env.R2_ACCESS_KEY_ID!,
-    secretAccessKey: process.env.R2_SECRET_ACCESS_KEY!,
-  },
-  forcePathStyle: true, // Use path-style URLs instead of virtual-hosted-style
-});
-
-const BUCKET_NAME = process.env.R2_BUCKET_NAME!;
-const R2_ENVIRONMENT = process.env.R2_ENVIRONMENT || 'dev';
-
 export interface UploadedVideo {
   key: string;
   fileName: string;
@@ -34,6 +17,8 @@ export interface UploadedVideo {
   uploadedAt: Date;
   userId: string;
   videoId: string;
+  streamUrl?: string;    // Signed /api/video-stream URL (see lib/file-tokens.ts)
+  thumbnailUrl?: string; // Signed /api/thumbnail-stream URL
 }
 
 export interface PresignedUploadUrls {
@@ -56,9 +41,11 @@ export interface CompleteUploadRequest {
 
 // Constants for multipart upload
 const MULTIPART_THRESHOLD = 100 * 1024 * 1024; // 100MB
-const PART_SIZE = 10 * 1024 * 1024; // 10MB chunks
+const PART_SIZE = 10 * 1024 * 1024; // 10MB chunks unless the browser asks otherwise
+const MIN_PART_SIZE = 5 * 1024 * 1024; // S3/R2 minimum for every part but the last
+const MAX_PART_SIZE = 100 * 1024 * 1024;
 const PRESIGNED_URL_EXPIRY = 3600; // 1 hour
-const MAX_PARTS = 1000; // Support up to 10GB files
+export const MAX_PARTS = 1000; // 10GB at the default part size, more with larger parts
 
 function generateVideoId(): string {
   // Generate a unique video ID
@@ -90,28 +77,20 @@ export async function uploadVideo(
   // Sanitize the filename to remove problematic characters
   const sanitizedFileName = sanitizeFileName(fileName);
   const fileExtension = sanitizedFileName.split('.').pop();
-  const key = `${R2_ENVIRONMENT}/${userId}/${videoId}/video.${fileExtension}`;
+  const key = sourceVideoKey(userId, videoId, fileExtension!);
 
   logDebug('Starting R2 upload', { key, size: `${(file.size / 1024 / 1024).toFixed(2)} MB` });
 
-  const upload = new Upload({
-    client: r2Client,
-    params: {
-      Bucket: BUCKET_NAME,
-      Key: key,
-      Body: file.stream(),
-      ContentType: file.type,
-      Metadata: {
+  try {
+    await storage.put(key, file.stream(), {
+      contentType: file.type,
+      metadata: {
         userId,
         videoId,
         originalName: sanitizedFileName,
         uploadTimestamp: Date.now().toString(),
       },
-    },
-  });
-
-  try {
-    await upload.done();
+    });
     logSuccess('R2 upload completed', { key });
   } catch (uploadError) {
     logError('R2 upload failed', { key, error: uploadError });
@@ -146,206 +125,38 @@ export async function uploadVideo(
 
 export async function verifyUpload(key: string): Promise<{ exists: boolean; size?: number }> {
   try {
-    // Try using HeadObject instead of ListObjects for verification
-    const command = new GetObjectCommand({
-      Bucket: BUCKET_NAME,
-      Key: key,
-    });
-
-    // Just try to get the object metadata
-    const response = await r2Client.send(command);
-    return {
-      exists: true,
-      size: response.ContentLength
-    };
+    const info = await storage.head(key);
+    return info ? { exists: true, size: info.size } : { exists: false };
   } catch (error: unknown) {
-    if (error && typeof error === 'object' && 'name' in error && (error.name === 'NoSuchKey' || ('Code' in error && error.Code === 'NoSuchKey'))) {
-      return { exists: false };
-    }
     logError('Verification error', error);
     return { exists: false };
   }
 }
 
-export async function getUserVideos(userId: string): Promise<UploadedVideo[]> {
-  try {
-    // Try different possible prefixes for the new structure
-    const possiblePrefixes = [
-      `${R2_ENVIRONMENT}/${userId}/`, // New structure: dev/[user]/[video id]/
-      `${userId}/`, // Legacy structure
-      `users/${userId}/videos/`, // Old existing structure
-      '', // No prefix - list all
-    ];
-
-    let response;
-
-    for (const prefix of possiblePrefixes) {
-      try {
-        const command = new ListObjectsV2Command({
-          Bucket: BUCKET_NAME,
-          Prefix: prefix,
-          MaxKeys: 1000,
-        });
-        
-        response = await r2Client.send(command);
-        break;
-      } catch {
-        continue;
-      }
-    }
-
-    if (!response) {
-      throw new Error('All prefix attempts failed');
-    }
-    
-    // Check if bucket exists but no objects found
-    if (!response.Contents || response.Contents.length === 0) {
-      return [];
-    }
-
-    const videoObjects = response.Contents
-      .filter(obj => {
-        // Only count actual video files, not analysis files
-        const isVideoFile = obj.Key &&
-               obj.Size &&
-               obj.Size > 0 &&
-               !obj.Key.endsWith('/') &&
-               (
-                 // New structure: dev/{userId}/{videoId}/video.{ext}
-                 (obj.Key.startsWith(`${R2_ENVIRONMENT}/${userId}/`) && obj.Key.includes('/video.')) ||
-                 // Legacy structure: {userId}/{videoId}/video.{ext}
-                 (obj.Key.startsWith(`${userId}/`) && obj.Key.includes('/video.'))
-               );
-
-        return isVideoFile;
-      });
-
-    // Fetch metadata for each video to get the correct filename
-    const videos = await Promise.all(videoObjects.map(async (obj) => {
-      const key = obj.Key!;
-      let fileName = '';
-      let videoId = '';
-
-      // Try to get metadata to find renamed filename
-      try {
-        const headCommand = new HeadObjectCommand({
-          Bucket: BUCKET_NAME,
-          Key: key,
-        });
-        const headResponse = await r2Client.send(headCommand);
-
-        // Use metadata filename if available (metadata keys are normalized to lowercase)
-        if (headResponse.Metadata && headResponse.Metadata.originalname) {
-          fileName = headResponse.Metadata.originalname;
-          logDebug('Found metadata filename', { key, fileName });
-        } else {
-          logDebug('No metadata originalname found', { key, metadata: headResponse.Metadata });
-        }
-      } catch (error) {
-        logDebug('Could not fetch metadata', { key, error });
-      }
-
-      // Extract videoId from key structure
-      if (key.startsWith(`${R2_ENVIRONMENT}/${userId}/`) && key.includes('/video.')) {
-        // New structure: dev/{userId}/{videoId}/video.{ext}
-        const parts = key.split('/');
-        videoId = parts[2]; // Third part is videoId
-        if (!fileName) {
-          fileName = parts[parts.length - 1]; // fallback to video.mp4, video.mov, etc.
-        }
-      } else if (key.startsWith(`${userId}/`) && key.includes('/video.')) {
-        // Legacy structure: {userId}/{videoId}/video.{ext}
-        const parts = key.split('/');
-        videoId = parts[1]; // Second part is videoId
-        if (!fileName) {
-          fileName = parts[parts.length - 1]; // fallback to video.mp4, video.mov, etc.
-        }
-      } else if (key.includes(`users/${userId}/videos/`)) {
-        // Old existing structure: users/{userId}/videos/{filename}
-        const keyParts = key.split('/');
-        const fullFilename = keyParts[keyParts.length - 1];
-        const timestampMatch = fullFilename.match(/^(\d+)-(.+)$/);
-        if (!fileName) {
-          fileName = timestampMatch ? timestampMatch[2] : fullFilename;
-        }
-        videoId = timestampMatch ? timestampMatch[1] : 'existing';
-      } else {
-        // Fallback for any other structure
-        const keyParts = key.split('/');
-        if (!fileName) {
-          fileName = keyParts[keyParts.length - 1];
-        }
-        videoId = 'unknown';
-      }
-
-      logDebug('Processed video', { key, fileName, videoId });
-
-      return {
-        key,
-        fileName,
-        size: obj.Size || 0,
-        uploadedAt: obj.LastModified || new Date(),
-        userId,
-        videoId,
-      };
-    }));
-
-    const sortedVideos = videos.sort((a, b) => new Date(b.uploadedAt).getTime() - new Date(a.uploadedAt).getTime());
-
-    return sortedVideos;
-
-  } catch (error: unknown) {
-    logError('Error in getUserVideos', error);
-
-    // For any errors, return empty array to prevent frontend crashes
-    return [];
-  }
-}
-
-export async function getVideoUrl(key: string): Promise<string> {
-  // Use the video-stream API endpoint which proxies through our server
-  // This avoids CORS issues and works with our Range request implementation
-  return `/api/video-stream?key=${encodeURIComponent(key)}`;
-}
-
 // Generate signed URL for external access (like Modal service)
 export async function getSignedVideoUrl(key: string): Promise<string> {
-  const command = new GetObjectCommand({
-    Bucket: BUCKET_NAME,
-    Key: key,
-  });
-  
   // Generate signed URL valid for 1 hour
-  const signedUrl = await getSignedUrl(r2Client, command, { expiresIn: 3600 });
-  return signedUrl;
+  return storage.presign(key, { expiresIn: 3600 });
 }
 
 // Future functions for analysis files
 export async function uploadAnalysisFile(
   userId: string,
   videoId: string,
-  fileName: string,
+  fileName: VideoFileName,
   content: string | Buffer,
   contentType: string = 'text/csv'
 ): Promise<void> {
-  const key = `${R2_ENVIRONMENT}/${userId}/${videoId}/${fileName}`;
+  const key = videoFileKey(userId, videoId, fileName);
   
-  const upload = new Upload({
-    client: r2Client,
-    params: {
-      Bucket: BUCKET_NAME,
-      Key: key,
-      Body: content,
-      ContentType: contentType,
-      Metadata: {
-        userId,
-        videoId,
-        fileType: 'analysis',
-      },
+  await storage.put(key, content, {
+    contentType,
+    metadata: {
+      userId,
+      videoId,
+      fileType: 'analysis',
     },
   });
-
-  await upload.done();
 }
 
 export async function getSessionFiles(userId: string, videoId: string): Promise<Array<{
@@ -356,30 +167,20 @@ export async function getSessionFiles(userId: string, videoId: string): Promise<
   fileType: 'video' | 'analysis';
 }>> {
   try {
-    const command = new ListObjectsV2Command({
-      Bucket: BUCKET_NAME,
-      Prefix: `${R2_ENVIRONMENT}/${userId}/${videoId}/`,
-      MaxKeys: 100,
-    });
-
-    const response = await r2Client.send(command);
-    
-    if (!response.Contents) {
-      return [];
-    }
+    const objects = await storage.list(videoPrefix(userId, videoId), { maxKeys: 100 });
 
-    return response.Contents
-      .filter(obj => obj.Key && obj.Size && obj.Size > 0)
+    return objects
+      .filter(obj => obj.size > 0)
       .map(obj => {
-        const key = obj.Key!;
+        const key = obj.key;
         const fileName = key.split('/').pop()!;
         const fileType: 'video' | 'analysis' = fileName.startsWith('video.') ? 'video' : 'analysis';
         
         return {
           key,
           fileName,
-          size: obj.Size || 0,
-          lastModified: obj.LastModified || new Date(),
+          size: obj.size,
+          lastModified: obj.lastModified,
           fileType,
         };
       })
@@ -394,57 +195,120 @@ export async function getSessionFiles(userId: string, videoId: string): Promise<
 export async function getSignedAnalysisUrl(
   userId: string,
   videoId: string,
-  fileName: string,
+  fileName: VideoFileName,
   expiresIn: number = 3600
 ): Promise<string> {
-  const key = `${R2_ENVIRONMENT}/${userId}/${videoId}/${fileName}`;
+  const key = videoFileKey(userId, videoId, fileName);
 
-  const command = new GetObjectCommand({
-    Bucket: BUCKET_NAME,
-    Key: key,
-  });
-
-  const signedUrl = await getSignedUrl(r2Client, command, { expiresIn });
-  return signedUrl;
+  return storage.presign(key, { expiresIn });
 }
 
 export async function getAnalysisFileContent(
   userId: string,
   videoId: string,
-  fileName: string
+  fileName: VideoFileName
 ): Promise<string> {
   try {
-    const key = `${R2_ENVIRONMENT}/${userId}/${videoId}/${fileName}`;
-    
-    const command = new GetObjectCommand({
-      Bucket: BUCKET_NAME,
-      Key: key,
-    });
+    const key = videoFileKey(userId, videoId, fileName);
 
-    const response = await r2Client.send(command);
-    
-    if (!response.Body) {
-      throw new Error('No file content found');
+    const content = await readObjectText(key);
+    if (content === null) {
+      throw Object.assign(new Error(`No such file: ${key}`), { name: 'NoSuchKey' });
     }
 
-    // Convert stream to string
-    const chunks: Uint8Array[] = [];
-    const reader = response.Body.transformToWebStream().getReader();
-    
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-      chunks.push(value);
-    }
-    
-    const buffer = Buffer.concat(chunks);
-    return buffer.toString('utf-8');
+    return content;
+  } catch (error) {
+    logError('Error reading file', { fileName, error });
+    throw error;
+  }
+}
+
+/**
+ * Same as getAnalysisFileContent, but returns null if the file doesn't exist yet
+ */
+export async function getOptionalAnalysisFileContent(
+  userId: string,
+  videoId: string,
+  fileName: VideoFileName
+): Promise<string | null> {
+  return readObjectText(videoFileKey(userId, videoId, fileName));
+}
+
+/**
+ * Read a binary analysis file (e.g. an image). Returns null if it doesn't exist.
+ */
+export async function getOptionalAnalysisFileBuffer(
+  userId: string,
+  videoId: string,
+  fileName: VideoFileName
+): Promise<Buffer | null> {
+  try {
+    return await readObjectBuffer(videoFileKey(userId, videoId, fileName));
   } catch (error) {
     logError('Error reading file', { fileName, error });
     throw error;
   }
 }
 
+/**
+ * Store a generated report under {env}/{userId}/reports/{reportId}/
+ */
+export async function uploadReportFile(
+  userId: string,
+  reportId: string,
+  fileName: ReportFileName,
+  content: string | Buffer,
+  contentType: string
+): Promise<string> {
+  const key = reportFileKey(userId, reportId, fileName);
+
+  await storage.put(key, content, {
+    contentType,
+    metadata: {
+      userId,
+      reportId,
+      fileType: 'report',
+    },
+  });
+
+  return key;
+}
+
+/**
+ * Signed URL for a stored report. `downloadName` sets the filename the
+ * browser saves it as; `inline` opens it in the browser instead.
+ */
+export async function getSignedReportUrl(
+  key: string,
+  downloadName: string,
+  inline: boolean = false,
+  expiresIn: number = 3600
+): Promise<string> {
+  return storage.presign(key, {
+    expiresIn,
+    contentDisposition: `${inline ? 'inline' : 'attachment'}; filename="${downloadName.replace(/"/g, '')}"`,
+  });
+}
+
+export async function deleteReportFile(key: string): Promise<void> {
+  await storage.delete(key);
+}
+
+/**
+ * Part size for a multipart upload: the browser's preference (picked from its
+ * measured throughput) within 5-100MB, whole MB, and large enough that the
+ * file fits in MAX_PARTS. R2 needs every part but the last to be the same
+ * size, so it can't change once the upload has started.
+ */
+function resolvePartSize(fileSize: number, preferredPartSize?: number): number {
+  const MB = 1024 * 1024;
+  const requested = preferredPartSize && Number.isFinite(preferredPartSize) ? preferredPartSize : PART_SIZE;
+  const clamped = Math.min(Math.max(requested, MIN_PART_SIZE), MAX_PART_SIZE);
+  const fitsMaxParts = Math.ceil(fileSize / MAX_PARTS / MB) * MB;
+
+  return Math.max(Math.ceil(clamped / MB) * MB, fitsMaxParts);
+}
+
 /**
  * Create presigned URLs for direct upload to R2
  * For files < 100MB: Returns single PUT URL
@@ -454,31 +318,29 @@ export async function createPresignedUpload(
   userId: string,
   fileName: string,
   fileSize: number,
-  fileType: string
+  fileType: string,
+  preferredPartSize?: number
 ): Promise<PresignedUploadUrls> {
   const videoId = generateVideoId();
   const sanitizedFileName = sanitizeFileName(fileName);
   const fileExtension = sanitizedFileName.split('.').pop();
-  const r2Key = `${R2_ENVIRONMENT}/${userId}/${videoId}/video.${fileExtension}`;
+  const r2Key = sourceVideoKey(userId, videoId, fileExtension!);
 
   // Decide: single upload or multipart
   const isMultipart = fileSize >= MULTIPART_THRESHOLD;
+  const metadata = {
+    userId,
+    videoId,
+    originalName: sanitizedFileName,
+    uploadTimestamp: Date.now().toString(),
+  };
 
   if (!isMultipart) {
-    // Simple single-file upload using PutObject presigned URL
-    const command = new PutObjectCommand({
-      Bucket: BUCKET_NAME,
-      Key: r2Key,
-      ContentType: fileType,
-      Metadata: {
-        userId,
-        videoId,
-        originalName: sanitizedFileName,
-        uploadTimestamp: Date.now().toString(),
-      },
-    });
-
-    const presignedUrl = await getSignedUrl(r2Client, command, {
+    // Simple single-file upload using a presigned PUT URL
+    const presignedUrl = await storage.presign(r2Key, {
+      method: 'PUT',
+      contentType: fileType,
+      metadata,
       expiresIn: PRESIGNED_URL_EXPIRY,
     });
 
@@ -494,47 +356,26 @@ export async function createPresignedUpload(
     };
   } else {
     // Multipart upload
-    const createCommand = new CreateMultipartUploadCommand({
-      Bucket: BUCKET_NAME,
-      Key: r2Key,
-      ContentType: fileType,
-      Metadata: {
-        userId,
-        videoId,
-        originalName: sanitizedFileName,
-        uploadTimestamp: Date.now().toString(),
-      },
-    });
-
-    const createResponse = await r2Client.send(createCommand);
-    const uploadId = createResponse.UploadId!;
-
     // Calculate number of parts
-    const totalParts = Math.ceil(fileSize / PART_SIZE);
+    const partSize = resolvePartSize(fileSize, preferredPartSize);
+    const totalParts = Math.ceil(fileSize / partSize);
 
     if (totalParts > MAX_PARTS) {
       throw new Error(`File too large: requires ${totalParts} parts, maximum is ${MAX_PARTS}`);
     }
 
+    const uploadId = await storage.createMultipartUpload(r2Key, { contentType: fileType, metadata });
+
     // Generate presigned URLs for each part
     const urls: string[] = [];
     for (let partNumber = 1; partNumber <= totalParts; partNumber++) {
-      const uploadPartCommand = new UploadPartCommand({
-        Bucket: BUCKET_NAME,
-        Key: r2Key,
-        UploadId: uploadId,
-        PartNumber: partNumber,
-      });
-
-      const presignedUrl = await getSignedUrl(r2Client, uploadPartCommand, {
-        expiresIn: PRESIGNED_URL_EXPIRY,
-      });
-      urls.push(presignedUrl);
+      urls.push(await storage.presignUploadPart(r2Key, uploadId, partNumber, PRESIGNED_URL_EXPIRY));
     }
 
     logDebug('Generated multipart presigned URLs', {
       r2Key,
       fileSize: `${(fileSize / 1024 / 1024).toFixed(2)} MB`,
+      partSize: `${partSize / 1024 / 1024} MB`,
       totalParts,
     });
 
@@ -544,7 +385,7 @@ export async function createPresignedUpload(
       r2Key,
       isMultipart: true,
       urls,
-      partSize: PART_SIZE,
+      partSize,
       totalParts,
       expiresAt: Date.now() + PRESIGNED_URL_EXPIRY * 1000,
     };
@@ -559,20 +400,46 @@ export async function completeMultipartUpload(
   uploadId: string,
   parts: Array<{ ETag: string; PartNumber: number }>
 ): Promise<void> {
-  const command = new CompleteMultipartUploadCommand({
-    Bucket: BUCKET_NAME,
-    Key: r2Key,
-    UploadId: uploadId,
-    MultipartUpload: {
-      Parts: parts.sort((a, b) => a.PartNumber - b.PartNumber),
-    },
-  });
-
-  await r2Client.send(command);
+  await storage.completeMultipartUpload(
+    r2Key,
+    uploadId,
+    parts.map(part => ({ partNumber: part.PartNumber, etag: part.ETag }))
+  );
 
   logSuccess('Multipart upload completed', { r2Key, uploadId, partsCount: parts.length });
 }
 
+/**
+ * Parts of a multipart upload that storage has confirmed, with ETags unquoted
+ * like the ones the browser collects. Null if the upload no longer exists.
+ */
+export async function listUploadedParts(
+  r2Key: string,
+  uploadId: string
+): Promise<Array<{ ETag: string; PartNumber: number; Size: number }> | null> {
+  const parts = await storage.listParts(r2Key, uploadId);
+  if (!parts) return null;
+
+  return parts.map(part => ({ ETag: part.etag.replace(/"/g, ''), PartNumber: part.partNumber, Size: part.size }));
+}
+
+/**
+ * Fresh presigned URLs for some parts of a multipart upload, e.g. when the
+ * ones from createPresignedUpload have expired
+ */
+export async function presignUploadParts(
+  r2Key: string,
+  uploadId: string,
+  partNumbers: number[]
+): Promise<{ urls: Record<number, string>; expiresAt: number }> {
+  const urls: Record<number, string> = {};
+  for (const partNumber of partNumbers) {
+    urls[partNumber] = await storage.presignUploadPart(r2Key, uploadId, partNumber, PRESIGNED_URL_EXPIRY);
+  }
+
+  return { urls, expiresAt: Date.now() + PRESIGNED_URL_EXPIRY * 1000 };
+}
+
 /**
  * Abort a multipart upload and clean up resources
  */
@@ -580,13 +447,7 @@ export async function abortMultipartUpload(
   r2Key: string,
   uploadId: string
 ): Promise<void> {
-  const command = new AbortMultipartUploadCommand({
-    Bucket: BUCKET_NAME,
-    Key: r2Key,
-    UploadId: uploadId,
-  });
-
-  await r2Client.send(command);
+  await storage.abortMultipartUpload(r2Key, uploadId);
 
   logWarn('Multipart upload aborted', { r2Key, uploadId });
 }
@@ -605,7 +466,7 @@ export async function checkAnalysisProgress(
   visualization: boolean;
   allComplete: boolean;
 }> {
-  const filesToCheck = [
+  const filesToCheck: Array<{ step: string; file: AnalysisFileName }> = [
     { step: 'calibration', file: 'calibration.csv' },
     { step: 'poseEstimation', file: 'pose.json' },
     { step: 'shuttleTracking', file: 'shuttle.json' },
@@ -622,16 +483,10 @@ export async function checkAnalysisProgress(
   };
 
   for (const { step, file } of filesToCheck) {
-    const key = `${R2_ENVIRONMENT}/${userId}/${videoId}/${file}`;
+    const key = videoFileKey(userId, videoId, file);
 
     try {
-      const command = new HeadObjectCommand({
-        Bucket: BUCKET_NAME,
-        Key: key,
-      });
-
-      await r2Client.send(command);
-      results[step] = true;
+      results[step] = (await storage.head(key)) !== null;
     } catch {
       // File doesn't exist yet
       results[step] = false;
@@ -0,0 +1,259 @@
+/**
+ * Rally segmentation
+ *
+ * Splits a match video into rallies using the shuttle trajectory, with player
+ * movement from corrected_positions.json used to bridge short gaps where the
+ * tracker lost the shuttle mid-rally. Runs server-side; results are stored
+ * per video as rallies.json alongside the other analysis artifacts.
+ */
+
+import { ShuttleTrajectory } from './shuttle';
+import { PositionTrack } from './positions';
+
+export const RALLY_SEGMENTATION_VERSION = 1;
+
+export interface Rally {
+  index: number; // 1-based, in playback order
+  startTime: number;
+  endTime: number;
+  duration: number;
+  startFrame: number;
+  endFrame: number;
+  shuttleCoverage: number; // fraction of frames in the rally with a visible shuttle (0-1)
+}
+
+export interface RallySegmentation {
+  version: number;
+  generatedAt: string;
+  fps: number;
+  sources: {
+    shuttle: boolean;
+    positions: boolean;
+  };
+  rallies: Rally[];
+  totalRallyTime: number;
+  deadTime: number;
+}
+
+// Shuttle speed (frame widths per second) above which it is considered in flight
+const IN_PLAY_SHUTTLE_SPEED = 0.1;
+// Max frames between detections for two points to count as consecutive
+const MAX_FRAME_GAP = 5;
+// Gap without the shuttle in flight that always ends a rally
+const MAX_SHUTTLE_GAP_SECONDS = 1.5;
+// Longer gaps are bridged only if the players are still moving
+const MAX_BRIDGED_GAP_SECONDS = 4;
+// Average player speed (m/s) that indicates play is still going on
+const ACTIVE_PLAYER_SPEED = 1.0;
+// Window used to smooth player speed
+const PLAYER_SPEED_WINDOW_SECONDS = 0.5;
+const MIN_RALLY_SECONDS = 2;
+const MIN_RALLY_SHUTTLE_FRAMES = 10;
+// Padding so a rally starts just before the serve and ends after the shuttle lands
+const LEAD_IN_SECONDS = 0.5;
+const TAIL_SECONDS = 1;
+
+interface TimeRange {
+  start: number;
+  end: number;
+  shuttleFrames: number;
+}
+
+/**
+ * Times (seconds) at which the shuttle is visible and moving
+ */
+function getInPlayTimes(trajectory: ShuttleTrajectory): number[] {
+  const visible = trajectory.points.filter(p => p.visible);
+  if (visible.length < 2) return [];
+
+  let scale = 1;
+  if (trajectory.coordinateSpace === 'pixels') {
+    scale = trajectory.width || visible.reduce((max, p) => Math.max(max, p.x as number), 1);
+  }
+
+  const times: number[] = [];
+  for (let i = 1; i < visible.length; i++) {
+    const previous = visible[i - 1];
+    const point = visible[i];
+    const dt = point.time - previous.time;
+    if (dt <= 0 || point.frame - previous.frame > MAX_FRAME_GAP) continue;
+
+    const distance = Math.hypot(
+      (point.x as number) - (previous.x as number),
+      (point.y as number) - (previous.y as number)
+    ) / scale;
+
+    if (distance / dt >= IN_PLAY_SHUTTLE_SPEED) {
+      times.push(point.time);
+    }
+  }
+  return times;
+}
+
+/**
+ * Build a lookup of smoothed average player speed (m/s) over time
+ */
+function buildPlayerSpeedIndex(track: PositionTrack): { times: number[]; speeds: number[] } {
+  const times: number[] = [];
+  const rawSpeeds: number[] = [];
+  const lastSeen = new Map<string, { x: number; y: number; time: number }>();
+
+  for (const frame of track.frames) {
+    let total = 0;
+    let count = 0;
+
+    for (const player of frame.players) {
+      const previous = lastSeen.get(player.playerId);
+      if (previous) {
+        const dt = frame.time - previous.time;
+        if (dt > 0 && dt <= MAX_FRAME_GAP / track.fps) {
+          total += Math.hypot(player.x - previous.x, player.y - previous.y) / dt;
+          count++;
+        }
+      }
+      lastSeen.set(player.playerId, { x: player.x, y: player.y, time: frame.time });
+    }
+
+    if (count > 0) {
+      times.push(frame.time);
+      rawSpeeds.push(total / count);
+    }
+  }
+
+  // Moving average to suppress per-frame tracking jitter
+  const speeds: number[] = [];
+  let windowStart = 0;
+  let windowSum = 0;
+  for (let i = 0; i < rawSpeeds.length; i++) {
+    windowSum += rawSpeeds[i];
+    while (times[i] - times[windowStart] > PLAYER_SPEED_WINDOW_SECONDS) {
+      windowSum -= rawSpeeds[windowStart];
+      windowStart++;
+    }
+    speeds.push(windowSum / (i - windowStart + 1));
+  }
+
+  return { times, speeds };
+}
+
+function lowerBound(values: number[], target: number): number {
+  let low = 0;
+  let high = values.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (values[mid] < target) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+function averageSpeedBetween(index: { times: number[]; speeds: number[] }, start: number, end: number): number {
+  let total = 0;
+  let count = 0;
+  for (let i = lowerBound(index.times, start); i < index.times.length && index.times[i] <= end; i++) {
+    total += index.speeds[i];
+    count++;
+  }
+  return count > 0 ? total / count : 0;
+}
+
+function groupTimes(
+  times: number[],
+  shouldBridge: (gapStart: number, gapEnd: number) => boolean
+): TimeRange[] {
+  const ranges: TimeRange[] = [];
+  let current: TimeRange | null = null;
+
+  for (const time of times) {
+    if (current && shouldBridge(current.end, time)) {
+      current.end = time;
+      current.shuttleFrames++;
+    } else {
+      if (current) ranges.push(current);
+      current = { start: time, end: time, shuttleFrames: 1 };
+    }
+  }
+  if (current) ranges.push(current);
+
+  return ranges;
+}
+
+/**
+ * Segment a video into rallies.
+ *
+ * The shuttle trajectory drives segmentation. Player positions are optional
+ * and are used to keep a rally alive through tracking dropouts; if the shuttle
+ * was never detected, sustained player movement is used on its own.
+ */
+export function segmentRallies(
+  trajectory: ShuttleTrajectory | null,
+  positions: PositionTrack | null
+): RallySegmentation {
+  const fps = trajectory?.fps || positions?.fps || 30;
+  const speedIndex = positions && positions.frameCount > 0 ? buildPlayerSpeedIndex(positions) : null;
+  const inPlayTimes = trajectory ? getInPlayTimes(trajectory) : [];
+
+  let ranges: TimeRange[];
+
+  if (inPlayTimes.length > 0) {
+    ranges = groupTimes(inPlayTimes, (gapStart, gapEnd) => {
+      const gap = gapEnd - gapStart;
+      if (gap <= MAX_SHUTTLE_GAP_SECONDS) return true;
+      if (!speedIndex || gap > MAX_BRIDGED_GAP_SECONDS) return false;
+      return averageSpeedBetween(speedIndex, gapStart, gapEnd) >= ACTIVE_PLAYER_SPEED;
+    }).filter(range =>
+      range.end - range.start >= MIN_RALLY_SECONDS &&
+      range.shuttleFrames >= MIN_RALLY_SHUTTLE_FRAMES
+    );
+  } else if (speedIndex) {
+    const activeTimes = speedIndex.times.filter((_, i) => speedIndex.speeds[i] >= ACTIVE_PLAYER_SPEED);
+    ranges = groupTimes(activeTimes, (gapStart, gapEnd) => gapEnd - gapStart <= MAX_SHUTTLE_GAP_SECONDS)
+      .filter(range => range.end - range.start >= MIN_RALLY_SECONDS * 2)
+      .map(range => ({ ...range, shuttleFrames: 0 }));
+  } else {
+    ranges = [];
+  }
+
+  const lastTime = Math.max(
+    trajectory?.points[trajectory.points.length - 1]?.time ?? 0,
+    positions?.frames[positions.frames.length - 1]?.time ?? 0
+  );
+
+  const rallies: Rally[] = ranges.map((range, i) => {
+    // Pad each rally without running into its neighbours
+    const previousEnd = i > 0 ? ranges[i - 1].end : 0;
+    const nextStart = i < ranges.length - 1 ? ranges[i + 1].start : lastTime;
+    const startTime = Math.max(0, previousEnd, range.start - LEAD_IN_SECONDS);
+    const endTime = Math.min(lastTime, nextStart, range.end + TAIL_SECONDS);
+    const duration = endTime - startTime;
+    const frames = Math.max(1, Math.round(duration * fps));
+
+    return {
+      index: i + 1,
+      startTime: Number(startTime.toFixed(3)),
+      endTime: Number(endTime.toFixed(3)),
+      duration: Number(duration.toFixed(3)),
+      startFrame: Math.round(startTime * fps),
+      endFrame: Math.round(endTime * fps),
+      shuttleCoverage: Number(Math.min(1, range.shuttleFrames / frames).toFixed(3)),
+    };
+  });
+
+  const totalRallyTime = rallies.reduce((sum, rally) => sum + rally.duration, 0);
+
+  return {
+    version: RALLY_SEGMENTATION_VERSION,
+    generatedAt: new Date().toISOString(),
+    fps,
+    sources: {
+      shuttle: inPlayTimes.length > 0,
+      positions: !!speedIndex,
+    },
+    rallies,
+    totalRallyTime: Number(totalRallyTime.toFixed(3)),
+    deadTime: Number(Math.max(0, lastTime - totalRallyTime).toFixed(3)),
+  };
+}
@@ -0,0 +1,463 @@
+import { createClient } from '@/lib/supabase/server';
+import { getOptionalAnalysisFileBuffer, getOptionalAnalysisFileContent } from '@/lib/r2';
+import type { VideoFileName } from '@/lib/storage-keys';
+import { parsePositionAnalysis, summarizePlayerMetrics, PlayerMetricsSummary } from '@/lib/player-metrics';
+import { getAnalyticsSummary } from '@/lib/analytics';
+import { PAGE_HEIGHT, PAGE_WIDTH, PdfDocument, loadPdfImage, measureText, wrapText } from '@/lib/pdf';
+
+export type ReportScope =
+  | { type: 'video'; videoId: string }
+  | { type: 'range'; from: string; to: string };
+
+export interface ReportStat {
+  label: string;
+  value: string;
+}
+
+export interface ReportStatGroup {
+  title: string;
+  stats: ReportStat[];
+}
+
+export interface ReportPlayer {
+  trackedPlayerId: string;
+  name: string;
+  groups: ReportStatGroup[];
+}
+
+export interface ReportVideo {
+  videoId: string;
+  fileName: string;
+  uploadedAt: string;
+  durationSeconds: number | null;
+  players: ReportPlayer[];
+  courtImage: { contentType: string; data: Buffer } | null;
+}
+
+export interface ReportData {
+  title: string;
+  generatedAt: string;
+  scope: ReportScope;
+  videos: ReportVideo[];
+  // Cross-video summary per player profile (date-range reports only)
+  playerSummaries: { name: string; summary: PlayerMetricsSummary }[];
+}
+
+// Keeps range reports (and the R2 reads behind them) to a sensible size
+export const MAX_REPORT_VIDEOS = 25;
+
+// Same lookup order as /api/court-frame
+const COURT_IMAGE_FILES: Array<{ fileName: VideoFileName; contentType: string }> = [
+  { fileName: 'court_visualization.png', contentType: 'image/png' },
+  { fileName: 'court_frame.jpg', contentType: 'image/jpeg' },
+  { fileName: 'thumbnail.jpg', contentType: 'image/jpeg' },
+];
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+
+const formatDuration = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+export function defaultPlayerName(trackedPlayerId: string): string {
+  const match = trackedPlayerId.match(/player_(\d+)/i);
+  return match ? `Player ${match[1]}` : trackedPlayerId;
+}
+
+/**
+ * Names of the player profiles linked to each video's tracked players,
+ * keyed by video id then tracked player id
+ */
+export async function getLinkedProfileNames(
+  userId: string,
+  videoIds: string[]
+): Promise<Map<string, Map<string, string>>> {
+  const names = new Map<string, Map<string, string>>();
+  if (videoIds.length === 0) return names;
+
+  const supabase = await createClient();
+  const { data: links, error } = await supabase
+    .from('video_players')
+    .select('video_id, tracked_player_id, players(name)')
+    .eq('user_id', userId)
+    .in('video_id', videoIds);
+  if (error) throw error;
+
+  for (const link of links || []) {
+    const player = (Array.isArray(link.players) ? link.players[0] : link.players) as { name: string } | null;
+    if (!player?.name) continue;
+    if (!names.has(link.video_id)) names.set(link.video_id, new Map());
+    names.get(link.video_id)!.set(link.tracked_player_id, player.name);
+  }
+
+  return names;
+}
+
+// Build a stat group from [label, value, unit] rows, skipping missing values
+function statGroup(title: string, rows: [string, unknown, string?][]): ReportStatGroup | null {
+  const stats = rows.flatMap(([label, value, unit]) => {
+    if (value === undefined || value === null || value === '') return [];
+    return [{ label, value: `${value}${unit ?? ''}` }];
+  });
+  return stats.length > 0 ? { title, stats } : null;
+}
+
+// One player's section of position_analysis.json, as far as reports read it
+interface PlayerAnalysis {
+  total_distance_m?: number;
+  average_speed_m_s?: number;
+  time_tracked_seconds?: number;
+  movement_efficiency?: {
+    return_to_center?: {
+      average_distance_from_center_m?: number;
+      max_distance_from_center_m?: number;
+      average_return_time_s?: number;
+      time_near_center_percent?: number;
+    };
+    recovery_speed?: {
+      average_recovery_speed_m_s?: number;
+      max_recovery_speed_m_s?: number;
+    };
+  };
+  positioning_strategy?: {
+    offensive_defensive?: {
+      offensive_percent?: number;
+      neutral_percent?: number;
+      defensive_percent?: number;
+      dominant_stance?: string;
+    };
+    left_right_bias?: {
+      left_percent?: number;
+      right_percent?: number;
+      dominant_side?: string;
+    };
+  };
+  rally_dynamics?: {
+    speed_variation?: {
+      first_quarter_speed_m_s?: number;
+      last_quarter_speed_m_s?: number;
+    };
+    jump_pattern?: {
+      total_jumps?: number;
+      jumps_per_second?: number;
+      error?: string; // Set instead of the counts when jump detection failed
+    };
+  };
+}
+
+/**
+ * Turn one player's section of position_analysis.json into the stat groups
+ * shown on the share page
+ */
+function buildPlayerGroups(data: PlayerAnalysis): ReportStatGroup[] {
+  const returnToCenter = data.movement_efficiency?.return_to_center;
+  const recovery = data.movement_efficiency?.recovery_speed;
+  const stance = data.positioning_strategy?.offensive_defensive;
+  const bias = data.positioning_strategy?.left_right_bias;
+  const speedVariation = data.rally_dynamics?.speed_variation;
+  const jumps = data.rally_dynamics?.jump_pattern?.error ? null : data.rally_dynamics?.jump_pattern;
+
+  return [
+    statGroup('Basic Stats', [
+      ['Total distance', data.total_distance_m, ' m'],
+      ['Average speed', data.average_speed_m_s, ' m/s'],
+      ['Time tracked', data.time_tracked_seconds, ' s'],
+    ]),
+    statGroup('Movement Efficiency', [
+      ['Avg distance from center', returnToCenter?.average_distance_from_center_m, ' m'],
+      ['Max distance from center', returnToCenter?.max_distance_from_center_m, ' m'],
+      ['Avg return time', returnToCenter?.average_return_time_s, ' s'],
+      ['Time near center', returnToCenter?.time_near_center_percent, '%'],
+      ['Avg recovery speed', recovery?.average_recovery_speed_m_s, ' m/s'],
+      ['Max recovery speed', recovery?.max_recovery_speed_m_s, ' m/s'],
+    ]),
+    statGroup('Positioning Strategy', [
+      ['Offensive', stance?.offensive_percent, '%'],
+      ['Neutral', stance?.neutral_percent, '%'],
+      ['Defensive', stance?.defensive_percent, '%'],
+      ['Dominant stance', stance?.dominant_stance],
+      ['Left side', bias?.left_percent, '%'],
+      ['Right side', bias?.right_percent, '%'],
+      ['Dominant side', bias?.dominant_side],
+    ]),
+    statGroup('Rally Dynamics', [
+      ['First quarter speed', speedVariation?.first_quarter_speed_m_s, ' m/s'],
+      ['Last quarter speed', speedVariation?.last_quarter_speed_m_s, ' m/s'],
+      ['Total jumps', jumps?.total_jumps],
+      ['Jumps per second', jumps?.jumps_per_second],
+    ]),
+  ].filter((group): group is ReportStatGroup => group !== null);
+}
+
+async function getCourtImage(userId: string, videoId: string): Promise<ReportVideo['courtImage']> {
+  for (const { fileName, contentType } of COURT_IMAGE_FILES) {
+    const data = await getOptionalAnalysisFileBuffer(userId, videoId, fileName);
+    if (data) return { contentType, data };
+  }
+  return null;
+}
+
+/**
+ * Gather everything a report needs: analysis sections, player names (linked
+ * profile, then player_names.json, then "Player N") and a court image per video.
+ * Videos without position_analysis.json are skipped.
+ */
+export async function buildReportData(userId: string, scope: ReportScope): Promise<ReportData> {
+  const supabase = await createClient();
+
+  let videosQuery = supabase
+    .from('videos')
+    .select('video_id, display_filename, duration_seconds, uploaded_at')
+    .eq('user_id', userId)
+    .is('deleted_at', null);
+
+  if (scope.type === 'video') {
+    videosQuery = videosQuery.eq('video_id', scope.videoId);
+  } else {
+    const to = new Date(scope.to);
+    to.setUTCHours(23, 59, 59, 999);
+    videosQuery = videosQuery
+      .eq('status', 'completed')
+      .gte('uploaded_at', new Date(scope.from).toISOString())
+      .lte('uploaded_at', to.toISOString())
+      .order('uploaded_at', { ascending: true })
+      .limit(MAX_REPORT_VIDEOS);
+  }
+
+  const { data: videoRows, error } = await videosQuery;
+  if (error) throw error;
+
+  const linkedNames = await getLinkedProfileNames(userId, (videoRows || []).map(video => video.video_id));
+
+  const videos = await Promise.all((videoRows || []).map(async (video): Promise<ReportVideo | null> => {
+    const [analysisContent, namesContent, courtImage] = await Promise.all([
+      getOptionalAnalysisFileContent(userId, video.video_id, 'position_analysis.json'),
+      getOptionalAnalysisFileContent(userId, video.video_id, 'player_names.json'),
+      getCourtImage(userId, video.video_id),
+    ]);
+
+    if (!analysisContent) return null;
+
+    const analysis = parsePositionAnalysis(analysisContent);
+    const playerNames: Record<string, string> = namesContent ? JSON.parse(namesContent) : {};
+    const profileNames = linkedNames.get(video.video_id) ?? new Map<string, string>();
+
+    const players = Object.entries((analysis.players || {}) as Record<string, PlayerAnalysis>)
+      .map(([trackedPlayerId, data]) => ({
+        trackedPlayerId,
+        name: profileNames.get(trackedPlayerId) || playerNames[trackedPlayerId] || defaultPlayerName(trackedPlayerId),
+        groups: buildPlayerGroups(data),
+      }));
+
+    return {
+      videoId: video.video_id,
+      fileName: video.display_filename,
+      uploadedAt: video.uploaded_at,
+      durationSeconds: video.duration_seconds,
+      players,
+      courtImage,
+    };
+  }));
+
+  let playerSummaries: ReportData['playerSummaries'] = [];
+  if (scope.type === 'range') {
+    const { trends } = await getAnalyticsSummary(userId, { from: scope.from, to: scope.to });
+    playerSummaries = trends
+      .filter(trend => trend.points.length > 0)
+      .map(trend => ({ name: trend.playerName, summary: summarizePlayerMetrics(trend.points.map(point => point.metrics)) }));
+  }
+
+  const analyzedVideos = videos.filter((video): video is ReportVideo => video !== null);
+
+  return {
+    title: scope.type === 'video'
+      ? `Match Report: ${analyzedVideos[0]?.fileName ?? scope.videoId}`
+      : `Performance Report: ${formatDate(scope.from)} - ${formatDate(scope.to)}`,
+    generatedAt: new Date().toISOString(),
+    scope,
+    videos: analyzedVideos,
+    playerSummaries,
+  };
+}
+
+function summaryRows(summary: PlayerMetricsSummary): ReportStat[] {
+  return [
+    { label: 'Videos', value: `${summary.videoCount}` },
+    { label: 'Total distance', value: `${summary.totalDistanceM} m` },
+    { label: 'Average speed', value: summary.averageSpeedMs !== null ? `${summary.averageSpeedMs} m/s` : '-' },
+    { label: 'Recovery speed', value: summary.averageRecoverySpeedMs !== null ? `${summary.averageRecoverySpeedMs} m/s` : '-' },
+    { label: 'Offensive / defensive', value: summary.offensivePercent !== null ? `${summary.offensivePercent}% / ${summary.defensivePercent ?? '-'}%` : '-' },
+  ];
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Self-contained, printable HTML. Images are inlined so the stored file
+ * works offline.
+ */
+export function renderReportHtml(report: ReportData): string {
+  const statTable = (stats: ReportStat[]) => `
+        <table>${stats.map(stat => `<tr><td>${escapeHtml(stat.label)}</td><td class="value">${escapeHtml(stat.value)}</td></tr>`).join('')}</table>`;
+
+  const summaries = report.playerSummaries.length > 0 ? `
+  <section>
+    <h2>Player Summary</h2>
+    <div class="players">${report.playerSummaries.map(({ name, summary }) => `
+      <div class="player">
+        <h3>${escapeHtml(name)}</h3>${statTable(summaryRows(summary))}
+      </div>`).join('')}
+    </div>
+  </section>` : '';
+
+  const videos = report.videos.map(video => `
+  <section class="video">
+    <h2>${escapeHtml(video.fileName)}</h2>
+    <p class="meta">${formatDate(video.uploadedAt)}${video.durationSeconds ? ` &middot; ${formatDuration(video.durationSeconds)}` : ''}</p>
+    ${video.courtImage ? `<img class="court" src="data:${video.courtImage.contentType};base64,${video.courtImage.data.toString('base64')}" alt="Court view" />` : ''}
+    <div class="players">${video.players.map(player => `
+      <div class="player">
+        <h3>${escapeHtml(player.name)}</h3>${player.groups.map(group => `
+        <h4>${escapeHtml(group.title)}</h4>${statTable(group.stats)}`).join('')}
+      </div>`).join('')}
+    </div>
+  </section>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>${escapeHtml(report.title)}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; color: #111827; max-width: 960px; margin: 0 auto; padding: 32px; }
+    h1 { font-size: 24px; margin: 0 0 4px; }
+    h2 { font-size: 18px; margin: 0 0 4px; }
+    h3 { font-size: 15px; margin: 0 0 8px; color: #1d4ed8; }
+    h4 { font-size: 11px; text-transform: uppercase; letter-spacing: 0.05em; color: #6b7280; margin: 12px 0 4px; }
+    .meta { color: #6b7280; font-size: 13px; margin: 0 0 16px; }
+    section { border-top: 1px solid #e5e7eb; padding-top: 24px; margin-top: 24px; }
+    .court { max-width: 100%; max-height: 360px; border-radius: 8px; margin-bottom: 16px; }
+    .players { display: grid; grid-template-columns: repeat(auto-fit, minmax(260px, 1fr)); gap: 16px; }
+    .player { background: #f9fafb; border: 1px solid #e5e7eb; border-radius: 8px; padding: 16px; }
+    table { width: 100%; border-collapse: collapse; font-size: 13px; }
+    td { padding: 3px 0; }
+    td.value { text-align: right; font-weight: 600; text-transform: capitalize; }
+    footer { margin-top: 32px; color: #9ca3af; font-size: 12px; }
+    @media print {
+      body { padding: 0; }
+      section.video { break-before: page; border-top: none; }
+      .player { break-inside: avoid; }
+    }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(report.title)}</h1>
+  <p class="meta">${report.videos.length} ${report.videos.length === 1 ? 'video' : 'videos'} &middot; Generated ${formatDate(report.generatedAt)}</p>${summaries}${videos || '\n  <p>No analyzed videos in this report.</p>'}
+  <footer>Generated by Mintonix</footer>
+</body>
+</html>
+`;
+}
+
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const COLUMN_GAP = 16;
+const COLUMN_WIDTH = (CONTENT_WIDTH - COLUMN_GAP) / 2;
+const ROW_HEIGHT = 14;
+const ACCENT = '#1d4ed8';
+const MUTED = '#6b7280';
+
+/**
+ * Same content as the HTML report, laid out for A4 PDF
+ */
+export function renderReportPdf(report: ReportData): Buffer {
+  const pdf = new PdfDocument();
+  let y = MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > PAGE_HEIGHT - MARGIN) {
+      pdf.addPage();
+      y = MARGIN;
+    }
+  };
+
+  // A titled list of label/value rows in one column; returns its height
+  const drawStats = (x: number, top: number, title: string, stats: ReportStat[]) => {
+    pdf.text(x, top + 10, title.toUpperCase(), { size: 8, bold: true, color: MUTED });
+    stats.forEach((stat, i) => {
+      const rowY = top + 26 + i * ROW_HEIGHT;
+      pdf.text(x, rowY, stat.label, { size: 9 });
+      pdf.text(x + COLUMN_WIDTH - measureText(stat.value, 9, true), rowY, stat.value, { size: 9, bold: true });
+    });
+    return 20 + stats.length * ROW_HEIGHT;
+  };
+
+  // Lay stat groups out two per row
+  const drawGroups = (groups: ReportStatGroup[]) => {
+    for (let i = 0; i < groups.length; i += 2) {
+      const pair = groups.slice(i, i + 2);
+      const height = Math.max(...pair.map(group => 20 + group.stats.length * ROW_HEIGHT));
+      ensureSpace(height + 8);
+      pair.forEach((group, column) => drawStats(MARGIN + column * (COLUMN_WIDTH + COLUMN_GAP), y, group.title, group.stats));
+      y += height + 8;
+    }
+  };
+
+  for (const line of wrapText(report.title, CONTENT_WIDTH, 20, true)) {
+    pdf.text(MARGIN, y + 20, line, { size: 20, bold: true });
+    y += 26;
+  }
+  pdf.text(MARGIN, y + 10, `${report.videos.length} ${report.videos.length === 1 ? 'video' : 'videos'} - Generated ${formatDate(report.generatedAt)}`, { size: 10, color: MUTED });
+  y += 28;
+
+  if (report.playerSummaries.length > 0) {
+    pdf.line(MARGIN, y, PAGE_WIDTH - MARGIN, y);
+    y += 20;
+    pdf.text(MARGIN, y, 'Player Summary', { size: 14, bold: true });
+    y += 12;
+    drawGroups(report.playerSummaries.map(({ name, summary }) => ({ title: name, stats: summaryRows(summary) })));
+  }
+
+  report.videos.forEach((video, index) => {
+    if (index > 0 || report.playerSummaries.length > 0) {
+      pdf.addPage();
+      y = MARGIN;
+    } else {
+      pdf.line(MARGIN, y, PAGE_WIDTH - MARGIN, y);
+      y += 20;
+    }
+
+    for (const line of wrapText(video.fileName, CONTENT_WIDTH, 14, true)) {
+      pdf.text(MARGIN, y, line, { size: 14, bold: true });
+      y += 18;
+    }
+    pdf.text(MARGIN, y, `${formatDate(video.uploadedAt)}${video.durationSeconds ? ` - ${formatDuration(video.durationSeconds)}` : ''}`, { size: 9, color: MUTED });
+    y += 14;
+
+    const image = video.courtImage ? loadPdfImage(video.courtImage.data) : null;
+    if (image) {
+      const scale = Math.min(CONTENT_WIDTH / image.width, 240 / image.height);
+      ensureSpace(image.height * scale + 12);
+      pdf.image(image, MARGIN, y, image.width * scale, image.height * scale);
+      y += image.height * scale + 12;
+    }
+
+    for (const player of video.players) {
+      ensureSpace(60);
+      y += 10;
+      pdf.text(MARGIN, y, player.name, { size: 12, bold: true, color: ACCENT });
+      y += 6;
+      drawGroups(player.groups);
+    }
+  });
+
+  if (report.videos.length === 0) {
+    pdf.text(MARGIN, y + 10, 'No analyzed videos in this report.', { size: 11 });
+  }
+
+  return pdf.toBuffer();
+}
@@ -0,0 +1,116 @@
+import type {
+  ComputeBackend,
+  ComputeHealth,
+  ComputeJobInput,
+  ComputeJobState,
+  ComputeJobStatus,
+} from './compute-backend';
+
+// Submissions that take longer than this are abandoned
+const SUBMIT_TIMEOUT_MS = 30000;
+
+/**
+ * Jobs on the RunPod serverless endpoint RUNPOD_ENDPOINT_ID
+ */
+export class RunPodComputeBackend implements ComputeBackend {
+  readonly name = 'runpod';
+
+  isConfigured(): boolean {
+    return !!(process.env.RUNPOD_ENDPOINT_ID && process.env.RUNPOD_API_KEY);
+  }
+
+  async submit(input: ComputeJobInput): Promise<{ id: string }> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), SUBMIT_TIMEOUT_MS);
+
+    let response;
+    try {
+      response = await this.request('/run', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ input }),
+        signal: controller.signal,
+      });
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`RunPod service error: ${response.status} - ${errorText || response.statusText}`);
+    }
+
+    const result = await response.json();
+    if (!result.id) {
+      throw new Error(`Invalid RunPod response: ${JSON.stringify(result)}`);
+    }
+
+    return { id: result.id };
+  }
+
+  async status(computeJobId: string): Promise<ComputeJobStatus | null> {
+    const response = await this.request(`/status/${computeJobId}`, { method: 'GET' });
+
+    if (!response.ok) {
+      // Expired or never existed
+      if (response.status === 404) return null;
+      throw new Error(`RunPod API error: ${response.status}`);
+    }
+
+    return response.json();
+  }
+
+  async cancel(computeJobId: string): Promise<ComputeJobState | null> {
+    const response = await this.request(`/cancel/${computeJobId}`, { method: 'POST' });
+
+    if (!response.ok) {
+      if (response.status === 404) return null;
+      const errorText = await response.text();
+      throw new Error(`RunPod API error: ${response.status} ${errorText}`);
+    }
+
+    const data: Partial<ComputeJobStatus> = await response.json();
+    return data.status ?? null;
+  }
+
+  async health(): Promise<ComputeHealth> {
+    try {
+      const response = await this.request('/health', { method: 'GET' });
+
+      if (!response.ok) {
+        return { healthy: false, error: `RunPod API error: ${response.status}` };
+      }
+
+      const data = await response.json();
+      return {
+        healthy: true,
+        workers: { idle: data.workers?.idle ?? 0, running: data.workers?.running ?? 0 },
+        jobs: {
+          inQueue: data.jobs?.inQueue ?? 0,
+          inProgress: data.jobs?.inProgress ?? 0,
+          completed: data.jobs?.completed ?? 0,
+          failed: data.jobs?.failed ?? 0,
+        },
+      };
+    } catch (error) {
+      return { healthy: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  private async request(path: string, init: RequestInit): Promise<Response> {
+    const endpointId = process.env.RUNPOD_ENDPOINT_ID;
+    const apiKey = process.env.RUNPOD_API_KEY;
+
+    if (!endpointId || !apiKey) {
+      throw new Error('RunPod configuration missing. Please set RUNPOD_ENDPOINT_ID and RUNPOD_API_KEY environment variables.');
+    }
+
+    return fetch(`https://api.runpod.ai/v2/${endpointId}${path}`, {
+      ...init,
+      headers: {
+        ...init.headers,
+        Authorization: `Bearer ${apiKey}`,
+      },
+    });
+  }
+}
@@ -1,3 +1,5 @@
+import { computeBackend, ComputeJobStatus } from './compute-backend';
+
 /**
  * RunPod Worker Health Check Utilities
  *
@@ -6,27 +8,20 @@
  * - Completed successfully
  * - Failed/timed out
  * - Died unexpectedly
+ *
+ * and to cancel a job that is no longer wanted. Jobs are looked up through
+ * the configured compute backend (lib/compute-backend.ts).
  */
 
-export interface RunPodJobStatus {
-  id: string;
-  status: 'IN_QUEUE' | 'IN_PROGRESS' | 'COMPLETED' | 'FAILED' | 'CANCELLED' | 'TIMED_OUT';
-  output?: Record<string, unknown>;
-  error?: string;
-  executionTime?: number;
-  delayTime?: number;
-  stream?: Array<{ timestamp: string; output: string }>;
-}
-
 export interface WorkerHealthResult {
   isAlive: boolean;
-  runpodStatus: RunPodJobStatus['status'] | 'NOT_FOUND';
+  runpodStatus: ComputeJobStatus['status'] | 'NOT_FOUND';
   hasOutput: boolean;
   completedSuccessfully: boolean;
   workerDied: boolean;
   shouldRetry: boolean;
   errorMessage?: string;
-  details?: RunPodJobStatus;
+  details?: ComputeJobStatus;
 }
 
 /**
@@ -35,10 +30,7 @@ export interface WorkerHealthResult {
 export async function checkRunPodWorkerHealth(
   runpodJobId: string
 ): Promise<WorkerHealthResult> {
-  const endpointId = process.env.RUNPOD_ENDPOINT_ID;
-  const apiKey = process.env.RUNPOD_API_KEY;
-
-  if (!endpointId || !apiKey) {
+  if (!computeBackend.isConfigured()) {
     return {
       isAlive: false,
       runpodStatus: 'NOT_FOUND',
@@ -51,36 +43,21 @@ export async function checkRunPodWorkerHealth(
   }
 
   try {
-    // Query RunPod status API
-    const statusUrl = `https://api.runpod.ai/v2/${endpointId}/status/${runpodJobId}`;
-
-    const response = await fetch(statusUrl, {
-      method: 'GET',
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-      },
-    });
+    const jobStatus = await computeBackend.status(runpodJobId);
 
-    if (!response.ok) {
-      if (response.status === 404) {
-        // Job not found - either expired or never existed
-        return {
-          isAlive: false,
-          runpodStatus: 'NOT_FOUND',
-          hasOutput: false,
-          completedSuccessfully: false,
-          workerDied: true,
-          shouldRetry: true,
-          errorMessage: 'Job not found in RunPod (may have expired)',
-        };
-      }
-
-      throw new Error(`RunPod API error: ${response.status}`);
+    if (!jobStatus) {
+      // Job not found - either expired or never existed
+      return {
+        isAlive: false,
+        runpodStatus: 'NOT_FOUND',
+        hasOutput: false,
+        completedSuccessfully: false,
+        workerDied: true,
+        shouldRetry: true,
+        errorMessage: 'Job not found in RunPod (may have expired)',
+      };
     }
 
-    const data = await response.json();
-    const jobStatus: RunPodJobStatus = data;
-
     // Analyze the job status
     const result = analyzeWorkerHealth(jobStatus);
 
@@ -99,10 +76,38 @@ export async function checkRunPodWorkerHealth(
   }
 }
 
+export interface RunPodCancelResult {
+  cancelled: boolean;
+  runpodStatus?: ComputeJobStatus['status'] | 'NOT_FOUND';
+  errorMessage?: string;
+}
+
+/**
+ * Cancel a RunPod job. Queued jobs are dropped; running jobs are stopped.
+ * A job RunPod no longer knows about counts as cancelled, since it can't
+ * produce anything more.
+ */
+export async function cancelRunPodJob(runpodJobId: string): Promise<RunPodCancelResult> {
+  if (!computeBackend.isConfigured()) {
+    return { cancelled: false, errorMessage: 'RunPod configuration missing' };
+  }
+
+  try {
+    const status = await computeBackend.cancel(runpodJobId);
+    return { cancelled: true, runpodStatus: status ?? 'NOT_FOUND' };
+  } catch (error: unknown) {
+    console.error('Error cancelling RunPod job:', error);
+    return {
+      cancelled: false,
+      errorMessage: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
 /**
  * Analyze RunPod job status to determine worker health
  */
-function analyzeWorkerHealth(jobStatus: RunPodJobStatus): WorkerHealthResult {
+function analyzeWorkerHealth(jobStatus: ComputeJobStatus): WorkerHealthResult {
   const status = jobStatus.status;
   const hasOutput = !!(jobStatus.output && Object.keys(jobStatus.output).length > 0);
 
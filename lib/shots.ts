@@ -0,0 +1,325 @@
+/**
+ * Shot detection and classification
+ *
+ * Finds hits in the shuttle trajectory (sharp changes in the shuttle's
+ * direction or speed), attributes each hit to a player using
+ * corrected_positions.json, and labels it with a shot type from where the
+ * hitter and receiver stand and how fast/long the shuttle travels.
+ *
+ * These are heuristics on 2D tracking data, not a trained model - each shot
+ * carries a confidence that reflects how much data backed the label.
+ */
+
+import { ShuttlePoint, ShuttleTrajectory } from './shuttle';
+import { COURT_WIDTH_M, NET_Y_M, PositionTrack, getPositionFrameAt } from './positions';
+import { Rally } from './rallies';
+
+export const SHOT_CLASSIFICATION_VERSION = 1;
+
+export const SHOT_TYPES = ['serve', 'clear', 'drop', 'smash', 'net', 'drive', 'lift'] as const;
+
+export type ShotType = typeof SHOT_TYPES[number];
+
+export interface Shot {
+  index: number; // 1-based, in playback order
+  time: number;
+  frame: number;
+  type: ShotType;
+  playerId: string | null; // null when no position data covers the hit
+  rallyIndex: number | null;
+  speed: number; // shuttle speed just after the hit, in frame widths per second
+  confidence: number; // 0-1
+}
+
+export interface ShotAnalysis {
+  version: number;
+  generatedAt: string;
+  sources: {
+    positions: boolean;
+    rallies: boolean;
+  };
+  shots: Shot[];
+  counts: Record<ShotType, number>;
+}
+
+// Max frames between detections for two points to count as consecutive
+const MAX_FRAME_GAP = 5;
+// Frames either side of a candidate used to estimate incoming/outgoing velocity
+const VELOCITY_WINDOW = 3;
+// Minimum change in direction (degrees) for a hit
+const MIN_HIT_ANGLE = 60;
+// A smaller direction change still counts as a hit if the shuttle speeds up this much
+const HIT_SPEEDUP_RATIO = 1.6;
+// Minimum time between two hits
+const MIN_HIT_INTERVAL_SECONDS = 0.35;
+// Gap before a hit that makes it a serve when no rally data is available
+const SERVE_GAP_SECONDS = 2.5;
+
+// Court zones, as distance from the net in metres
+const NET_ZONE_M = 2.0;
+const FRONT_COURT_M = 2.5;
+const REAR_COURT_M = 4.0;
+// Outgoing speed relative to the median hit speed that indicates a smash
+const SMASH_SPEED_RATIO = 1.8;
+
+interface Velocity {
+  vx: number;
+  vy: number;
+  speed: number;
+}
+
+interface Hit {
+  point: ShuttlePoint;
+  incoming: Velocity;
+  outgoing: Velocity;
+  rallyIndex: number | null;
+}
+
+function averageVelocity(points: ShuttlePoint[], scaleX: number, scaleY: number): Velocity | null {
+  if (points.length < 2) return null;
+  const first = points[0];
+  const last = points[points.length - 1];
+  const dt = last.time - first.time;
+  if (dt <= 0) return null;
+
+  const vx = ((last.x as number) - (first.x as number)) / scaleX / dt;
+  const vy = ((last.y as number) - (first.y as number)) / scaleY / dt;
+  return { vx, vy, speed: Math.hypot(vx, vy) };
+}
+
+function angleBetween(a: Velocity, b: Velocity): number {
+  if (a.speed === 0 || b.speed === 0) return 0;
+  const cos = (a.vx * b.vx + a.vy * b.vy) / (a.speed * b.speed);
+  return (Math.acos(Math.max(-1, Math.min(1, cos))) * 180) / Math.PI;
+}
+
+function findRally(rallies: Rally[], time: number): Rally | undefined {
+  return rallies.find(rally => time >= rally.startTime && time <= rally.endTime);
+}
+
+/**
+ * Split visible points into runs where consecutive detections are close in time
+ */
+function getTrackedRuns(trajectory: ShuttleTrajectory): ShuttlePoint[][] {
+  const runs: ShuttlePoint[][] = [];
+  let current: ShuttlePoint[] = [];
+
+  for (const point of trajectory.points) {
+    if (!point.visible) continue;
+    const previous = current[current.length - 1];
+    if (previous && point.frame - previous.frame > MAX_FRAME_GAP) {
+      runs.push(current);
+      current = [];
+    }
+    current.push(point);
+  }
+  if (current.length > 0) runs.push(current);
+
+  return runs;
+}
+
+function detectHits(trajectory: ShuttleTrajectory, rallies: Rally[]): Hit[] {
+  const visible = trajectory.points.filter(p => p.visible);
+  let scaleX = 1;
+  let scaleY = 1;
+  if (trajectory.coordinateSpace === 'pixels') {
+    scaleX = trajectory.width || visible.reduce((max, p) => Math.max(max, p.x as number), 1);
+    scaleY = trajectory.height || visible.reduce((max, p) => Math.max(max, p.y as number), 1);
+  }
+
+  const candidates: (Hit & { score: number })[] = [];
+
+  for (const run of getTrackedRuns(trajectory)) {
+    for (let i = VELOCITY_WINDOW; i < run.length - VELOCITY_WINDOW; i++) {
+      const incoming = averageVelocity(run.slice(i - VELOCITY_WINDOW, i + 1), scaleX, scaleY);
+      const outgoing = averageVelocity(run.slice(i, i + VELOCITY_WINDOW + 1), scaleX, scaleY);
+      if (!incoming || !outgoing) continue;
+
+      const angle = angleBetween(incoming, outgoing);
+      const speedup = incoming.speed > 0 ? outgoing.speed / incoming.speed : 0;
+      if (angle < MIN_HIT_ANGLE && speedup < HIT_SPEEDUP_RATIO) continue;
+
+      const rally = findRally(rallies, run[i].time);
+      if (rallies.length > 0 && !rally) continue; // ignore pickups and practice hits between rallies
+
+      candidates.push({
+        point: run[i],
+        incoming,
+        outgoing,
+        rallyIndex: rally?.index ?? null,
+        score: angle / 180 + Math.min(speedup, 3) / 3,
+      });
+    }
+  }
+
+  // Neighbouring frames around one hit all look like hits; keep the strongest
+  const hits: Hit[] = [];
+  let cluster: (Hit & { score: number })[] = [];
+  const flush = () => {
+    if (cluster.length === 0) return;
+    const best = cluster.reduce((a, b) => (b.score > a.score ? b : a));
+    hits.push({ point: best.point, incoming: best.incoming, outgoing: best.outgoing, rallyIndex: best.rallyIndex });
+    cluster = [];
+  };
+
+  for (const candidate of candidates) {
+    const last = cluster[cluster.length - 1];
+    if (last && candidate.point.time - last.point.time > MIN_HIT_INTERVAL_SECONDS) {
+      flush();
+    }
+    cluster.push(candidate);
+  }
+  flush();
+
+  return hits;
+}
+
+/**
+ * Pick the player who most likely hit the shuttle.
+ *
+ * The shuttle arrives at the hitter, so for a rally shot the incoming
+ * direction on screen (down = towards the camera) tells us which half of the
+ * court the hitter is in. Serves have no incoming flight, so we use the
+ * outgoing direction instead. Within that half (doubles) we take the player
+ * closest to the shuttle across the court.
+ */
+function attributeHit(hit: Hit, isServe: boolean, trajectory: ShuttleTrajectory, positions: PositionTrack | null) {
+  if (!positions) return null;
+  const frame = getPositionFrameAt(positions, hit.point.time);
+  if (!frame || frame.players.length === 0) return null;
+
+  const nearSide = isServe ? hit.outgoing.vy < 0 : hit.incoming.vy > 0;
+  const candidates = frame.players.filter(player => (player.y > NET_Y_M) === nearSide);
+  if (candidates.length === 0) return null;
+
+  const shuttleX = trajectory.coordinateSpace === 'normalized'
+    ? (hit.point.x as number)
+    : (hit.point.x as number) / (trajectory.width || 1920);
+
+  return candidates.reduce((best, player) =>
+    Math.abs(player.x / COURT_WIDTH_M - shuttleX) < Math.abs(best.x / COURT_WIDTH_M - shuttleX) ? player : best
+  );
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function classify(
+  isServe: boolean,
+  speed: number,
+  medianSpeed: number,
+  flightTime: number | null,
+  hitterDepth: number | null,
+  receiverDepth: number | null
+): { type: ShotType; confidence: number } {
+  if (isServe) {
+    return { type: 'serve', confidence: 0.9 };
+  }
+
+  const isFast = medianSpeed > 0 && speed >= medianSpeed * SMASH_SPEED_RATIO;
+
+  // Shuttle-only fallback: no idea where players stand, so go by speed and flight time
+  if (hitterDepth === null) {
+    if (isFast) return { type: 'smash', confidence: 0.5 };
+    if (flightTime === null) return { type: 'drive', confidence: 0.2 };
+    if (flightTime >= 1.3) return { type: 'clear', confidence: 0.35 };
+    if (flightTime < 0.6 && speed < medianSpeed) return { type: 'net', confidence: 0.35 };
+    if (speed < medianSpeed * 0.6) return { type: 'drop', confidence: 0.3 };
+    return { type: 'drive', confidence: 0.3 };
+  }
+
+  const confidence = receiverDepth !== null ? 0.75 : 0.55;
+
+  if (isFast && hitterDepth >= FRONT_COURT_M) {
+    return { type: 'smash', confidence };
+  }
+
+  if (hitterDepth < NET_ZONE_M) {
+    if (receiverDepth !== null) {
+      return receiverDepth >= REAR_COURT_M ? { type: 'lift', confidence } : { type: 'net', confidence };
+    }
+    return flightTime !== null && flightTime > 1.0 ? { type: 'lift', confidence } : { type: 'net', confidence };
+  }
+
+  if (hitterDepth >= REAR_COURT_M) {
+    if (receiverDepth !== null && receiverDepth < FRONT_COURT_M) return { type: 'drop', confidence };
+    if ((receiverDepth !== null && receiverDepth >= REAR_COURT_M) || (flightTime !== null && flightTime >= 1.2)) {
+      return { type: 'clear', confidence };
+    }
+    return { type: 'drive', confidence };
+  }
+
+  // Mid-court
+  if (receiverDepth !== null && receiverDepth < FRONT_COURT_M && (flightTime === null || flightTime >= 0.8)) {
+    return { type: 'drop', confidence };
+  }
+  return { type: 'drive', confidence };
+}
+
+/**
+ * Detect and classify every shot in a video
+ */
+export function classifyShots(
+  trajectory: ShuttleTrajectory,
+  positions: PositionTrack | null,
+  rallies: Rally[]
+): ShotAnalysis {
+  const hits = detectHits(trajectory, rallies);
+  const medianSpeed = median(hits.map(hit => hit.outgoing.speed));
+
+  const serveFlags = hits.map((hit, i) => {
+    const previous = hits[i - 1];
+    if (rallies.length > 0) {
+      return !previous || previous.rallyIndex !== hit.rallyIndex;
+    }
+    return !previous || hit.point.time - previous.point.time > SERVE_GAP_SECONDS;
+  });
+
+  const hitters = hits.map((hit, i) => attributeHit(hit, serveFlags[i], trajectory, positions));
+
+  const shots: Shot[] = hits.map((hit, i) => {
+    const next = hits[i + 1];
+    // The next hit only tells us where this shot landed if it's part of the same exchange
+    const nextInExchange = next && !serveFlags[i + 1] ? next : undefined;
+    const hitter = hitters[i];
+    const receiver = nextInExchange ? hitters[i + 1] : null;
+
+    const { type, confidence } = classify(
+      serveFlags[i],
+      hit.outgoing.speed,
+      medianSpeed,
+      nextInExchange ? nextInExchange.point.time - hit.point.time : null,
+      hitter ? Math.abs(hitter.y - NET_Y_M) : null,
+      receiver ? Math.abs(receiver.y - NET_Y_M) : null
+    );
+
+    return {
+      index: i + 1,
+      time: Number(hit.point.time.toFixed(3)),
+      frame: hit.point.frame,
+      type,
+      playerId: hitter?.playerId ?? null,
+      rallyIndex: hit.rallyIndex,
+      speed: Number(hit.outgoing.speed.toFixed(3)),
+      confidence,
+    };
+  });
+
+  const counts = Object.fromEntries(SHOT_TYPES.map(type => [type, 0])) as Record<ShotType, number>;
+  shots.forEach(shot => counts[shot.type]++);
+
+  return {
+    version: SHOT_CLASSIFICATION_VERSION,
+    generatedAt: new Date().toISOString(),
+    sources: {
+      positions: !!positions && positions.frameCount > 0,
+      rallies: rallies.length > 0,
+    },
+    shots,
+    counts,
+  };
+}
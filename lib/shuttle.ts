@@ -0,0 +1,186 @@
+/**
+ * Shuttle tracking data utilities
+ *
+ * The worker's shuttle.json has gone through several shapes (TrackNet-style
+ * Frame/Visibility/X/Y rows, frame-keyed objects, wrapped `shuttleData`
+ * blocks). These helpers normalize all of them into a single frame-ordered
+ * list of points that the API, overlay and downstream analysis can share.
+ */
+
+export const DEFAULT_SHUTTLE_FPS = 30;
+
+export interface ShuttlePoint {
+  frame: number;
+  time: number; // seconds from start of video
+  x: number | null;
+  y: number | null;
+  confidence: number | null;
+  visible: boolean;
+}
+
+export interface ShuttleTrajectory {
+  fps: number;
+  frameCount: number;
+  visibleCount: number;
+  // Source video size the coordinates refer to (null if the worker didn't record it)
+  width: number | null;
+  height: number | null;
+  // 'normalized' means x/y are fractions of the frame (0-1) rather than pixels
+  coordinateSpace: 'pixels' | 'normalized';
+  points: ShuttlePoint[];
+}
+
+type RawRecord = Record<string, unknown>;
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function pick(record: RawRecord, keys: string[]): unknown {
+  for (const key of keys) {
+    if (key in record) return record[key];
+  }
+  return undefined;
+}
+
+function parseFrameKey(key: string): number | null {
+  const match = key.match(/(\d+)$/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+function toPoint(raw: unknown, fallbackFrame: number, fps: number): ShuttlePoint | null {
+  let record: RawRecord;
+
+  if (Array.isArray(raw)) {
+    // TrackNet CSV rows converted to arrays: [frame, visibility, x, y]
+    if (raw.length < 4) return null;
+    record = { frame: raw[0], visible: raw[1], x: raw[2], y: raw[3] };
+  } else if (raw && typeof raw === 'object') {
+    record = raw as RawRecord;
+  } else {
+    return null;
+  }
+
+  const frame = toNumber(pick(record, ['frame', 'Frame', 'frame_index', 'frame_number'])) ?? fallbackFrame;
+  const x = toNumber(pick(record, ['x', 'X', 'shuttle_x']));
+  const y = toNumber(pick(record, ['y', 'Y', 'shuttle_y']));
+  const confidence = toNumber(pick(record, ['confidence', 'conf', 'score']));
+  const visibility = pick(record, ['visible', 'Visibility', 'visibility']);
+  const timestamp = toNumber(pick(record, ['time', 'timestamp', 'Timestamp', 'time_s']));
+
+  let visible = x !== null && y !== null && !(x === 0 && y === 0);
+  if (visibility !== undefined && visibility !== null) {
+    visible = visible && (visibility === true || toNumber(visibility) === 1);
+  }
+
+  return {
+    frame,
+    time: timestamp ?? frame / fps,
+    x: visible ? x : null,
+    y: visible ? y : null,
+    confidence,
+    visible,
+  };
+}
+
+/**
+ * Parse shuttle.json text, tolerating the Infinity/NaN literals the Python
+ * worker sometimes writes.
+ */
+export function parseShuttleJson(contents: string): unknown {
+  try {
+    return JSON.parse(contents);
+  } catch {
+    const sanitized = contents
+      .replace(/:\s*-?Infinity/g, ': null')
+      .replace(/:\s*NaN/g, ': null');
+    return JSON.parse(sanitized);
+  }
+}
+
+/**
+ * Normalize any known shuttle.json layout into a ShuttleTrajectory
+ */
+export function normalizeShuttleData(raw: unknown): ShuttleTrajectory {
+  let root: unknown = raw;
+  let meta: RawRecord = {};
+
+  // Unwrap { shuttleData: ... } / { frames: [...] } / { positions: [...] } containers
+  if (root && typeof root === 'object' && !Array.isArray(root)) {
+    meta = root as RawRecord;
+    const inner = pick(meta, ['shuttleData', 'shuttle_data', 'frames', 'positions', 'trajectory', 'data']);
+    if (inner !== undefined) {
+      root = inner;
+    }
+  }
+
+  const fps = toNumber(pick(meta, ['fps', 'frame_rate', 'frameRate'])) || DEFAULT_SHUTTLE_FPS;
+  const width = toNumber(pick(meta, ['width', 'frame_width', 'video_width']));
+  const height = toNumber(pick(meta, ['height', 'frame_height', 'video_height']));
+
+  const points: ShuttlePoint[] = [];
+
+  if (Array.isArray(root)) {
+    root.forEach((entry, index) => {
+      const point = toPoint(entry, index, fps);
+      if (point) points.push(point);
+    });
+  } else if (root && typeof root === 'object') {
+    Object.entries(root as RawRecord).forEach(([key, entry], index) => {
+      const point = toPoint(entry, parseFrameKey(key) ?? index, fps);
+      if (point) points.push(point);
+    });
+  }
+
+  points.sort((a, b) => a.frame - b.frame);
+
+  const visiblePoints = points.filter(p => p.visible);
+  const normalized = visiblePoints.length > 0 &&
+    visiblePoints.every(p => (p.x as number) <= 1 && (p.y as number) <= 1);
+
+  return {
+    fps,
+    frameCount: points.length,
+    visibleCount: visiblePoints.length,
+    width,
+    height,
+    coordinateSpace: normalized ? 'normalized' : 'pixels',
+    points,
+  };
+}
+
+/**
+ * Get the visible points within [startTime, endTime] (inclusive), in order.
+ * Uses binary search since trajectories can hold tens of thousands of frames.
+ */
+export function getShuttleWindow(
+  trajectory: ShuttleTrajectory,
+  startTime: number,
+  endTime: number
+): ShuttlePoint[] {
+  const { points } = trajectory;
+  let low = 0;
+  let high = points.length;
+
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (points[mid].time < startTime) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  const window: ShuttlePoint[] = [];
+  for (let i = low; i < points.length && points[i].time <= endTime; i++) {
+    if (points[i].visible) window.push(points[i]);
+  }
+  return window;
+}
@@ -0,0 +1,123 @@
+/**
+ * Object key layout - the one place storage keys are built
+ *
+ * {env}/{userId}/{videoId}/{file}           uploads and their analysis artifacts
+ * {env}/{userId}/reports/{reportId}/{file}  generated reports
+ * {env}/blog/content/{slug}.md              blog post bodies
+ * {env}/blog/media/{file}                   blog images
+ *
+ * {env} is R2_ENVIRONMENT (default dev), so environments can share a bucket.
+ * Objects in older layouts are moved here by lib/storage-migration.ts.
+ */
+
+/** Files the worker and the app write next to a video */
+export type AnalysisFileName =
+  | 'calibration.csv'
+  | 'calibration_summary.json'
+  | 'court.csv'
+  | 'pose.json'
+  | 'shuttle.json'
+  | 'corrected_positions.json'
+  | 'unified_pose_position_artifacts.json'
+  | 'position_analysis.json'
+  | 'rallies.json'
+  | 'shots.json'
+  | 'player_names.json'
+  | 'court_visualization.png'
+  | 'court_frame.jpg'
+  | 'analyzed_video.mp4';
+
+/** Any file in a video's folder: the upload, a thumbnail variant or an artifact */
+export type VideoFileName = `video.${string}` | `thumbnail${string}` | AnalysisFileName;
+
+export type ReportFileName = 'report.html' | 'report.pdf';
+
+export interface ParsedVideoKey {
+  userId: string;
+  videoId: string;
+  fileName: string;
+}
+
+export function storageEnvironment(): string {
+  return process.env.R2_ENVIRONMENT || 'dev';
+}
+
+/**
+ * A single path segment. IDs come from URLs and request bodies, so one with a
+ * slash could otherwise reach another user's folder.
+ */
+function segment(value: string, name: string): string {
+  if (!value || value.includes('/') || value === '.' || value === '..') {
+    throw new Error(`Invalid ${name} for storage key: ${value}`);
+  }
+  return value;
+}
+
+/** Everything a user owns: `{env}/{userId}/` */
+export function userPrefix(userId: string): string {
+  return `${storageEnvironment()}/${segment(userId, 'userId')}/`;
+}
+
+/** A video's folder: `{env}/{userId}/{videoId}/` */
+export function videoPrefix(userId: string, videoId: string): string {
+  return `${userPrefix(userId)}${segment(videoId, 'videoId')}/`;
+}
+
+export function videoFileKey(userId: string, videoId: string, fileName: VideoFileName): string {
+  return `${videoPrefix(userId, videoId)}${segment(fileName, 'fileName')}`;
+}
+
+/** The uploaded video, `video.{extension}` */
+export function sourceVideoKey(userId: string, videoId: string, extension: string): string {
+  return videoFileKey(userId, videoId, `video.${extension}`);
+}
+
+/**
+ * Stem shared by a video's thumbnail variants (`thumbnail.jpg`,
+ * `thumbnail-sm.webp`, ...)
+ */
+export function thumbnailKeyStem(userId: string, videoId: string): string {
+  return videoFileKey(userId, videoId, 'thumbnail');
+}
+
+export function reportFileKey(userId: string, reportId: string, fileName: ReportFileName): string {
+  return `${userPrefix(userId)}reports/${segment(reportId, 'reportId')}/${fileName}`;
+}
+
+export function blogContentKey(slug: string): string {
+  return `${storageEnvironment()}/blog/content/${segment(slug, 'slug')}.md`;
+}
+
+export function blogMediaKey(fileName: string): string {
+  return `${storageEnvironment()}/blog/media/${segment(fileName, 'fileName')}`;
+}
+
+/** Whether a key is a blog image in this environment */
+export function isBlogMediaKey(key: string): boolean {
+  const prefix = `${storageEnvironment()}/blog/media/`;
+  return key.startsWith(prefix) && !key.slice(prefix.length).includes('/');
+}
+
+/**
+ * Split a key in this environment's video layout, or null if it isn't one
+ * (reports, blog content, other environments, legacy layouts)
+ */
+export function parseVideoKey(key: string): ParsedVideoKey | null {
+  const parts = key.split('/');
+  if (parts.length !== 4 || parts[0] !== storageEnvironment()) return null;
+
+  const [, userId, videoId, fileName] = parts;
+  if (!userId || !videoId || !fileName || userId === 'blog' || videoId === 'reports') return null;
+
+  return { userId, videoId, fileName };
+}
+
+/**
+ * Whether `key` is the upload (`video.*`) in this video's own folder. Users
+ * can edit their videos rows, so r2_key is checked with this before it is
+ * signed or handed to the worker.
+ */
+export function isUploadKeyOf(key: string, userId: string, videoId: string): boolean {
+  const parsed = parseVideoKey(key);
+  return !!parsed && parsed.userId === userId && parsed.videoId === videoId && parsed.fileName.startsWith('video.');
+}
@@ -0,0 +1,203 @@
+import { createAdminClient } from '@/lib/supabase/server';
+import { storage } from '@/lib/storage';
+import { videoFileKey, type VideoFileName } from '@/lib/storage-keys';
+import { logError, logSuccess } from '@/lib/logger';
+
+/**
+ * Moves objects written by older versions of the app into the canonical
+ * {env}/{userId}/{videoId}/ layout (lib/storage-keys.ts). Run through
+ * POST /api/storage/migrate-legacy (`npm run storage:migrate`).
+ *
+ * Legacy layouts:
+ * - user-root:    {userId}/{videoId}/{file}
+ * - analysis:     analysis/{userId}/{videoId}/{file}
+ * - users-videos: users/{userId}/videos/{timestamp}-{originalName}, which
+ *                 becomes {env}/{userId}/{timestamp}/video.{ext}
+ *
+ * A move copies the object with its content type and metadata, checks the
+ * copy's size and then deletes the original; videos.r2_key rows pointing at
+ * the old key follow it. Existing targets are never overwritten.
+ */
+
+// Moves per run, to stay inside the route's maxDuration
+export const DEFAULT_MIGRATION_LIMIT = 200;
+
+// Supabase user IDs
+const USER_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export type LegacyLayout = 'user-root' | 'analysis' | 'users-videos';
+
+export interface LegacyMove {
+  from: string;
+  to: string;
+  layout: LegacyLayout;
+  size: number;
+}
+
+export interface StorageMigrationReport {
+  dryRun: boolean;
+  scanned: number; // Objects listed
+  moved: LegacyMove[]; // Planned moves on a dry run
+  skipped: Array<{ key: string; reason: string }>;
+  failed: Array<{ key: string; error: string }>;
+  videosUpdated: number; // videos rows whose r2_key was rewritten
+  remaining: number; // Legacy objects left over the limit, for the next run
+}
+
+interface LegacyTarget {
+  layout: LegacyLayout;
+  userId: string;
+  videoId: string;
+  fileName: VideoFileName;
+  originalName?: string;
+}
+
+/**
+ * Where a legacy key belongs, a reason it can't be moved, or null if the key
+ * isn't in a legacy layout
+ */
+export function resolveLegacyKey(key: string): LegacyTarget | { unmovable: string } | null {
+  const parts = key.split('/');
+
+  if (parts[0] === 'users' && parts[2] === 'videos' && USER_ID_PATTERN.test(parts[1] ?? '')) {
+    if (parts.length !== 4) return { unmovable: 'nested path under users/{userId}/videos/' };
+
+    const match = parts[3].match(/^(\d+)-(.+)$/);
+    const extension = match?.[2].includes('.') ? match[2].split('.').pop()!.toLowerCase() : null;
+    if (!match || !extension) return { unmovable: 'filename is not {timestamp}-{name}.{ext}' };
+
+    return {
+      layout: 'users-videos',
+      userId: parts[1],
+      videoId: match[1],
+      fileName: `video.${extension}`,
+      originalName: match[2],
+    };
+  }
+
+  if (parts[0] === 'analysis' && USER_ID_PATTERN.test(parts[1] ?? '')) {
+    if (parts.length !== 4) return { unmovable: 'expected analysis/{userId}/{videoId}/{file}' };
+    return { layout: 'analysis', userId: parts[1], videoId: parts[2], fileName: parts[3] as VideoFileName };
+  }
+
+  if (USER_ID_PATTERN.test(parts[0])) {
+    if (parts.length !== 3) return { unmovable: 'expected {userId}/{videoId}/{file}' };
+    return { layout: 'user-root', userId: parts[0], videoId: parts[1], fileName: parts[2] as VideoFileName };
+  }
+
+  return null;
+}
+
+/**
+ * Move legacy objects into the canonical layout. With `dryRun` nothing is
+ * changed and `moved` lists what would be.
+ */
+export async function migrateLegacyObjects({
+  dryRun = true,
+  limit = DEFAULT_MIGRATION_LIMIT,
+}: { dryRun?: boolean; limit?: number } = {}): Promise<StorageMigrationReport> {
+  const report: StorageMigrationReport = {
+    dryRun,
+    scanned: 0,
+    moved: [],
+    skipped: [],
+    failed: [],
+    videosUpdated: 0,
+    remaining: 0,
+  };
+
+  const objects = await storage.list('');
+  report.scanned = objects.length;
+  const existingKeys = new Set(objects.map(object => object.key));
+
+  for (const object of objects) {
+    const target = resolveLegacyKey(object.key);
+    if (!target) continue;
+
+    if ('unmovable' in target) {
+      report.skipped.push({ key: object.key, reason: target.unmovable });
+      continue;
+    }
+
+    let to: string;
+    try {
+      to = videoFileKey(target.userId, target.videoId, target.fileName);
+    } catch (error) {
+      report.skipped.push({ key: object.key, reason: error instanceof Error ? error.message : 'Invalid key' });
+      continue;
+    }
+
+    if (existingKeys.has(to)) {
+      report.skipped.push({ key: object.key, reason: `target ${to} already exists` });
+      continue;
+    }
+
+    if (report.moved.length >= limit) {
+      report.remaining++;
+      continue;
+    }
+
+    const move: LegacyMove = { from: object.key, to, layout: target.layout, size: object.size };
+
+    if (!dryRun) {
+      try {
+        await moveObject(move, target.originalName);
+        report.videosUpdated += await repointVideoRows(move);
+      } catch (error) {
+        logError('Legacy object move failed', { from: move.from, to: move.to, error });
+        report.failed.push({ key: object.key, error: error instanceof Error ? error.message : 'Unknown error' });
+        continue;
+      }
+    }
+
+    existingKeys.add(to);
+    report.moved.push(move);
+  }
+
+  if (!dryRun) {
+    logSuccess(`Moved ${report.moved.length} legacy objects`, {
+      skipped: report.skipped.length,
+      failed: report.failed.length,
+      remaining: report.remaining,
+    });
+  }
+
+  return report;
+}
+
+async function moveObject(move: LegacyMove, originalName?: string): Promise<void> {
+  const source = await storage.get(move.from);
+  if (!source) {
+    throw new Error('Object disappeared before it could be moved');
+  }
+
+  const metadata = { ...source.metadata };
+  if (originalName && !metadata.originalname) {
+    metadata.originalName = originalName;
+  }
+
+  await storage.put(move.to, source.body, { contentType: source.contentType, metadata });
+
+  const copy = await storage.head(move.to);
+  if (!copy || copy.size !== source.size) {
+    throw new Error(`Copy is ${copy ? copy.size : 'missing'}, expected ${source.size} bytes; original kept`);
+  }
+
+  await storage.delete(move.from);
+}
+
+async function repointVideoRows(move: LegacyMove): Promise<number> {
+  const supabase = createAdminClient();
+  const { data, error } = await supabase
+    .from('videos')
+    .update({ r2_key: move.to })
+    .eq('r2_key', move.from)
+    .select('video_id');
+
+  if (error) {
+    // The object has moved, so don't report the move as failed
+    logError('Failed to update videos.r2_key after move', { from: move.from, to: move.to, error });
+    return 0;
+  }
+  return data?.length ?? 0;
+}
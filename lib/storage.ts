@@ -0,0 +1,118 @@
+import { R2StorageProvider } from './r2-storage';
+import { LocalStorageProvider } from './local-storage';
+
+/**
+ * Object storage - videos, analysis artifacts, reports and blog content
+ *
+ * Two implementations of StorageProvider:
+ * - R2StorageProvider: Cloudflare R2 (or any S3-compatible bucket)
+ * - LocalStorageProvider: a directory on disk, with presigned URLs served by
+ *   /api/storage/local, so the app runs with no cloud credentials
+ *
+ * STORAGE_PROVIDER=r2|local picks one; it defaults to r2. Everything that
+ * reads or writes objects goes through the `storage` singleton.
+ */
+
+export type StorageBody = string | Buffer | Uint8Array | ReadableStream<Uint8Array>;
+
+export interface StorageListEntry {
+  key: string;
+  size: number;
+  lastModified: Date;
+}
+
+export interface StorageObjectInfo extends StorageListEntry {
+  contentType?: string;
+  metadata: Record<string, string>; // Keys are lowercase
+}
+
+export interface StorageObject extends StorageObjectInfo {
+  body: ReadableStream<Uint8Array>;
+  contentLength: number; // Bytes in `body` - less than `size` for range reads
+  contentRange?: string; // `bytes start-end/size`, for range reads
+}
+
+export interface StoragePutOptions {
+  contentType?: string;
+  metadata?: Record<string, string>;
+}
+
+export interface StoragePresignOptions extends StoragePutOptions {
+  method?: 'GET' | 'PUT'; // Defaults to GET
+  expiresIn?: number; // Seconds, defaults to 1 hour
+  contentDisposition?: string; // GET only
+}
+
+export interface StoragePart {
+  partNumber: number;
+  etag: string;
+}
+
+export interface StorageUploadedPart extends StoragePart {
+  size: number;
+}
+
+export interface StorageProvider {
+  /** Provider name, for logs and debugging */
+  readonly name: string;
+
+  /** Read an object, or part of it. Resolves null if it doesn't exist */
+  get(key: string, options?: { range?: { start: number; end?: number } }): Promise<StorageObject | null>;
+
+  /** Write an object, replacing any existing one */
+  put(key: string, body: StorageBody, options?: StoragePutOptions): Promise<void>;
+
+  /** Size and metadata of an object, or null if it doesn't exist */
+  head(key: string): Promise<StorageObjectInfo | null>;
+
+  /** Objects whose key starts with `prefix`, in key order */
+  list(prefix: string, options?: { maxKeys?: number }): Promise<StorageListEntry[]>;
+
+  /** Delete an object; deleting a missing object is not an error */
+  delete(key: string): Promise<void>;
+
+  /** URL that lets whoever holds it read (GET) or write (PUT) one object */
+  presign(key: string, options?: StoragePresignOptions): Promise<string>;
+
+  /** Start a multipart upload; resolves with its upload ID */
+  createMultipartUpload(key: string, options?: StoragePutOptions): Promise<string>;
+
+  /** URL to PUT one part to. The response's ETag header identifies the part */
+  presignUploadPart(key: string, uploadId: string, partNumber: number, expiresIn?: number): Promise<string>;
+
+  /**
+   * Parts uploaded so far, in part number order. Resolves null if the upload
+   * doesn't exist (completed, aborted or expired)
+   */
+  listParts(key: string, uploadId: string): Promise<StorageUploadedPart[] | null>;
+
+  /** Join the uploaded parts into the object */
+  completeMultipartUpload(key: string, uploadId: string, parts: StoragePart[]): Promise<void>;
+
+  /** Discard a multipart upload and its parts */
+  abortMultipartUpload(key: string, uploadId: string): Promise<void>;
+}
+
+function createStorageProvider(): StorageProvider {
+  return process.env.STORAGE_PROVIDER === 'local' ? new LocalStorageProvider() : new R2StorageProvider();
+}
+
+// Singleton instance
+export const storage: StorageProvider = createStorageProvider();
+
+/**
+ * Whole object as a Buffer, or null if it doesn't exist
+ */
+export async function readObjectBuffer(key: string): Promise<Buffer | null> {
+  const object = await storage.get(key);
+  if (!object) return null;
+  return Buffer.from(await new Response(object.body).arrayBuffer());
+}
+
+/**
+ * Whole object as UTF-8 text, or null if it doesn't exist
+ */
+export async function readObjectText(key: string): Promise<string | null> {
+  const buffer = await readObjectBuffer(key);
+  return buffer ? buffer.toString('utf-8') : null;
+}
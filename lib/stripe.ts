@@ -17,24 +17,32 @@ export const STRIPE_PLANS = {
     price: 0,
     hours: 5,
     priceId: null,
+    maxConcurrentJobs: 1, // Analysis jobs running on RunPod at once
+    queuePriority: 0, // Higher tiers are dispatched first
   },
   STARTER: {
     name: 'Starter',
     price: 2900, // $29 in cents
     hours: 50,
     priceId: config.stripe.priceIds.starter,
+    maxConcurrentJobs: 2,
+    queuePriority: 1,
   },
   PRO: {
     name: 'Pro',
     price: 7900, // $79 in cents
     hours: 200,
     priceId: config.stripe.priceIds.pro,
+    maxConcurrentJobs: 3,
+    queuePriority: 2,
   },
   ENTERPRISE: {
     name: 'Enterprise',
     price: 19900, // $199 in cents
     hours: 1000,
     priceId: config.stripe.priceIds.enterprise,
+    maxConcurrentJobs: 5,
+    queuePriority: 3,
   },
 } as const;
 
@@ -0,0 +1,191 @@
+import type { RealtimeChannel, SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from '@/lib/supabase/server';
+import { JobEventStore, JobUpdate, ListenerRegistry, SSEListener } from './job-events';
+
+// How far back getActiveJobs looks
+const ACTIVE_JOB_WINDOW_MS = 60 * 60 * 1000;
+
+interface JobEventRow {
+  id: number;
+  job_id: string;
+  step: string | null;
+  status: JobUpdate['status'];
+  progress: number | string | null; // NUMERIC
+  stage: string | null;
+  error: string | null;
+  results: Record<string, unknown> | null;
+  created_at: string;
+}
+
+function toJobUpdate(row: JobEventRow): JobUpdate {
+  const update: JobUpdate = {
+    id: Number(row.id),
+    status: row.status,
+    timestamp: new Date(row.created_at).getTime(),
+  };
+  if (row.step !== null) update.step = row.step;
+  if (row.progress !== null) update.progress = Number(row.progress);
+  if (row.stage !== null) update.stage = row.stage;
+  if (row.error !== null) update.error = row.error;
+  if (row.results !== null) update.results = row.results;
+  return update;
+}
+
+/**
+ * Job events persisted to the `job_events` table.
+ *
+ * Inserts are fanned out to every instance by Supabase Realtime: each
+ * instance opens one channel per job that has local SSE listeners and closes
+ * it when the last listener leaves. Uses the service-role client, so it must
+ * only run server-side.
+ */
+export class SupabaseJobEventStore implements JobEventStore {
+  private client: SupabaseClient | null = null;
+  private channels: Map<string, RealtimeChannel> = new Map();
+  // Pending or settled subscribe per open channel, awaited by every listener
+  private subscriptions: Map<string, Promise<void>> = new Map();
+  private listeners = new ListenerRegistry();
+
+  // Created lazily so importing the store doesn't require the service-role key
+  private get supabase(): SupabaseClient {
+    if (!this.client) {
+      this.client = createAdminClient();
+    }
+    return this.client;
+  }
+
+  async addUpdate(jobId: string, update: Omit<JobUpdate, 'id' | 'timestamp'>): Promise<JobUpdate> {
+    const { data, error } = await this.supabase
+      .from('job_events')
+      .insert({
+        job_id: jobId,
+        step: update.step ?? null,
+        status: update.status,
+        progress: update.progress ?? null,
+        stage: update.stage ?? null,
+        error: update.error ?? null,
+        results: update.results ?? null,
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to store job event for ${jobId}: ${error?.message}`);
+    }
+
+    // Listeners on this instance (and all others) hear about it through Realtime
+    return toJobUpdate(data as JobEventRow);
+  }
+
+  async getUpdates(jobId: string, afterId = 0): Promise<JobUpdate[]> {
+    // Row IDs are global, but still increase within each job
+    const { data, error } = await this.supabase
+      .from('job_events')
+      .select('*')
+      .eq('job_id', jobId)
+      .gt('id', afterId)
+      .order('id', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load job events for ${jobId}: ${error.message}`);
+    }
+
+    return (data as JobEventRow[]).map(toJobUpdate);
+  }
+
+  async getLatestUpdate(jobId: string): Promise<JobUpdate | null> {
+    const { data, error } = await this.supabase
+      .from('job_events')
+      .select('*')
+      .eq('job_id', jobId)
+      .order('id', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load job events for ${jobId}: ${error.message}`);
+    }
+
+    return data ? toJobUpdate(data as JobEventRow) : null;
+  }
+
+  async addListener(jobId: string, listener: SSEListener): Promise<void> {
+    if (this.listeners.add(jobId, listener)) {
+      this.subscriptions.set(jobId, this.openChannel(jobId));
+    }
+    // A listener that joins while the first one is still subscribing waits too
+    await this.subscriptions.get(jobId);
+  }
+
+  removeListener(jobId: string, listener: SSEListener): void {
+    if (this.listeners.remove(jobId, listener)) {
+      const channel = this.channels.get(jobId);
+      this.channels.delete(jobId);
+      this.subscriptions.delete(jobId);
+      if (channel) {
+        this.supabase.removeChannel(channel).catch(error => {
+          console.error(`Error closing job event channel for ${jobId}:`, error);
+        });
+      }
+    }
+  }
+
+  getListenerCount(jobId: string): number {
+    return this.listeners.count(jobId);
+  }
+
+  async pruneUpdates(before: Date): Promise<number> {
+    const { count, error } = await this.supabase
+      .from('job_events')
+      .delete({ count: 'exact' })
+      .lt('created_at', before.toISOString());
+
+    if (error) {
+      throw new Error(`Failed to prune job events: ${error.message}`);
+    }
+
+    return count ?? 0;
+  }
+
+  async getActiveJobs(): Promise<string[]> {
+    const since = new Date(Date.now() - ACTIVE_JOB_WINDOW_MS).toISOString();
+    const { data, error } = await this.supabase
+      .from('job_events')
+      .select('job_id')
+      .gte('created_at', since)
+      .limit(1000);
+
+    if (error) {
+      throw new Error(`Failed to load active jobs: ${error.message}`);
+    }
+
+    return Array.from(new Set((data as Pick<JobEventRow, 'job_id'>[]).map(row => row.job_id)));
+  }
+
+  /**
+   * Subscribe to inserts for a job, resolving once Realtime confirms
+   */
+  private openChannel(jobId: string): Promise<void> {
+    const channel = this.supabase
+      .channel(`job_events:${jobId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'job_events', filter: `job_id=eq.${jobId}` },
+        payload => this.listeners.notify(jobId, toJobUpdate(payload.new as JobEventRow))
+      );
+
+    this.channels.set(jobId, channel);
+
+    return new Promise(resolve => {
+      channel.subscribe((status, error) => {
+        if (status === 'SUBSCRIBED') {
+          resolve();
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          // Realtime retries on its own; don't hold the SSE connection open waiting
+          console.error(`Job event channel for ${jobId}: ${status}`, error);
+          resolve();
+        }
+      });
+    });
+  }
+}
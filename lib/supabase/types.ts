@@ -50,6 +50,15 @@ export interface UserProfile {
   updated_at: string;
 }
 
+export type VideoStatus =
+  | 'uploading'
+  | 'uploaded'
+  | 'processing'
+  | 'completed'
+  | 'failed'
+  | 'archived'
+  | 'deleted';
+
 export interface Video {
   id: string;
   video_id: string;
@@ -62,8 +71,9 @@ export interface Video {
   resolution: string | null;
   fps: number | null;
   codec: string | null;
-  status: 'uploaded' | 'processing' | 'completed' | 'failed' | 'archived' | 'deleted';
+  status: VideoStatus;
   deleted_at: string | null;
+  object_missing_at: string | null; // Set by reconciliation when r2_key has no object
   uploaded_at: string;
   created_at: string;
   updated_at: string;
@@ -134,3 +144,61 @@ export interface ProcessingJob {
   error_info?: Record<string, unknown>;
   retry_info?: Record<string, unknown>;
 }
+
+export interface Player {
+  id: string;
+  user_id: string;
+  name: string;
+  handedness: 'left' | 'right' | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface VideoPlayer {
+  id: string;
+  user_id: string;
+  video_id: string;
+  tracked_player_id: string;
+  player_id: string;
+  created_at: string;
+}
+
+export interface Report {
+  id: string;
+  user_id: string;
+  title: string;
+  scope: 'video' | 'range';
+  video_id: string | null;
+  range_start: string | null;
+  range_end: string | null;
+  video_count: number;
+  html_key: string;
+  pdf_key: string;
+  created_at: string;
+}
+
+export interface VideoAnnotation {
+  id: string;
+  user_id: string;
+  video_id: string;
+  parent_id: string | null;
+  player_id: string | null;
+  time_seconds: number | null;
+  body: string;
+  tags: string[];
+  drawing: AnnotationDrawing | null;
+  show_on_share: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AnnotationStroke {
+  color: string;
+  width: number; // fraction of the video width
+  points: [number, number][]; // normalized 0-1 video coordinates
+}
+
+export interface AnnotationDrawing {
+  strokes: AnnotationStroke[];
+}
@@ -1,19 +1,70 @@
+import {
+  deleteUpload,
+  loadUpload,
+  loadUploadThroughput,
+  saveUpload,
+  saveUploadThroughput,
+  uploadFingerprint,
+  type SavedUpload,
+} from '@/lib/upload-store';
+
+// Refresh presigned URLs this long before they expire
+const URL_EXPIRY_MARGIN_MS = 5 * 60 * 1000;
+
+// Parts in flight at the start, and the most the tuner will go to
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_MAX_CONCURRENCY = 8;
+
+// Per-part retries: 1s, 2s, 4s... capped at 30s, with jitter
+const DEFAULT_MAX_RETRIES = 5;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30 * 1000;
+
+// Ask for parts that take about this long on one connection
+const TARGET_PART_SECONDS = 20;
+
+// A part slower than this on average is abandoned and retried
+const MIN_PART_BYTES_PER_SECOND = 32 * 1024;
+const MIN_PART_TIMEOUT_MS = 2 * 60 * 1000;
+
+// Speed is measured over this window, so the ETA follows the connection
+const SPEED_WINDOW_MS = 10 * 1000;
+
+// Uploads shorter than this say too little about throughput to remember it
+const MIN_THROUGHPUT_SAMPLE_MS = 5 * 1000;
+
+// How much throughput has to change before concurrency follows
+const THROUGHPUT_TOLERANCE = 0.1;
+
 export interface UploadProgress {
-  uploadedBytes: number;
+  uploadedBytes: number; // Confirmed parts plus what's in flight
   totalBytes: number;
   percentage: number;
-  uploadSpeed: number; // bytes per second
+  uploadSpeed: number; // bytes per second, all parts together, over the last few seconds
   estimatedTimeRemaining: number; // seconds
-  currentPart?: number;
+  completedParts?: number; // Multipart only, including parts from before a resume
+  activeParts?: number;
   totalParts?: number;
 }
 
 export interface UploadOptions {
   onProgress?: (progress: UploadProgress) => void;
-  onError?: (error: Error) => void;
+  onError?: (error: Error) => void; // Part failures that are being retried
   signal?: AbortSignal; // For cancellation
 }
 
+export interface UploadConfig {
+  concurrency?: number; // Parts uploaded in parallel at the start
+  maxConcurrency?: number; // Most parts in parallel as throughput allows
+  maxRetries?: number; // Retries per part before the upload fails
+}
+
+/** A part upload that may succeed if tried again (network error, timeout, 429, 5xx) */
+class RetryablePartError extends Error {}
+
+/** A part PUT was refused, most likely because its presigned URL expired */
+class PartUrlRejectedError extends RetryablePartError {}
+
 interface UploadInfo {
   uploadId: string;
   videoId: string;
@@ -25,22 +76,167 @@ interface UploadInfo {
   expiresAt: number;
 }
 
+/**
+ * Bytes sent over the last SPEED_WINDOW_MS, across all parts. Failed attempts
+ * count too, since they used the bandwidth.
+ */
+class TransferRate {
+  private readonly startedAt = Date.now();
+  private samples: Array<{ at: number; total: number }> = [];
+  private total = 0;
+
+  add(bytes: number): void {
+    const now = Date.now();
+    this.total += bytes;
+    this.samples.push({ at: now, total: this.total });
+
+    // Keep one sample from before the window as its starting point
+    while (this.samples.length > 1 && now - this.samples[1].at >= SPEED_WINDOW_MS) {
+      this.samples.shift();
+    }
+  }
+
+  /** Current speed in bytes per second */
+  bytesPerSecond(): number {
+    const now = Date.now();
+    const start = now - this.startedAt < SPEED_WINDOW_MS || this.samples.length === 0
+      ? { at: this.startedAt, total: 0 }
+      : this.samples[0];
+    const seconds = (now - start.at) / 1000;
+    return seconds > 0 ? (this.total - start.total) / seconds : 0;
+  }
+
+  /** Average speed since the upload started, in bytes per second */
+  averageBytesPerSecond(): number {
+    const seconds = this.elapsedMs() / 1000;
+    return seconds > 0 ? this.total / seconds : 0;
+  }
+
+  elapsedMs(): number {
+    return Date.now() - this.startedAt;
+  }
+}
+
+/**
+ * How many parts to upload at once. Each round of parts adds a connection
+ * while that keeps raising throughput and takes back the last one if it made
+ * things worse; a failed part halves it.
+ */
+class ConcurrencyTuner {
+  current: number;
+  private windowStart = Date.now();
+  private windowBytes = 0;
+  private windowParts = 0;
+  private lastThroughput: number | null = null;
+  private lastChange: 'up' | 'down' | null = null;
+
+  constructor(initial: number, private readonly max: number) {
+    this.current = Math.min(Math.max(initial, 1), max);
+  }
+
+  partCompleted(bytes: number): void {
+    this.windowBytes += bytes;
+    this.windowParts++;
+    if (this.windowParts < this.current) return;
+
+    const seconds = Math.max((Date.now() - this.windowStart) / 1000, 0.001);
+    const throughput = this.windowBytes / seconds;
+
+    if (this.lastThroughput === null || throughput > this.lastThroughput * (1 + THROUGHPUT_TOLERANCE)) {
+      if (this.current < this.max) {
+        this.current++;
+        this.lastChange = 'up';
+      }
+    } else if (
+      throughput < this.lastThroughput * (1 - THROUGHPUT_TOLERANCE) &&
+      this.lastChange === 'up' &&
+      this.current > 1
+    ) {
+      this.current--;
+      this.lastChange = 'down';
+    } else {
+      this.lastChange = null;
+    }
+
+    this.lastThroughput = throughput;
+    this.resetWindow();
+  }
+
+  partFailed(): void {
+    this.current = Math.max(1, Math.floor(this.current / 2));
+    this.lastChange = 'down';
+    this.lastThroughput = null;
+    this.resetWindow();
+  }
+
+  private resetWindow(): void {
+    this.windowStart = Date.now();
+    this.windowBytes = 0;
+    this.windowParts = 0;
+  }
+}
+
+/** Backoff before retry `attempt` (0-based), with jitter so parts don't retry in step */
+function retryDelay(attempt: number): number {
+  const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS);
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+/** Resolve after `ms`, or reject as soon as any of the signals aborts */
+function wait(ms: number, signals: Array<AbortSignal | undefined>): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const cancel = () => {
+      clearTimeout(timer);
+      reject(new Error('Upload cancelled'));
+    };
+    const timer = setTimeout(() => {
+      signals.forEach(signal => signal?.removeEventListener('abort', cancel));
+      resolve();
+    }, ms);
+
+    if (signals.some(signal => signal?.aborted)) {
+      cancel();
+      return;
+    }
+    signals.forEach(signal => signal?.addEventListener('abort', cancel, { once: true }));
+  });
+}
+
 export class VideoUploadManager {
   private file: File;
   private userId: string;
   private uploadInfo: UploadInfo | null = null;
   private abortController: AbortController;
-  private startTime: number = 0;
   private uploadedBytes: number = 0;
   private parts: Array<{ ETag: string; PartNumber: number }> = [];
-
-  constructor(file: File, userId: string) {
+  private activeParts: number = 0;
+  private resumedBytes: number = 0; // Confirmed before this session
+  private urlRefresh: Promise<void> | null = null;
+  private createdAt: number = Date.now();
+  private rate = new TransferRate();
+  private tuner: ConcurrencyTuner;
+  private maxRetries: number;
+
+  constructor(file: File, userId: string, config: UploadConfig = {}) {
     this.file = file;
     this.userId = userId;
     this.abortController = new AbortController();
+    this.tuner = new ConcurrencyTuner(
+      config.concurrency ?? DEFAULT_CONCURRENCY,
+      config.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY
+    );
+    this.maxRetries = config.maxRetries ?? DEFAULT_MAX_RETRIES;
   }
 
+  /**
+   * Resume this file's unfinished multipart upload if there is one, otherwise
+   * start a new upload
+   */
   async initialize(): Promise<void> {
+    if (await this.resume()) {
+      return;
+    }
+
     const response = await fetch('/api/init-upload', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
@@ -49,6 +245,7 @@ export class VideoUploadManager {
         fileName: this.file.name,
         fileSize: this.file.size,
         fileType: this.file.type,
+        partSize: this.preferredPartSize(),
       }),
     });
 
@@ -59,15 +256,92 @@ export class VideoUploadManager {
 
     const data = await response.json();
     this.uploadInfo = data.uploadInfo;
+
+    if (this.uploadInfo?.isMultipart) {
+      await this.persist();
+    }
   }
 
-  async upload(options: UploadOptions = {}): Promise<string> {
-    this.startTime = Date.now();
+  /**
+   * Part size to ask /api/init-upload for: TARGET_PART_SECONDS of one
+   * connection's share of the throughput measured on earlier uploads. The
+   * server clamps it; undefined means its default. Storage needs equal-sized
+   * parts, so this can't adapt within an upload - concurrency does instead.
+   */
+  private preferredPartSize(): number | undefined {
+    const throughput = loadUploadThroughput();
+    if (!throughput) return undefined;
+
+    return Math.round((throughput / this.tuner.current) * TARGET_PART_SECONDS);
+  }
+
+  /**
+   * Pick up a saved upload of the same file, with the parts storage has
+   * confirmed. Returns false if there is none or it no longer exists.
+   */
+  private async resume(): Promise<boolean> {
+    const saved = await loadUpload(this.fingerprint());
+    if (!saved) return false;
+
+    const savedParts = new Set(saved.parts.map(part => part.PartNumber));
+    const partNumbers = Array.from({ length: saved.totalParts }, (_, i) => i + 1)
+      .filter(partNumber => !savedParts.has(partNumber));
+
+    const response = await fetch('/api/list-parts', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ videoId: saved.videoId, uploadId: saved.uploadId, partNumbers }),
+    });
+
+    if (response.status === 404) {
+      // Completed, aborted or expired on the server - start over
+      await deleteUpload(saved.id);
+      return false;
+    }
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to resume upload');
+    }
+
+    const data: {
+      parts: Array<{ ETag: string; PartNumber: number; Size: number }>;
+      urls: Record<number, string>;
+      expiresAt: number;
+    } = await response.json();
+
+    const urls: string[] = [];
+    for (const [partNumber, url] of Object.entries(data.urls)) {
+      urls[Number(partNumber) - 1] = url;
+    }
 
+    this.uploadInfo = {
+      uploadId: saved.uploadId,
+      videoId: saved.videoId,
+      r2Key: saved.r2Key,
+      isMultipart: true,
+      urls,
+      partSize: saved.partSize,
+      totalParts: saved.totalParts,
+      expiresAt: data.expiresAt,
+    };
+
+    // Storage, not the saved copy, says which parts arrived
+    this.parts = data.parts.map(({ ETag, PartNumber }) => ({ ETag, PartNumber }));
+    this.resumedBytes = data.parts.reduce((total, part) => total + part.Size, 0);
+    this.createdAt = saved.createdAt;
+    await this.persist();
+
+    return true;
+  }
+
+  async upload(options: UploadOptions = {}): Promise<string> {
     if (!this.uploadInfo) {
       throw new Error('Upload not initialized. Call initialize() first.');
     }
 
+    this.rate = new TransferRate();
+
     try {
       if (this.uploadInfo.isMultipart) {
         return await this.uploadMultipart(options);
@@ -75,9 +349,17 @@ export class VideoUploadManager {
         return await this.uploadSingle(options);
       }
     } catch (error) {
-      // Abort upload on error
-      await this.abort();
+      // A failed multipart upload is kept so it can resume; cancelled and single uploads are abandoned
+      const cancelled = options.signal?.aborted ?? false;
+      if (!this.abortController.signal.aborted && (cancelled || !this.uploadInfo.isMultipart)) {
+        await this.abort();
+      }
       throw error;
+    } finally {
+      // Sizes the parts of the next upload
+      if (this.rate.elapsedMs() >= MIN_THROUGHPUT_SAMPLE_MS) {
+        saveUploadThroughput(this.rate.averageBytesPerSecond());
+      }
     }
   }
 
@@ -92,9 +374,9 @@ export class VideoUploadManager {
     // Track progress
     xhr.upload.addEventListener('progress', (e) => {
       if (e.lengthComputable) {
+        this.rate.add(e.loaded - this.uploadedBytes);
         this.uploadedBytes = e.loaded;
-        const progress = this.calculateProgress(e.loaded, this.file.size);
-        options.onProgress?.(progress);
+        this.reportProgress(options);
       }
     });
 
@@ -118,57 +400,171 @@ export class VideoUploadManager {
     });
 
     // Handle cancellation
-    if (options.signal) {
-      options.signal.addEventListener('abort', () => {
-        xhr.abort();
-      });
-    }
+    const release = this.abortOnCancel(xhr, [options.signal]);
 
     // Start upload
     xhr.open('PUT', url);
     xhr.setRequestHeader('Content-Type', this.file.type);
     xhr.send(this.file);
 
-    await uploadPromise;
+    try {
+      await uploadPromise;
+    } finally {
+      release();
+    }
 
     return this.uploadInfo.videoId;
   }
 
+  /**
+   * Upload the parts not yet confirmed through a pool of parallel requests
+   * sized by the concurrency tuner. If a part runs out of retries the others
+   * are stopped and the upload fails, keeping its confirmed parts for resume.
+   */
   private async uploadMultipart(options: UploadOptions): Promise<string> {
     if (!this.uploadInfo) {
       throw new Error('Upload not initialized');
     }
-    const { urls, partSize, totalParts } = this.uploadInfo;
-    this.parts = [];
+    const { totalParts } = this.uploadInfo;
+
+    // Parts confirmed before a reload are skipped
+    const confirmed = new Set(this.parts.map(part => part.PartNumber));
+    const pending = Array.from({ length: totalParts! }, (_, i) => i + 1)
+      .filter(partNumber => !confirmed.has(partNumber));
+    this.uploadedBytes = this.resumedBytes;
+    this.activeParts = 0;
+
+    const halt = new AbortController();
+
+    await new Promise<void>((resolve, reject) => {
+      let failed = false;
+
+      const launch = () => {
+        while (!failed && pending.length > 0 && this.activeParts < this.tuner.current) {
+          const partNumber = pending.shift()!;
+          this.activeParts++;
+
+          this.uploadPart(partNumber, options, halt.signal).then(
+            () => {
+              this.activeParts--;
+              if (pending.length === 0 && this.activeParts === 0) {
+                resolve();
+              } else {
+                launch();
+              }
+            },
+            error => {
+              this.activeParts--;
+              if (!failed) {
+                failed = true;
+                halt.abort();
+                reject(error);
+              }
+            }
+          );
+        }
+      };
 
-    // Upload parts in parallel (limit concurrency to 3)
-    const concurrency = 3;
-    let currentPart = 0;
+      if (pending.length === 0) {
+        resolve();
+      } else {
+        launch();
+      }
+    });
 
-    while (currentPart < totalParts!) {
-      const batch: Promise<void>[] = [];
+    this.reportProgress(options);
+    return this.uploadInfo.videoId;
+  }
+
+  /**
+   * Upload one part and save it as confirmed. Retryable failures are tried
+   * again with exponential backoff; a refused URL is re-issued and retried
+   * straight away.
+   */
+  private async uploadPart(partNumber: number, options: UploadOptions, halt: AbortSignal): Promise<void> {
+    const partSize = this.uploadInfo!.partSize!;
+    const start = (partNumber - 1) * partSize;
+    const blob = this.file.slice(start, Math.min(start + partSize, this.file.size));
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const etag = await this.sendPart(await this.partUrl(partNumber), blob, partNumber, options, halt);
+
+        this.parts.push({ ETag: etag, PartNumber: partNumber });
+        this.tuner.partCompleted(blob.size);
+        this.reportProgress(options);
+        await this.persist();
+        return;
+      } catch (error) {
+        const cancelled = halt.aborted || this.abortController.signal.aborted || !!options.signal?.aborted;
+        if (!(error instanceof RetryablePartError) || attempt >= this.maxRetries || cancelled) {
+          throw error;
+        }
 
-      for (let i = 0; i < concurrency && currentPart < totalParts!; i++, currentPart++) {
-        const partNumber = currentPart + 1;
-        const start = currentPart * partSize!;
-        const end = Math.min(start + partSize!, this.file.size);
-        const blob = this.file.slice(start, end);
+        options.onError?.(error);
 
-        batch.push(this.uploadPart(urls[currentPart], blob, partNumber, options));
+        if (error instanceof PartUrlRejectedError) {
+          await this.refreshUrls();
+          continue;
+        }
+
+        this.tuner.partFailed();
+        await wait(retryDelay(attempt), [halt, this.abortController.signal, options.signal]);
       }
+    }
+  }
 
-      await Promise.all(batch);
+  /** The part's presigned URL, re-issued first if it's missing or about to expire */
+  private async partUrl(partNumber: number): Promise<string> {
+    const info = this.uploadInfo!;
+    if (!info.urls[partNumber - 1] || Date.now() > info.expiresAt - URL_EXPIRY_MARGIN_MS) {
+      await this.refreshUrls();
     }
+    return info.urls[partNumber - 1];
+  }
 
-    return this.uploadInfo.videoId;
+  /**
+   * New presigned URLs for every part not yet confirmed. Concurrent callers
+   * share one request.
+   */
+  private refreshUrls(): Promise<void> {
+    this.urlRefresh ??= (async () => {
+      const info = this.uploadInfo!;
+      const confirmed = new Set(this.parts.map(part => part.PartNumber));
+      const partNumbers = Array.from({ length: info.totalParts! }, (_, i) => i + 1)
+        .filter(partNumber => !confirmed.has(partNumber));
+
+      const response = await fetch('/api/list-parts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ videoId: info.videoId, uploadId: info.uploadId, partNumbers }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to refresh upload URLs');
+      }
+
+      const data: { urls: Record<number, string>; expiresAt: number } = await response.json();
+      for (const [partNumber, url] of Object.entries(data.urls)) {
+        info.urls[Number(partNumber) - 1] = url;
+      }
+      info.expiresAt = data.expiresAt;
+    })().finally(() => {
+      this.urlRefresh = null;
+    });
+
+    return this.urlRefresh;
   }
 
-  private async uploadPart(
+  /** PUT one part; resolves with its unquoted ETag */
+  private async sendPart(
     url: string,
     blob: Blob,
     partNumber: number,
-    options: UploadOptions
-  ): Promise<void> {
+    options: UploadOptions,
+    halt: AbortSignal
+  ): Promise<string> {
     const xhr = new XMLHttpRequest();
     let partUploadedBytes = 0;
 
@@ -176,13 +572,9 @@ export class VideoUploadManager {
       if (e.lengthComputable) {
         const delta = e.loaded - partUploadedBytes;
         this.uploadedBytes += delta;
+        this.rate.add(delta);
         partUploadedBytes = e.loaded;
-
-        const progress = this.calculateProgress(this.uploadedBytes, this.file.size);
-        progress.currentPart = partNumber;
-        progress.totalParts = this.uploadInfo?.totalParts;
-
-        options.onProgress?.(progress);
+        this.reportProgress(options);
       }
     });
 
@@ -195,13 +587,21 @@ export class VideoUploadManager {
           } else {
             reject(new Error('No ETag in response'));
           }
+        } else if (xhr.status === 403) {
+          reject(new PartUrlRejectedError(`Part ${partNumber} upload URL was refused`));
+        } else if (xhr.status === 429 || xhr.status >= 500) {
+          reject(new RetryablePartError(`Part ${partNumber} upload failed with status ${xhr.status}`));
         } else {
           reject(new Error(`Part ${partNumber} upload failed with status ${xhr.status}`));
         }
       });
 
       xhr.addEventListener('error', () => {
-        reject(new Error(`Network error uploading part ${partNumber}`));
+        reject(new RetryablePartError(`Network error uploading part ${partNumber}`));
+      });
+
+      xhr.addEventListener('timeout', () => {
+        reject(new RetryablePartError(`Part ${partNumber} upload timed out`));
       });
 
       xhr.addEventListener('abort', () => {
@@ -209,23 +609,49 @@ export class VideoUploadManager {
       });
     });
 
-    if (options.signal) {
-      options.signal.addEventListener('abort', () => {
-        xhr.abort();
-      });
-    }
+    const release = this.abortOnCancel(xhr, [options.signal, halt]);
 
     xhr.open('PUT', url);
+    xhr.timeout = Math.max(MIN_PART_TIMEOUT_MS, (blob.size / MIN_PART_BYTES_PER_SECOND) * 1000);
     xhr.send(blob);
 
-    const etag = await uploadPromise;
-    this.parts.push({ ETag: etag, PartNumber: partNumber });
+    try {
+      return await uploadPromise;
+    } catch (error) {
+      // Only confirmed parts count towards progress
+      this.uploadedBytes -= partUploadedBytes;
+      throw error;
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Stop a request when abort() is called or any of the signals fires.
+   * Returns a function that detaches it once the request has settled.
+   */
+  private abortOnCancel(xhr: XMLHttpRequest, signals: Array<AbortSignal | undefined>): () => void {
+    const stop = () => xhr.abort();
+    const all = [this.abortController.signal, ...signals];
+    all.forEach(signal => signal?.addEventListener('abort', stop));
+    return () => all.forEach(signal => signal?.removeEventListener('abort', stop));
+  }
+
+  private reportProgress(options: UploadOptions): void {
+    const progress = this.calculateProgress(this.uploadedBytes, this.file.size);
+
+    if (this.uploadInfo?.isMultipart) {
+      progress.completedParts = this.parts.length;
+      progress.activeParts = this.activeParts;
+      progress.totalParts = this.uploadInfo.totalParts;
+    }
+
+    options.onProgress?.(progress);
   }
 
   private calculateProgress(uploadedBytes: number, totalBytes: number): UploadProgress {
     const percentage = Math.round((uploadedBytes / totalBytes) * 100);
-    const elapsedTime = (Date.now() - this.startTime) / 1000; // seconds
-    const uploadSpeed = elapsedTime > 0 ? uploadedBytes / elapsedTime : 0;
+    const uploadSpeed = this.rate.bytesPerSecond();
     const remainingBytes = totalBytes - uploadedBytes;
     const estimatedTimeRemaining = uploadSpeed > 0 ? remainingBytes / uploadSpeed : 0;
 
@@ -246,9 +672,7 @@ export class VideoUploadManager {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
-        userId: this.userId,
         videoId: this.uploadInfo.videoId,
-        r2Key: this.uploadInfo.r2Key,
         uploadId: this.uploadInfo.uploadId,
         parts: this.uploadInfo.isMultipart ? this.parts : undefined,
         thumbnail,
@@ -261,11 +685,13 @@ export class VideoUploadManager {
       throw new Error(error.error || 'Failed to complete upload');
     }
 
+    await deleteUpload(this.fingerprint());
     return response.json();
   }
 
   async abort(): Promise<void> {
     this.abortController.abort();
+    await deleteUpload(this.fingerprint());
 
     if (this.uploadInfo) {
       await fetch('/api/abort-upload', {
@@ -284,4 +710,60 @@ export class VideoUploadManager {
   getVideoId(): string | null {
     return this.uploadInfo?.videoId || null;
   }
+
+  /** Bytes already in storage when this upload was resumed, 0 for a new upload */
+  getResumedBytes(): number {
+    return this.resumedBytes;
+  }
+
+  /** Whether picking the same file again will continue this upload */
+  isResumable(): boolean {
+    return !!this.uploadInfo?.isMultipart && !this.abortController.signal.aborted;
+  }
+
+  private fingerprint(): string {
+    return uploadFingerprint(this.userId, this.file);
+  }
+
+  /** Save progress so a reload can resume from the last confirmed part */
+  private async persist(): Promise<void> {
+    const info = this.uploadInfo!;
+    const now = Date.now();
+
+    await saveUpload({
+      id: this.fingerprint(),
+      userId: this.userId,
+      videoId: info.videoId,
+      r2Key: info.r2Key,
+      uploadId: info.uploadId,
+      fileName: this.file.name,
+      fileSize: this.file.size,
+      fileType: this.file.type,
+      lastModified: this.file.lastModified,
+      partSize: info.partSize!,
+      totalParts: info.totalParts!,
+      parts: this.parts,
+      createdAt: this.createdAt,
+      updatedAt: now,
+    });
+  }
+}
+
+/**
+ * Give up on a saved upload without picking the file again: aborts it in
+ * storage and forgets it
+ */
+export async function discardSavedUpload(upload: SavedUpload): Promise<void> {
+  await fetch('/api/abort-upload', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      videoId: upload.videoId,
+      r2Key: upload.r2Key,
+      uploadId: upload.uploadId,
+      isMultipart: true,
+    }),
+  });
+
+  await deleteUpload(upload.id);
 }
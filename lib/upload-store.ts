@@ -0,0 +1,153 @@
+/**
+ * Upload state that outlives the page, for lib/upload-manager.ts. Browser only.
+ *
+ * Unfinished multipart uploads are kept in IndexedDB so they can resume
+ * after a reload. The file itself isn't stored - the user picks it again and
+ * it's matched by name, size and last-modified time. Presigned URLs aren't
+ * stored either; /api/list-parts issues fresh ones on resume.
+ *
+ * The measured upload throughput is kept in localStorage, to size the parts
+ * of the next upload.
+ */
+
+const DB_NAME = 'mintonix-uploads';
+const DB_VERSION = 1;
+const STORE_NAME = 'uploads';
+
+const THROUGHPUT_KEY = 'mintonix-upload-throughput';
+
+// Weight of the newest measurement against the remembered one
+const THROUGHPUT_SMOOTHING = 0.5;
+
+export interface SavedUpload {
+  id: string; // uploadFingerprint() of the user and file
+  userId: string;
+  videoId: string;
+  r2Key: string;
+  uploadId: string;
+  fileName: string;
+  fileSize: number;
+  fileType: string;
+  lastModified: number; // File.lastModified
+  partSize: number;
+  totalParts: number;
+  parts: Array<{ ETag: string; PartNumber: number }>; // Confirmed so far
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** Identifies the same file picked again by the same user */
+export function uploadFingerprint(userId: string, file: File): string {
+  return `${userId}:${file.name}:${file.size}:${file.lastModified}`;
+}
+
+function isAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      store.createIndex('userId', 'userId');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Run one request against the store and close the database afterwards */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = run(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Storage failures (private browsing, quota) are logged and ignored: the
+ * upload still works, it just can't be resumed.
+ */
+export async function saveUpload(upload: SavedUpload): Promise<void> {
+  if (!isAvailable()) return;
+
+  try {
+    await withStore('readwrite', store => store.put(upload));
+  } catch (error) {
+    console.warn('Could not save upload state:', error);
+  }
+}
+
+export async function loadUpload(id: string): Promise<SavedUpload | null> {
+  if (!isAvailable()) return null;
+
+  try {
+    return (await withStore<SavedUpload | undefined>('readonly', store => store.get(id))) ?? null;
+  } catch (error) {
+    console.warn('Could not load upload state:', error);
+    return null;
+  }
+}
+
+/** A user's unfinished uploads, most recently active first */
+export async function listUploads(userId: string): Promise<SavedUpload[]> {
+  if (!isAvailable()) return [];
+
+  try {
+    const uploads = await withStore<SavedUpload[]>('readonly', store => store.index('userId').getAll(userId));
+    return uploads.sort((a, b) => b.updatedAt - a.updatedAt);
+  } catch (error) {
+    console.warn('Could not list saved uploads:', error);
+    return [];
+  }
+}
+
+export async function deleteUpload(id: string): Promise<void> {
+  if (!isAvailable()) return;
+
+  try {
+    await withStore('readwrite', store => store.delete(id));
+  } catch (error) {
+    console.warn('Could not delete upload state:', error);
+  }
+}
+
+/** Throughput of earlier uploads in bytes per second, or null if never measured */
+export function loadUploadThroughput(): number | null {
+  try {
+    const value = Number(localStorage.getItem(THROUGHPUT_KEY));
+    return Number.isFinite(value) && value > 0 ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Remember a measured throughput, smoothed with the previous ones */
+export function saveUploadThroughput(bytesPerSecond: number): void {
+  if (!Number.isFinite(bytesPerSecond) || bytesPerSecond <= 0) return;
+
+  const previous = loadUploadThroughput();
+  const smoothed = previous === null
+    ? bytesPerSecond
+    : previous + (bytesPerSecond - previous) * THROUGHPUT_SMOOTHING;
+
+  try {
+    localStorage.setItem(THROUGHPUT_KEY, Math.round(smoothed).toString());
+  } catch {
+    // Storage disabled - the next upload uses the default part size
+  }
+}
@@ -0,0 +1,82 @@
+import type { User } from '@supabase/supabase-js';
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { isAdminServer, createUnauthorizedResponse, createForbiddenResponse } from '@/lib/admin-auth';
+import { storage } from '@/lib/storage';
+import { videoPrefix } from '@/lib/storage-keys';
+
+/**
+ * Server-side authorization for routes that read or write a video's R2 files.
+ *
+ * The caller is always taken from the Supabase session and the owner from the
+ * `videos` table, so R2 paths are built from `ownerId` rather than a userId
+ * sent by the client. Admins may access any user's video.
+ */
+
+export interface VideoAccess {
+  user: User;         // Signed-in caller
+  ownerId: string;    // Owner of the video - use this for R2 paths
+  isAdminOverride: boolean;
+}
+
+/**
+ * Check that the signed-in user may access `videoId`.
+ *
+ * Returns the access details, or a 401 (no session), 403 (someone else's
+ * video) or 404 (unknown video) response to return as-is:
+ *
+ *   const access = await requireVideoAccess(videoId);
+ *   if (access instanceof Response) return access;
+ */
+export async function requireVideoAccess(videoId: string): Promise<VideoAccess | Response> {
+  const supabase = await createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return createUnauthorizedResponse();
+  }
+
+  // Look the video up without RLS so another user's video is a 403, not a 404
+  const { data: video, error } = await createAdminClient()
+    .from('videos')
+    .select('user_id, deleted_at')
+    .eq('video_id', videoId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!video) {
+    // Uploads from before the videos table only exist in R2, under the uploader's prefix
+    if (await hasOwnLegacyVideo(user.id, videoId)) {
+      return { user, ownerId: user.id, isAdminOverride: false };
+    }
+    return createNotFoundResponse();
+  }
+
+  if (video.deleted_at) {
+    return createNotFoundResponse();
+  }
+
+  if (video.user_id === user.id) {
+    return { user, ownerId: video.user_id, isAdminOverride: false };
+  }
+
+  if (await isAdminServer(user.id)) {
+    return { user, ownerId: video.user_id, isAdminOverride: true };
+  }
+
+  return createForbiddenResponse('Forbidden - You do not have access to this video');
+}
+
+async function hasOwnLegacyVideo(userId: string, videoId: string): Promise<boolean> {
+  const objects = await storage.list(videoPrefix(userId, videoId), { maxKeys: 1 });
+  return objects.length > 0;
+}
+
+function createNotFoundResponse() {
+  return new Response(JSON.stringify({ error: 'Video not found' }), {
+    status: 404,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
@@ -0,0 +1,162 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createClient } from '@/lib/supabase/server';
+import type { Video, VideoStatus } from '@/lib/supabase/types';
+import type { JobStatus } from '@/lib/processing-jobs';
+import { logError } from '@/lib/logger';
+
+/**
+ * The video library
+ *
+ * The `videos` table is the source of truth for which videos a user has,
+ * what they're called and how far analysis got. Storage only holds the
+ * files; objects uploaded before the table existed get rows from
+ * lib/video-reconciliation.ts.
+ */
+
+// Job statuses that mean analysis is still under way
+const ACTIVE_JOB_STATUSES: JobStatus[] = ['queued', 'running'];
+
+// Statuses jobs move a video between - uploading, archived and deleted are left alone
+const JOB_DRIVEN_STATUSES: VideoStatus[] = ['uploaded', 'processing', 'completed', 'failed'];
+
+/**
+ * The caller's session client by default, so RLS applies. Callers that have
+ * already authorized the request pass the service-role client.
+ */
+async function resolveClient(client?: SupabaseClient): Promise<SupabaseClient> {
+  return client ?? createClient();
+}
+
+/**
+ * A user's videos, newest first, excluding soft-deleted ones
+ */
+export async function listUserVideos(userId: string, client?: SupabaseClient): Promise<Video[]> {
+  const supabase = await resolveClient(client);
+
+  const { data, error } = await supabase
+    .from('videos')
+    .select('*')
+    .eq('user_id', userId)
+    .is('deleted_at', null)
+    .order('uploaded_at', { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * One of a user's videos, or null if it doesn't exist or was deleted
+ */
+export async function getUserVideo(
+  userId: string,
+  videoId: string,
+  client?: SupabaseClient
+): Promise<Video | null> {
+  const supabase = await resolveClient(client);
+
+  const { data, error } = await supabase
+    .from('videos')
+    .select('*')
+    .eq('video_id', videoId)
+    .eq('user_id', userId)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Change a video's display name. The stored object and its metadata keep
+ * the original name. Returns null if the video doesn't exist.
+ */
+export async function renameVideo(
+  userId: string,
+  videoId: string,
+  displayFilename: string,
+  client?: SupabaseClient
+): Promise<Video | null> {
+  const supabase = await resolveClient(client);
+
+  const { data, error } = await supabase
+    .from('videos')
+    .update({
+      display_filename: displayFilename,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('video_id', videoId)
+    .eq('user_id', userId)
+    .is('deleted_at', null)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * A video's status given its analysis jobs, newest first: processing while
+ * any job is queued or running, otherwise the outcome of the latest job that
+ * wasn't cancelled (retries cancel the job they supersede).
+ */
+export function videoStatusForJobs(jobs: Array<{ status: JobStatus }>): VideoStatus {
+  if (jobs.some(job => ACTIVE_JOB_STATUSES.includes(job.status))) {
+    return 'processing';
+  }
+
+  const settled = jobs.find(job => job.status !== 'cancelled');
+  if (!settled) return 'uploaded';
+
+  return settled.status === 'completed' ? 'completed' : 'failed';
+}
+
+/**
+ * Recompute videos.status from the video's jobs. Called whenever a job is
+ * created or changes status (lib/processing-jobs.ts). Failures are logged,
+ * not thrown, so they never fail the job update itself.
+ */
+export async function refreshVideoStatus(
+  videoId: string,
+  client?: SupabaseClient
+): Promise<VideoStatus | null> {
+  try {
+    const supabase = await resolveClient(client);
+
+    const { data: jobs, error: jobsError } = await supabase
+      .from('processing_jobs')
+      .select('status')
+      .eq('video_id', videoId)
+      .order('created_at', { ascending: false });
+
+    if (jobsError) {
+      throw jobsError;
+    }
+
+    const status = videoStatusForJobs(jobs || []);
+
+    const { error: updateError } = await supabase
+      .from('videos')
+      .update({ status, updated_at: new Date().toISOString() })
+      .eq('video_id', videoId)
+      .in('status', JOB_DRIVEN_STATUSES)
+      .neq('status', status);
+
+    if (updateError) {
+      throw updateError;
+    }
+
+    return status;
+  } catch (error) {
+    logError('Failed to refresh video status', { videoId, error });
+    return null;
+  }
+}
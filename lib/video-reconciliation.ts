@@ -0,0 +1,251 @@
+import { createAdminClient } from '@/lib/supabase/server';
+import { storage, type StorageListEntry } from '@/lib/storage';
+import { parseVideoKey, storageEnvironment, videoFileKey } from '@/lib/storage-keys';
+import type { Video } from '@/lib/supabase/types';
+import { logSuccess, logWarn } from '@/lib/logger';
+
+/**
+ * Keeps the videos table (lib/video-library.ts) and storage in agreement.
+ * Run through POST /api/storage/reconcile-videos (`npm run storage:reconcile`).
+ *
+ * - An uploaded video (`{env}/{userId}/{videoId}/video.*`) with no row gets
+ *   one, named from its `originalname` metadata. It's `completed` if the
+ *   worker's analyzed_video.mp4 is next to it, otherwise `uploaded`.
+ * - A row whose r2_key has no object gets `object_missing_at`; the flag is
+ *   cleared if the object comes back.
+ * - An object that can't get a row (no user profile, or its video ID already
+ *   belongs to another key) is reported as an orphan and left in place.
+ *
+ * Rows still `uploading` and rows in other environments are not checked.
+ */
+
+// Rows backfilled per run - each one costs a HEAD and an insert
+export const DEFAULT_RECONCILE_LIMIT = 200;
+
+// Supabase returns at most this many rows per request
+const ROW_PAGE_SIZE = 1000;
+
+// Postgres foreign_key_violation - the user has no profile
+const FOREIGN_KEY_VIOLATION = '23503';
+
+type VideoRow = Pick<Video, 'video_id' | 'user_id' | 'r2_key' | 'status' | 'deleted_at' | 'object_missing_at'>;
+
+export interface BackfilledVideo {
+  key: string;
+  userId: string;
+  videoId: string;
+  fileName: string;
+  status: 'uploaded' | 'completed';
+}
+
+export interface VideoReconciliationReport {
+  dryRun: boolean;
+  scanned: number; // Uploaded video objects in this environment
+  checked: number; // Rows whose r2_key was looked for
+  backfilled: BackfilledVideo[]; // Planned inserts on a dry run
+  missingObjects: Array<{ videoId: string; key: string; flaggedAt: string }>;
+  restored: string[]; // Video IDs whose object came back
+  orphanObjects: Array<{ key: string; reason: string }>;
+  failed: Array<{ key: string; error: string }>;
+  remaining: number; // Objects left over the limit, for the next run
+}
+
+/**
+ * Compare storage with the videos table and fix what can be fixed. With
+ * `dryRun` nothing is written and the report lists what would be.
+ */
+export async function reconcileVideoLibrary({
+  dryRun = true,
+  limit = DEFAULT_RECONCILE_LIMIT,
+}: { dryRun?: boolean; limit?: number } = {}): Promise<VideoReconciliationReport> {
+  const report: VideoReconciliationReport = {
+    dryRun,
+    scanned: 0,
+    checked: 0,
+    backfilled: [],
+    missingObjects: [],
+    restored: [],
+    orphanObjects: [],
+    failed: [],
+    remaining: 0,
+  };
+
+  const environmentPrefix = `${storageEnvironment()}/`;
+  const objects = await storage.list(environmentPrefix);
+  const existingKeys = new Set(objects.map(object => object.key));
+
+  const uploads = objects.filter(object => {
+    const parsed = parseVideoKey(object.key);
+    return parsed?.fileName.startsWith('video.');
+  });
+  report.scanned = uploads.length;
+
+  const rows = await loadVideoRows();
+  const rowsByKey = new Map(rows.map(row => [row.r2_key, row]));
+  const rowsByVideoId = new Map(rows.map(row => [row.video_id, row]));
+
+  await flagMissingObjects(rows, existingKeys, environmentPrefix, report);
+
+  for (const object of uploads) {
+    if (rowsByKey.has(object.key)) continue;
+
+    const { userId, videoId, fileName } = parseVideoKey(object.key)!;
+
+    const claimed = rowsByVideoId.get(videoId);
+    if (claimed) {
+      report.orphanObjects.push({ key: object.key, reason: `video ${videoId} already points at ${claimed.r2_key}` });
+      continue;
+    }
+
+    if (object.size === 0) {
+      report.orphanObjects.push({ key: object.key, reason: 'empty object' });
+      continue;
+    }
+
+    if (report.backfilled.length >= limit) {
+      report.remaining++;
+      continue;
+    }
+
+    const analyzed = existingKeys.has(videoFileKey(userId, videoId, 'analyzed_video.mp4'));
+    const video: BackfilledVideo = {
+      key: object.key,
+      userId,
+      videoId,
+      fileName,
+      status: analyzed ? 'completed' : 'uploaded',
+    };
+
+    try {
+      const info = await storage.head(object.key);
+      video.fileName = info?.metadata.originalname || fileName;
+
+      if (!dryRun) {
+        const orphanReason = await insertVideoRow(video, object);
+        if (orphanReason) {
+          report.orphanObjects.push({ key: object.key, reason: orphanReason });
+          continue;
+        }
+      }
+    } catch (error) {
+      report.failed.push({ key: object.key, error: error instanceof Error ? error.message : 'Unknown error' });
+      continue;
+    }
+
+    // A second upload object in the same folder is an orphan, not another row
+    rowsByVideoId.set(videoId, {
+      video_id: videoId,
+      user_id: userId,
+      r2_key: object.key,
+      status: video.status,
+      deleted_at: null,
+      object_missing_at: null,
+    });
+    report.backfilled.push(video);
+  }
+
+  if (report.missingObjects.length > 0 || report.orphanObjects.length > 0) {
+    logWarn('Video library and storage disagree', {
+      missingObjects: report.missingObjects.map(missing => missing.key),
+      orphanObjects: report.orphanObjects.map(orphan => orphan.key),
+    });
+  }
+
+  if (!dryRun) {
+    logSuccess(`Reconciled video library, backfilled ${report.backfilled.length} rows`, {
+      missingObjects: report.missingObjects.length,
+      restored: report.restored.length,
+      orphanObjects: report.orphanObjects.length,
+      failed: report.failed.length,
+      remaining: report.remaining,
+    });
+  }
+
+  return report;
+}
+
+async function loadVideoRows(): Promise<VideoRow[]> {
+  const supabase = createAdminClient();
+  const rows: VideoRow[] = [];
+
+  for (let from = 0; ; from += ROW_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('videos')
+      .select('video_id, user_id, r2_key, status, deleted_at, object_missing_at')
+      .order('video_id')
+      .range(from, from + ROW_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load videos: ${error.message}`);
+    }
+
+    rows.push(...(data || []));
+    if (!data || data.length < ROW_PAGE_SIZE) return rows;
+  }
+}
+
+/**
+ * Set or clear object_missing_at on live rows in this environment
+ */
+async function flagMissingObjects(
+  rows: VideoRow[],
+  existingKeys: Set<string>,
+  environmentPrefix: string,
+  report: VideoReconciliationReport
+): Promise<void> {
+  const supabase = createAdminClient();
+  const now = new Date().toISOString();
+  const missing: string[] = [];
+
+  for (const row of rows) {
+    if (row.deleted_at || row.status === 'uploading' || !row.r2_key.startsWith(environmentPrefix)) {
+      continue;
+    }
+    report.checked++;
+
+    if (!existingKeys.has(row.r2_key)) {
+      report.missingObjects.push({ videoId: row.video_id, key: row.r2_key, flaggedAt: row.object_missing_at ?? now });
+      if (!row.object_missing_at) missing.push(row.video_id);
+    } else if (row.object_missing_at) {
+      report.restored.push(row.video_id);
+    }
+  }
+
+  if (report.dryRun) return;
+
+  if (missing.length > 0) {
+    const { error } = await supabase.from('videos').update({ object_missing_at: now }).in('video_id', missing);
+    if (error) throw new Error(`Failed to flag missing objects: ${error.message}`);
+  }
+
+  if (report.restored.length > 0) {
+    const { error } = await supabase.from('videos').update({ object_missing_at: null }).in('video_id', report.restored);
+    if (error) throw new Error(`Failed to clear missing-object flags: ${error.message}`);
+  }
+}
+
+/**
+ * Insert a backfilled row. Returns why the object is an orphan if the row
+ * can't exist, and throws on other errors.
+ */
+async function insertVideoRow(video: BackfilledVideo, object: StorageListEntry): Promise<string | null> {
+  const { error } = await createAdminClient()
+    .from('videos')
+    .insert({
+      video_id: video.videoId,
+      user_id: video.userId,
+      r2_key: video.key,
+      original_filename: video.fileName,
+      display_filename: video.fileName,
+      file_size_bytes: object.size,
+      status: video.status,
+      uploaded_at: object.lastModified.toISOString(),
+    });
+
+  if (!error) return null;
+
+  if (error.code === FOREIGN_KEY_VIOLATION) {
+    return `no user profile for ${video.userId}`;
+  }
+  throw new Error(error.message);
+}
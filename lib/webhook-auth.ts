@@ -0,0 +1,128 @@
+import crypto from 'crypto';
+import { createAdminClient } from '@/lib/supabase/server';
+
+/**
+ * Signing for RunPod progress webhooks.
+ *
+ * Each job gets its own secret, passed to the worker as `webhook_secret` in
+ * the RunPod input. Secrets are derived from RUNPOD_WEBHOOK_SECRET and the
+ * job ID, so any instance can verify a webhook without storing them.
+ *
+ * The worker signs every POST to /api/webhook:
+ *
+ *   X-Webhook-Timestamp: <unix seconds>
+ *   X-Webhook-Signature: sha256=<hex HMAC-SHA256(webhook_secret, `${timestamp}.${rawBody}`)>
+ *
+ * Accepted signatures are recorded in the webhook_deliveries table, so a
+ * replay is rejected whichever instance it reaches.
+ */
+
+export const WEBHOOK_TIMESTAMP_HEADER = 'x-webhook-timestamp';
+export const WEBHOOK_SIGNATURE_HEADER = 'x-webhook-signature';
+
+// How far a webhook's timestamp may be from our clock
+export const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+export type WebhookVerification =
+  | { valid: true }
+  | { valid: false; reason: 'missing_headers' | 'stale_timestamp' | 'invalid_signature' | 'replayed' };
+
+// Postgres unique_violation - the signature was already delivered
+const UNIQUE_VIOLATION = '23505';
+
+function getMasterSecret(): string {
+  const secret = process.env.RUNPOD_WEBHOOK_SECRET;
+  if (!secret) {
+    throw new Error('Missing RUNPOD_WEBHOOK_SECRET environment variable');
+  }
+  return secret;
+}
+
+/**
+ * The secret a job's worker signs its webhooks with
+ */
+export function createWebhookSecret(jobId: string): string {
+  return crypto.createHmac('sha256', getMasterSecret()).update(`webhook:${jobId}`).digest('hex');
+}
+
+/**
+ * Sign a webhook body the way the worker does, e.g. to replay events locally
+ */
+export function signWebhookPayload(jobId: string, rawBody: string, timestamp: number): string {
+  const digest = crypto
+    .createHmac('sha256', createWebhookSecret(jobId))
+    .update(`${timestamp}.${rawBody}`)
+    .digest('hex');
+  return `sha256=${digest}`;
+}
+
+/**
+ * Check a webhook's signature, timestamp window and that it hasn't been
+ * delivered before. Throws if the delivery can't be recorded.
+ */
+export async function verifyWebhookSignature({
+  jobId,
+  rawBody,
+  timestamp,
+  signature,
+}: {
+  jobId: string;
+  rawBody: string;
+  timestamp: string | null;
+  signature: string | null;
+}): Promise<WebhookVerification> {
+  if (!timestamp || !signature) {
+    return { valid: false, reason: 'missing_headers' };
+  }
+
+  const sentAt = Number(timestamp);
+  const now = Math.floor(Date.now() / 1000);
+  if (!Number.isInteger(sentAt) || Math.abs(now - sentAt) > WEBHOOK_TOLERANCE_SECONDS) {
+    return { valid: false, reason: 'stale_timestamp' };
+  }
+
+  const normalized = signature.startsWith('sha256=') ? signature : `sha256=${signature}`;
+  const expected = Buffer.from(signWebhookPayload(jobId, rawBody, sentAt));
+  const actual = Buffer.from(normalized);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return { valid: false, reason: 'invalid_signature' };
+  }
+
+  if (!(await recordDelivery(jobId, normalized, sentAt))) {
+    return { valid: false, reason: 'replayed' };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Record an accepted signature. Returns false if it was recorded before.
+ */
+async function recordDelivery(jobId: string, signature: string, sentAt: number): Promise<boolean> {
+  const supabase = createAdminClient();
+
+  // Drop deliveries whose timestamps can no longer pass the window check
+  const { error: pruneError } = await supabase
+    .from('webhook_deliveries')
+    .delete()
+    .lt('expires_at', new Date().toISOString());
+
+  if (pruneError) {
+    console.warn('Failed to prune webhook deliveries:', pruneError.message);
+  }
+
+  const { error } = await supabase
+    .from('webhook_deliveries')
+    .insert({
+      signature,
+      job_id: jobId,
+      expires_at: new Date((sentAt + WEBHOOK_TOLERANCE_SECONDS) * 1000).toISOString(),
+    });
+
+  if (!error) return true;
+
+  if (error.code === UNIQUE_VIOLATION) {
+    return false;
+  }
+  throw new Error(`Failed to record webhook delivery: ${error.message}`);
+}
@@ -1,102 +1,67 @@
-/**
- * Webhook Store - In-memory storage for job updates and SSE connections
- * For production, consider using Redis for multi-instance deployments
- */
+import { SupabaseJobEventStore } from './supabase-job-event-store';
+import { JobEventStore, JobUpdate, ListenerRegistry, SSEListener, isTerminalStatus } from './job-events';
 
-export interface JobUpdate {
-  step?: string;
-  status: 'queued' | 'running' | 'completed' | 'failed';
-  progress?: number;
-  stage?: string;
-  error?: string;
-  timestamp: number;
-  results?: Record<string, unknown>;
-}
+export type { JobEventStore, JobUpdate, SSEListener } from './job-events';
 
-export type SSEListener = (data: JobUpdate) => void;
+/**
+ * Webhook Store - job updates from RunPod webhooks and their SSE listeners
+ *
+ * Two implementations of JobEventStore:
+ * - InMemoryJobEventStore: a single process, for local dev
+ * - SupabaseJobEventStore: updates persisted to `job_events` and fanned out
+ *   to every instance through Supabase Realtime, so a webhook and the SSE
+ *   connection waiting for it can land on different instances
+ *
+ * JOB_EVENT_STORE=memory|postgres picks one; it defaults to postgres in
+ * production and memory otherwise.
+ */
 
-class WebhookStore {
+export class InMemoryJobEventStore implements JobEventStore {
   private jobUpdates: Map<string, JobUpdate[]> = new Map();
-  private eventEmitters: Map<string, Set<SSEListener>> = new Map();
+  private listeners = new ListenerRegistry();
 
-  /**
-   * Store a job update from webhook
-   */
-  addUpdate(jobId: string, update: Omit<JobUpdate, 'timestamp'>): void {
+  async addUpdate(jobId: string, update: Omit<JobUpdate, 'id' | 'timestamp'>): Promise<JobUpdate> {
     if (!this.jobUpdates.has(jobId)) {
       this.jobUpdates.set(jobId, []);
     }
 
+    const updates = this.jobUpdates.get(jobId)!;
     const fullUpdate: JobUpdate = {
       ...update,
+      id: updates.length + 1,
       timestamp: Date.now()
     };
 
-    this.jobUpdates.get(jobId)!.push(fullUpdate);
+    updates.push(fullUpdate);
 
     // Notify all SSE listeners
-    this.notifyListeners(jobId, fullUpdate);
+    this.listeners.notify(jobId, fullUpdate);
 
     // Cleanup completed jobs after 1 hour
-    if (update.status === 'completed' || update.status === 'failed') {
+    if (isTerminalStatus(update.status)) {
       setTimeout(() => {
         this.cleanup(jobId);
       }, 60 * 60 * 1000);
     }
+
+    return fullUpdate;
   }
 
-  /**
-   * Get all updates for a job
-   */
-  getUpdates(jobId: string): JobUpdate[] {
-    return this.jobUpdates.get(jobId) || [];
+  async getUpdates(jobId: string, afterId = 0): Promise<JobUpdate[]> {
+    return (this.jobUpdates.get(jobId) || []).filter(update => update.id > afterId);
   }
 
-  /**
-   * Get the latest update for a job
-   */
-  getLatestUpdate(jobId: string): JobUpdate | null {
-    const updates = this.getUpdates(jobId);
+  async getLatestUpdate(jobId: string): Promise<JobUpdate | null> {
+    const updates = await this.getUpdates(jobId);
     return updates.length > 0 ? updates[updates.length - 1] : null;
   }
 
-  /**
-   * Register an SSE listener for a job
-   */
-  addListener(jobId: string, listener: SSEListener): void {
-    if (!this.eventEmitters.has(jobId)) {
-      this.eventEmitters.set(jobId, new Set());
-    }
-    this.eventEmitters.get(jobId)!.add(listener);
+  async addListener(jobId: string, listener: SSEListener): Promise<void> {
+    this.listeners.add(jobId, listener);
   }
 
-  /**
-   * Remove an SSE listener
-   */
   removeListener(jobId: string, listener: SSEListener): void {
-    const listeners = this.eventEmitters.get(jobId);
-    if (listeners) {
-      listeners.delete(listener);
-      if (listeners.size === 0) {
-        this.eventEmitters.delete(jobId);
-      }
-    }
-  }
-
-  /**
-   * Notify all listeners for a job
-   */
-  private notifyListeners(jobId: string, update: JobUpdate): void {
-    const listeners = this.eventEmitters.get(jobId);
-    if (listeners) {
-      listeners.forEach(listener => {
-        try {
-          listener(update);
-        } catch (error) {
-          console.error(`Error notifying listener for job ${jobId}:`, error);
-        }
-      });
-    }
+    this.listeners.remove(jobId, listener);
   }
 
   /**
@@ -104,24 +69,35 @@ class WebhookStore {
    */
   private cleanup(jobId: string): void {
     this.jobUpdates.delete(jobId);
-    this.eventEmitters.delete(jobId);
+    this.listeners.clear(jobId);
     console.log(`🧹 Cleaned up job data for ${jobId}`);
   }
 
-  /**
-   * Get count of active listeners
-   */
   getListenerCount(jobId: string): number {
-    return this.eventEmitters.get(jobId)?.size || 0;
+    return this.listeners.count(jobId);
   }
 
-  /**
-   * Get all active job IDs
-   */
-  getActiveJobs(): string[] {
+  async pruneUpdates(before: Date): Promise<number> {
+    let pruned = 0;
+    // Whole jobs only: update IDs count up from the job's list length
+    for (const [jobId, updates] of this.jobUpdates) {
+      if (updates[updates.length - 1].timestamp < before.getTime()) {
+        pruned += updates.length;
+        this.jobUpdates.delete(jobId);
+      }
+    }
+    return pruned;
+  }
+
+  async getActiveJobs(): Promise<string[]> {
     return Array.from(this.jobUpdates.keys());
   }
 }
 
+function createJobEventStore(): JobEventStore {
+  const kind = process.env.JOB_EVENT_STORE || (process.env.NODE_ENV === 'production' ? 'postgres' : 'memory');
+  return kind === 'postgres' ? new SupabaseJobEventStore() : new InMemoryJobEventStore();
+}
+
 // Singleton instance
-export const webhookStore = new WebhookStore();
+export const webhookStore: JobEventStore = createJobEventStore();
@@ -0,0 +1,80 @@
+#!/usr/bin/env node
+
+/**
+ * Legacy Storage Migration
+ *
+ * Moves objects in old key layouts into {env}/{userId}/{videoId}/ by calling
+ * POST /api/storage/migrate-legacy on a running app, and prints what moved.
+ *
+ * Usage:
+ *   npm run storage:migrate              # dry run - shows what would move
+ *   npm run storage:migrate -- --apply   # move the objects
+ *   npm run storage:migrate -- --apply --limit 50
+ *
+ * Needs CRON_SECRET, and NEXT_PUBLIC_APP_URL unless the app is on localhost:3000.
+ */
+
+// Load environment variables
+require('dotenv').config({ path: '.env.local' });
+
+const args = process.argv.slice(2);
+const apply = args.includes('--apply');
+const limitIndex = args.indexOf('--limit');
+const limit = limitIndex >= 0 ? Number(args[limitIndex + 1]) : undefined;
+
+const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+const cronSecret = process.env.CRON_SECRET;
+
+async function main() {
+  if (!cronSecret) {
+    console.error('❌ CRON_SECRET is not set');
+    process.exit(1);
+  }
+
+  console.log(`${apply ? '🚚 Migrating' : '🔍 Dry run:'} legacy objects via ${appUrl}\n`);
+
+  const response = await fetch(`${appUrl}/api/storage/migrate-legacy`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${cronSecret}`,
+    },
+    body: JSON.stringify({ apply, limit }),
+  });
+
+  const report = await response.json();
+
+  if (!response.ok) {
+    console.error(`❌ ${response.status}: ${report.error}${report.details ? ` - ${report.details}` : ''}`);
+    process.exit(1);
+  }
+
+  for (const move of report.moved) {
+    console.log(`  ${apply ? 'moved' : 'would move'} [${move.layout}] ${move.from} → ${move.to}`);
+  }
+  for (const skip of report.skipped) {
+    console.log(`  skipped ${skip.key}: ${skip.reason}`);
+  }
+  for (const failure of report.failed) {
+    console.log(`  ❌ failed ${failure.key}: ${failure.error}`);
+  }
+
+  console.log(`\nScanned ${report.scanned} objects`);
+  console.log(`${apply ? 'Moved' : 'Would move'} ${report.moved.length}, skipped ${report.skipped.length}, failed ${report.failed.length}`);
+  if (apply) {
+    console.log(`Updated ${report.videosUpdated} videos.r2_key rows`);
+  }
+  if (report.remaining > 0) {
+    console.log(`${report.remaining} more legacy objects over the limit - run again to continue`);
+  }
+  if (!apply && report.moved.length > 0) {
+    console.log('\nRun with --apply to move them.');
+  }
+
+  process.exit(report.failed.length > 0 ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error('❌ Migration request failed:', error.message);
+  process.exit(1);
+});
@@ -0,0 +1,88 @@
+#!/usr/bin/env node
+
+/**
+ * Video Library Reconciliation
+ *
+ * Compares the videos table with storage by calling
+ * POST /api/storage/reconcile-videos on a running app: uploads without a row
+ * are backfilled, rows without an object are flagged, and objects that can't
+ * get a row are listed as orphans.
+ *
+ * Usage:
+ *   npm run storage:reconcile              # dry run - shows what would change
+ *   npm run storage:reconcile -- --apply   # write the rows and flags
+ *   npm run storage:reconcile -- --apply --limit 50
+ *
+ * Needs CRON_SECRET, and NEXT_PUBLIC_APP_URL unless the app is on localhost:3000.
+ */
+
+// Load environment variables
+require('dotenv').config({ path: '.env.local' });
+
+const args = process.argv.slice(2);
+const apply = args.includes('--apply');
+const limitIndex = args.indexOf('--limit');
+const limit = limitIndex >= 0 ? Number(args[limitIndex + 1]) : undefined;
+
+const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+const cronSecret = process.env.CRON_SECRET;
+
+async function main() {
+  if (!cronSecret) {
+    console.error('❌ CRON_SECRET is not set');
+    process.exit(1);
+  }
+
+  console.log(`${apply ? '🔧 Reconciling' : '🔍 Dry run:'} video library via ${appUrl}\n`);
+
+  const response = await fetch(`${appUrl}/api/storage/reconcile-videos`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${cronSecret}`,
+    },
+    body: JSON.stringify({ apply, limit }),
+  });
+
+  const report = await response.json();
+
+  if (!response.ok) {
+    console.error(`❌ ${response.status}: ${report.error}${report.details ? ` - ${report.details}` : ''}`);
+    process.exit(1);
+  }
+
+  for (const video of report.backfilled) {
+    console.log(`  ${apply ? 'added' : 'would add'} ${video.videoId} (${video.status}) "${video.fileName}" → ${video.key}`);
+  }
+  for (const missing of report.missingObjects) {
+    console.log(`  ⚠️  ${missing.videoId} has no object at ${missing.key} (since ${missing.flaggedAt})`);
+  }
+  for (const videoId of report.restored) {
+    console.log(`  ${apply ? 'cleared' : 'would clear'} missing-object flag on ${videoId}`);
+  }
+  for (const orphan of report.orphanObjects) {
+    console.log(`  ⚠️  orphan ${orphan.key}: ${orphan.reason}`);
+  }
+  for (const failure of report.failed) {
+    console.log(`  ❌ failed ${failure.key}: ${failure.error}`);
+  }
+
+  console.log(`\nScanned ${report.scanned} uploads, checked ${report.checked} rows`);
+  console.log(
+    `${apply ? 'Backfilled' : 'Would backfill'} ${report.backfilled.length}, ` +
+    `missing objects ${report.missingObjects.length}, orphans ${report.orphanObjects.length}, failed ${report.failed.length}`
+  );
+  if (report.remaining > 0) {
+    console.log(`${report.remaining} more uploads over the limit - run again to continue`);
+  }
+  if (!apply && (report.backfilled.length > 0 || report.restored.length > 0)) {
+    console.log('\nRun with --apply to write them.');
+  }
+
+  process.exit(report.failed.length > 0 ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error('❌ Reconciliation request failed:', error.message);
+  process.exit(1);
+});
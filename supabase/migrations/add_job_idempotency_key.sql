@@ -0,0 +1,11 @@
+-- Add idempotency keys to processing_jobs
+-- POST /api/analysis returns the existing job when a user repeats an Idempotency-Key
+
+ALTER TABLE public.processing_jobs
+  ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+
+COMMENT ON COLUMN public.processing_jobs.idempotency_key IS 'Idempotency-Key of the submitting request; unique per user';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_processing_jobs_idempotency_key
+  ON public.processing_jobs(user_id, idempotency_key)
+  WHERE idempotency_key IS NOT NULL;
@@ -0,0 +1,25 @@
+-- Add queue columns to processing_jobs
+-- Jobs are queued per user and dispatched to RunPod by lib/job-queue.ts
+
+ALTER TABLE public.processing_jobs
+  ADD COLUMN IF NOT EXISTS priority INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS dispatched_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.processing_jobs.priority IS 'Queue priority from the user''s plan (STRIPE_PLANS queuePriority)';
+COMMENT ON COLUMN public.processing_jobs.dispatched_at IS 'When the job queue submitted the job to RunPod; NULL while waiting in the queue';
+
+-- Jobs created before the queue were all sent straight to RunPod
+UPDATE public.processing_jobs
+SET dispatched_at = COALESCE(started_at, created_at)
+WHERE dispatched_at IS NULL
+  AND runpod_job_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_processing_jobs_queue
+  ON public.processing_jobs(priority DESC, created_at)
+  WHERE status = 'queued' AND dispatched_at IS NULL;
+
+-- The queue trusts priority, status, dispatched_at and job_params.video_key,
+-- so users may only read their jobs; the server writes them with the service role
+DROP POLICY IF EXISTS "Users can create own processing jobs" ON public.processing_jobs;
+DROP POLICY IF EXISTS "Users can update own processing jobs" ON public.processing_jobs;
+DROP POLICY IF EXISTS "Users can delete own processing jobs" ON public.processing_jobs;
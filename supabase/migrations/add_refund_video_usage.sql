@@ -0,0 +1,56 @@
+-- Add refund_video_usage so cancelled analyses give their minutes back
+-- Called by POST /api/analysis/cancel with the service-role client
+
+CREATE OR REPLACE FUNCTION public.refund_video_usage(
+  p_user_id UUID,
+  p_video_id TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_subscription_id UUID;
+  v_billing_start TIMESTAMPTZ;
+  v_minutes_refunded NUMERIC;
+  v_new_minutes_used NUMERIC;
+BEGIN
+  -- Get active subscription
+  SELECT id, current_period_start
+  INTO v_subscription_id, v_billing_start
+  FROM public.subscriptions
+  WHERE user_id = p_user_id AND status = 'active'
+  LIMIT 1;
+
+  IF v_subscription_id IS NULL THEN
+    RAISE EXCEPTION 'No active subscription found for user';
+  END IF;
+
+  -- Remove the video's usage records; earlier periods are already invoiced
+  WITH refunded AS (
+    DELETE FROM public.usage_records
+    WHERE user_id = p_user_id
+    AND subscription_id = v_subscription_id
+    AND video_id = p_video_id
+    AND billing_period_start = v_billing_start
+    RETURNING minutes_consumed
+  )
+  SELECT COALESCE(SUM(minutes_consumed), 0) INTO v_minutes_refunded FROM refunded;
+
+  UPDATE public.subscriptions
+  SET minutes_used = GREATEST(0, minutes_used - v_minutes_refunded)
+  WHERE id = v_subscription_id
+  RETURNING minutes_used INTO v_new_minutes_used;
+
+  RETURN json_build_object(
+    'success', true,
+    'minutes_refunded', v_minutes_refunded,
+    'minutes_used', v_new_minutes_used
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.refund_video_usage IS 'Atomically refund a video''s usage in the current billing period (service role only)';
+
+-- Usage refunds are only issued by the server
+REVOKE EXECUTE ON FUNCTION public.refund_video_usage(UUID, TEXT) FROM PUBLIC, anon, authenticated;
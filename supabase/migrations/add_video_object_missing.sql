@@ -0,0 +1,14 @@
+-- Flag videos whose stored object is gone
+-- The videos table is the video library; lib/video-reconciliation.ts compares
+-- it with storage, backfills rows for uploads that have none and sets this
+-- when a row's r2_key has no object.
+
+ALTER TABLE public.videos
+  ADD COLUMN IF NOT EXISTS object_missing_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_videos_object_missing
+  ON public.videos(object_missing_at)
+  WHERE object_missing_at IS NOT NULL;
+
+COMMENT ON COLUMN public.videos.object_missing_at IS
+  'When reconciliation found no object at r2_key - NULL means the object exists or has not been checked';
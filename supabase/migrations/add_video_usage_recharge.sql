@@ -0,0 +1,119 @@
+-- Charge a video again when it is re-analyzed after a cancellation refund
+-- POST /api/analysis/cancel refunds a video's usage with refund_video_usage,
+-- which now records the refunded minutes in video_usage_refunds. POST
+-- /api/analysis calls recharge_video_usage before queueing, so the next
+-- analysis is billed. Owners can edit their videos rows, so the owed minutes
+-- live in their own table that only the service role can read or write.
+
+-- VIDEO USAGE REFUNDS
+-- Minutes a cancelled analysis refunded and not yet charged again
+CREATE TABLE IF NOT EXISTS public.video_usage_refunds (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  video_id TEXT NOT NULL,
+  minutes NUMERIC(10, 2) NOT NULL CHECK (minutes > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (user_id, video_id)
+);
+
+COMMENT ON TABLE public.video_usage_refunds IS 'Minutes refunded by a cancelled analysis, charged again when the video is re-analyzed (service role only)';
+
+-- Enable RLS; only the service role reads or writes it
+ALTER TABLE public.video_usage_refunds ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.refund_video_usage(
+  p_user_id UUID,
+  p_video_id TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_subscription_id UUID;
+  v_billing_start TIMESTAMPTZ;
+  v_minutes_refunded NUMERIC;
+  v_new_minutes_used NUMERIC;
+BEGIN
+  -- Get active subscription
+  SELECT id, current_period_start
+  INTO v_subscription_id, v_billing_start
+  FROM public.subscriptions
+  WHERE user_id = p_user_id AND status = 'active'
+  LIMIT 1;
+
+  IF v_subscription_id IS NULL THEN
+    RAISE EXCEPTION 'No active subscription found for user';
+  END IF;
+
+  -- Remove the video's usage records; earlier periods are already invoiced
+  WITH refunded AS (
+    DELETE FROM public.usage_records
+    WHERE user_id = p_user_id
+    AND subscription_id = v_subscription_id
+    AND video_id = p_video_id
+    AND billing_period_start = v_billing_start
+    RETURNING minutes_consumed
+  )
+  SELECT COALESCE(SUM(minutes_consumed), 0) INTO v_minutes_refunded FROM refunded;
+
+  UPDATE public.subscriptions
+  SET minutes_used = GREATEST(0, minutes_used - v_minutes_refunded)
+  WHERE id = v_subscription_id
+  RETURNING minutes_used INTO v_new_minutes_used;
+
+  -- Owed again if the video is re-analyzed (recharge_video_usage)
+  IF v_minutes_refunded > 0 THEN
+    INSERT INTO public.video_usage_refunds (user_id, video_id, minutes)
+    VALUES (p_user_id, p_video_id, v_minutes_refunded)
+    ON CONFLICT (user_id, video_id) DO UPDATE
+    SET minutes = public.video_usage_refunds.minutes + EXCLUDED.minutes,
+        updated_at = NOW();
+  END IF;
+
+  RETURN json_build_object(
+    'success', true,
+    'minutes_refunded', v_minutes_refunded,
+    'minutes_used', v_new_minutes_used
+  );
+END;
+$$;
+
+-- Charge the minutes a cancellation refunded, once, before a new analysis
+CREATE OR REPLACE FUNCTION public.recharge_video_usage(
+  p_user_id UUID,
+  p_video_id TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_minutes NUMERIC;
+BEGIN
+  -- Lock the row so concurrent submissions charge only once
+  SELECT minutes
+  INTO v_minutes
+  FROM public.video_usage_refunds
+  WHERE user_id = p_user_id AND video_id = p_video_id
+  FOR UPDATE;
+
+  IF v_minutes IS NULL THEN
+    RETURN json_build_object('charged', false, 'minutes_charged', 0);
+  END IF;
+
+  -- Raises when there is no active subscription or the overage limit is hit,
+  -- which rolls back and leaves the minutes owed
+  PERFORM public.track_video_usage(p_user_id, p_video_id, v_minutes);
+
+  DELETE FROM public.video_usage_refunds
+  WHERE user_id = p_user_id AND video_id = p_video_id;
+
+  RETURN json_build_object('charged', true, 'minutes_charged', v_minutes);
+END;
+$$;
+
+COMMENT ON FUNCTION public.recharge_video_usage IS 'Atomically charge the usage a cancelled analysis refunded, before the video is analyzed again (service role only)';
+
+-- Usage is only charged back by the server
+REVOKE EXECUTE ON FUNCTION public.recharge_video_usage(UUID, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,37 @@
+-- Add job_events table so webhook progress updates survive across instances
+-- Used when JOB_EVENT_STORE=postgres (the default in production); see lib/supabase-job-event-store.ts
+
+-- JOB EVENTS
+-- Progress updates from RunPod webhooks, streamed to /api/events/[jobId]
+CREATE TABLE IF NOT EXISTS public.job_events (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,  -- Orders a job's events
+  job_id TEXT NOT NULL,             -- Internal job ID passed to RunPod (e.g., "unified-{videoId}-{timestamp}")
+  step TEXT,
+  status TEXT NOT NULL,             -- As sent by the worker: queued, running, completed, failed
+  progress NUMERIC(5, 2),           -- 0-100
+  stage TEXT,
+  error TEXT,
+  results JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.job_events IS 'Webhook progress updates per job; fanned out to every app instance via Supabase Realtime';
+
+CREATE INDEX IF NOT EXISTS idx_job_events_job_id ON public.job_events(job_id, id);
+CREATE INDEX IF NOT EXISTS idx_job_events_created_at ON public.job_events(created_at);
+
+-- Enable RLS
+ALTER TABLE public.job_events ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- JOB EVENTS POLICIES
+-- ============================================================================
+-- Written and read by the server with the service role; admins can inspect
+
+CREATE POLICY "Admins can view all job events"
+  ON public.job_events
+  FOR SELECT
+  USING (public.is_admin());
+
+-- Broadcast job_events inserts to SSE connections on every instance
+ALTER PUBLICATION supabase_realtime ADD TABLE public.job_events;
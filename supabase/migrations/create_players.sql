@@ -0,0 +1,156 @@
+-- Add player profiles that persist across videos
+-- players holds the user's athletes; video_players links each video's tracked
+-- player IDs (player_0, player_1, ...) to one of those profiles
+
+-- PLAYERS
+-- User-owned athlete profiles, linked to tracked players across videos
+CREATE TABLE IF NOT EXISTS public.players (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  handedness TEXT CHECK (handedness IN ('left', 'right')),
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.players IS 'Player profiles owned by a user, shared across all of their videos';
+
+-- VIDEO PLAYERS
+-- Links a tracked player in one video (e.g. "player_0") to a player profile
+CREATE TABLE IF NOT EXISTS public.video_players (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  video_id TEXT NOT NULL REFERENCES public.videos(video_id) ON DELETE CASCADE,
+  tracked_player_id TEXT NOT NULL,  -- Player ID from the analysis output (e.g., "player_0")
+  player_id UUID NOT NULL REFERENCES public.players(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT unique_video_tracked_player UNIQUE(video_id, tracked_player_id),
+  CONSTRAINT unique_video_player_profile UNIQUE(video_id, player_id)
+);
+
+COMMENT ON TABLE public.video_players IS 'Maps per-video tracked player IDs to player profiles';
+COMMENT ON COLUMN public.video_players.tracked_player_id IS 'Player ID as written by the analysis pipeline (player_0, player_1, ...)';
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_players_user_id ON public.players(user_id);
+CREATE INDEX IF NOT EXISTS idx_video_players_user_id ON public.video_players(user_id);
+CREATE INDEX IF NOT EXISTS idx_video_players_video_id ON public.video_players(video_id);
+CREATE INDEX IF NOT EXISTS idx_video_players_player_id ON public.video_players(player_id);
+
+-- Auto-update updated_at
+CREATE TRIGGER update_players_updated_at
+  BEFORE UPDATE ON public.players
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Link or unlink tracked players atomically (PUT /api/video-players)
+CREATE OR REPLACE FUNCTION public.set_video_player_links(
+  p_video_id TEXT,
+  p_links JSONB
+)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Clear every tracked player being changed first, so swapping two profiles
+  -- between players doesn't trip the one-profile-per-video constraint
+  DELETE FROM public.video_players
+  WHERE video_id = p_video_id
+  AND user_id = auth.uid()
+  AND tracked_player_id IN (SELECT jsonb_object_keys(p_links));
+
+  INSERT INTO public.video_players (user_id, video_id, tracked_player_id, player_id)
+  SELECT auth.uid(), p_video_id, link.key, link.value::UUID
+  FROM jsonb_each_text(p_links) AS link
+  WHERE link.value IS NOT NULL;
+END;
+$$;
+
+COMMENT ON FUNCTION public.set_video_player_links IS 'Replace the profile links of a video''s tracked players in one transaction; runs as the caller, so RLS applies';
+
+-- Enable RLS
+ALTER TABLE public.players ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.video_players ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- PLAYERS POLICIES
+-- ============================================================================
+
+CREATE POLICY "Users can view own players"
+  ON public.players
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own players"
+  ON public.players
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own players"
+  ON public.players
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own players"
+  ON public.players
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all players"
+  ON public.players
+  FOR SELECT
+  USING (public.is_admin());
+
+-- ============================================================================
+-- VIDEO PLAYERS POLICIES
+-- ============================================================================
+
+CREATE POLICY "Users can view own video players"
+  ON public.video_players
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Both the video and the profile must be the caller's own
+CREATE POLICY "Users can create own video players"
+  ON public.video_players
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.videos
+      WHERE videos.video_id = video_players.video_id AND videos.user_id = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.players
+      WHERE players.id = video_players.player_id AND players.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own video players"
+  ON public.video_players
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.videos
+      WHERE videos.video_id = video_players.video_id AND videos.user_id = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.players
+      WHERE players.id = video_players.player_id AND players.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete own video players"
+  ON public.video_players
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all video players"
+  ON public.video_players
+  FOR SELECT
+  USING (public.is_admin());
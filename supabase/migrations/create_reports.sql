@@ -0,0 +1,52 @@
+-- Add reports table for generated HTML/PDF match reports
+-- The files are stored in R2 under {env}/{userId}/reports/{reportId}/
+
+-- REPORTS
+-- Generated HTML/PDF match reports (files stored in R2)
+CREATE TABLE IF NOT EXISTS public.reports (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  scope TEXT NOT NULL CHECK (scope IN ('video', 'range')),
+  video_id TEXT REFERENCES public.videos(video_id) ON DELETE SET NULL,  -- Set for single-video reports
+  range_start DATE,                 -- Set for date-range reports
+  range_end DATE,
+  video_count INTEGER NOT NULL DEFAULT 0 CHECK (video_count >= 0),
+  html_key TEXT NOT NULL,           -- R2 path: dev/{userId}/reports/{reportId}/report.html
+  pdf_key TEXT NOT NULL,            -- R2 path: dev/{userId}/reports/{reportId}/report.pdf
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT valid_report_range CHECK (range_end IS NULL OR range_end >= range_start)
+);
+
+COMMENT ON TABLE public.reports IS 'Generated match reports; the HTML and PDF files live in R2';
+COMMENT ON COLUMN public.reports.scope IS 'video = single match report, range = all analyzed videos uploaded between range_start and range_end';
+
+CREATE INDEX IF NOT EXISTS idx_reports_user_created ON public.reports(user_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.reports ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- REPORTS POLICIES
+-- ============================================================================
+
+CREATE POLICY "Users can view own reports"
+  ON public.reports
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own reports"
+  ON public.reports
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own reports"
+  ON public.reports
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all reports"
+  ON public.reports
+  FOR SELECT
+  USING (public.is_admin());
@@ -0,0 +1,68 @@
+-- Add video_annotations table for timestamped coach comments, tags and drawings
+-- Replies are rows with parent_id set; show_on_share exposes an annotation on /share/[token]
+
+-- VIDEO ANNOTATIONS
+-- Timestamped coach comments, tags and drawings on a video, with threaded replies
+CREATE TABLE IF NOT EXISTS public.video_annotations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  video_id TEXT NOT NULL REFERENCES public.videos(video_id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES public.video_annotations(id) ON DELETE CASCADE,  -- Set for replies
+  player_id UUID REFERENCES public.players(id) ON DELETE SET NULL,           -- Set when a player profile wrote the reply
+  time_seconds NUMERIC(10, 2) CHECK (time_seconds >= 0),                      -- Video timestamp (top-level annotations only)
+  body TEXT NOT NULL DEFAULT '' CHECK (char_length(body) <= 2000),
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  drawing JSONB,                    -- Strokes in normalized (0-1) video coordinates
+  show_on_share BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT annotation_has_time CHECK (parent_id IS NOT NULL OR time_seconds IS NOT NULL),
+  CONSTRAINT annotation_not_empty CHECK (char_length(body) > 0 OR cardinality(tags) > 0 OR drawing IS NOT NULL)
+);
+
+COMMENT ON TABLE public.video_annotations IS 'Coach annotations pinned to video timestamps; rows with parent_id are replies';
+COMMENT ON COLUMN public.video_annotations.show_on_share IS 'Show this annotation (read-only, with replies) on the public share page';
+
+CREATE INDEX IF NOT EXISTS idx_video_annotations_video_time ON public.video_annotations(video_id, time_seconds);
+CREATE INDEX IF NOT EXISTS idx_video_annotations_parent_id ON public.video_annotations(parent_id) WHERE parent_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_video_annotations_shared ON public.video_annotations(video_id) WHERE show_on_share;
+
+-- Auto-update updated_at
+CREATE TRIGGER update_video_annotations_updated_at
+  BEFORE UPDATE ON public.video_annotations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable RLS
+ALTER TABLE public.video_annotations ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- VIDEO ANNOTATIONS POLICIES
+-- ============================================================================
+
+CREATE POLICY "Users can view own annotations"
+  ON public.video_annotations
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own annotations"
+  ON public.video_annotations
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own annotations"
+  ON public.video_annotations
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own annotations"
+  ON public.video_annotations
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all annotations"
+  ON public.video_annotations
+  FOR SELECT
+  USING (public.is_admin());
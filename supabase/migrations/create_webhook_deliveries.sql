@@ -0,0 +1,19 @@
+-- Add webhook_deliveries so a replayed webhook is rejected on every instance
+-- lib/webhook-auth.ts inserts each accepted signature; the primary key turns a
+-- second delivery of the same signature into a unique violation
+
+-- WEBHOOK DELIVERIES
+-- Signatures of accepted RunPod webhooks, kept while their timestamp is in the window
+CREATE TABLE IF NOT EXISTS public.webhook_deliveries (
+  signature TEXT PRIMARY KEY,       -- "sha256=<hex>" as sent in X-Webhook-Signature
+  job_id TEXT NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,  -- When the timestamp leaves the tolerance window; the row is pruned after
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.webhook_deliveries IS 'Accepted webhook signatures for replay protection across instances; rows are pruned once expired';
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_expires_at ON public.webhook_deliveries(expires_at);
+
+-- Enable RLS; only the service role reads or writes it
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
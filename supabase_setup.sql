@@ -12,7 +12,9 @@
 -- - Improved indexing and referential integrity
 --
 -- Tables: user_profiles, subscriptions, videos, usage_records, billing_history,
---         analysis_shares, blog_posts, processing_jobs
+--         analysis_shares, blog_posts, processing_jobs, players, video_players,
+--         reports, video_annotations, job_events, webhook_deliveries,
+--         video_usage_refunds
 --
 -- Usage: Run this on a clean Supabase database
 -- ============================================================================
@@ -106,6 +108,9 @@ CREATE TABLE public.videos (
   -- Soft delete support
   deleted_at TIMESTAMPTZ,
 
+  -- Set by reconciliation when r2_key has no object (lib/video-reconciliation.ts)
+  object_missing_at TIMESTAMPTZ,
+
   -- Timestamps
   uploaded_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
@@ -119,6 +124,7 @@ COMMENT ON COLUMN public.videos.video_id IS 'Unique video identifier matching R2
 COMMENT ON COLUMN public.videos.r2_key IS 'Full R2 object path including environment prefix';
 COMMENT ON COLUMN public.videos.status IS 'Current video processing status (uploading = upload in progress, uploaded = upload complete but not analyzed, processing = being analyzed, completed = analysis finished, failed = analysis failed, archived = user archived, deleted = soft deleted)';
 COMMENT ON COLUMN public.videos.deleted_at IS 'Soft delete timestamp - NULL means active';
+COMMENT ON COLUMN public.videos.object_missing_at IS 'When reconciliation found no object at r2_key - NULL means the object exists or has not been checked';
 
 -- ============================================================================
 
@@ -241,6 +247,11 @@ CREATE TABLE public.processing_jobs (
   completed_at TIMESTAMPTZ,
   last_checked_at TIMESTAMPTZ,
 
+  -- Queue (see lib/job-queue.ts)
+  priority INTEGER NOT NULL DEFAULT 0,  -- Plan queue priority; higher is dispatched first
+  dispatched_at TIMESTAMPTZ,  -- When the queue sent the job to RunPod; NULL while waiting
+  idempotency_key TEXT,  -- Idempotency-Key header of the POST /api/analysis request that created it
+
   -- Analytics columns (stored as JSONB for flexibility)
   worker_specs JSONB,      -- GPU type, memory, CPU specs, region
   input_params JSONB,      -- Video metadata: size, fps, resolution, codec
@@ -258,6 +269,9 @@ COMMENT ON TABLE public.processing_jobs IS 'RunPod video analysis job tracking w
 COMMENT ON COLUMN public.processing_jobs.runpod_job_id IS 'RunPod job identifier for status polling';
 COMMENT ON COLUMN public.processing_jobs.parent_job_id IS 'UUID of original job if this is a retry';
 COMMENT ON COLUMN public.processing_jobs.retry_count IS 'Number of retry attempts (max 3 hardcoded in app logic)';
+COMMENT ON COLUMN public.processing_jobs.priority IS 'Queue priority from the user''s plan (STRIPE_PLANS queuePriority)';
+COMMENT ON COLUMN public.processing_jobs.dispatched_at IS 'When the job queue submitted the job to RunPod; NULL while waiting in the queue';
+COMMENT ON COLUMN public.processing_jobs.idempotency_key IS 'Idempotency-Key of the submitting request; unique per user';
 COMMENT ON COLUMN public.processing_jobs.worker_specs IS 'GPU type, memory, CPU specs, region, etc.';
 COMMENT ON COLUMN public.processing_jobs.input_params IS 'Video metadata: size, fps, resolution, codec, etc.';
 COMMENT ON COLUMN public.processing_jobs.step_metrics IS 'Timing, throughput, and output for each pipeline step';
@@ -267,6 +281,136 @@ COMMENT ON COLUMN public.processing_jobs.billing IS 'Compute time, GPU minutes,
 COMMENT ON COLUMN public.processing_jobs.error_info IS 'Detailed error context: type, step, traceback, category';
 COMMENT ON COLUMN public.processing_jobs.retry_info IS 'Retry attempt, parent job, reason, changes made';
 
+-- ============================================================================
+
+-- PLAYERS
+-- User-owned athlete profiles, linked to tracked players across videos
+CREATE TABLE public.players (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  handedness TEXT CHECK (handedness IN ('left', 'right')),
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.players IS 'Player profiles owned by a user, shared across all of their videos';
+
+-- ============================================================================
+
+-- VIDEO PLAYERS
+-- Links a tracked player in one video (e.g. "player_0") to a player profile
+CREATE TABLE public.video_players (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  video_id TEXT NOT NULL REFERENCES public.videos(video_id) ON DELETE CASCADE,
+  tracked_player_id TEXT NOT NULL,  -- Player ID from the analysis output (e.g., "player_0")
+  player_id UUID NOT NULL REFERENCES public.players(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT unique_video_tracked_player UNIQUE(video_id, tracked_player_id),
+  CONSTRAINT unique_video_player_profile UNIQUE(video_id, player_id)
+);
+
+COMMENT ON TABLE public.video_players IS 'Maps per-video tracked player IDs to player profiles';
+COMMENT ON COLUMN public.video_players.tracked_player_id IS 'Player ID as written by the analysis pipeline (player_0, player_1, ...)';
+
+-- ============================================================================
+
+-- REPORTS
+-- Generated HTML/PDF match reports (files stored in R2)
+CREATE TABLE public.reports (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  scope TEXT NOT NULL CHECK (scope IN ('video', 'range')),
+  video_id TEXT REFERENCES public.videos(video_id) ON DELETE SET NULL,  -- Set for single-video reports
+  range_start DATE,                 -- Set for date-range reports
+  range_end DATE,
+  video_count INTEGER NOT NULL DEFAULT 0 CHECK (video_count >= 0),
+  html_key TEXT NOT NULL,           -- R2 path: dev/{userId}/reports/{reportId}/report.html
+  pdf_key TEXT NOT NULL,            -- R2 path: dev/{userId}/reports/{reportId}/report.pdf
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT valid_report_range CHECK (range_end IS NULL OR range_end >= range_start)
+);
+
+COMMENT ON TABLE public.reports IS 'Generated match reports; the HTML and PDF files live in R2';
+COMMENT ON COLUMN public.reports.scope IS 'video = single match report, range = all analyzed videos uploaded between range_start and range_end';
+
+-- ============================================================================
+
+-- VIDEO ANNOTATIONS
+-- Timestamped coach comments, tags and drawings on a video, with threaded replies
+CREATE TABLE public.video_annotations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  video_id TEXT NOT NULL REFERENCES public.videos(video_id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES public.video_annotations(id) ON DELETE CASCADE,  -- Set for replies
+  player_id UUID REFERENCES public.players(id) ON DELETE SET NULL,           -- Set when a player profile wrote the reply
+  time_seconds NUMERIC(10, 2) CHECK (time_seconds >= 0),                      -- Video timestamp (top-level annotations only)
+  body TEXT NOT NULL DEFAULT '' CHECK (char_length(body) <= 2000),
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  drawing JSONB,                    -- Strokes in normalized (0-1) video coordinates
+  show_on_share BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT annotation_has_time CHECK (parent_id IS NOT NULL OR time_seconds IS NOT NULL),
+  CONSTRAINT annotation_not_empty CHECK (char_length(body) > 0 OR cardinality(tags) > 0 OR drawing IS NOT NULL)
+);
+
+COMMENT ON TABLE public.video_annotations IS 'Coach annotations pinned to video timestamps; rows with parent_id are replies';
+COMMENT ON COLUMN public.video_annotations.show_on_share IS 'Show this annotation (read-only, with replies) on the public share page';
+
+-- ============================================================================
+
+-- JOB EVENTS
+-- Progress updates from RunPod webhooks, streamed to /api/events/[jobId]
+CREATE TABLE public.job_events (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,  -- Orders a job's events
+  job_id TEXT NOT NULL,             -- Internal job ID passed to RunPod (e.g., "unified-{videoId}-{timestamp}")
+  step TEXT,
+  status TEXT NOT NULL,             -- queued, running, completed, failed (from the worker) or cancelled
+  progress NUMERIC(5, 2),           -- 0-100
+  stage TEXT,
+  error TEXT,
+  results JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.job_events IS 'Webhook progress updates per job; fanned out to every app instance via Supabase Realtime';
+
+-- ============================================================================
+
+-- WEBHOOK DELIVERIES
+-- Signatures of accepted RunPod webhooks, kept while their timestamp is in the window
+CREATE TABLE public.webhook_deliveries (
+  signature TEXT PRIMARY KEY,       -- "sha256=<hex>" as sent in X-Webhook-Signature
+  job_id TEXT NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,  -- When the timestamp leaves the tolerance window; the row is pruned after
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.webhook_deliveries IS 'Accepted webhook signatures for replay protection across instances; rows are pruned once expired';
+
+-- ============================================================================
+
+-- VIDEO USAGE REFUNDS
+-- Minutes a cancelled analysis refunded and not yet charged again. Kept out of
+-- videos because owners can edit their own rows there.
+CREATE TABLE public.video_usage_refunds (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  video_id TEXT NOT NULL,
+  minutes NUMERIC(10, 2) NOT NULL CHECK (minutes > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (user_id, video_id)
+);
+
+COMMENT ON TABLE public.video_usage_refunds IS 'Minutes refunded by a cancelled analysis, charged again when the video is re-analyzed (service role only)';
+
 -- ============================================================================
 -- INDEXES
 -- ============================================================================
@@ -287,6 +431,7 @@ CREATE INDEX idx_videos_status ON public.videos(status);
 CREATE INDEX idx_videos_user_status ON public.videos(user_id, status) WHERE deleted_at IS NULL;
 CREATE INDEX idx_videos_uploaded_at ON public.videos(uploaded_at DESC);
 CREATE INDEX idx_videos_deleted_at ON public.videos(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_videos_object_missing ON public.videos(object_missing_at) WHERE object_missing_at IS NOT NULL;
 
 -- Usage Records
 CREATE INDEX idx_usage_records_user_id ON public.usage_records(user_id);
@@ -318,12 +463,37 @@ CREATE INDEX idx_processing_jobs_status ON public.processing_jobs(status);
 CREATE INDEX idx_processing_jobs_user_status ON public.processing_jobs(user_id, status);
 CREATE INDEX idx_processing_jobs_status_created ON public.processing_jobs(status, created_at DESC);
 CREATE INDEX idx_processing_jobs_created_at ON public.processing_jobs(created_at DESC);
+CREATE INDEX idx_processing_jobs_queue ON public.processing_jobs(priority DESC, created_at) WHERE status = 'queued' AND dispatched_at IS NULL;
+CREATE UNIQUE INDEX idx_processing_jobs_idempotency_key ON public.processing_jobs(user_id, idempotency_key) WHERE idempotency_key IS NOT NULL;
 
 -- JSONB indexes for processing_jobs (GIN for better JSON query performance)
 CREATE INDEX idx_processing_jobs_worker_specs_gin ON public.processing_jobs USING GIN (worker_specs);
 CREATE INDEX idx_processing_jobs_error_info_gin ON public.processing_jobs USING GIN (error_info);
 CREATE INDEX idx_processing_jobs_billing_gin ON public.processing_jobs USING GIN (billing);
 
+-- Players
+CREATE INDEX idx_players_user_id ON public.players(user_id);
+
+-- Video Players
+CREATE INDEX idx_video_players_user_id ON public.video_players(user_id);
+CREATE INDEX idx_video_players_video_id ON public.video_players(video_id);
+CREATE INDEX idx_video_players_player_id ON public.video_players(player_id);
+
+-- Reports
+CREATE INDEX idx_reports_user_created ON public.reports(user_id, created_at DESC);
+
+-- Video Annotations
+CREATE INDEX idx_video_annotations_video_time ON public.video_annotations(video_id, time_seconds);
+CREATE INDEX idx_video_annotations_parent_id ON public.video_annotations(parent_id) WHERE parent_id IS NOT NULL;
+CREATE INDEX idx_video_annotations_shared ON public.video_annotations(video_id) WHERE show_on_share;
+
+-- Job Events
+CREATE INDEX idx_job_events_job_id ON public.job_events(job_id, id);
+CREATE INDEX idx_job_events_created_at ON public.job_events(created_at);
+
+-- Webhook Deliveries
+CREATE INDEX idx_webhook_deliveries_expires_at ON public.webhook_deliveries(expires_at);
+
 -- ============================================================================
 -- FUNCTIONS & TRIGGERS
 -- ============================================================================
@@ -367,6 +537,16 @@ CREATE TRIGGER update_processing_jobs_updated_at
   FOR EACH ROW
   EXECUTE FUNCTION public.update_updated_at_column();
 
+CREATE TRIGGER update_players_updated_at
+  BEFORE UPDATE ON public.players
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_video_annotations_updated_at
+  BEFORE UPDATE ON public.video_annotations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
 -- ============================================================================
 
 -- Auto-create user profile and subscription on signup
@@ -489,6 +669,107 @@ COMMENT ON FUNCTION public.track_video_usage IS 'Atomically track video usage in
 
 -- ============================================================================
 
+-- Refund a video's usage for the current billing period (e.g., analysis cancelled)
+CREATE OR REPLACE FUNCTION public.refund_video_usage(
+  p_user_id UUID,
+  p_video_id TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_subscription_id UUID;
+  v_billing_start TIMESTAMPTZ;
+  v_minutes_refunded NUMERIC;
+  v_new_minutes_used NUMERIC;
+BEGIN
+  -- Get active subscription
+  SELECT id, current_period_start
+  INTO v_subscription_id, v_billing_start
+  FROM public.subscriptions
+  WHERE user_id = p_user_id AND status = 'active'
+  LIMIT 1;
+
+  IF v_subscription_id IS NULL THEN
+    RAISE EXCEPTION 'No active subscription found for user';
+  END IF;
+
+  -- Remove the video's usage records; earlier periods are already invoiced
+  WITH refunded AS (
+    DELETE FROM public.usage_records
+    WHERE user_id = p_user_id
+    AND subscription_id = v_subscription_id
+    AND video_id = p_video_id
+    AND billing_period_start = v_billing_start
+    RETURNING minutes_consumed
+  )
+  SELECT COALESCE(SUM(minutes_consumed), 0) INTO v_minutes_refunded FROM refunded;
+
+  UPDATE public.subscriptions
+  SET minutes_used = GREATEST(0, minutes_used - v_minutes_refunded)
+  WHERE id = v_subscription_id
+  RETURNING minutes_used INTO v_new_minutes_used;
+
+  -- Owed again if the video is re-analyzed (recharge_video_usage)
+  IF v_minutes_refunded > 0 THEN
+    INSERT INTO public.video_usage_refunds (user_id, video_id, minutes)
+    VALUES (p_user_id, p_video_id, v_minutes_refunded)
+    ON CONFLICT (user_id, video_id) DO UPDATE
+    SET minutes = public.video_usage_refunds.minutes + EXCLUDED.minutes,
+        updated_at = NOW();
+  END IF;
+
+  RETURN json_build_object(
+    'success', true,
+    'minutes_refunded', v_minutes_refunded,
+    'minutes_used', v_new_minutes_used
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.refund_video_usage IS 'Atomically refund a video''s usage in the current billing period (service role only)';
+
+-- ============================================================================
+
+-- Charge the minutes a cancellation refunded, once, before a new analysis
+CREATE OR REPLACE FUNCTION public.recharge_video_usage(
+  p_user_id UUID,
+  p_video_id TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_minutes NUMERIC;
+BEGIN
+  -- Lock the row so concurrent submissions charge only once
+  SELECT minutes
+  INTO v_minutes
+  FROM public.video_usage_refunds
+  WHERE user_id = p_user_id AND video_id = p_video_id
+  FOR UPDATE;
+
+  IF v_minutes IS NULL THEN
+    RETURN json_build_object('charged', false, 'minutes_charged', 0);
+  END IF;
+
+  -- Raises when there is no active subscription or the overage limit is hit,
+  -- which rolls back and leaves the minutes owed
+  PERFORM public.track_video_usage(p_user_id, p_video_id, v_minutes);
+
+  DELETE FROM public.video_usage_refunds
+  WHERE user_id = p_user_id AND video_id = p_video_id;
+
+  RETURN json_build_object('charged', true, 'minutes_charged', v_minutes);
+END;
+$$;
+
+COMMENT ON FUNCTION public.recharge_video_usage IS 'Atomically charge the usage a cancelled analysis refunded, before the video is analyzed again (service role only)';
+
+-- ============================================================================
+
 -- Increment share view count
 CREATE OR REPLACE FUNCTION public.increment_share_view_count(p_share_token TEXT)
 RETURNS void
@@ -507,6 +788,33 @@ COMMENT ON FUNCTION public.increment_share_view_count IS 'Safely increment share
 
 -- ============================================================================
 
+-- Link or unlink a video's tracked players atomically (PUT /api/video-players)
+CREATE OR REPLACE FUNCTION public.set_video_player_links(
+  p_video_id TEXT,
+  p_links JSONB
+)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Clear every tracked player being changed first, so swapping two profiles
+  -- between players doesn't trip the one-profile-per-video constraint
+  DELETE FROM public.video_players
+  WHERE video_id = p_video_id
+  AND user_id = auth.uid()
+  AND tracked_player_id IN (SELECT jsonb_object_keys(p_links));
+
+  INSERT INTO public.video_players (user_id, video_id, tracked_player_id, player_id)
+  SELECT auth.uid(), p_video_id, link.key, link.value::UUID
+  FROM jsonb_each_text(p_links) AS link
+  WHERE link.value IS NOT NULL;
+END;
+$$;
+
+COMMENT ON FUNCTION public.set_video_player_links IS 'Replace the profile links of a video''s tracked players in one transaction; runs as the caller, so RLS applies';
+
+-- ============================================================================
+
 -- Auto-set published_at timestamp
 CREATE OR REPLACE FUNCTION public.set_blog_published_at()
 RETURNS TRIGGER AS $$
@@ -580,6 +888,13 @@ ALTER TABLE public.billing_history ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.analysis_shares ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.blog_posts ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.processing_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.players ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.video_players ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.reports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.video_annotations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.job_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY; -- Service role only, no policies
+ALTER TABLE public.video_usage_refunds ENABLE ROW LEVEL SECURITY; -- Service role only, no policies
 
 -- ============================================================================
 -- USER PROFILES POLICIES
@@ -763,27 +1078,166 @@ CREATE POLICY "Users can view own processing jobs"
   FOR SELECT
   USING (auth.uid() = user_id);
 
-CREATE POLICY "Users can create own processing jobs"
+-- No user INSERT, UPDATE or DELETE: the job queue trusts priority, status,
+-- dispatched_at and job_params, so only the service role writes jobs
+
+CREATE POLICY "Admins can view all processing jobs"
   ON public.processing_jobs
+  FOR SELECT
+  USING (public.is_admin());
+
+-- ============================================================================
+-- PLAYERS POLICIES
+-- ============================================================================
+
+CREATE POLICY "Users can view own players"
+  ON public.players
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own players"
+  ON public.players
   FOR INSERT
   WITH CHECK (auth.uid() = user_id);
 
-CREATE POLICY "Users can update own processing jobs"
-  ON public.processing_jobs
+CREATE POLICY "Users can update own players"
+  ON public.players
   FOR UPDATE
   USING (auth.uid() = user_id)
   WITH CHECK (auth.uid() = user_id);
 
-CREATE POLICY "Users can delete own processing jobs"
-  ON public.processing_jobs
+CREATE POLICY "Users can delete own players"
+  ON public.players
   FOR DELETE
   USING (auth.uid() = user_id);
 
-CREATE POLICY "Admins can view all processing jobs"
-  ON public.processing_jobs
+CREATE POLICY "Admins can view all players"
+  ON public.players
+  FOR SELECT
+  USING (public.is_admin());
+
+-- ============================================================================
+-- VIDEO PLAYERS POLICIES
+-- ============================================================================
+
+CREATE POLICY "Users can view own video players"
+  ON public.video_players
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Both the video and the profile must be the caller's own
+CREATE POLICY "Users can create own video players"
+  ON public.video_players
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.videos
+      WHERE videos.video_id = video_players.video_id AND videos.user_id = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.players
+      WHERE players.id = video_players.player_id AND players.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own video players"
+  ON public.video_players
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.videos
+      WHERE videos.video_id = video_players.video_id AND videos.user_id = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.players
+      WHERE players.id = video_players.player_id AND players.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete own video players"
+  ON public.video_players
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all video players"
+  ON public.video_players
+  FOR SELECT
+  USING (public.is_admin());
+
+-- ============================================================================
+-- REPORTS POLICIES
+-- ============================================================================
+
+CREATE POLICY "Users can view own reports"
+  ON public.reports
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own reports"
+  ON public.reports
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own reports"
+  ON public.reports
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all reports"
+  ON public.reports
+  FOR SELECT
+  USING (public.is_admin());
+
+-- ============================================================================
+-- VIDEO ANNOTATIONS POLICIES
+-- ============================================================================
+
+CREATE POLICY "Users can view own annotations"
+  ON public.video_annotations
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own annotations"
+  ON public.video_annotations
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own annotations"
+  ON public.video_annotations
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own annotations"
+  ON public.video_annotations
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all annotations"
+  ON public.video_annotations
   FOR SELECT
   USING (public.is_admin());
 
+-- ============================================================================
+-- JOB EVENTS POLICIES
+-- ============================================================================
+-- Written and read by the server with the service role; admins can inspect
+
+CREATE POLICY "Admins can view all job events"
+  ON public.job_events
+  FOR SELECT
+  USING (public.is_admin());
+
+-- ============================================================================
+-- REALTIME
+-- ============================================================================
+
+-- Broadcast job_events inserts to SSE connections on every instance
+ALTER PUBLICATION supabase_realtime ADD TABLE public.job_events;
+
 -- ============================================================================
 -- SETUP COMPLETE
 -- ============================================================================
@@ -796,12 +1250,16 @@ GRANT ALL ON ALL TABLES IN SCHEMA public TO anon, authenticated, service_role;
 GRANT ALL ON ALL SEQUENCES IN SCHEMA public TO anon, authenticated, service_role;
 GRANT ALL ON ALL ROUTINES IN SCHEMA public TO anon, authenticated, service_role;
 
+-- Usage refunds and recharges are only issued by the server
+REVOKE EXECUTE ON FUNCTION public.refund_video_usage(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.recharge_video_usage(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
 -- Note: RLS policies will still enforce access control
 -- service_role can bypass RLS for webhooks and background jobs
 
 SELECT 'Refactored database setup complete! ✅
 
-Tables created (8 total):
+Tables created (15 total):
   1. user_profiles - User accounts & RBAC
   2. subscriptions - Minute-based billing (10 min free tier)
   3. videos - Centralized video metadata (NEW!)
@@ -810,6 +1268,13 @@ Tables created (8 total):
   6. analysis_shares - Public share links
   7. blog_posts - Blog CMS
   8. processing_jobs - Simplified job tracking
+  9. players - Player profiles across videos
+  10. video_players - Tracked player to profile links
+  11. reports - Generated match reports
+  12. video_annotations - Timestamped coach annotations and replies
+  13. job_events - Webhook progress updates for SSE
+  14. webhook_deliveries - Accepted webhook signatures (replay protection)
+  15. video_usage_refunds - Refunded minutes owed on re-analysis
 
 Key improvements:
   ✅ Videos table with soft delete support